@@ -0,0 +1,39 @@
+// Stands in for Tone's OfflineContext: render() runs the clock a block at a
+// time, emitting "tick" like Tone does, then resolves with `rendered`
+export class FakeOfflineContext {
+  currentTime = 0;
+  renderCount = 0;
+  readonly rendered = { numberOfChannels: 2 } as AudioBuffer;
+  readonly destination = { name: 'destination' };
+  readonly listener = Object.fromEntries(
+    ['positionX', 'positionY', 'positionZ', 'forwardX', 'forwardY', 'forwardZ', 'upX', 'upY', 'upZ']
+      .map(name => [name, { setValueAtTime: jest.fn(), linearRampToValueAtTime: jest.fn() }])
+  );
+  private readonly tickListeners = new Set<() => void>();
+
+  constructor(readonly channels: number, readonly duration: number, readonly sampleRate: number) {}
+
+  get listenerCount(): number {
+    return this.tickListeners.size;
+  }
+
+  on(_event: 'tick', callback: () => void) {
+    this.tickListeners.add(callback);
+    return this;
+  }
+
+  off(_event: 'tick', callback: () => void) {
+    this.tickListeners.delete(callback);
+    return this;
+  }
+
+  async render() {
+    this.renderCount++;
+    while (this.duration - this.currentTime >= 0) {
+      this.tickListeners.forEach(listener => listener());
+      this.currentTime += 128 / this.sampleRate;
+      await Promise.resolve();
+    }
+    return { get: () => this.rendered };
+  }
+}
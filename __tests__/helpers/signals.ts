@@ -0,0 +1,17 @@
+import { type AudioSignal } from '../../src/types/audio';
+
+/**
+ * An AudioSignal over the given channel data, which is what the analysis
+ * functions read instead of a real AudioBuffer. One array makes a mono signal.
+ */
+export function createSignal(channels: Float32Array | Float32Array[], sampleRate: number): AudioSignal {
+  const data = Array.isArray(channels) ? channels : [channels];
+  const length = data[0]?.length ?? 0;
+  return {
+    sampleRate,
+    length,
+    duration: length / sampleRate,
+    numberOfChannels: data.length,
+    getChannelData: channel => data[channel]
+  };
+}
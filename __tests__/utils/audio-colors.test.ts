@@ -0,0 +1,34 @@
+import { generateAudioColor, pickAudioColor } from '../../src/utils/audio-colors';
+
+describe('generateAudioColor', () => {
+  test('gives a long run of items distinct colors', () => {
+    const colors = Array.from({ length: 200 }, (_, index) => generateAudioColor(index));
+
+    expect(new Set(colors).size).toBe(colors.length);
+    colors.forEach(color => expect(color).toMatch(/^#[0-9A-F]{6}$/));
+  });
+
+  test('changes lightness from one color to the next', () => {
+    const lightness = (color: string) => {
+      const [r, g, b] = [1, 3, 5].map(offset => parseInt(color.slice(offset, offset + 2), 16));
+      return Math.max(r, g, b) + Math.min(r, g, b);
+    };
+
+    for (let index = 1; index < 12; index++) {
+      expect(lightness(generateAudioColor(index))).not.toBe(lightness(generateAudioColor(index - 1)));
+    }
+  });
+});
+
+describe('pickAudioColor', () => {
+  test('starts with the first color', () => {
+    expect(pickAudioColor([])).toBe(generateAudioColor(0));
+  });
+
+  test('skips colors in use, whatever their case', () => {
+    const used = [generateAudioColor(0).toLowerCase(), generateAudioColor(1), generateAudioColor(3).toLowerCase()];
+
+    expect(pickAudioColor(used)).toBe(generateAudioColor(2));
+    expect(pickAudioColor([...used, generateAudioColor(2).toLowerCase()])).toBe(generateAudioColor(4));
+  });
+});
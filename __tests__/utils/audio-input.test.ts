@@ -0,0 +1,156 @@
+import {
+  DEFAULT_INPUT_CONFIGURATION,
+  buildAudioConstraints,
+  listInputDevices,
+  loadInputConfiguration,
+  openInput,
+  saveInputConfiguration,
+  type InputConfiguration
+} from '../../src/utils/audio-input';
+
+interface FakeDevice {
+  deviceId: string;
+  kind: MediaDeviceKind;
+  label: string;
+  sampleRate: number;
+  channelCount: number;
+}
+
+// Stand-in for the parts of MediaDevices the input code uses. Granted
+// streams report the device's format and whatever processing was asked for.
+function createFakeMediaDevices(devices: FakeDevice[]) {
+  const requests: MediaStreamConstraints[] = [];
+
+  const getUserMedia = async (constraints: MediaStreamConstraints) => {
+    requests.push(constraints);
+    const audio = constraints.audio as MediaTrackConstraints;
+    const requested = (audio.deviceId as ConstrainDOMStringParameters | undefined)?.exact;
+    const inputs = devices.filter(device => device.kind === 'audioinput');
+    const device = requested ? inputs.find(input => input.deviceId === requested) : inputs[0];
+    if (!device) {
+      throw Object.assign(new Error('Requested device not found'), { name: 'OverconstrainedError' });
+    }
+
+    const settings: MediaTrackSettings = {
+      deviceId: device.deviceId,
+      sampleRate: device.sampleRate,
+      channelCount: device.channelCount,
+      echoCancellation: audio.echoCancellation as boolean,
+      noiseSuppression: audio.noiseSuppression as boolean,
+      autoGainControl: audio.autoGainControl as boolean
+    };
+    return { getAudioTracks: () => [{ getSettings: () => settings }] } as unknown as MediaStream;
+  };
+
+  const enumerateDevices = async () =>
+    devices.map(({ deviceId, kind, label }) => ({ deviceId, kind, label, groupId: '' }) as MediaDeviceInfo);
+
+  return { mediaDevices: { getUserMedia, enumerateDevices }, requests };
+}
+
+function createMemoryStorage(initial: Record<string, string> = {}) {
+  const values = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      values.set(key, value);
+    }
+  };
+}
+
+const builtIn: FakeDevice = { deviceId: 'built-in', kind: 'audioinput', label: '', sampleRate: 48000, channelCount: 1 };
+const interfaceInput: FakeDevice = {
+  deviceId: 'interface',
+  kind: 'audioinput',
+  label: 'USB Interface',
+  sampleRate: 96000,
+  channelCount: 4
+};
+const speakers: FakeDevice = { deviceId: 'speakers', kind: 'audiooutput', label: 'Speakers', sampleRate: 48000, channelCount: 2 };
+
+describe('listInputDevices', () => {
+  test('lists only inputs and numbers the ones without a name', async () => {
+    const { mediaDevices } = createFakeMediaDevices([builtIn, speakers, interfaceInput]);
+
+    expect(await listInputDevices(mediaDevices)).toEqual([
+      { deviceId: 'built-in', label: 'Input 1' },
+      { deviceId: 'interface', label: 'USB Interface' }
+    ]);
+  });
+});
+
+describe('openInput', () => {
+  test('turns the browser processing off by default', async () => {
+    const { mediaDevices, requests } = createFakeMediaDevices([builtIn]);
+    const { settings } = await openInput(mediaDevices, DEFAULT_INPUT_CONFIGURATION);
+
+    expect(requests[0].audio).toMatchObject({ echoCancellation: false, noiseSuppression: false, autoGainControl: false });
+    expect(requests[0].audio).not.toHaveProperty('deviceId');
+    expect(settings).toMatchObject({ deviceId: 'built-in', sampleRate: 48000, channelCount: 1, usedFallbackDevice: false });
+  });
+
+  test('opens the chosen device with enough channels for the chosen one', async () => {
+    const { mediaDevices, requests } = createFakeMediaDevices([builtIn, interfaceInput]);
+    const configuration: InputConfiguration = {
+      ...DEFAULT_INPUT_CONFIGURATION,
+      deviceId: 'interface',
+      noiseSuppression: true,
+      channel: 2
+    };
+    const { settings } = await openInput(mediaDevices, configuration);
+
+    expect(requests[0].audio).toMatchObject({ deviceId: { exact: 'interface' }, channelCount: { ideal: 3 } });
+    expect(settings).toMatchObject({ deviceId: 'interface', sampleRate: 96000, channelCount: 4, noiseSuppression: true });
+  });
+
+  test('falls back to the default device when the chosen one is gone', async () => {
+    const { mediaDevices, requests } = createFakeMediaDevices([builtIn]);
+    const { settings } = await openInput(mediaDevices, { ...DEFAULT_INPUT_CONFIGURATION, deviceId: 'interface' });
+
+    expect(requests).toHaveLength(2);
+    expect(settings).toMatchObject({ deviceId: 'built-in', usedFallbackDevice: true });
+  });
+
+  test('passes on refused access', async () => {
+    const mediaDevices = {
+      getUserMedia: () => Promise.reject(Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' }))
+    };
+
+    await expect(openInput(mediaDevices, { ...DEFAULT_INPUT_CONFIGURATION, deviceId: 'interface' }))
+      .rejects.toThrow('Permission denied');
+  });
+});
+
+describe('input configuration storage', () => {
+  test('restores a saved configuration', () => {
+    const storage = createMemoryStorage();
+    const configuration: InputConfiguration = {
+      deviceId: 'interface',
+      echoCancellation: true,
+      noiseSuppression: false,
+      autoGainControl: true,
+      channel: 1
+    };
+    saveInputConfiguration(storage, configuration);
+
+    expect(loadInputConfiguration(storage)).toEqual(configuration);
+  });
+
+  test('uses defaults for missing, invalid or damaged entries', () => {
+    expect(loadInputConfiguration(null)).toEqual(DEFAULT_INPUT_CONFIGURATION);
+    expect(loadInputConfiguration(createMemoryStorage())).toEqual(DEFAULT_INPUT_CONFIGURATION);
+
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(loadInputConfiguration(createMemoryStorage({ 'live-audio-input': '{not json' }))).toEqual(DEFAULT_INPUT_CONFIGURATION);
+    consoleError.mockRestore();
+
+    const partial = createMemoryStorage({ 'live-audio-input': JSON.stringify({ echoCancellation: 'yes', channel: -1, deviceId: 5 }) });
+    expect(loadInputConfiguration(partial)).toEqual(DEFAULT_INPUT_CONFIGURATION);
+  });
+});
+
+describe('buildAudioConstraints', () => {
+  test('asks for a stereo pair when every channel is kept', () => {
+    expect(buildAudioConstraints(DEFAULT_INPUT_CONFIGURATION).channelCount).toEqual({ ideal: 2 });
+  });
+});
@@ -0,0 +1,76 @@
+import { analyzeFrequencyOverlap, generateEQSuggestions } from '../../src/utils/audio-mixing';
+import { type AudioData } from '../../src/types/audio';
+import { createSignal } from '../helpers/signals';
+
+const sampleRate = 22050;
+
+// A sine that plays between `start` and `end` seconds of a `seconds` long signal
+function tone(frequency: number, start: number, end: number, seconds: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = Math.round(start * sampleRate); i < Math.min(samples.length, end * sampleRate); i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+}
+
+function mix(...parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(Math.max(...parts.map(part => part.length)));
+  parts.forEach(part => part.forEach((value, i) => (result[i] += value)));
+  return result;
+}
+
+function fakeTrack(samples: Float32Array): AudioData {
+  return { buffer: createSignal(samples, sampleRate) } as AudioData;
+}
+
+describe('analyzeFrequencyOverlap', () => {
+  test('locates collisions by band and time', () => {
+    // Both tracks share a 100 Hz tone between 2 and 4 seconds; only track 2 has highs
+    const track1 = fakeTrack(tone(100, 0, 4, 4));
+    const track2 = fakeTrack(mix(tone(100, 2, 6, 6, 0.4), tone(3000, 0, 6, 6)));
+
+    const analysis = analyzeFrequencyOverlap(track1, track2);
+    expect(analysis.duration).toBeCloseTo(6);
+
+    const bass = analysis.overlaps.find(overlap => overlap.band === 'Bass');
+    expect(bass).toBeDefined();
+    expect(bass!.isConstructive).toBe(false);
+    expect(bass!.magnitude1).toBeGreaterThan(bass!.magnitude2);
+    expect(analysis.overlaps.find(overlap => overlap.band === 'High Mids')).toBeUndefined();
+
+    const bassWindows = analysis.windows.filter(window => window.band === 'Bass');
+    expect(bassWindows).toHaveLength(1);
+    expect(bassWindows[0].start).toBeGreaterThan(1);
+    expect(bassWindows[0].start).toBeLessThan(2.5);
+    expect(bassWindows[0].end).toBeGreaterThan(3.5);
+    expect(bassWindows[0].end).toBeLessThan(5);
+    expect(bassWindows[0].dominantTrack).toBe(1);
+
+    const suggestions = generateEQSuggestions(analysis.overlaps);
+    expect(suggestions[0].track).toBe(1);
+    expect(suggestions[0].frequencyRange).toEqual({ low: 60, high: 250 });
+  });
+
+  test('analyzes the tracks at the gains they are matched with', () => {
+    // Track 2 is 20 dB quieter in the same band, until it is brought up to track 1
+    const track1 = fakeTrack(tone(100, 0, 4, 4));
+    const track2 = fakeTrack(tone(100, 0, 4, 4, 0.05));
+
+    const bass = (gains?: [number, number]) =>
+      analyzeFrequencyOverlap(track1, track2, gains).overlaps.find(overlap => overlap.band === 'Bass');
+    expect(bass()!.overlapIntensity).toBeCloseTo(0.1, 1);
+    expect(bass([0, 20])!.overlapIntensity).toBeCloseTo(1, 1);
+    expect(bass([0, 20])!.magnitude2).toBeCloseTo(bass()!.magnitude1, 3);
+  });
+
+  test('reports no masking for tracks in separate bands', () => {
+    const analysis = analyzeFrequencyOverlap(fakeTrack(tone(100, 0, 3, 3)), fakeTrack(tone(3000, 0, 3, 3)));
+    expect(analysis.windows).toEqual([]);
+    expect(analysis.overlaps).toEqual([]);
+  });
+
+  test('fails instead of inventing data for an empty track', () => {
+    expect(() => analyzeFrequencyOverlap(fakeTrack(tone(100, 0, 1, 1)), fakeTrack(new Float32Array(0))))
+      .toThrow('Track 2 contains no audio');
+  });
+});
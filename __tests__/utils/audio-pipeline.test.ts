@@ -0,0 +1,157 @@
+import { type AnalysisProgress, type AudioAnalysis, type AudioFeatures } from '../../src/types/audio';
+import { createAnalysisWorker } from '../../src/utils/analysis-worker';
+import {
+  analyzeInWorker,
+  isAbortError,
+  type AnalysisWorkerRequest,
+  type AnalysisWorkerResponse
+} from '../../src/utils/audio-pipeline';
+import { toAnalysisProgress } from '../../src/utils/audio-processing';
+import { createSignal } from '../helpers/signals';
+
+jest.mock('../../src/utils/analysis-worker', () => ({ createAnalysisWorker: jest.fn() }));
+
+const sampleRate = 8000;
+
+// Stands in for the analysis worker: records what it is sent and replies on demand
+class FakeWorker {
+  onmessage: ((event: MessageEvent<AnalysisWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: AnalysisWorkerRequest[] = [];
+  transfers: Transferable[][] = [];
+  terminated = false;
+
+  postMessage(request: AnalysisWorkerRequest, transfer: Transferable[]) {
+    this.requests.push(request);
+    this.transfers.push(transfer);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(message: AnalysisWorkerResponse) {
+    this.onmessage?.({ data: message } as MessageEvent<AnalysisWorkerResponse>);
+  }
+}
+
+function sine(frequency: number, seconds: number): Float32Array {
+  return Float32Array.from({ length: seconds * sampleRate }, (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+describe('toAnalysisProgress', () => {
+  test('maps progress within a stage onto its share of the pipeline', () => {
+    expect(toAnalysisProgress('decoding', 0)).toEqual({ stage: 'decoding', percent: 0 });
+    expect(toAnalysisProgress('spectrogram', 0.5)).toEqual({ stage: 'spectrogram', percent: 40 });
+    expect(toAnalysisProgress('analysis', 1)).toEqual({ stage: 'analysis', percent: 100 });
+  });
+
+  test('clamps fractions outside 0-1 to the stage', () => {
+    expect(toAnalysisProgress('beats', 2).percent).toBe(80);
+    expect(toAnalysisProgress('beats', -1).percent).toBe(70);
+  });
+});
+
+describe('analyzeInWorker', () => {
+  const createWorker = jest.mocked(createAnalysisWorker);
+  let worker: FakeWorker;
+
+  beforeEach(() => {
+    worker = new FakeWorker();
+    createWorker.mockReset();
+    createWorker.mockReturnValue(worker as unknown as Worker);
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+  });
+
+  afterEach(() => {
+    delete (globalThis as { Worker?: unknown }).Worker;
+  });
+
+  test('sends copies of the channels, forwards progress and resolves with the result', async () => {
+    const left = sine(440, 0.1);
+    const right = sine(220, 0.1);
+    const progress: AnalysisProgress[] = [];
+    const pending = analyzeInWorker(createSignal([left, right], sampleRate), { onProgress: update => progress.push(update) });
+
+    const [request] = worker.requests;
+    expect(request.sampleRate).toBe(sampleRate);
+    expect(request.channels).toHaveLength(2);
+    expect(request.channels[1]).toEqual(right);
+    // The caller's data stays put; only the copies are transferred
+    expect(request.channels[0]).not.toBe(left);
+    expect(worker.transfers[0]).toEqual(request.channels.map(channel => channel.buffer));
+
+    worker.reply({ type: 'progress', progress: toAnalysisProgress('spectrogram', 0.5) });
+    const features = {} as AudioFeatures;
+    const analysis = {} as AudioAnalysis;
+    worker.reply({ type: 'result', features, analysis });
+
+    const result = await pending;
+    expect(result.features).toBe(features);
+    expect(result.analysis).toBe(analysis);
+    expect(progress).toEqual([{ stage: 'spectrogram', percent: 40 }]);
+    expect(worker.terminated).toBe(true);
+  });
+
+  test('rejects with the worker\'s error and stops it', async () => {
+    const pending = analyzeInWorker(createSignal(sine(440, 0.1), sampleRate));
+    worker.reply({ type: 'error', message: 'Spectrogram failed' });
+
+    await expect(pending).rejects.toThrow('Spectrogram failed');
+    expect(worker.terminated).toBe(true);
+  });
+
+  test('rejects with an AbortError and stops the worker when aborted', async () => {
+    const controller = new AbortController();
+    const pending = analyzeInWorker(createSignal(sine(440, 0.1), sampleRate), { signal: controller.signal });
+    controller.abort();
+
+    const error = await pending.catch((reason: unknown) => reason);
+    expect(isAbortError(error)).toBe(true);
+    expect(worker.terminated).toBe(true);
+  });
+
+  test('does not start a worker for a signal that is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await analyzeInWorker(createSignal(sine(440, 0.1), sampleRate), { signal: controller.signal })
+      .catch((reason: unknown) => reason);
+    expect(isAbortError(error)).toBe(true);
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+
+  test('analyzes on the main thread where workers are missing', async () => {
+    delete (globalThis as { Worker?: unknown }).Worker;
+    const progress: AnalysisProgress[] = [];
+
+    const { features, analysis } = await analyzeInWorker(createSignal(sine(440, 2), sampleRate), {
+      onProgress: update => progress.push(update)
+    });
+
+    expect(createWorker).not.toHaveBeenCalled();
+    expect(features.spectrogram.data.length).toBeGreaterThan(0);
+    expect(analysis).toBeDefined();
+    // Progress only ever moves forward through the stages
+    const percents = progress.map(update => update.percent);
+    expect(percents).toEqual([...percents].sort((a, b) => a - b));
+    expect(progress[0].stage).toBe('rms');
+  });
+
+  test('stops a main-thread analysis at the next stage once aborted', async () => {
+    delete (globalThis as { Worker?: unknown }).Worker;
+    const controller = new AbortController();
+    const stages: string[] = [];
+
+    const error = await analyzeInWorker(createSignal(sine(440, 2), sampleRate), {
+      signal: controller.signal,
+      onProgress: update => {
+        stages.push(update.stage);
+        if (update.stage === 'loudness') controller.abort();
+      }
+    }).catch((reason: unknown) => reason);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(stages).not.toContain('spectrogram');
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  evaluateAutomation,
+  evaluateBezier,
+  getAutomatedPosition,
+  recordKeyframe,
+  setKeyframe
+} from '../../src/utils/automation';
+import { type AutomationKeyframe } from '../../src/types/spatial-audio';
+
+const linear = (time: number, value: number): AutomationKeyframe => ({ time, value, interpolation: 'linear' });
+
+describe('evaluateAutomation', () => {
+  test('interpolates linearly between keyframes and holds the ends', () => {
+    const curve = [linear(1, 0), linear(3, 10), linear(4, 4)];
+
+    expect(evaluateAutomation(curve, 0)).toBe(0);
+    expect(evaluateAutomation(curve, 2)).toBe(5);
+    expect(evaluateAutomation(curve, 3.5)).toBe(7);
+    expect(evaluateAutomation(curve, 9)).toBe(4);
+    expect(evaluateAutomation([], 1)).toBeUndefined();
+  });
+
+  test('eases bezier segments between the same end values', () => {
+    const curve: AutomationKeyframe[] = [{ time: 0, value: 0, interpolation: 'bezier' }, linear(1, 1)];
+
+    expect(evaluateAutomation(curve, 0.5)).toBeCloseTo(0.5);
+    expect(evaluateAutomation(curve, 0.1)!).toBeLessThan(0.1);
+    expect(evaluateAutomation(curve, 0.9)!).toBeGreaterThan(0.9);
+  });
+});
+
+describe('evaluateBezier', () => {
+  test('matches a straight line when the handles lie on it', () => {
+    [0, 0.25, 0.5, 0.75, 1].forEach(x => {
+      expect(evaluateBezier([1 / 3, 1 / 3, 2 / 3, 2 / 3], x)).toBeCloseTo(x);
+    });
+  });
+
+  test('follows steep handles', () => {
+    expect(evaluateBezier([0, 1, 0, 1], 0.2)).toBeGreaterThan(0.6);
+  });
+});
+
+describe('editing keyframes', () => {
+  test('setKeyframe keeps the curve in time order and replaces a keyframe at the same time', () => {
+    const curve = setKeyframe(setKeyframe([linear(2, 1)], linear(1, 5)), linear(2, 9));
+
+    expect(curve).toEqual([linear(1, 5), linear(2, 9)]);
+  });
+
+  test('recordKeyframe replaces what it passed over since the previous recorded value', () => {
+    const curve = [linear(0, 1), linear(1.5, 2), linear(1.8, 3), linear(4, 4)];
+
+    expect(recordKeyframe(curve, 1, 2, 7)).toEqual([linear(0, 1), linear(2, 7), linear(4, 4)]);
+  });
+});
+
+describe('getAutomatedPosition', () => {
+  test('automates only the axes with keyframes', () => {
+    const source = {
+      position: { x: 1, y: 0.5, z: -1 },
+      automation: { positionX: [linear(0, -4), linear(2, 4)] }
+    };
+
+    expect(getAutomatedPosition(source, 1)).toEqual({ x: 0, y: 0.5, z: -1 });
+  });
+});
@@ -0,0 +1,84 @@
+import { estimateTempo, trackBeatFrames, trackBeats } from '../../src/utils/beat-tracking';
+import { generateSpectrogram } from '../../src/utils/audio-processing';
+import { createSignal } from '../helpers/signals';
+
+const sampleRate = 22050;
+
+// Click track: short decaying noise bursts, with a low thump on each downbeat
+function clickTrack(bpm: number, seconds: number, beatsPerBar = 4): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  const interval = (60 / bpm) * sampleRate;
+  const clickLength = Math.round(0.03 * sampleRate);
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+
+  for (let beat = 0; beat * interval < samples.length; beat++) {
+    const start = Math.round(beat * interval);
+    const isDownbeat = beat % beatsPerBar === 0;
+    for (let i = 0; i < clickLength && start + i < samples.length; i++) {
+      const envelope = Math.exp(-i / (clickLength / 5));
+      let value = noise() * 0.5 * envelope;
+      if (isDownbeat) {
+        value += 0.8 * envelope * Math.sin((2 * Math.PI * 60 * i) / sampleRate);
+      }
+      samples[start + i] = value;
+    }
+  }
+
+  return samples;
+}
+
+describe('estimateTempo', () => {
+  test('finds the period of an impulse train', () => {
+    const frameRate = 100;
+    const envelope = new Float32Array(2000);
+    for (let i = 0; i < envelope.length; i += 50) envelope[i] = 1; // 120 BPM
+
+    const tempo = estimateTempo(envelope, frameRate);
+    expect(tempo.bpm).toBeCloseTo(120, 0);
+    expect(tempo.confidence).toBeGreaterThan(0.8);
+  });
+
+  test('reports no tempo for a flat envelope', () => {
+    expect(estimateTempo(new Float32Array(2000), 100)).toEqual({ bpm: 0, confidence: 0 });
+  });
+});
+
+describe('trackBeatFrames', () => {
+  test('locks onto the onsets and skips silent edges', () => {
+    const envelope = new Float32Array(1000);
+    for (let i = 120; i < 880; i += 40) envelope[i] = 1;
+
+    const frames = trackBeatFrames(envelope, 40);
+    expect(frames[0]).toBe(120);
+    expect(frames[frames.length - 1]).toBe(840);
+    frames.slice(1).forEach((frame, i) => expect(frame - frames[i]).toBe(40));
+  });
+});
+
+describe('trackBeats', () => {
+  test('produces a regular grid, tempo and downbeat for a click track', () => {
+    const spectrogram = generateSpectrogram(createSignal(clickTrack(128, 12), sampleRate));
+    const { beats, tempo, downbeat } = trackBeats(spectrogram, sampleRate);
+
+    expect(tempo.bpm).toBeGreaterThan(126);
+    expect(tempo.bpm).toBeLessThan(130);
+    expect(tempo.confidence).toBeGreaterThan(0.5);
+
+    const beatInterval = 60 / 128;
+    expect(beats.length).toBeGreaterThan(20);
+    beats.slice(1).forEach((beat, i) => {
+      expect(Math.abs(beat.time - beats[i].time - beatInterval)).toBeLessThan(0.05);
+    });
+
+    // Downbeats are the clicks at multiples of one bar
+    expect(downbeat).not.toBeNull();
+    const barLength = beatInterval * 4;
+    const barPhase = (downbeat!.time % barLength) / barLength;
+    expect(Math.min(barPhase, 1 - barPhase)).toBeLessThan(0.1);
+    expect(beats.filter(beat => beat.isDownbeat).length).toBeGreaterThan(4);
+  });
+});
@@ -0,0 +1,118 @@
+import * as Tone from 'tone';
+import { type SpatialAudioData, type SpatialAudioEnvironment } from '../../src/types/spatial-audio';
+import { renderBinaural } from '../../src/utils/binaural-render';
+import { type FakeOfflineContext } from '../helpers/offline-context';
+
+// Tone.js ships as ES modules only, so the nodes a render builds are stood in for
+jest.mock('tone', () => {
+  const { FakeOfflineContext } = jest.requireActual('../helpers/offline-context');
+  const created: FakeNode[] = [];
+  const createParam = () => ({ setValueAtTime: jest.fn(), linearRampToValueAtTime: jest.fn(), cancelScheduledValues: jest.fn() });
+
+  class FakeNode {
+    connect = jest.fn(() => this);
+    chain = jest.fn();
+    dispose = jest.fn();
+    constructor(readonly options?: unknown) {
+      created.push(this);
+    }
+  }
+  class Player extends FakeNode {
+    volume = createParam();
+    start = jest.fn();
+  }
+  class Panner3D extends FakeNode {
+    positionX = createParam();
+    positionY = createParam();
+    positionZ = createParam();
+  }
+  class Reverb extends FakeNode {
+    ready = Promise.resolve();
+  }
+
+  let context: unknown = 'live context';
+  return {
+    created,
+    OfflineContext: jest.fn(
+      (channels: number, duration: number, sampleRate: number) => new FakeOfflineContext(channels, duration, sampleRate)
+    ),
+    Gain: FakeNode,
+    Player,
+    Panner3D,
+    Reverb,
+    getContext: () => context,
+    setContext: (next: unknown) => {
+      context = next;
+    },
+    gainToDb: (gain: number) => 20 * Math.log10(gain)
+  };
+});
+
+const { created } = jest.requireMock<{ created: { dispose: jest.Mock }[] }>('tone');
+
+function environment(reverbLevel = 0): SpatialAudioEnvironment {
+  const source = {
+    id: 'a',
+    buffer: { duration: 2 } as AudioBuffer,
+    position: { x: 1, y: 0, z: -1 },
+    volume: 1
+  } as SpatialAudioData;
+  return {
+    audioSources: [source],
+    listenerPosition: { x: 0, y: 0, z: 2 },
+    listenerOrientation: { forward: { x: 0, y: 0, z: -1 }, up: { x: 0, y: 1, z: 0 } },
+    reverbLevel,
+    roomSize: 2
+  };
+}
+
+function lastOfflineContext(): FakeOfflineContext {
+  const results = jest.mocked(Tone.OfflineContext).mock.results;
+  return results[results.length - 1].value as FakeOfflineContext;
+}
+
+describe('renderBinaural', () => {
+  beforeEach(() => {
+    created.length = 0;
+  });
+
+  test('renders the scene offline, reporting progress, and cleans up', async () => {
+    const progress: number[] = [];
+    const rendered = await renderBinaural(environment(), {
+      sampleRate: 12800,
+      onProgress: fraction => progress.push(fraction)
+    });
+
+    const offline = lastOfflineContext();
+    expect(rendered).toBe(offline.rendered);
+    expect([offline.channels, offline.duration, offline.sampleRate]).toEqual([2, 2, 12800]);
+    expect(offline.listener.positionZ.setValueAtTime).toHaveBeenCalledWith(2, 0);
+
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    // The bus, the player and its panner
+    expect(created).toHaveLength(3);
+    expect(created.every(node => node.dispose.mock.calls.length === 1)).toBe(true);
+    expect(Tone.getContext()).toBe('live context');
+  });
+
+  test('renders the reverb tail when the room has reverb', async () => {
+    await renderBinaural(environment(0.5), { sampleRate: 12800 });
+
+    expect(lastOfflineContext().duration).toBe(5);
+  });
+
+  test('stops with an AbortError when cancelled mid-render and still cleans up', async () => {
+    const controller = new AbortController();
+    const error = await renderBinaural(environment(), {
+      sampleRate: 12800,
+      signal: controller.signal,
+      onProgress: fraction => {
+        if (fraction >= 0.5) controller.abort();
+      }
+    }).catch((reason: unknown) => reason);
+
+    expect((error as DOMException).name).toBe('AbortError');
+    expect(created.every(node => node.dispose.mock.calls.length === 1)).toBe(true);
+  });
+});
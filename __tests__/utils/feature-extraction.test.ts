@@ -0,0 +1,80 @@
+import { generateSpectrogram } from '../../src/utils/audio-processing';
+import { extractSpectralDescriptors, getDescriptorBuffers } from '../../src/utils/feature-extraction';
+import { createSignal } from '../helpers/signals';
+
+const sampleRate = 22050;
+
+// One second of a harmonic 220 Hz tone, then one second of noise
+function toneThenNoise(): Float32Array {
+  const samples = new Float32Array(sampleRate * 2);
+  let seed = 1;
+  for (let i = 0; i < sampleRate; i++) {
+    for (let harmonic = 1; harmonic <= 5; harmonic++) {
+      samples[i] += (0.2 / harmonic) * Math.sin((2 * Math.PI * 220 * harmonic * i) / sampleRate);
+    }
+    seed = (seed * 16807) % 2147483647;
+    samples[sampleRate + i] = (seed / 2147483647 - 0.5) * 0.5;
+  }
+  return samples;
+}
+
+const mean = (values: ArrayLike<number>) => Array.from(values).reduce((sum, value) => sum + value, 0) / values.length;
+
+describe('extractSpectralDescriptors', () => {
+  const signal = createSignal(toneThenNoise(), sampleRate);
+  const descriptors = extractSpectralDescriptors(signal);
+
+  // Frames that lie wholly within the tone, and wholly within the noise
+  const frameCount = descriptors.level.length;
+  const frameSeconds = descriptors.fftSize / sampleRate;
+  const toneFrames = (series: ArrayLike<number>) =>
+    Array.from(series).filter((_, i) => i * descriptors.frameDuration + frameSeconds < 1);
+  const noiseFrames = (series: ArrayLike<number>) =>
+    Array.from(series).filter((_, i) => i * descriptors.frameDuration > 1);
+
+  test('returns one value of every descriptor per frame', () => {
+    expect(descriptors.frameDuration).toBeCloseTo(descriptors.hopSize / sampleRate);
+    expect(frameCount).toBeGreaterThan(60);
+    [
+      descriptors.centroid,
+      descriptors.bandwidth,
+      descriptors.rolloff,
+      descriptors.flatness,
+      descriptors.zeroCrossingRate,
+      descriptors.pitch,
+      descriptors.pitchClarity
+    ].forEach(series => expect(series).toHaveLength(frameCount));
+    expect(descriptors.mfcc).toHaveLength(frameCount);
+    expect(descriptors.mfcc[0]).toHaveLength(13);
+    expect(descriptors.contrast[0]).toHaveLength(7);
+  });
+
+  test('follows the signal from a tone into noise', () => {
+    expect(mean(toneFrames(descriptors.pitch))).toBeCloseTo(220, -1);
+    expect(mean(toneFrames(descriptors.pitchClarity))).toBeGreaterThan(0.8);
+    expect(mean(noiseFrames(descriptors.pitchClarity))).toBeLessThan(0.5);
+
+    expect(mean(toneFrames(descriptors.flatness))).toBeLessThan(0.05);
+    expect(mean(noiseFrames(descriptors.flatness))).toBeGreaterThan(0.3);
+    expect(mean(noiseFrames(descriptors.zeroCrossingRate))).toBeGreaterThan(mean(toneFrames(descriptors.zeroCrossingRate)));
+    expect(mean(noiseFrames(descriptors.bandwidth))).toBeGreaterThan(mean(toneFrames(descriptors.bandwidth)));
+  });
+
+  test('gives the same descriptors from an existing decibel spectrogram', () => {
+    const fromSpectrogram = extractSpectralDescriptors(signal, generateSpectrogram(signal));
+
+    expect(fromSpectrogram.hopSize).toBe(descriptors.hopSize);
+    expect(fromSpectrogram.level.length).toBeGreaterThanOrEqual(frameCount - 1);
+    for (let i = 0; i < frameCount - 1; i += 10) {
+      expect(fromSpectrogram.centroid[i]).toBeCloseTo(descriptors.centroid[i], -1);
+      expect(fromSpectrogram.pitch[i]).toBeCloseTo(descriptors.pitch[i], 0);
+    }
+  });
+
+  test('lists a distinct buffer for every series', () => {
+    const buffers = getDescriptorBuffers(descriptors);
+
+    expect(buffers).toHaveLength(8 + frameCount * 2);
+    expect(new Set(buffers).size).toBe(buffers.length);
+  });
+});
@@ -0,0 +1,93 @@
+import { type CachedAudioAnalysis } from '../../src/types/audio';
+import { type AudioLibraryItem } from '../../src/types/spatial-audio';
+import {
+  filterLibraryItems,
+  groupLibraryItemsByFolder,
+  parseTags,
+  sortLibraryItems
+} from '../../src/utils/library-organization';
+
+function item(name: string, details: Partial<AudioLibraryItem> & { duration?: number } = {}): AudioLibraryItem {
+  const { duration, ...rest } = details;
+  return {
+    id: name,
+    name,
+    color: '#FFFFFF',
+    ...(duration === undefined ? {} : { cachedAnalysis: { metadata: { duration } } as CachedAudioAnalysis }),
+    ...rest
+  };
+}
+
+const names = (items: AudioLibraryItem[]) => items.map(current => current.name);
+
+describe('parseTags', () => {
+  test('trims, lower-cases and drops blank and repeated tags', () => {
+    expect(parseTags(' Drums, loop ,, DRUMS,Live ')).toEqual(['drums', 'loop', 'live']);
+    expect(parseTags('')).toEqual([]);
+  });
+});
+
+describe('filterLibraryItems', () => {
+  const items = [
+    item('Kick.wav', { folder: 'Drums', tags: ['one-shot'] }),
+    item('Snare loop.wav', { folder: 'Drums', tags: ['loop'] }),
+    item('Pad.wav', { tags: ['ambient', 'loop'] }),
+    item('Loop ideas.wav')
+  ];
+
+  test('matches every word against name, folder and tags, ignoring case', () => {
+    expect(names(filterLibraryItems(items, 'drums'))).toEqual(['Kick.wav', 'Snare loop.wav']);
+    expect(names(filterLibraryItems(items, 'LOOP drums'))).toEqual(['Snare loop.wav']);
+    expect(names(filterLibraryItems(items, 'ambient'))).toEqual(['Pad.wav']);
+  });
+
+  test('matches "#word" against tags only', () => {
+    expect(names(filterLibraryItems(items, '#loop'))).toEqual(['Snare loop.wav', 'Pad.wav']);
+    expect(names(filterLibraryItems(items, '#one'))).toEqual(['Kick.wav']);
+  });
+
+  test('returns everything for a blank query', () => {
+    expect(filterLibraryItems(items, '   ')).toBe(items);
+  });
+});
+
+describe('sortLibraryItems', () => {
+  const items = [
+    item('track 10', { addedAt: 3, duration: 30, folder: 'b' }),
+    item('Track 2', { addedAt: 1, folder: 'A' }),
+    item('track 1', { addedAt: 2, duration: 5 })
+  ];
+
+  test('sorts names naturally, ignoring case', () => {
+    expect(names(sortLibraryItems(items, 'name'))).toEqual(['track 1', 'Track 2', 'track 10']);
+  });
+
+  test('puts items of unknown duration last', () => {
+    expect(names(sortLibraryItems(items, 'duration'))).toEqual(['track 1', 'track 10', 'Track 2']);
+  });
+
+  test('sorts by folder, then name, and by time added', () => {
+    expect(names(sortLibraryItems(items, 'folder'))).toEqual(['track 1', 'Track 2', 'track 10']);
+    expect(names(sortLibraryItems(items, 'added'))).toEqual(['Track 2', 'track 1', 'track 10']);
+  });
+
+  test('leaves the given list alone', () => {
+    sortLibraryItems(items, 'name');
+    expect(names(items)).toEqual(['track 10', 'Track 2', 'track 1']);
+  });
+});
+
+describe('groupLibraryItemsByFolder', () => {
+  test('lists folders alphabetically, then the items outside any folder, keeping their order', () => {
+    const groups = groupLibraryItemsByFolder([
+      item('a', { folder: 'Vocals' }),
+      item('b'),
+      item('c', { folder: 'drums' }),
+      item('d', { folder: 'Vocals' }),
+      item('e', { folder: '' })
+    ]);
+
+    expect(groups.map(group => group.folder)).toEqual(['drums', 'Vocals', null]);
+    expect(groups.map(group => names(group.items))).toEqual([['c'], ['a', 'd'], ['b', 'e']]);
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  createIndexedDBLibraryStorage,
+  createStoredItem,
+  getStoredItemAnalysis,
+  getStoredItemFile,
+  getStoredItemSize,
+  type StoredLibraryItem
+} from '../../src/utils/library-storage';
+import { type AudioAnalysis, type AudioFeatures, type AudioMetadata } from '../../src/types/audio';
+
+interface FakeRequest {
+  result?: unknown;
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onupgradeneeded?: () => void;
+}
+
+interface FakeStore {
+  keyPath: string;
+  records: Map<IDBValidKey, unknown>;
+}
+
+// In-memory stand-in for the parts of IndexedDB the library storage uses.
+// Every request completes on a later tick, like the real thing.
+function createFakeIndexedDB() {
+  const databases = new Map<string, { version: number; stores: Map<string, FakeStore> }>();
+  let upgradeCount = 0;
+
+  const openConnection = (database: { stores: Map<string, FakeStore> }) => ({
+    objectStoreNames: { contains: (name: string) => database.stores.has(name) },
+    createObjectStore: (name: string, { keyPath }: { keyPath: string }) => {
+      database.stores.set(name, { keyPath, records: new Map() });
+    },
+    transaction: (name: string, mode: IDBTransactionMode) => {
+      const transaction: { oncomplete?: () => void } = {};
+      const store = database.stores.get(name);
+      if (!store) throw new DOMException(`No object store ${name}`, 'NotFoundError');
+
+      // The transaction commits once no request is outstanding, so requests
+      // made from a success handler still belong to it
+      let outstanding = 0;
+      const request = (write: boolean, run: () => unknown): FakeRequest => {
+        if (write && mode === 'readonly') throw new DOMException('Read-only transaction', 'ReadOnlyError');
+        const pending: FakeRequest = {};
+        outstanding++;
+        setTimeout(() => {
+          pending.result = run();
+          pending.onsuccess?.();
+          if (--outstanding === 0) setTimeout(() => transaction.oncomplete?.());
+        });
+        return pending;
+      };
+
+      return Object.assign(transaction, {
+        objectStore: () => ({
+          put: (value: Record<string, IDBValidKey>) => request(true, () => {
+            store.records.set(value[store.keyPath], value);
+            return value[store.keyPath];
+          }),
+          get: (key: IDBValidKey) => request(false, () => store.records.get(key)),
+          getAll: () => request(false, () => [...store.records.values()]),
+          delete: (key: IDBValidKey) => request(true, () => store.records.delete(key)),
+          clear: () => request(true, () => store.records.clear())
+        })
+      });
+    }
+  });
+
+  const factory = {
+    open: (name: string, version: number) => {
+      const pending: FakeRequest = {};
+      setTimeout(() => {
+        let database = databases.get(name);
+        const needsUpgrade = !database || database.version < version;
+        if (!database) {
+          database = { version, stores: new Map() };
+          databases.set(name, database);
+        }
+        pending.result = openConnection(database);
+        if (needsUpgrade) {
+          database.version = version;
+          upgradeCount++;
+          pending.onupgradeneeded?.();
+        }
+        pending.onsuccess?.();
+      });
+      return pending;
+    }
+  };
+
+  return { factory: factory as unknown as IDBFactory, getUpgradeCount: () => upgradeCount };
+}
+
+function storedItem(id: string, addedAt: number, bytes: number[]): StoredLibraryItem {
+  return {
+    id,
+    name: `${id}.wav`,
+    color: '#38AECC',
+    addedAt,
+    file: { name: `${id}.wav`, type: 'audio/wav', lastModified: 0, data: new Uint8Array(bytes).buffer },
+    metadata: { name: `${id}.wav`, size: bytes.length } as AudioMetadata,
+    features: { spectrogram: { data: [new Float32Array(4)] } } as AudioFeatures,
+    analysis: { summary: `analysis of ${id}` } as AudioAnalysis
+  };
+}
+
+describe('createIndexedDBLibraryStorage', () => {
+  test('restores stored items in the order they were added', async () => {
+    const { factory } = createFakeIndexedDB();
+    const storage = createIndexedDBLibraryStorage(factory);
+
+    await storage.put(storedItem('b', 2, [4, 5]));
+    await storage.put(storedItem('a', 1, [1, 2, 3]));
+
+    const items = await storage.getAll();
+    expect(items.map(item => item.id)).toEqual(['a', 'b']);
+    expect(items[0].analysis?.summary).toBe('analysis of a');
+  });
+
+  test('keeps items across sessions and creates the store only once', async () => {
+    const { factory, getUpgradeCount } = createFakeIndexedDB();
+    await createIndexedDBLibraryStorage(factory).put(storedItem('a', 1, [1]));
+
+    const nextSession = createIndexedDBLibraryStorage(factory);
+    expect((await nextSession.getAll()).map(item => item.id)).toEqual(['a']);
+    expect(getUpgradeCount()).toBe(1);
+  });
+
+  test('updates the details of stored items', async () => {
+    const { factory } = createFakeIndexedDB();
+    const storage = createIndexedDBLibraryStorage(factory);
+    await storage.put(storedItem('a', 1, [1, 2]));
+
+    await storage.update('a', { folder: 'Stems', tags: ['drums'] });
+    await storage.update('missing', { folder: 'Nowhere' });
+
+    const items = await storage.getAll();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ id: 'a', folder: 'Stems', tags: ['drums'] });
+    expect(items[0].file.data.byteLength).toBe(2);
+  });
+
+  test('deletes single items and clears the store', async () => {
+    const { factory } = createFakeIndexedDB();
+    const storage = createIndexedDBLibraryStorage(factory);
+    await storage.put(storedItem('a', 1, [1]));
+    await storage.put(storedItem('b', 2, [2]));
+    await storage.put(storedItem('c', 3, [3]));
+
+    await storage.delete('b');
+    expect((await storage.getAll()).map(item => item.id)).toEqual(['a', 'c']);
+
+    await storage.clear();
+    expect(await storage.getAll()).toEqual([]);
+  });
+});
+
+describe('stored items', () => {
+  test('carry the file bytes and rebuild the file', async () => {
+    const file = new File([new Uint8Array([1, 2, 3, 4, 5])], 'kick.wav', { type: 'audio/wav' });
+    const item = await createStoredItem({ id: 'kick', name: 'Kick', color: '#FF5F6D', addedAt: 1 }, file, {
+      metadata: { name: 'kick.wav' } as AudioMetadata,
+      features: { spectrogram: { data: [new Float32Array(8), new Float32Array(8)] } } as AudioFeatures,
+      analysis: {} as AudioAnalysis
+    });
+
+    expect(Array.from(new Uint8Array(item.file.data))).toEqual([1, 2, 3, 4, 5]);
+    expect(getStoredItemSize(item)).toBe(5 + 2 * 8 * 4);
+
+    const restored = getStoredItemFile(item);
+    expect(restored.name).toBe('kick.wav');
+    expect(restored.type).toBe('audio/wav');
+    expect(restored.size).toBe(5);
+  });
+
+  test('keep their analysis only once there is one', async () => {
+    const file = new File([new Uint8Array([1, 2, 3])], 'pad.wav');
+    const unanalyzed = await createStoredItem({ id: 'pad', name: 'Pad', color: '#38AECC', addedAt: 1 }, file);
+
+    expect(getStoredItemAnalysis(unanalyzed)).toBeUndefined();
+    expect(getStoredItemSize(unanalyzed)).toBe(3);
+    expect(getStoredItemAnalysis(storedItem('a', 1, [1]))).toMatchObject({ analysis: { summary: 'analysis of a' } });
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  createLevelMeter,
+  createRtaAverager,
+  getBandPowers,
+  getOctaveBands,
+  getWeightedPower,
+  getWeightingGain
+} from '../../src/utils/live-measurement';
+import { fft } from '../../src/utils/stft';
+
+const sampleRate = 48000;
+const fftSize = 8192;
+
+function sine(frequency: number, amplitude: number): Float32Array {
+  return Float32Array.from({ length: fftSize }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+// What AnalyserNode.getFloatFrequencyData reports for a block: a Blackman
+// window, then the magnitude of each bin over the FFT size in decibels
+function analyserSpectrum(samples: Float32Array): Float32Array {
+  const real = samples.map((sample, i) => {
+    const phase = (2 * Math.PI * i) / fftSize;
+    return sample * (0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase));
+  });
+  const imag = new Float32Array(fftSize);
+  fft(real, imag);
+  return Float32Array.from({ length: fftSize / 2 }, (_, bin) =>
+    20 * Math.log10(Math.hypot(real[bin], imag[bin]) / fftSize)
+  );
+}
+
+const toDecibels = (power: number) => 10 * Math.log10(power);
+
+describe('getOctaveBands', () => {
+  test('lays out the nominal 1/3-octave bands', () => {
+    const bands = getOctaveBands(3, 20000);
+
+    expect(bands).toHaveLength(31);
+    expect(bands[0].label).toBe('20');
+    expect(bands.map(band => band.label).slice(0, 6)).toEqual(['20', '25', '31.5', '40', '50', '63']);
+    expect(bands[17].center).toBeCloseTo(1000, 6);
+    expect(bands[30].label).toBe('20k');
+    // Adjacent bands share their edges
+    expect(bands[5].high).toBeCloseTo(bands[6].low, 6);
+  });
+
+  test('splits each 1/3 octave in two for 1/6-octave resolution', () => {
+    const thirds = getOctaveBands(3, 17000, 90);
+    const sixths = getOctaveBands(6, 17000, 90);
+
+    expect(sixths.length).toBe(thirds.length * 2);
+    expect(sixths[0].low).toBeCloseTo(thirds[0].low, 6);
+    expect(sixths[1].high).toBeCloseTo(thirds[0].high, 6);
+  });
+});
+
+describe('getWeightingGain', () => {
+  test('follows the IEC 61672 tables', () => {
+    // The tables list exact band centers under their nominal labels
+    const hz31 = 1000 * Math.pow(10, -1.5);
+    expect(getWeightingGain(1000, 'A')).toBeCloseTo(0, 1);
+    expect(getWeightingGain(100, 'A')).toBeCloseTo(-19.1, 1);
+    expect(getWeightingGain(hz31, 'A')).toBeCloseTo(-39.4, 1);
+    expect(getWeightingGain(10000, 'A')).toBeCloseTo(-2.5, 1);
+    expect(getWeightingGain(1000, 'C')).toBeCloseTo(0, 1);
+    expect(getWeightingGain(hz31, 'C')).toBeCloseTo(-3.0, 1);
+    expect(getWeightingGain(8000, 'C')).toBeCloseTo(-3.0, 1);
+    expect(getWeightingGain(50, 'Z')).toBe(0);
+  });
+});
+
+describe('band and weighted power', () => {
+  test('puts a tone\'s RMS level into the band holding it', () => {
+    const bands = getOctaveBands(3, 20000);
+    const powers = getBandPowers(analyserSpectrum(sine(1000, 0.5)), sampleRate, bands);
+    const loudest = powers.indexOf(Math.max(...powers));
+
+    expect(bands[loudest].label).toBe('1k');
+    // A sine of amplitude 0.5 has an RMS level of -9.03 dBFS
+    expect(toDecibels(powers[loudest])).toBeCloseTo(-9.03, 1);
+    expect(toDecibels(powers[loudest + 3])).toBeLessThan(-60);
+  });
+
+  test('weights a low tone down on the A scale', () => {
+    const spectrum = analyserSpectrum(sine(100, 0.5));
+
+    expect(toDecibels(getWeightedPower(spectrum, sampleRate, 'Z'))).toBeCloseTo(-9.03, 1);
+    expect(toDecibels(getWeightedPower(spectrum, sampleRate, 'A'))).toBeCloseTo(-9.03 - 19.1, 0);
+  });
+});
+
+describe('createRtaAverager', () => {
+  const frame = (power: number) => Float64Array.from([power]);
+
+  test('settles towards the input with exponential averaging', () => {
+    const averager = createRtaAverager(1, { averaging: 'exponential', averagingTime: 1 });
+    averager.update(frame(1), 0.1);
+    const reading = averager.update(frame(0.01), 1);
+
+    // One time constant covers 63% of the way from 1 to 0.01
+    expect(reading.levels[0]).toBeCloseTo(toDecibels(1 - 0.99 * (1 - Math.exp(-1))), 4);
+  });
+
+  test('weighs the frames of the window equally with linear averaging', () => {
+    const averager = createRtaAverager(1, { averaging: 'linear', averagingTime: 0.3 });
+    averager.update(frame(4), 0.1);
+    averager.update(frame(2), 0.1);
+    expect(averager.update(frame(0), 0.1).levels[0]).toBeCloseTo(toDecibels(2), 4);
+
+    // The first frame has slid out
+    expect(averager.update(frame(1), 0.1).levels[0]).toBeCloseTo(toDecibels(1), 4);
+  });
+
+  test('averages everything since the reset with infinite averaging', () => {
+    const averager = createRtaAverager(1, { averaging: 'infinite' });
+    [1, 2, 3, 6].forEach(power => averager.update(frame(power), 1));
+    expect(averager.update(frame(3), 1).levels[0]).toBeCloseTo(toDecibels(3), 4);
+
+    averager.reset();
+    expect(averager.update(frame(0.5), 1).levels[0]).toBeCloseTo(toDecibels(0.5), 4);
+  });
+
+  test('holds peaks for the hold time, then lets them fall, while max hold stays', () => {
+    const averager = createRtaAverager(1, { averaging: 'linear', averagingTime: 0.01, peakHoldTime: 1, peakDecay: 10 });
+    averager.update(frame(1), 0.1);
+
+    const held = averager.update(frame(0.001), 0.5);
+    expect(held.peaks[0]).toBe(0);
+
+    const falling = averager.update(frame(0.001), 1);
+    expect(falling.peaks[0]).toBeCloseTo(-10, 4);
+    expect(falling.maxHold[0]).toBe(0);
+    expect(falling.levels[0]).toBeCloseTo(-30, 4);
+  });
+});
+
+describe('createLevelMeter', () => {
+  test('reads a tone\'s level, peak and crest factor', () => {
+    const meter = createLevelMeter('Z', 'fast');
+    const samples = sine(1000, 0.5);
+    const reading = meter.update(analyserSpectrum(samples), samples, sampleRate, 0.05);
+
+    expect(reading.level).toBeCloseTo(-9.03, 1);
+    expect(reading.peak).toBeCloseTo(-6.02, 1);
+    // A sine's crest factor is 3 dB
+    expect(reading.crestFactor).toBeCloseTo(3.01, 1);
+  });
+
+  test('falls slower with slow time weighting and keeps the maximum', () => {
+    const loud = sine(1000, 0.5);
+    const quiet = sine(1000, 0.005);
+    const fast = createLevelMeter('Z', 'fast');
+    const slow = createLevelMeter('Z', 'slow');
+    [fast, slow].forEach(meter => meter.update(analyserSpectrum(loud), loud, sampleRate, 0.1));
+
+    const fastReading = fast.update(analyserSpectrum(quiet), quiet, sampleRate, 0.25);
+    const slowReading = slow.update(analyserSpectrum(quiet), quiet, sampleRate, 0.25);
+
+    expect(slowReading.level).toBeGreaterThan(fastReading.level);
+    expect(fastReading.max).toBeCloseTo(-9.03, 1);
+  });
+});
@@ -0,0 +1,156 @@
+import { type AudioSignal } from '../../src/types/audio';
+import {
+  applyGain,
+  compareToTarget,
+  createLoudnessMeter,
+  getMatchGains,
+  getNormalizationGain,
+  LOUDNESS_TARGETS,
+  measureLoudness
+} from '../../src/utils/loudness';
+import { createSignal } from '../helpers/signals';
+
+// A sine at `amplitudes[i]` for `durations[i]` seconds in turn, the same in every channel
+function segmentedSine(
+  sampleRate: number,
+  channelCount: number,
+  segments: { duration: number; amplitude: number; frequency?: number; phase?: number }[]
+): AudioSignal {
+  const length = Math.round(segments.reduce((sum, segment) => sum + segment.duration, 0) * sampleRate);
+  const data = new Float32Array(length);
+  let offset = 0;
+  segments.forEach(({ duration, amplitude, frequency = 1000, phase = 0 }) => {
+    const count = Math.round(duration * sampleRate);
+    for (let i = 0; i < count; i++) {
+      data[offset + i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate + phase);
+    }
+    offset += count;
+  });
+
+  return createSignal(Array.from({ length: channelCount }, () => data), sampleRate);
+}
+
+const dbfs = (decibels: number) => Math.pow(10, decibels / 20);
+
+describe('measureLoudness', () => {
+  test('reads a stereo 1 kHz sine at -23 dBFS as -23 LUFS', () => {
+    const loudness = measureLoudness(segmentedSine(48000, 2, [{ duration: 5, amplitude: dbfs(-23) }]));
+
+    expect(loudness.integrated).toBeCloseTo(-23, 1);
+    expect(loudness.maxMomentary).toBeCloseTo(-23, 1);
+    expect(loudness.maxShortTerm).toBeCloseTo(-23, 1);
+  });
+
+  test('gates silence out of the integrated loudness', () => {
+    const loudness = measureLoudness(segmentedSine(48000, 2, [
+      { duration: 4, amplitude: dbfs(-23) },
+      { duration: 4, amplitude: 0 }
+    ]));
+
+    // Only the blocks that straddle the end of the tone pull it down
+    expect(loudness.integrated).toBeGreaterThan(-23.3);
+    expect(loudness.integrated).toBeLessThan(-22.9);
+  });
+
+  test('measures the loudness range between two levels', () => {
+    const loudness = measureLoudness(segmentedSine(16000, 1, [
+      { duration: 20, amplitude: dbfs(-20) },
+      { duration: 20, amplitude: dbfs(-30) }
+    ]));
+
+    expect(loudness.range).toBeGreaterThan(9);
+    expect(loudness.range).toBeLessThan(11);
+  });
+
+  test('finds true peaks between the samples', () => {
+    // A quarter of the sample rate, sampled 45 degrees off its peaks
+    const loudness = measureLoudness(segmentedSine(48000, 1, [
+      { duration: 1, amplitude: 1, frequency: 12000, phase: Math.PI / 4 }
+    ]));
+
+    expect(loudness.truePeak).toBeGreaterThan(-0.5);
+    expect(loudness.truePeak).toBeLessThan(0.5);
+  });
+
+  test('measures silence as minus infinity', () => {
+    expect(measureLoudness(segmentedSine(48000, 2, [{ duration: 1, amplitude: 0 }]))).toEqual({
+      integrated: -Infinity,
+      range: 0,
+      truePeak: -Infinity,
+      maxMomentary: -Infinity,
+      maxShortTerm: -Infinity
+    });
+  });
+});
+
+describe('createLoudnessMeter', () => {
+  test('reads the same whatever size of chunk it is fed', () => {
+    const signal = segmentedSine(44100, 2, [
+      { duration: 2, amplitude: dbfs(-12) },
+      { duration: 2, amplitude: dbfs(-30) }
+    ]);
+    const data = signal.getChannelData(0);
+    const meter = createLoudnessMeter(44100, 2);
+    for (let start = 0; start < data.length; start += 1000) {
+      const chunk = data.subarray(start, start + 1000);
+      meter.push([chunk, chunk]);
+    }
+
+    const reading = meter.read();
+    expect(reading.integrated).toBeCloseTo(measureLoudness(signal).integrated, 6);
+    expect(reading.momentary).toBeCloseTo(-30, 0);
+
+    meter.reset();
+    expect(meter.read().integrated).toBe(-Infinity);
+  });
+});
+
+describe('compareToTarget', () => {
+  test('gives the gain to reach a target and flags peaks over its ceiling', () => {
+    const streaming = LOUDNESS_TARGETS.find(target => target.id === 'streaming')!;
+    const measurement = { integrated: -20, range: 5, truePeak: -0.5, maxMomentary: -15, maxShortTerm: -17 };
+
+    expect(compareToTarget(measurement, streaming)).toEqual({ gain: 6, isOverCeiling: true });
+  });
+});
+
+describe('normalization', () => {
+  const measurement = (integrated: number, truePeak: number) => ({
+    integrated,
+    range: 0,
+    truePeak,
+    maxMomentary: integrated,
+    maxShortTerm: integrated
+  });
+
+  test('matches two tracks by turning the louder one down', () => {
+    expect(getMatchGains(measurement(-10, -1), measurement(-16, -4))).toEqual([-6, 0]);
+    expect(getMatchGains(measurement(-20, -6), measurement(-14, -2))).toEqual([0, -6]);
+    expect(getMatchGains(measurement(-20, -6), undefined)).toEqual([0, 0]);
+  });
+
+  test('reaches the target loudness unless the true-peak ceiling is in the way', () => {
+    const target = { integrated: -14, truePeak: -1 };
+
+    expect(getNormalizationGain(measurement(-20, -10), target)).toEqual({
+      gain: 6,
+      integrated: -14,
+      truePeak: -4,
+      isPeakLimited: false
+    });
+    expect(getNormalizationGain(measurement(-20, -3), target)).toEqual({
+      gain: 2,
+      integrated: -18,
+      truePeak: -1,
+      isPeakLimited: true
+    });
+  });
+
+  test('changes the loudness of a signal by the gain applied', () => {
+    const signal = segmentedSine(48000, 2, [{ duration: 1, amplitude: dbfs(-20) }]);
+    const louder = applyGain(signal, 6);
+
+    expect(measureLoudness(louder).integrated).toBeCloseTo(measureLoudness(signal).integrated + 6, 6);
+    expect(signal.getChannelData(0)[12]).not.toBe(louder.getChannelData(0)[12]);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  DEFAULT_MIXER_CHANNEL,
+  FADER_MAX_DB,
+  FADER_MIN_DB,
+  faderToDecibels,
+  faderToVolume,
+  getAudibleSourceIds,
+  measureLevels,
+  volumeToFader
+} from '../../src/utils/mixer';
+
+describe('getAudibleSourceIds', () => {
+  test('leaves out muted sources', () => {
+    const sources = [
+      { id: 'a', channel: { ...DEFAULT_MIXER_CHANNEL, mute: true } },
+      { id: 'b' }
+    ];
+
+    expect([...getAudibleSourceIds(sources)]).toEqual(['b']);
+  });
+
+  test('plays only soloed sources while any is soloed, unless also muted', () => {
+    const sources = [
+      { id: 'a', channel: { ...DEFAULT_MIXER_CHANNEL, solo: true } },
+      { id: 'b', channel: { ...DEFAULT_MIXER_CHANNEL, solo: true, mute: true } },
+      { id: 'c' }
+    ];
+
+    expect([...getAudibleSourceIds(sources)]).toEqual(['a']);
+  });
+});
+
+describe('faders', () => {
+  test('converts between fader positions and source volumes', () => {
+    expect(faderToVolume(0)).toBe(1);
+    expect(faderToVolume(-6)).toBeCloseTo(0.501, 3);
+    expect(volumeToFader(0.5)).toBeCloseTo(-6.02, 2);
+    expect(volumeToFader(faderToVolume(-18))).toBeCloseTo(-18);
+  });
+
+  test('keeps faders within their travel, with silence at the bottom', () => {
+    expect(faderToVolume(FADER_MIN_DB)).toBe(0);
+    expect(volumeToFader(0)).toBe(FADER_MIN_DB);
+    expect(volumeToFader(10)).toBe(FADER_MAX_DB);
+    expect(faderToDecibels(FADER_MIN_DB)).toBe(-Infinity);
+    expect(faderToDecibels(20)).toBe(FADER_MAX_DB);
+  });
+});
+
+describe('measureLevels', () => {
+  test('measures the peak and RMS of a block in dBFS', () => {
+    const square = Array.from({ length: 100 }, (_, i) => (i % 2 === 0 ? 0.5 : -0.5));
+    const levels = measureLevels(square);
+
+    expect(levels.peak).toBeCloseTo(-6.02, 2);
+    expect(levels.rms).toBeCloseTo(-6.02, 2);
+  });
+
+  test('reads silence as minus infinity', () => {
+    expect(measureLevels(new Float32Array(64))).toEqual({ peak: -Infinity, rms: -Infinity });
+    expect(measureLevels([])).toEqual({ peak: -Infinity, rms: -Infinity });
+  });
+});
@@ -0,0 +1,59 @@
+import { runOfflineRender } from '../../src/utils/offline-render';
+import { FakeOfflineContext } from '../helpers/offline-context';
+
+// Tone.js ships as ES modules only; the render loop needs none of it
+jest.mock('tone', () => ({}));
+
+// 128 samples per block at 12.8 kHz: the clock ticks every 10 ms
+const sampleRate = 12800;
+
+describe('runOfflineRender', () => {
+  test('reports progress as the clock advances and resolves with the rendered audio', async () => {
+    const offline = new FakeOfflineContext(2, 2, sampleRate);
+    const progress: number[] = [];
+
+    const rendered = await runOfflineRender(offline, 2, { onProgress: fraction => progress.push(fraction) });
+
+    expect(rendered).toBe(offline.rendered);
+    expect(progress).toHaveLength(20);
+    expect(progress[0]).toBeCloseTo(0.05);
+    expect(progress[18]).toBeCloseTo(0.95);
+    expect(progress[19]).toBe(1);
+    expect(offline.listenerCount).toBe(0);
+  });
+
+  test('rejects with an AbortError as soon as the signal aborts', async () => {
+    const offline = new FakeOfflineContext(2, 2, sampleRate);
+    const controller = new AbortController();
+    const progress: number[] = [];
+
+    const error = await runOfflineRender(offline, 2, {
+      signal: controller.signal,
+      onProgress: fraction => {
+        progress.push(fraction);
+        if (fraction >= 0.25) controller.abort();
+      }
+    }).catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(DOMException);
+    expect((error as DOMException).name).toBe('AbortError');
+    expect(progress).toEqual([0.05, 0.1, 0.15, 0.2, 0.25]);
+    expect(offline.listenerCount).toBe(0);
+  });
+
+  test('does not start rendering once already aborted', async () => {
+    const offline = new FakeOfflineContext(2, 2, sampleRate);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(runOfflineRender(offline, 2, { signal: controller.signal })).rejects.toThrow('cancelled');
+    expect(offline.renderCount).toBe(0);
+  });
+
+  test('fails when the render produced no buffer', async () => {
+    const offline = new FakeOfflineContext(2, 0.5, sampleRate);
+    jest.spyOn(offline, 'render').mockResolvedValue({ get: () => undefined });
+
+    await expect(runOfflineRender(offline, 0.5)).rejects.toThrow('no audio');
+  });
+});
@@ -0,0 +1,77 @@
+import { detectPitchYin, getMedianPitch, getNoteReading } from '../../src/utils/pitch-tracking';
+
+const sampleRate = 48000;
+
+// Block of a harmonic tone, long enough for the lowest tracked pitch
+function tone(frequency: number, harmonics = 1, amplitude = 0.5, length = 2048): Float32Array {
+  const samples = new Float32Array(length);
+  for (let harmonic = 1; harmonic <= harmonics; harmonic++) {
+    for (let i = 0; i < length; i++) {
+      samples[i] += (amplitude / harmonic) * Math.sin((2 * Math.PI * frequency * harmonic * i) / sampleRate);
+    }
+  }
+  return samples;
+}
+
+describe('detectPitchYin', () => {
+  test.each([82.41, 196, 440, 1046.5])('tracks a %f Hz tone within a few cents', frequency => {
+    const pitch = detectPitchYin(tone(frequency, 5), sampleRate);
+
+    expect(Math.abs(1200 * Math.log2(pitch.frequency / frequency))).toBeLessThan(5);
+    expect(pitch.clarity).toBeGreaterThan(0.85);
+  });
+
+  test('finds a fundamental weaker than its harmonics', () => {
+    const samples = tone(110, 1, 0.1);
+    tone(220, 1, 0.5).forEach((sample, i) => { samples[i] += sample; });
+    tone(330, 1, 0.4).forEach((sample, i) => { samples[i] += sample; });
+
+    expect(detectPitchYin(samples, sampleRate).frequency).toBeCloseTo(110, 0);
+  });
+
+  test('reports silence and noise as unpitched', () => {
+    expect(detectPitchYin(new Float32Array(2048), sampleRate).frequency).toBe(0);
+
+    let seed = 7;
+    const noise = Float32Array.from({ length: 2048 }, () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647 - 0.5;
+    });
+    expect(detectPitchYin(noise, sampleRate).frequency).toBe(0);
+  });
+});
+
+describe('getNoteReading', () => {
+  test('names the nearest note and how far off it is', () => {
+    const reading = getNoteReading(440 * Math.pow(2, 10 / 1200));
+
+    expect(reading?.note).toBe('A4');
+    expect(reading?.frequency).toBe(440);
+    expect(reading?.cents).toBeCloseTo(10, 1);
+  });
+
+  test('retunes the note table to the reference pitch', () => {
+    const reading = getNoteReading(432, 432);
+
+    expect(reading?.note).toBe('A4');
+    expect(reading?.frequency).toBe(432);
+    expect(reading?.cents).toBeCloseTo(0, 5);
+
+    // B3 in a tuning with A4 = 415 Hz
+    expect(getNoteReading(246.94 * (415 / 440), 415)?.note).toBe('B3');
+  });
+
+  test('gives no reading without a pitch or outside the table', () => {
+    expect(getNoteReading(0)).toBeNull();
+    expect(getNoteReading(5)).toBeNull();
+    expect(getNoteReading(20000)).toBeNull();
+  });
+});
+
+describe('getMedianPitch', () => {
+  test('ignores unvoiced estimates and outliers', () => {
+    expect(getMedianPitch([220, 0, 221, 440, 219])).toBe(220.5);
+    expect(getMedianPitch([220, 880, 221])).toBe(221);
+    expect(getMedianPitch([0, 0])).toBe(0);
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  migrateProject,
+  parseProject,
+  resolveProjectAudio
+} from '../../src/utils/project-file';
+
+function validProject(): Record<string, unknown> {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: '2026-01-01T00:00:00.000Z',
+    library: [
+      {
+        id: 'a',
+        name: 'drums.wav',
+        color: '#FF5F6D',
+        folder: 'Stems',
+        tags: ['drums'],
+        audio: { kind: 'reference', fileName: 'drums.wav', size: 1234 }
+      }
+    ],
+    selectedItemId: 'a',
+    sources: [{
+      id: 'a',
+      position: { x: 1, y: 0.5, z: -2 },
+      volume: 1,
+      clip: { start: 2, trimStart: 0.5, trimEnd: 3, loop: true, loopLength: 8, fadeIn: 0.1, fadeOut: 1 },
+      automation: {
+        positionX: [
+          { time: 0, value: -2, interpolation: 'bezier', handles: [0.42, 0, 0.58, 1] },
+          { time: 4, value: 2, interpolation: 'linear' }
+        ],
+        filterFrequency: [{ time: 1, value: 800, interpolation: 'linear' }]
+      },
+      effects: {
+        inserts: [{ id: 'f1', type: 'filter', enabled: true, filterType: 'highpass', frequency: 200, Q: 0.7 }],
+        reverbSend: 0.5,
+        delaySend: 0
+      },
+      channel: { mute: false, solo: true, eq: { low: 3, mid: 0, high: -2 }, pan: -0.5, spatialLink: false }
+    }],
+    automation: { reverbReturn: [{ time: 1, value: 0.8, interpolation: 'linear' }] },
+    buses: {
+      reverb: { decay: 3, returnLevel: 0.5 },
+      delay: { delayTime: 0.25, feedback: 0.5, returnLevel: 0.5 }
+    },
+    master: { fader: -3, limiter: true, ceiling: -1 },
+    playbackSpeed: 1,
+    visualizationType: 'spatial'
+  };
+}
+
+describe('parseProject', () => {
+  test('reads a valid project', () => {
+    const project = parseProject(JSON.stringify(validProject()));
+
+    expect(project.sources[0].position).toEqual({ x: 1, y: 0.5, z: -2 });
+    expect(project.sources[0].clip).toMatchObject({ start: 2, loop: true });
+    expect(project.sources[0].effects.inserts[0]).toMatchObject({ type: 'filter', filterType: 'highpass' });
+    expect(project.buses.reverb.decay).toBe(3);
+    expect(project.sources[0].channel).toMatchObject({ solo: true, pan: -0.5, spatialLink: false });
+    expect(project.master.fader).toBe(-3);
+  });
+
+  test('rejects files that are not projects', () => {
+    expect(() => parseProject('not json')).toThrow('not valid JSON');
+    expect(() => parseProject('{"hello": 1}')).toThrow('not a know-audio project');
+  });
+
+  test('lists every problem with its path', () => {
+    const project = validProject();
+    project.sources = [{
+      id: 'missing',
+      position: { x: '1', y: 0, z: 0 },
+      volume: 1,
+      clip: null,
+      automation: {},
+      effects: { inserts: [{ id: 'x', type: 'chorus', enabled: true }], reverbSend: 0, delaySend: 0 },
+      channel: { mute: 'yes', solo: false, eq: { low: 0, mid: 0, high: 0 }, pan: 2, spatialLink: true }
+    }];
+    project.visualizationType = '3d';
+
+    expect(() => parseProject(JSON.stringify(project))).toThrow(
+      'Invalid project file:\n' +
+      '- sources[0].id "missing" does not match any library item\n' +
+      '- sources[0].position.x must be a number\n' +
+      '- sources[0].effects.inserts[0].type must be one of "reverb", "delay", "distortion", "filter"\n' +
+      '- sources[0].channel.mute must be true or false\n' +
+      '- sources[0].channel.pan must be at most 1\n' +
+      '- visualizationType must be one of "mathematical", "cinematic", "spatial"'
+    );
+  });
+
+  test('opens version 1 projects, which had no folders or tags', () => {
+    const project = validProject();
+    project.version = 1;
+    project.library = [{
+      id: 'a',
+      name: 'drums.wav',
+      color: '#FF5F6D',
+      audio: { kind: 'reference', fileName: 'drums.wav', size: 1234 }
+    }];
+
+    const opened = parseProject(JSON.stringify(project));
+    expect(opened.version).toBe(PROJECT_VERSION);
+    expect(opened.library[0]).toMatchObject({ folder: null, tags: [] });
+  });
+
+  test('opens version 2 projects, whose sources had no clips or automation', () => {
+    const project = validProject();
+    project.version = 2;
+    project.sources = [{ id: 'a', position: { x: 0, y: 0, z: 0 }, volume: 1 }];
+    delete project.automation;
+
+    const opened = parseProject(JSON.stringify(project));
+    expect(opened.sources[0]).toMatchObject({ clip: null, automation: {} });
+    expect(opened.automation).toEqual({});
+  });
+
+  test('opens version 4 projects, giving every source the effects they shared', () => {
+    const project = validProject();
+    project.version = 4;
+    project.sources = [{ id: 'a', position: { x: 0, y: 0, z: 0 }, volume: 1, clip: null, automation: {} }];
+    project.automation = {
+      filterFrequency: [{ time: 1, value: 800, interpolation: 'linear' }],
+      delayWet: [{ time: 2, value: 0.2, interpolation: 'linear' }]
+    };
+    project.effects = { reverb: false, delay: true, distortion: true, filter: true };
+    project.filterFreq = 1200;
+    delete project.buses;
+
+    const opened = parseProject(JSON.stringify(project));
+    expect(opened.sources[0].effects).toEqual({
+      inserts: [
+        { id: 'a-distortion', type: 'distortion', enabled: true, drive: 0.4, wet: 0.5 },
+        { id: 'a-filter', type: 'filter', enabled: true, filterType: 'lowpass', frequency: 1200, Q: 1 }
+      ],
+      reverbSend: 0,
+      delaySend: 1
+    });
+    expect(opened.sources[0].automation.filterFrequency).toEqual([{ time: 1, value: 800, interpolation: 'linear' }]);
+    expect(opened.automation).toEqual({ delayReturn: [{ time: 2, value: 0.2, interpolation: 'linear' }] });
+    expect(opened.buses.delay).toEqual({ delayTime: 0.25, feedback: 0.5, returnLevel: 0.5 });
+    expect(opened).not.toHaveProperty('effects');
+  });
+
+  test('opens version 5 projects with a flat, unmuted mixer', () => {
+    const project = validProject();
+    project.version = 5;
+    delete (project.sources as Record<string, unknown>[])[0].channel;
+    delete project.master;
+
+    const opened = parseProject(JSON.stringify(project));
+    expect(opened.sources[0].channel).toEqual({
+      mute: false,
+      solo: false,
+      eq: { low: 0, mid: 0, high: 0 },
+      pan: 0,
+      spatialLink: true
+    });
+    expect(opened.master).toEqual({ fader: 0, limiter: true, ceiling: -1 });
+  });
+
+  test('checks the clip times of sources', () => {
+    const project = validProject();
+    project.sources = [{
+      id: 'a',
+      position: { x: 0, y: 0, z: 0 },
+      volume: 1,
+      clip: { start: -1, trimStart: 0, trimEnd: 1, loop: 'no', loopLength: 1, fadeIn: 0, fadeOut: 0 },
+      automation: {},
+      effects: { inserts: [], reverbSend: 0, delaySend: 0 },
+      channel: { mute: false, solo: false, eq: { low: 0, mid: 0, high: 0 }, pan: 0, spatialLink: true }
+    }];
+
+    expect(() => parseProject(JSON.stringify(project))).toThrow(
+      'Invalid project file:\n' +
+      '- sources[0].clip.start must be at least 0\n' +
+      '- sources[0].clip.loop must be true or false'
+    );
+  });
+
+  test('checks insert types without reaching inherited properties', () => {
+    const project = validProject();
+    const source = (project.sources as Record<string, unknown>[])[0];
+    source.effects = {
+      inserts: [
+        { id: 'x1', type: 'constructor', enabled: true },
+        { id: 'x2', type: 'toString', enabled: true }
+      ],
+      reverbSend: 0,
+      delaySend: 0
+    };
+
+    expect(() => parseProject(JSON.stringify(project))).toThrow(
+      'Invalid project file:\n' +
+      '- sources[0].effects.inserts[0].type must be one of '
+    );
+    expect(() => parseProject(JSON.stringify(project))).toThrow(
+      /- sources\[0\]\.effects\.inserts\[1\]\.type must be one of/
+    );
+  });
+
+    test('checks automation curves', () => {
+    const project = validProject();
+    project.automation = {
+      reverbReturn: [
+        { time: 2, value: 0.5, interpolation: 'linear' },
+        { time: 1, value: 0.2, interpolation: 'step' }
+      ],
+      pitch: []
+    };
+
+    expect(() => parseProject(JSON.stringify(project))).toThrow(
+      'Invalid project file:\n' +
+      '- automation.reverbReturn keyframes must be in time order\n' +
+      '- automation.reverbReturn[1].interpolation must be "linear" or "bezier"\n' +
+      '- automation.pitch is not an automatable parameter'
+    );
+  });
+
+  test('refuses projects from a newer editor', () => {
+    const project = { ...validProject(), version: PROJECT_VERSION + 1 };
+    expect(() => parseProject(JSON.stringify(project))).toThrow('saved by a newer version');
+  });
+});
+
+describe('migrateProject', () => {
+  test('runs each migration in order up to the target version', () => {
+    const migrations = {
+      1: (project: Record<string, unknown>) => ({ ...project, steps: ['1->2'] }),
+      2: (project: Record<string, unknown>) => ({ ...project, steps: [...(project.steps as string[]), '2->3'] })
+    };
+
+    expect(migrateProject({ version: 1 }, migrations, 3)).toEqual({ version: 3, steps: ['1->2', '2->3'] });
+  });
+
+  test('fails when a migration step is missing', () => {
+    expect(() => migrateProject({ version: 1 }, {}, 2)).toThrow('no migration to version 2');
+  });
+});
+
+describe('resolveProjectAudio', () => {
+  test('decodes embedded audio', () => {
+    const file = resolveProjectAudio(
+      { kind: 'embedded', fileName: 'a.wav', mimeType: 'audio/wav', data: btoa('RIFF') },
+      []
+    );
+
+    expect(file?.name).toBe('a.wav');
+    expect(file?.size).toBe(4);
+  });
+
+  test('matches referenced audio by name, preferring the saved size', () => {
+    const other = new File(['12'], 'a.wav');
+    const saved = new File(['1234'], 'a.wav');
+
+    expect(resolveProjectAudio({ kind: 'reference', fileName: 'a.wav', size: 4 }, [other, saved])).toBe(saved);
+    expect(resolveProjectAudio({ kind: 'reference', fileName: 'b.wav', size: 4 }, [other, saved])).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  MIN_TRIM_SECONDS,
+  computeWaveformPeaks,
+  createTake,
+  createTakeFile,
+  getTakeDuration,
+  getTrimmedSignal,
+  mergeChunks,
+  setTakeTrim
+} from '../../src/utils/recording';
+import { getWavHeaderSize } from '../../src/utils/wav-encoder';
+
+const sampleRate = 1000;
+
+// Stereo batches counting up from zero, the right channel negated
+function countingChunks(sizes: number[]): Float32Array[][] {
+  let next = 0;
+  return sizes.map(size => {
+    const left = Float32Array.from({ length: size }, () => next++);
+    return [left, left.map(value => -value)];
+  });
+}
+
+function makeTake(seconds: number) {
+  return createTake(
+    { id: 'take', name: 'Take 1', recordedAt: 0 },
+    countingChunks([seconds * sampleRate]),
+    sampleRate
+  );
+}
+
+describe('mergeChunks', () => {
+  test('joins batches in order for every channel', () => {
+    const [left, right] = mergeChunks(countingChunks([3, 2, 4]));
+
+    expect(Array.from(left)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(Array.from(right)).toEqual([-0, -1, -2, -3, -4, -5, -6, -7, -8]);
+  });
+
+  test('gives no channels for an empty capture', () => {
+    expect(mergeChunks([])).toEqual([]);
+  });
+});
+
+describe('createTake', () => {
+  test('starts untrimmed', () => {
+    const take = createTake({ id: 'a', name: 'Take 1', recordedAt: 5 }, countingChunks([600, 400]), sampleRate);
+
+    expect(getTakeDuration(take)).toBe(1);
+    expect(take.trimStart).toBe(0);
+    expect(take.trimEnd).toBe(1);
+    expect(take.channels).toHaveLength(2);
+  });
+});
+
+describe('setTakeTrim', () => {
+  test('keeps the trim inside the recording', () => {
+    const take = setTakeTrim(makeTake(2), -1, 5);
+
+    expect(take.trimStart).toBe(0);
+    expect(take.trimEnd).toBe(2);
+  });
+
+  test('holds back the point that would cross the other', () => {
+    const take = setTakeTrim(makeTake(2), 0.5, 1.5);
+
+    const startMoved = setTakeTrim(take, 1.8, 1.5);
+    expect(startMoved.trimStart).toBeCloseTo(1.5 - MIN_TRIM_SECONDS);
+    expect(startMoved.trimEnd).toBe(1.5);
+
+    const endMoved = setTakeTrim(take, 0.5, 0.2);
+    expect(endMoved.trimStart).toBe(0.5);
+    expect(endMoved.trimEnd).toBeCloseTo(0.5 + MIN_TRIM_SECONDS);
+  });
+});
+
+describe('getTrimmedSignal', () => {
+  test('keeps only the samples between the trim points', () => {
+    const signal = getTrimmedSignal(setTakeTrim(makeTake(2), 0.25, 0.5));
+
+    expect(signal.length).toBe(250);
+    expect(signal.duration).toBe(0.25);
+    expect(signal.numberOfChannels).toBe(2);
+    expect(signal.getChannelData(0)[0]).toBe(250);
+    expect(signal.getChannelData(1)[249]).toBe(-499);
+  });
+});
+
+describe('computeWaveformPeaks', () => {
+  test('finds the extremes of each slice across channels', () => {
+    const left = Float32Array.from([0.1, 0.5, -0.2, 0.3, 0, 0]);
+    const right = Float32Array.from([0, -0.4, 0.1, 0.9, 0, -0.1]);
+    const { min, max } = computeWaveformPeaks([left, right], 3);
+
+    expect(Array.from(max)).toEqual([0.5, 0.9, 0].map(Math.fround));
+    expect(Array.from(min)).toEqual([-0.4, -0.2, -0.1].map(Math.fround));
+  });
+
+  test('leaves a silent preview for an empty take', () => {
+    const { min, max } = computeWaveformPeaks([], 4);
+
+    expect(Array.from(min)).toEqual([0, 0, 0, 0]);
+    expect(Array.from(max)).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('createTakeFile', () => {
+  test('encodes the trimmed take as a 24-bit WAV named after it', () => {
+    const take = setTakeTrim(makeTake(1), 0, 0.5);
+    const file = createTakeFile({ ...take, name: 'Vocal idea' });
+
+    expect(file.name).toBe('Vocal idea.wav');
+    expect(file.type).toBe('audio/wav');
+    expect(file.size).toBe(getWavHeaderSize(24) + 500 * 2 * 3);
+  });
+});
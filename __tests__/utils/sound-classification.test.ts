@@ -0,0 +1,331 @@
+import { generateSpectrogram } from '../../src/utils/audio-processing';
+import { extractSpectralDescriptors } from '../../src/utils/feature-extraction';
+import {
+  classifySound,
+  segmentScores,
+  SOUND_CLASSES,
+  type SoundClass
+} from '../../src/utils/sound-classification';
+import { createSignal } from '../helpers/signals';
+
+const SAMPLE_RATE = 22050;
+
+// Deterministic random numbers, so every run hears the same fixtures
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+function concat(parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function mix(a: Float32Array, b: Float32Array, gain = 1): Float32Array {
+  return a.map((sample, i) => sample + (b[i] ?? 0) * gain);
+}
+
+// Scale a signal so its RMS is at the given dBFS
+function normalize(samples: Float32Array, decibels: number): Float32Array {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length) || 1;
+  const gain = Math.pow(10, decibels / 20) / rms;
+  return samples.map(sample => sample * gain);
+}
+
+// One-pole low-pass filter
+function lowPass(samples: Float32Array, cutoff: number): Float32Array {
+  const coefficient = Math.exp((-2 * Math.PI * cutoff) / SAMPLE_RATE);
+  let state = 0;
+  return samples.map(sample => (state = (1 - coefficient) * sample + coefficient * state));
+}
+
+function highPass(samples: Float32Array, cutoff: number): Float32Array {
+  const low = lowPass(samples, cutoff);
+  return samples.map((sample, i) => sample - low[i]);
+}
+
+function noise(length: number, random: () => number): Float32Array {
+  return Float32Array.from({ length }, () => random() * 2 - 1);
+}
+
+// Vowel formants (F1, F2, F3) in Hz
+const VOWELS = [
+  [730, 1090, 2440],
+  [270, 2290, 3010],
+  [530, 1840, 2480],
+  [570, 840, 2410],
+  [300, 870, 2240],
+  [660, 1720, 2410]
+];
+
+// Gain of a formant resonance at a frequency
+function formantGain(frequency: number, formants: number[]): number {
+  return formants.reduce((gain, formant, index) => {
+    const bandwidth = 60 + index * 40;
+    return gain + 1 / (1 + ((frequency - formant) / bandwidth) ** 2) / (index + 1);
+  }, 0.02);
+}
+
+/**
+ * Speech-like babble from one talker: syllables of harmonic vowels shaped
+ * by formants, with a gliding intonation, fricative and plosive onsets,
+ * and pauses between words and phrases.
+ */
+function speech(seconds: number, seed: number, baseFrequency = 120): Float32Array {
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  let position = Math.round(0.05 * SAMPLE_RATE);
+  let syllable = 0;
+
+  while (position < samples.length) {
+    // Onset consonant: a hiss or a short burst
+    if (random() < 0.6) {
+      const length = Math.round((0.04 + random() * 0.06) * SAMPLE_RATE);
+      const hiss = highPass(noise(length, random), random() < 0.5 ? 3000 : 1500);
+      for (let i = 0; i < length && position + i < samples.length; i++) {
+        samples[position + i] += hiss[i] * 0.15 * Math.sin((Math.PI * i) / length);
+      }
+      position += length;
+    }
+
+    // Vowel with an intonation glide over the syllable
+    const length = Math.round((0.1 + random() * 0.12) * SAMPLE_RATE);
+    const formants = VOWELS[Math.floor(random() * VOWELS.length)];
+    const declination = 1 - 0.15 * ((syllable % 8) / 8);
+    const startFrequency = baseFrequency * declination * Math.pow(2, (random() * 6 - 2) / 12);
+    const glide = (random() * 8 - 4) / 12;
+    let phase = 0;
+    for (let i = 0; i < length && position + i < samples.length; i++) {
+      const progress = i / length;
+      const frequency = startFrequency * Math.pow(2, glide * progress) * (1 + (random() - 0.5) * 0.01);
+      phase += (2 * Math.PI * frequency) / SAMPLE_RATE;
+      const envelope = Math.sin(Math.PI * progress) ** 0.7;
+      let value = 0;
+      for (let harmonic = 1; harmonic * frequency < 4000; harmonic++) {
+        value += (formantGain(harmonic * frequency, formants) / harmonic ** 0.5) * Math.sin(harmonic * phase);
+      }
+      samples[position + i] += value * envelope * 0.2;
+    }
+    position += length;
+    syllable++;
+
+    // Short gaps between syllables, longer ones between words and phrases
+    const gap = syllable % 7 === 0 ? 0.35 + random() * 0.2 : random() < 0.4 ? 0.08 + random() * 0.1 : 0.02;
+    position += Math.round(gap * SAMPLE_RATE);
+  }
+
+  return normalize(samples, -20);
+}
+
+function midiToFrequency(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+// Harmonic note with an attack and the given decay time constant (Infinity to sustain)
+function addNote(samples: Float32Array, start: number, duration: number, midi: number, gain: number, decay: number) {
+  const frequency = midiToFrequency(midi);
+  const first = Math.round(start * SAMPLE_RATE);
+  const length = Math.round(duration * SAMPLE_RATE);
+  const attack = 0.01 * SAMPLE_RATE;
+  const release = 0.03 * SAMPLE_RATE;
+  for (let i = 0; i < length && first + i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = Math.min(1, i / attack, (length - i) / release) * Math.exp(-t / decay);
+    let value = 0;
+    for (let harmonic = 1; harmonic <= 6; harmonic++) {
+      value += Math.sin((2 * Math.PI * frequency * harmonic * i) / SAMPLE_RATE) / harmonic;
+    }
+    samples[first + i] += value * envelope * gain;
+  }
+}
+
+// Sustained chords, one per second
+function padChords(seconds: number, seed: number): Float32Array {
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const progression = [[57, 60, 64], [53, 57, 60], [48, 52, 55], [55, 59, 62]];
+  const offset = Math.floor(random() * progression.length);
+  for (let bar = 0; bar < seconds; bar++) {
+    progression[(bar + offset) % progression.length].forEach(note => addNote(samples, bar, 1, note, 0.1, Infinity));
+  }
+  return normalize(samples, -20);
+}
+
+// Plucked eighth-note melody over a bass line, with kick and hi-hat at 120 BPM
+function bandWithDrums(seconds: number, seed: number): Float32Array {
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const scale = [60, 62, 64, 67, 69, 72];
+  const bass = [45, 41, 36, 43];
+
+  for (let eighth = 0; eighth * 0.25 < seconds; eighth++) {
+    const time = eighth * 0.25;
+    addNote(samples, time, 0.25, scale[Math.floor(random() * scale.length)], 0.1, 0.3);
+    if (eighth % 4 === 0) addNote(samples, time, 1, bass[(eighth / 4) % bass.length], 0.12, 2);
+
+    // Hi-hat on every eighth, kick on every beat
+    const start = Math.round(time * SAMPLE_RATE);
+    const hat = highPass(noise(Math.round(0.03 * SAMPLE_RATE), random), 6000);
+    hat.forEach((value, i) => {
+      if (start + i < samples.length) samples[start + i] += value * 0.1 * Math.exp(-i / (0.008 * SAMPLE_RATE));
+    });
+    if (eighth % 2 === 0) {
+      for (let i = 0; i < 0.12 * SAMPLE_RATE && start + i < samples.length; i++) {
+        const frequency = 50 + 60 * Math.exp(-i / (0.02 * SAMPLE_RATE));
+        samples[start + i] += 0.4 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * Math.exp(-i / (0.04 * SAMPLE_RATE));
+      }
+    }
+  }
+  return normalize(samples, -20);
+}
+
+// Broadband patter with scattered droplets
+function rain(seconds: number, seed: number): Float32Array {
+  const random = createRandom(seed);
+  const samples = lowPass(noise(Math.round(seconds * SAMPLE_RATE), random), 4000);
+  for (let drop = 0; drop < seconds * 40; drop++) {
+    const start = Math.floor(random() * samples.length);
+    const length = Math.round(0.005 * SAMPLE_RATE);
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      samples[start + i] += (random() * 2 - 1) * (1 - i / length) * 1.5;
+    }
+  }
+  return normalize(samples, -20);
+}
+
+// Low rumbling noise with slow gusts
+function wind(seconds: number, seed: number): Float32Array {
+  const random = createRandom(seed);
+  const samples = lowPass(lowPass(noise(Math.round(seconds * SAMPLE_RATE), random), 400), 800);
+  const gustRate = 0.2 + random() * 0.2;
+  const gustPhase = random() * 2 * Math.PI;
+  return normalize(
+    samples.map((sample, i) => sample * (1 + 0.6 * Math.sin((2 * Math.PI * gustRate * i) / SAMPLE_RATE + gustPhase))),
+    -20
+  );
+}
+
+// Footsteps on a hard floor over room noise
+function footsteps(seconds: number, seed: number): Float32Array {
+  const random = createRandom(seed);
+  const samples = lowPass(noise(Math.round(seconds * SAMPLE_RATE), random), 2000).map(sample => sample * 0.05);
+  for (let time = 0.2; time < seconds; time += 0.5 + (random() - 0.5) * 0.1) {
+    const start = Math.round(time * SAMPLE_RATE);
+    const step = lowPass(noise(Math.round(0.08 * SAMPLE_RATE), random), 1500);
+    step.forEach((value, i) => {
+      if (start + i < samples.length) samples[start + i] += value * Math.exp(-i / (0.015 * SAMPLE_RATE));
+    });
+  }
+  return normalize(samples, -20);
+}
+
+interface LabeledFixture {
+  name: string;
+  label: SoundClass;
+  samples: Float32Array;
+}
+
+// Labeled fixtures: synthetic recordings of each class, in a few varieties
+function createFixtures(seconds: number): LabeledFixture[] {
+  return [
+    { name: 'low voice', label: 'speech', samples: speech(seconds, 1, 110) },
+    { name: 'high voice', label: 'speech', samples: speech(seconds, 2, 210) },
+    { name: 'pad chords', label: 'music', samples: padChords(seconds, 3) },
+    { name: 'band with drums', label: 'music', samples: bandWithDrums(seconds, 4) },
+    { name: 'rain', label: 'environmental', samples: rain(seconds, 5) },
+    { name: 'wind', label: 'environmental', samples: wind(seconds, 6) },
+    { name: 'footsteps', label: 'environmental', samples: footsteps(seconds, 7) }
+  ];
+}
+
+function classify(samples: Float32Array) {
+  const signal = createSignal(samples, SAMPLE_RATE);
+  const spectrogram = generateSpectrogram(signal);
+  return classifySound(extractSpectralDescriptors(signal, spectrogram), spectrogram, signal.duration);
+}
+
+// Seconds of [start, end) covered by the segments
+function coverage(segments: { start: number; end: number }[], start: number, end: number): number {
+  return segments.reduce((sum, segment) => sum + Math.max(0, Math.min(end, segment.end) - Math.max(start, segment.start)), 0);
+}
+
+describe('classifySound', () => {
+  const fixtures = createFixtures(4);
+
+  test.each(fixtures.map(fixture => [fixture.name, fixture] as const))('labels %s', (_, fixture) => {
+    const { scores, segments } = classify(fixture.samples);
+
+    // Most frames score highest for the right class
+    const frameCount = scores[fixture.label].length;
+    let correct = 0;
+    for (let i = 0; i < frameCount; i++) {
+      const best = SOUND_CLASSES.reduce((a, b) => (scores[b][i] > scores[a][i] ? b : a));
+      if (best === fixture.label) correct++;
+    }
+    expect(correct / frameCount).toBeGreaterThan(0.9);
+
+    expect(coverage(segments[fixture.label], 0, 4)).toBeGreaterThan(3);
+    SOUND_CLASSES.filter(type => type !== fixture.label).forEach(type => {
+      expect(segments[type]).toEqual([]);
+    });
+    segments[fixture.label].forEach(segment => {
+      expect(segment.type).toBe(fixture.label);
+      expect(segment.confidence).toBeGreaterThan(0.6);
+      expect(segment.confidence).toBeLessThanOrEqual(1);
+    });
+  });
+
+  test('finds where one kind of sound gives way to another', () => {
+    const [voice, , pad, , rainFixture] = fixtures;
+    const { segments } = classify(concat([pad.samples, voice.samples, rainFixture.samples]));
+
+    expect(coverage(segments.music, 0, 4)).toBeGreaterThan(3.5);
+    expect(coverage(segments.speech, 4, 8)).toBeGreaterThan(3);
+    expect(coverage(segments.environmental, 8, 12)).toBeGreaterThan(3.5);
+
+    // Boundaries land within half a second of the changes
+    expect(segments.music[segments.music.length - 1].end).toBeCloseTo(4, 0);
+    expect(Math.abs(segments.environmental[0].start - 8)).toBeLessThan(0.5);
+    expect(coverage(segments.music, 4.5, 12)).toBe(0);
+    expect(coverage(segments.speech, 0, 3.5) + coverage(segments.speech, 8.5, 12)).toBe(0);
+  });
+
+  test('reports a voice over a music bed as both speech and music', () => {
+    const { segments } = classify(mix(speech(6, 9, 150), padChords(6, 10), 0.3));
+
+    expect(coverage(segments.speech, 0, 6)).toBeGreaterThan(4);
+    expect(coverage(segments.music, 0, 6)).toBeGreaterThan(4);
+    expect(segments.environmental).toEqual([]);
+  });
+
+  test('leaves silence unclassified', () => {
+    const { segments } = classify(new Float32Array(SAMPLE_RATE * 2));
+
+    SOUND_CLASSES.forEach(type => expect(segments[type]).toEqual([]));
+  });
+});
+
+describe('segmentScores', () => {
+  test('bridges short dips, drops short blips and averages the confidence', () => {
+    // 0.1 s frames: a blip, then two stretches split by a 0.2 s dip
+    const scores = Float32Array.from([
+      0, 0.9, 0.9, 0, 0, 0, 0, 0.8, 0.8, 0.8, 0.8, 0.2, 0.2, 0.8, 0.8, 0.8, 0.8, 0, 0
+    ]);
+
+    const segments = segmentScores(scores, 0.1, 'speech');
+    expect(segments).toHaveLength(1);
+    expect(segments[0].start).toBeCloseTo(0.7);
+    expect(segments[0].end).toBeCloseTo(1.7);
+    expect(segments[0].confidence).toBeCloseTo(0.68);
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  createInsert,
+  getActiveEffects,
+  hasEffectTail,
+  isSameChain,
+  moveInsert
+} from '../../src/utils/source-effects';
+
+describe('moveInsert', () => {
+  const chain = [createInsert('filter', 'a'), createInsert('distortion', 'b'), createInsert('delay', 'c')];
+
+  test('moves an insert up or down the chain', () => {
+    expect(moveInsert(chain, 2, -1).map(insert => insert.id)).toEqual(['a', 'c', 'b']);
+    expect(moveInsert(chain, 0, 2).map(insert => insert.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  test('keeps inserts within the chain', () => {
+    expect(moveInsert(chain, 0, -1)).toBe(chain);
+    expect(moveInsert(chain, 1, 5).map(insert => insert.id)).toEqual(['a', 'c', 'b']);
+  });
+});
+
+describe('isSameChain', () => {
+  test('ignores changed settings but not order or switching', () => {
+    const chain = [createInsert('filter', 'a'), createInsert('reverb', 'b')];
+    const retuned = chain.map(insert => (insert.type === 'filter' ? { ...insert, frequency: 300 } : insert));
+
+    expect(isSameChain(chain, retuned)).toBe(true);
+    expect(isSameChain(chain, moveInsert(chain, 0, 1))).toBe(false);
+    expect(isSameChain(chain, [chain[0], { ...chain[1], enabled: false }])).toBe(false);
+  });
+});
+
+describe('effect summaries', () => {
+  test('counts enabled inserts and sends', () => {
+    const sources = [
+      { effects: { inserts: [{ ...createInsert('reverb', 'a'), enabled: false }], reverbSend: 0, delaySend: 0.3 } },
+      { effects: { inserts: [createInsert('filter', 'b')], reverbSend: 0, delaySend: 0 } },
+      {}
+    ];
+
+    expect(getActiveEffects(sources)).toEqual({ reverb: false, delay: true, distortion: false, filter: true });
+    expect(hasEffectTail(sources[0].effects)).toBe(true);
+    expect(hasEffectTail(sources[1].effects)).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  computeMFCC,
+  computeSpectralBandwidth,
+  computeSpectralCentroid,
+  computeSpectralContrast,
+  computeSpectralFlatness,
+  computeSpectralRolloff,
+  computeZeroCrossingRate,
+  estimatePitch
+} from '../../src/utils/spectral-features';
+import { computeSpectrum } from '../../src/utils/stft';
+
+const sampleRate = 22050;
+const fftSize = 2048;
+
+function powerSpectrum(samples: Float32Array): Float32Array {
+  return computeSpectrum(samples, { fftSize, scale: 'power' });
+}
+
+// Harmonic tone with falling harmonic amplitudes
+function tone(frequency: number, harmonics = 1): Float32Array {
+  const samples = new Float32Array(fftSize);
+  for (let harmonic = 1; harmonic <= harmonics; harmonic++) {
+    for (let i = 0; i < fftSize; i++) {
+      samples[i] += Math.sin((2 * Math.PI * frequency * harmonic * i) / sampleRate) / harmonic;
+    }
+  }
+  return samples;
+}
+
+function noise(seed: number): Float32Array {
+  let state = seed;
+  return Float32Array.from({ length: fftSize }, () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647 - 0.5;
+  });
+}
+
+describe('estimatePitch', () => {
+  test('finds the fundamental of a harmonic tone', () => {
+    const pitch = estimatePitch(powerSpectrum(tone(220, 6)), sampleRate);
+
+    expect(pitch.frequency).toBeGreaterThan(217);
+    expect(pitch.frequency).toBeLessThan(223);
+    expect(pitch.clarity).toBeGreaterThan(0.8);
+  });
+
+  test('finds a fundamental that is missing from the spectrum', () => {
+    const samples = tone(150, 6).map((sample, i) => sample - Math.sin((2 * Math.PI * 150 * i) / sampleRate));
+
+    expect(estimatePitch(powerSpectrum(samples), sampleRate).frequency).toBeCloseTo(150, -1);
+  });
+
+  test('reports noise as unpitched', () => {
+    expect(estimatePitch(powerSpectrum(noise(3)), sampleRate).clarity).toBeLessThan(0.5);
+  });
+});
+
+describe('spectral shape', () => {
+  test('places the centroid and rolloff of a sine at its frequency', () => {
+    const power = powerSpectrum(tone(1000));
+
+    expect(computeSpectralCentroid(power, sampleRate)).toBeCloseTo(1000, -1);
+    expect(Math.abs(computeSpectralRolloff(power, sampleRate) - 1000)).toBeLessThan(30);
+  });
+
+  test('tells noise from a tone by its flatness', () => {
+    expect(computeSpectralFlatness(powerSpectrum(tone(1000)))).toBeLessThan(0.01);
+    expect(computeSpectralFlatness(powerSpectrum(noise(5)))).toBeGreaterThan(0.4);
+  });
+
+  test('counts zero crossings', () => {
+    expect(computeZeroCrossingRate(Float32Array.from([1, -1, 1, -1, 1]))).toBe(1);
+    expect(computeZeroCrossingRate(Float32Array.from([1, 2, 3, -1, -2]))).toBe(0.25);
+  });
+});
+
+describe('computeMFCC', () => {
+  test('moves only the first coefficient when the level changes', () => {
+    const power = powerSpectrum(noise(7));
+    const quiet = computeMFCC(power, sampleRate);
+    const loud = computeMFCC(power.map(value => value * 100), sampleRate);
+
+    expect(quiet).toHaveLength(13);
+    expect(loud[0] - quiet[0]).toBeCloseTo(Math.log(100) * Math.sqrt(26), 1);
+    for (let k = 1; k < quiet.length; k++) {
+      expect(loud[k]).toBeCloseTo(quiet[k], 1);
+    }
+  });
+
+  test('tells different timbres apart', () => {
+    const bright = computeMFCC(powerSpectrum(tone(300, 12)), sampleRate);
+    const dull = computeMFCC(powerSpectrum(tone(300, 1)), sampleRate);
+
+    expect(Math.abs(bright[1] - dull[1])).toBeGreaterThan(1);
+  });
+});
+
+describe('spectral spread and contrast', () => {
+  test('measures a wider bandwidth for noise than for a sine', () => {
+    expect(computeSpectralBandwidth(powerSpectrum(tone(1000)), sampleRate)).toBeLessThan(50);
+    expect(computeSpectralBandwidth(powerSpectrum(noise(9)), sampleRate)).toBeGreaterThan(2000);
+  });
+
+  test('finds more contrast in the band holding a tone than in noise', () => {
+    const toneContrast = computeSpectralContrast(powerSpectrum(tone(1000)), sampleRate);
+    const noiseContrast = computeSpectralContrast(powerSpectrum(noise(11)), sampleRate);
+
+    expect(toneContrast).toHaveLength(7);
+    // 1 kHz falls in the 800-1600 Hz band
+    expect(toneContrast[3]).toBeGreaterThan(60);
+    expect(noiseContrast[3]).toBeLessThan(30);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  createColorLookup,
+  createRowBinMap,
+  createSpectrogramHistory,
+  frequencyToPosition,
+  getFrequencyTicks,
+  getHistorySlot,
+  mapSpectrumToRows,
+  positionToFrequency,
+  pushSpectrogramColumn,
+  renderSpectrogramHistory,
+  scrollSpectrogramImage
+} from '../../src/utils/spectrogram-display';
+
+describe('createColorLookup', () => {
+  test('runs from the first to the last color of the map', () => {
+    const viridis = createColorLookup('viridis');
+
+    expect(viridis).toHaveLength(256 * 4);
+    expect(Array.from(viridis.subarray(0, 4))).toEqual([68, 1, 84, 255]);
+    expect(Array.from(viridis.subarray(255 * 4))).toEqual([253, 231, 37, 255]);
+  });
+
+  test('grows steadily brighter in grayscale', () => {
+    const gray = createColorLookup('grayscale');
+
+    expect(gray[128 * 4]).toBe(128);
+    for (let value = 1; value < 256; value++) {
+      expect(gray[value * 4]).toBeGreaterThan(gray[(value - 1) * 4]);
+    }
+  });
+});
+
+describe('frequency scales', () => {
+  test.each(['linear', 'log', 'mel'] as const)('maps %s positions back to the same frequencies', scale => {
+    [100, 440, 3000, 12000].forEach(frequency => {
+      const position = frequencyToPosition(frequency, scale, 22050);
+      expect(positionToFrequency(position, scale, 22050)).toBeCloseTo(frequency, 5);
+    });
+  });
+
+  test('gives each octave the same height on the log scale', () => {
+    const octave = (low: number) => frequencyToPosition(low * 2, 'log', 24000) - frequencyToPosition(low, 'log', 24000);
+
+    expect(octave(100)).toBeCloseTo(octave(1000), 10);
+    expect(frequencyToPosition(20, 'log', 24000)).toBe(0);
+    expect(frequencyToPosition(24000, 'log', 24000)).toBe(1);
+  });
+
+  test('gives low frequencies more room on the log and mel scales than on the linear one', () => {
+    const linear = frequencyToPosition(1000, 'linear', 24000);
+
+    expect(frequencyToPosition(1000, 'mel', 24000)).toBeGreaterThan(linear);
+    expect(frequencyToPosition(1000, 'log', 24000)).toBeGreaterThan(frequencyToPosition(1000, 'mel', 24000));
+  });
+
+  test('labels round frequencies inside the range', () => {
+    expect(getFrequencyTicks('log', 22050)).toEqual([50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]);
+    expect(getFrequencyTicks('mel', 8000)).toEqual([50, 100, 200, 500, 1000, 2000, 5000]);
+    expect(getFrequencyTicks('linear', 20000)).toHaveLength(11);
+  });
+});
+
+describe('createRowBinMap', () => {
+  test('covers every bin once on the linear scale', () => {
+    const rows = createRowBinMap(256, 'linear', 48000, 1024);
+
+    expect(rows.start[0]).toBe(0);
+    expect(rows.end[255]).toBe(512);
+    for (let row = 1; row < 256; row++) {
+      expect(rows.start[row]).toBe(rows.end[row - 1]);
+    }
+  });
+
+  test('repeats low bins and merges high ones on the log scale', () => {
+    const rows = createRowBinMap(400, 'log', 48000, 2048);
+
+    expect(rows.end[0] - rows.start[0]).toBe(1);
+    expect(rows.start[1]).toBe(rows.start[0]);
+    expect(rows.end[399] - rows.start[399]).toBeGreaterThan(5);
+  });
+
+  test('keeps the loudest bin of each row', () => {
+    const rows = { start: Uint16Array.from([0, 2]), end: Uint16Array.from([2, 4]) };
+    const column = new Uint8Array(2);
+    mapSpectrumToRows(Uint8Array.from([10, 40, 30, 20]), rows, column);
+
+    expect(Array.from(column)).toEqual([40, 30]);
+  });
+});
+
+describe('spectrogram history', () => {
+  const column = (value: number) => Uint8Array.from([value, value + 1]);
+
+  test('keeps the newest columns once full', () => {
+    const history = createSpectrogramHistory(3, 2);
+    [10, 20, 30, 40].forEach(value => pushSpectrogramColumn(history, column(value), value));
+
+    expect(history.count).toBe(3);
+    expect(history.pitches[getHistorySlot(history, 0)]).toBe(40);
+    expect(history.pitches[getHistorySlot(history, 2)]).toBe(20);
+    expect(getHistorySlot(history, 3)).toBe(-1);
+  });
+
+  test('paints the newest column at the right edge and scrolls back by offset', () => {
+    const history = createSpectrogramHistory(4, 2);
+    [10, 20, 30].forEach(value => pushSpectrogramColumn(history, column(value)));
+    const colors = createColorLookup('grayscale');
+    const image = { data: new Uint8ClampedArray(2 * 2 * 4), width: 2, height: 2 };
+
+    renderSpectrogramHistory(history, image, colors);
+    // Bottom row is the first value of each column, the top row the second
+    expect(image.data[(1 * 2 + 1) * 4]).toBe(30);
+    expect(image.data[(0 * 2 + 1) * 4]).toBe(31);
+    expect(image.data[(1 * 2 + 0) * 4]).toBe(20);
+
+    renderSpectrogramHistory(history, image, colors, 2);
+    expect(image.data[(1 * 2 + 1) * 4]).toBe(10);
+    // Nothing was held that long ago
+    expect(Array.from(image.data.subarray((1 * 2 + 0) * 4, (1 * 2 + 0) * 4 + 4))).toEqual([0, 0, 0, 255]);
+  });
+
+  test('scrolls a live image to the same pixels a full render paints', () => {
+    const history = createSpectrogramHistory(8, 2);
+    const colors = createColorLookup('grayscale');
+    const scrolled = { data: new Uint8ClampedArray(3 * 2 * 4), width: 3, height: 2 };
+    const rendered = { data: new Uint8ClampedArray(3 * 2 * 4), width: 3, height: 2 };
+
+    pushSpectrogramColumn(history, column(10));
+    renderSpectrogramHistory(history, scrolled, colors);
+    [20, 30].forEach(value => pushSpectrogramColumn(history, column(value)));
+    scrollSpectrogramImage(history, scrolled, colors, 2);
+    pushSpectrogramColumn(history, column(40));
+    scrollSpectrogramImage(history, scrolled, colors, 1);
+
+    renderSpectrogramHistory(history, rendered, colors);
+    expect(Array.from(scrolled.data)).toEqual(Array.from(rendered.data));
+  });
+});
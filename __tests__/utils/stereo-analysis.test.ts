@@ -0,0 +1,100 @@
+import { analyzeStereo } from '../../src/utils/stereo-analysis';
+import { createSignal } from '../helpers/signals';
+
+const SAMPLE_RATE = 22050;
+
+function sine(frequency: number, duration: number, amplitude = 0.5): Float32Array {
+  const data = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return data;
+}
+
+// Deterministic white noise, so runs don't differ
+function noise(duration: number, seed: number): Float32Array {
+  const data = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  let state = seed;
+  for (let i = 0; i < data.length; i++) {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    data[i] = (state / 4294967296 - 0.5) * 0.5;
+  }
+  return data;
+}
+
+const invert = (data: Float32Array) => data.map(sample => -sample);
+const add = (a: Float32Array, b: Float32Array) => a.map((sample, i) => sample + b[i]);
+
+describe('analyzeStereo', () => {
+  test('reads identical channels as mono with nothing to warn about', () => {
+    const tone = sine(440, 1);
+    const stereo = analyzeStereo(createSignal([tone, tone], SAMPLE_RATE));
+
+    expect(stereo.isStereo).toBe(true);
+    expect(stereo.correlation).toBeCloseTo(1, 6);
+    expect(stereo.width).toBeCloseTo(0, 6);
+    expect(stereo.sideLevel).toBe(-Infinity);
+    expect(stereo.correlationOverTime.every(value => value > 0.99)).toBe(true);
+    expect(stereo.warnings).toEqual([]);
+  });
+
+  test('warns about channels that cancel each other out', () => {
+    const tone = sine(440, 1);
+    const stereo = analyzeStereo(createSignal([tone, invert(tone)], SAMPLE_RATE));
+
+    expect(stereo.correlation).toBeCloseTo(-1, 6);
+    expect(stereo.width).toBeCloseTo(1, 6);
+    expect(stereo.midLevel).toBe(-Infinity);
+    expect(stereo.warnings).toContainEqual(expect.objectContaining({
+      kind: 'out-of-phase',
+      start: 0,
+      end: 1
+    }));
+    expect(stereo.warnings).toContainEqual(expect.objectContaining({ kind: 'band-cancels', band: 'Low Mids' }));
+  });
+
+  test('finds unrelated channels half wide', () => {
+    const stereo = analyzeStereo(createSignal([noise(2, 1), noise(2, 2)], SAMPLE_RATE));
+
+    expect(Math.abs(stereo.correlation)).toBeLessThan(0.05);
+    expect(stereo.width).toBeGreaterThan(0.45);
+    expect(stereo.width).toBeLessThan(0.55);
+    expect(stereo.warnings.filter(warning => warning.kind === 'out-of-phase')).toEqual([]);
+  });
+
+  test('only flags the stretch that goes out of phase', () => {
+    const tone = sine(440, 3);
+    const right = tone.slice();
+    right.set(invert(tone.subarray(SAMPLE_RATE, SAMPLE_RATE * 2)), SAMPLE_RATE);
+    const stereo = analyzeStereo(createSignal([tone, right], SAMPLE_RATE));
+
+    const outOfPhase = stereo.warnings.filter(warning => warning.kind === 'out-of-phase');
+    expect(outOfPhase).toHaveLength(1);
+    expect(outOfPhase[0].start).toBeCloseTo(1, 1);
+    expect(outOfPhase[0].end).toBeCloseTo(2, 1);
+    expect(outOfPhase[0].value).toBeLessThan(-0.9);
+  });
+
+  test('flags a band that cancels while the rest of the mix stays in phase', () => {
+    const bass = sine(100, 2);
+    const lead = sine(3000, 2, 0.2);
+    const stereo = analyzeStereo(createSignal([add(bass, lead), add(bass, invert(lead))], SAMPLE_RATE));
+
+    const bands = Object.fromEntries(stereo.bands.map(band => [band.name, band]));
+    expect(bands['Bass'].width).toBeLessThan(0.01);
+    expect(bands['High Mids'].width).toBeGreaterThan(0.99);
+    expect(stereo.correlation).toBeGreaterThan(0);
+    expect(stereo.warnings.map(warning => warning.band)).toContain('High Mids');
+    expect(stereo.warnings.map(warning => warning.band)).not.toContain('Bass');
+  });
+
+  test('treats a single channel as mono', () => {
+    const stereo = analyzeStereo(createSignal([sine(440, 1)], SAMPLE_RATE));
+
+    expect(stereo.isStereo).toBe(false);
+    expect(stereo.correlation).toBe(1);
+    expect(stereo.width).toBe(0);
+    expect(stereo.warnings).toEqual([]);
+    expect(stereo.vectorscope[0]).toBe(stereo.vectorscope[1]);
+  });
+});
@@ -0,0 +1,112 @@
+import { computeSpectrum, computeSTFT, createWindow, fft, frequencyToBin } from '../../src/utils/stft';
+import { detectFrequencyPeaks, generateSpectrogram } from '../../src/utils/audio-processing';
+import { createSignal } from '../helpers/signals';
+
+const sampleRate = 8000;
+
+function sine(frequency: number, amplitude: number, length: number): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+}
+
+function argMax(values: Float32Array): number {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+}
+
+describe('fft', () => {
+  test('transforms an impulse into a flat spectrum', () => {
+    const real = new Float32Array(8);
+    const imag = new Float32Array(8);
+    real[0] = 1;
+    fft(real, imag);
+    real.forEach(value => expect(value).toBeCloseTo(1));
+    imag.forEach(value => expect(value).toBeCloseTo(0));
+  });
+
+  test('rejects sizes that are not a power of two', () => {
+    expect(() => fft(new Float32Array(6), new Float32Array(6))).toThrow('power of two');
+  });
+});
+
+describe('createWindow', () => {
+  test('builds symmetric windows with the expected endpoints', () => {
+    const hann = createWindow('hann', 64);
+    const hamming = createWindow('hamming', 64);
+    const blackman = createWindow('blackman', 64);
+
+    expect(hann[0]).toBeCloseTo(0);
+    expect(hamming[0]).toBeCloseTo(0.08);
+    expect(blackman[0]).toBeCloseTo(0);
+    expect(hann[10]).toBeCloseTo(hann[53]);
+    expect(Math.max(...hann)).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('computeSpectrum', () => {
+  const fftSize = 1024;
+  const frequency = (64 * sampleRate) / fftSize; // falls on bin 64
+
+  test('places a sine at its bin with its amplitude', () => {
+    const spectrum = computeSpectrum(sine(frequency, 0.5, fftSize), { fftSize, scale: 'magnitude' });
+    expect(spectrum.length).toBe(fftSize / 2 + 1);
+    expect(argMax(spectrum)).toBe(64);
+    expect(spectrum[64]).toBeCloseTo(0.5, 2);
+  });
+
+  test('reports power and decibels consistently', () => {
+    const frame = sine(frequency, 0.5, fftSize);
+    const power = computeSpectrum(frame, { fftSize, scale: 'power', windowFunction: 'blackman' });
+    const decibels = computeSpectrum(frame, { fftSize, scale: 'decibels', windowFunction: 'blackman' });
+
+    expect(power[64]).toBeCloseTo(0.25, 2);
+    expect(decibels[64]).toBeCloseTo(20 * Math.log10(0.5), 0);
+  });
+
+  test('clamps silence to the decibel floor', () => {
+    const spectrum = computeSpectrum(new Float32Array(fftSize), { fftSize, minDecibels: -120 });
+    spectrum.forEach(value => expect(value).toBe(-120));
+  });
+});
+
+describe('computeSTFT', () => {
+  test('produces one frame per hop and keeps the zero-padded tail', () => {
+    const frames = computeSTFT(new Float32Array(5000), { fftSize: 1024, hopSize: 256 });
+    expect(frames).toHaveLength(Math.ceil((5000 - 1024) / 256) + 1);
+  });
+
+  test('follows a change in frequency over time', () => {
+    const fftSize = 512;
+    const first = sine(500, 1, sampleRate);
+    const second = sine(2000, 1, sampleRate);
+    const signal = new Float32Array(first.length + second.length);
+    signal.set(first);
+    signal.set(second, first.length);
+
+    const frames = computeSTFT(signal, { fftSize, hopSize: fftSize });
+    expect(argMax(frames[2])).toBe(frequencyToBin(500, fftSize, sampleRate));
+    expect(argMax(frames[frames.length - 3])).toBe(frequencyToBin(2000, fftSize, sampleRate));
+  });
+});
+
+describe('generateSpectrogram', () => {
+  test('fills SpectrogramData from an AudioBuffer without Web Audio', () => {
+    const buffer = createSignal(sine(1000, 1, sampleRate), sampleRate);
+    const spectrogram = generateSpectrogram(buffer, { fftSize: 1024, hopSize: 512, windowFunction: 'hamming' });
+
+    expect(spectrogram.fftSize).toBe(1024);
+    expect(spectrogram.sampleRate).toBe(sampleRate);
+    expect(spectrogram.windowFunction).toBe('hamming');
+    expect(spectrogram.data[3][frequencyToBin(1000, 1024, sampleRate)]).toBeGreaterThan(-3);
+    expect(spectrogram.data[3][10]).toBeLessThan(-40);
+
+    const peaks = detectFrequencyPeaks(spectrogram, sampleRate);
+    expect(peaks[0].frequency).toBeCloseTo(1000, -1);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  createClip,
+  getClipEnd,
+  getClipPlayback,
+  getTimelineDuration,
+  normalizeClip
+} from '../../src/utils/timeline';
+import { type TimelineClip } from '../../src/types/spatial-audio';
+
+function clip(changes: Partial<TimelineClip>): TimelineClip {
+  return { ...createClip(10), ...changes };
+}
+
+describe('getClipPlayback', () => {
+  test('plays the trimmed region once from where the timeline is', () => {
+    const trimmed = clip({ start: 2, trimStart: 1, trimEnd: 5 });
+
+    expect(getClipPlayback(trimmed, 1, 2)).toEqual({ offset: 1, duration: 4 });
+    expect(getClipPlayback(trimmed, 1, 4.5)).toEqual({ offset: 3.5, duration: 1.5 });
+    expect(getClipPlayback(trimmed, 1, 1.9)).toBeNull();
+    expect(getClipPlayback(trimmed, 1, 6)).toBeNull();
+  });
+
+  test('moves through the file faster at higher playback speeds', () => {
+    const trimmed = clip({ start: 2, trimStart: 1, trimEnd: 5 });
+
+    expect(getClipEnd(trimmed, 2)).toBe(4);
+    expect(getClipPlayback(trimmed, 2, 3)).toEqual({ offset: 3, duration: 2 });
+  });
+
+  test('wraps looping clips back to the trim start', () => {
+    const looping = clip({ start: 0, trimStart: 2, trimEnd: 4, loop: true, loopLength: 7 });
+
+    expect(getClipEnd(looping, 1)).toBe(7);
+    expect(getClipPlayback(looping, 1, 5)).toEqual({ offset: 3, duration: 2 });
+    expect(getClipPlayback(looping, 1, 7)).toBeNull();
+  });
+});
+
+describe('getTimelineDuration', () => {
+  test('ends where the last clip ends, with whole files for sources without a clip', () => {
+    const buffer = (duration: number) => ({ duration }) as AudioBuffer;
+
+    expect(getTimelineDuration([
+      { buffer: buffer(10), clip: clip({ start: 4, trimEnd: 3 }) },
+      { buffer: buffer(6) }
+    ], 1)).toBe(7);
+    expect(getTimelineDuration([], 1)).toBe(0);
+  });
+});
+
+describe('normalizeClip', () => {
+  test('keeps trim points inside the file and in order', () => {
+    const normalized = normalizeClip(clip({ start: -2, trimStart: 9, trimEnd: 3 }), 10);
+
+    expect(normalized.start).toBe(0);
+    expect(normalized.trimStart).toBe(9);
+    expect(normalized.trimEnd).toBeCloseTo(9.05);
+    expect(normalizeClip(clip({ trimStart: -1, trimEnd: 12 }), 10)).toMatchObject({ trimStart: 0, trimEnd: 10 });
+  });
+
+  test('fits the fades inside the clip', () => {
+    const normalized = normalizeClip(clip({ trimStart: 0, trimEnd: 2, fadeIn: 1.5, fadeOut: 1.5 }), 10);
+
+    expect(normalized.fadeIn).toBe(1.5);
+    expect(normalized.fadeOut).toBeCloseTo(0.5);
+  });
+});
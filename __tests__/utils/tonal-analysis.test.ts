@@ -0,0 +1,95 @@
+import { analyzeHarmony, estimateKey, computeChroma, PITCH_CLASSES } from '../../src/utils/tonal-analysis';
+import { analyzeTonality } from '../../src/utils/audio-analysis';
+import { generateSpectrogram } from '../../src/utils/audio-processing';
+import { createSignal } from '../helpers/signals';
+
+const sampleRate = 22050;
+
+function midiToFrequency(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+// Sum of sines for the given MIDI notes
+function chord(notes: number[], seconds: number): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  notes.forEach(note => {
+    const frequency = midiToFrequency(note);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] += 0.2 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    }
+  });
+  return samples;
+}
+
+function concat(parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+// Krumhansl-style weights for a scale, rotated to a tonic
+function scaleProfile(tonic: number, intervals: number[]): Float32Array {
+  const profile = new Float32Array(12);
+  intervals.forEach((interval, degree) => {
+    profile[(tonic + interval) % 12] = degree === 0 ? 3 : degree === 4 || degree === 2 ? 2 : 1;
+  });
+  return profile;
+}
+
+describe('estimateKey', () => {
+  test('recognizes sharp major keys', () => {
+    const key = estimateKey(scaleProfile(PITCH_CLASSES.indexOf('F#'), [0, 2, 4, 5, 7, 9, 11]));
+    expect(key.name).toBe('F# major');
+  });
+
+  test('recognizes minor keys', () => {
+    const key = estimateKey(scaleProfile(PITCH_CLASSES.indexOf('C#'), [0, 2, 3, 5, 7, 8, 10]));
+    expect(key.tonic).toBe('C#');
+    expect(key.mode).toBe('minor');
+  });
+});
+
+describe('computeChroma', () => {
+  test('folds octaves of a note into one pitch class', () => {
+    const fftSize = 4096;
+    const spectrogram = generateSpectrogram(createSignal(chord([45, 57, 69], 0.5), sampleRate), { fftSize });
+    const chroma = computeChroma(spectrogram.data[1], fftSize, sampleRate);
+    const strongest = chroma.indexOf(Math.max(...chroma));
+    expect(PITCH_CLASSES[strongest]).toBe('A');
+  });
+});
+
+describe('analyzeHarmony', () => {
+  test('labels a chord progression over time', () => {
+    // A minor - F major - C major - G major, one second each
+    const signal = concat([
+      chord([57, 60, 64], 1),
+      chord([53, 57, 60], 1),
+      chord([48, 52, 55], 1),
+      chord([55, 59, 62], 1)
+    ]);
+    const spectrogram = generateSpectrogram(createSignal(signal, sampleRate), { fftSize: 4096, hopSize: 1024 });
+    const beats = [0.5, 1, 1.5, 2, 2.5, 3, 3.5].map(time => ({ time, confidence: 1 }));
+    const { key, chords } = analyzeHarmony(spectrogram, sampleRate, beats);
+
+    expect(chords.map(segment => segment.label)).toEqual(['Am', 'F', 'C', 'G']);
+    expect(chords[1].start).toBeCloseTo(1);
+    expect(['C major', 'A minor']).toContain(key.name);
+  });
+});
+
+describe('analyzeTonality', () => {
+  test('reads a live decibel spectrum', () => {
+    const fftSize = 4096;
+    const spectrogram = generateSpectrogram(createSignal(chord([62, 66, 69], 0.5), sampleRate), { fftSize });
+    const tonality = analyzeTonality(spectrogram.data[1], fftSize, sampleRate);
+
+    expect(tonality.key).not.toBeNull();
+    expect(tonality.isMajor || tonality.isMinor).toBe(true);
+    expect(tonality.lowFrequencyImpact).toBeLessThan(0.1);
+  });
+});
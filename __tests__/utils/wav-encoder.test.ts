@@ -0,0 +1,76 @@
+import { type AudioSignal } from '../../src/types/audio';
+import { encodeWav, getWavHeaderSize } from '../../src/utils/wav-encoder';
+import { createSignal } from '../helpers/signals';
+
+function fakeAudio(channels: number[][], sampleRate = 48000): AudioSignal {
+  return createSignal(channels.map(channel => Float32Array.from(channel)), sampleRate);
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+  let value = '';
+  for (let i = 0; i < length; i++) value += String.fromCharCode(view.getUint8(offset + i));
+  return value;
+}
+
+describe('encodeWav', () => {
+  test('writes a canonical 16-bit PCM header', () => {
+    const audio = fakeAudio([[0, 0.5, -0.5, 1], [0, -1, 1, 0]], 44100);
+    const view = new DataView(encodeWav(audio, { bitDepth: 16 }));
+
+    expect(view.byteLength).toBe(44 + 4 * 2 * 2);
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(readString(view, 8, 4)).toBe('WAVE');
+    expect(readString(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4); // byte rate
+    expect(view.getUint16(32, true)).toBe(4); // block align
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(16);
+  });
+
+  test('interleaves and scales 16-bit samples', () => {
+    const view = new DataView(encodeWav(fakeAudio([[1, -1], [0.5, 2]]), { bitDepth: 16 }));
+
+    expect(view.getInt16(44, true)).toBe(32767);
+    expect(view.getInt16(46, true)).toBe(16384);
+    expect(view.getInt16(48, true)).toBe(-32768);
+    expect(view.getInt16(50, true)).toBe(32767); // clipped
+  });
+
+  test('packs 24-bit samples into three little-endian bytes', () => {
+    const view = new DataView(encodeWav(fakeAudio([[1, -1]]), { bitDepth: 24 }));
+
+    expect(view.getUint16(32, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint32(40, true)).toBe(6);
+    expect([44, 45, 46].map(i => view.getUint8(i))).toEqual([0xff, 0xff, 0x7f]);
+    expect([47, 48, 49].map(i => view.getUint8(i))).toEqual([0x00, 0x00, 0x80]);
+  });
+
+  test('writes 32-bit float with the extended fmt and fact chunks', () => {
+    const samples = [0.25, -0.75, 1.5];
+    const view = new DataView(encodeWav(fakeAudio([samples]), { bitDepth: 32 }));
+    const headerSize = getWavHeaderSize(32);
+
+    expect(view.byteLength).toBe(headerSize + samples.length * 4);
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(view.getUint32(16, true)).toBe(18);
+    expect(view.getUint16(20, true)).toBe(3); // IEEE float
+    expect(view.getUint16(34, true)).toBe(32);
+    expect(view.getUint16(36, true)).toBe(0);
+    expect(readString(view, 38, 4)).toBe('fact');
+    expect(view.getUint32(46, true)).toBe(samples.length);
+    expect(readString(view, 50, 4)).toBe('data');
+    expect(view.getUint32(54, true)).toBe(samples.length * 4);
+    samples.forEach((sample, i) => expect(view.getFloat32(headerSize + i * 4, true)).toBe(sample));
+  });
+
+  test('rejects unsupported bit depths', () => {
+    expect(() => encodeWav(fakeAudio([[0]]), { bitDepth: 8 as 16 })).toThrow('Unsupported WAV bit depth');
+  });
+});
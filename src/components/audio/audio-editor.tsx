@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import * as Tone from 'tone';
@@ -6,6 +6,8 @@ import { v4 as uuidv4 } from 'uuid';
 import { EditorSidebar } from './editor-sidebar';
 import { EditorRightSidebar } from './editor-right-sidebar';
 import { EditorToolbar } from './editor-toolbar';
+import { TimelineLanes } from './timeline-lanes';
+import { AutomationLanes, type AutomationLaneOption } from './automation-lanes';
 import './editor-styles.css';
 import './mobile-styles.css';
 // Import visualization components
@@ -13,8 +15,68 @@ import { CinematicScene } from '../visualization/cinematic-scene';
 import { SpectralAudioVisualizer } from '../visualization/spectral-audio-visualizer';
 import { SpatialAudioScene } from '../visualization/spatial-audio-scene';
 import { useAudioLibrary } from '../../hooks/use-audio-library';
+import { useMixExport } from '../../hooks/use-mix-export';
+import { useCameraPath } from '../../hooks/use-camera-path';
 import { type AudioData } from '../../types/audio';
-import { type AudioPlacement, type SpatialAudioData } from '../../types/spatial-audio';
+import {
+  type AudioPlacement,
+  type AutomationKeyframe,
+  type MasterAutomation,
+  type MasterAutomationParameter,
+  type MasterBus,
+  type MixerChannel,
+  type SendBuses,
+  type SourceAutomationParameter,
+  type SourceEffects,
+  type SpatialAudioData,
+  type TimelineClip
+} from '../../types/spatial-audio';
+import { PANNER_OPTIONS } from '../../utils/offline-render';
+import { scheduleClip } from '../../utils/clip-playback';
+import {
+  createChannelStrip,
+  createLoudnessTap,
+  createMasterBus,
+  createSendBuses,
+  type ChannelStrip,
+  type LoudnessTap,
+  type MasterBusNodes,
+  type SendBusNodes
+} from '../../utils/mixer-graph';
+import { SILENT_LOUDNESS } from '../../utils/loudness';
+import {
+  DEFAULT_MASTER_BUS,
+  DEFAULT_MIXER_CHANNEL,
+  getAudibleSourceIds,
+  getSourceChannel,
+  SILENT_LEVELS,
+  type MeterLevels,
+  type MeterReadings
+} from '../../utils/mixer';
+import { DEFAULT_SEND_BUSES, getActiveEffects, getSourceEffects, NO_EFFECTS } from '../../utils/source-effects';
+import {
+  AUTOMATION_PARAMETERS,
+  AUTOMATION_RECORD_INTERVAL,
+  getAutomatedPosition,
+  recordKeyframe
+} from '../../utils/automation';
+import {
+  applyAutomation,
+  followAutomation,
+  getSendBusAutomationTargets,
+  getSourceAutomationTargets,
+  type AutomationTarget
+} from '../../utils/automation-playback';
+import { createClip, getSourceClip, getTimelineDuration, normalizeClip } from '../../utils/timeline';
+import { captureSpatialEnvironment } from '../../utils/binaural-render';
+import {
+  createProject,
+  parseProject,
+  resolveProjectAudio,
+  serializeProject,
+  type ProjectSource
+} from '../../utils/project-file';
+import { downloadBlob } from '../../utils/download';
 
 interface AudioEditorProps {
   audioData?: AudioData;
@@ -24,40 +86,116 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
   // Audio library state
   const {
     library,
-    addAudioFile,
+    addAudioFiles,
+    updateItemDetails,
+    loadAudioData,
+    releaseAudioData,
+    replaceLibrary,
     removeAudioFile,
+    evictAudioFile,
     selectAudioFile,
-    MAX_AUDIO_FILES
+    storageUsage,
+    decodedBytes,
+    storageError,
+    clearStorageError,
+    isStorageAvailable
   } = useAudioLibrary();
+  const { exportState, exportMix, exportBinaural, cancelExport } = useMixExport();
+  const cameraPath = useCameraPath();
   
   const [isPlaying, setIsPlaying] = useState(false);
-  const [effects, setEffects] = useState({
-    reverb: false,
-    delay: false,
-    distortion: false,
-    filter: false,
-  });
-  const [filterFreq, setFilterFreq] = useState(1000);
+  const [sendBuses, setSendBuses] = useState<SendBuses>(DEFAULT_SEND_BUSES);
+  const [masterBus, setMasterBus] = useState<MasterBus>(DEFAULT_MASTER_BUS);
+  const [masterAutomation, setMasterAutomation] = useState<MasterAutomation>({});
+  const [isRecordingAutomation, setIsRecordingAutomation] = useState(false);
   const [visualizationType, setVisualizationType] = useState<'mathematical' | 'cinematic' | 'spatial'>('spatial');
   const [isOscillatorEnabled, setIsOscillatorEnabled] = useState(false);
   const [activeSidebarTab, setActiveSidebarTab] = useState('library');
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [currentTime, setCurrentTime] = useState(0);
-  const [totalDuration, setTotalDuration] = useState(0);
+  const [isProjectBusy, setIsProjectBusy] = useState(false);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  // Sources waiting for their library item to load before they are placed
+  const [pendingSources, setPendingSources] = useState<ProjectSource[]>([]);
+  // Item to select once an opened project's sources are all placed
+  const pendingSelectionRef = useRef<string | null>(null);
   
   // Audio processing references
   const playerRefs = useRef(new Map<string, Tone.Player>());
   const pannerRefs = useRef(new Map<string, Tone.Panner3D>());
-  const reverbRef = useRef<Tone.Reverb | null>(null);
-  const delayRef = useRef<Tone.FeedbackDelay | null>(null);
-  const distortionRef = useRef<Tone.Distortion | null>(null);
-  const filterRef = useRef<Tone.Filter | null>(null);
+  // Each player's clip as scheduled on the transport, to take it off again
+  const clipSchedulesRef = useRef(new Map<string, { clip: TimelineClip; speed: number; unschedule: () => void }>());
+  // Params driven by automation during playback, rebuilt as sources and curves change
+  const automationTargetsRef = useRef<AutomationTarget[]>([]);
+  // Timeline position each lane last recorded a value at, during this pass of recording
+  const recordedAtRef = useRef(new Map<string, number>());
+  // Each source's channel strip, with the player and panner feeding it and
+  // whether the player goes through the panner
+  const channelStripsRef = useRef(new Map<string, {
+    strip: ChannelStrip;
+    player: Tone.Player;
+    panner: Tone.Panner3D;
+    spatialLink: boolean;
+  }>());
+  const sendBusesRef = useRef<SendBusNodes | null>(null);
+  const masterBusRef = useRef<MasterBusNodes | null>(null);
+  const loudnessTapRef = useRef<LoudnessTap | null>(null);
   const analyzerRef = useRef<Tone.Analyser | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const animationRef = useRef<number | null>(null);
   
   // Spatial audio state
   const [spatialAudioSources, setSpatialAudioSources] = useState<SpatialAudioData[]>([]);
+  
+  // The timeline runs until the last clip ends
+  const totalDuration = useMemo(
+    () => getTimelineDuration(spatialAudioSources, playbackSpeed),
+    [spatialAudioSources, playbackSpeed]
+  );
+  
+  // Sources as they are at the playhead, moved by their position automation
+  const displayedSources = useMemo(
+    () => spatialAudioSources.map(source => 
+      source.automation ? { ...source, position: getAutomatedPosition(source, currentTime) } : source
+    ),
+    [spatialAudioSources, currentTime]
+  );
+  
+  // Which kinds of effect the visualizations react to
+  const activeEffects = useMemo(() => getActiveEffects(spatialAudioSources), [spatialAudioSources]);
+  
+  // The master graph, kept for as long as the editor is open: channel strips
+  // and the send buses feed the master bus, then the analyzer and speakers
+  useEffect(() => {
+    const analyzer = new Tone.Analyser({
+      type: 'fft',
+      size: 512
+    });
+    analyzer.toDestination();
+    
+    const master = createMasterBus(DEFAULT_MASTER_BUS, analyzer);
+    const buses = createSendBuses(DEFAULT_SEND_BUSES, master.input);
+    const loudness = createLoudnessTap(master.output);
+    const strips = channelStripsRef.current;
+    
+    analyzerRef.current = analyzer;
+    masterBusRef.current = master;
+    sendBusesRef.current = buses;
+    loudnessTapRef.current = loudness;
+    
+    return () => {
+      strips.forEach(({ strip }) => strip.dispose());
+      strips.clear();
+      loudness.dispose();
+      buses.dispose();
+      master.dispose();
+      analyzer.dispose();
+      sendBusesRef.current = null;
+      masterBusRef.current = null;
+      analyzerRef.current = null;
+      loudnessTapRef.current = null;
+    };
+  }, []);
 
   // Initialize Tone.js
   useEffect(() => {
@@ -68,37 +206,8 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
       console.error("Error starting Tone.js:", err);
     });
     
-    // Create effects
-    const reverb = new Tone.Reverb({
-      decay: 3,
-      wet: 0.5
-    }).toDestination();
-    
-    const delay = new Tone.FeedbackDelay({
-      delayTime: 0.25,
-      feedback: 0.5,
-      wet: 0.5
-    }).toDestination();
-    
-    const distortion = new Tone.Distortion({
-      distortion: 0.4,
-      wet: 0.5
-    }).toDestination();
-    
-    const filter = new Tone.Filter({
-      frequency: filterFreq,
-      type: 'lowpass',
-      Q: 1
-    }).toDestination();
-    
-    // Create analyzer - will be connected to all audio sources
-    const analyzer = new Tone.Analyser({
-      type: 'fft',
-      size: 512
-    });
-    analyzer.toDestination();
-    
     // Store references to dispose later
+    const clipSchedules = clipSchedulesRef.current;
     const playersToDispose = new Map<string, Tone.Player>();
     const pannersToDispose = new Map<string, Tone.Panner3D>();
     
@@ -107,46 +216,24 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
       pannersToDispose.set(id, panner);
     });
     
-    // Save references
-    reverbRef.current = reverb;
-    delayRef.current = delay;
-    distortionRef.current = distortion;
-    filterRef.current = filter;
-    analyzerRef.current = analyzer;
-    
     // Add initial audio if provided
     if (audioData) {
       const initialAudioId = uuidv4();
       
       try {
-        const player = new Tone.Player({
-          url: audioData.url,
-          loop: true,
-          playbackRate: playbackSpeed,
-          onload: () => {
-            console.log('Initial audio loaded successfully');
-            // Set total duration once loaded
-            if (player.buffer) {
-              setTotalDuration(player.buffer.duration);
-            }
-          }
-        });
+        const player = new Tone.Player(audioData.buffer);
+        player.playbackRate = playbackSpeed;
         
         // Create panner for 3D positioning
         const panner = new Tone.Panner3D({
           positionX: 0,
           positionY: 0.5,
           positionZ: 0,
-          refDistance: 1,
-          rolloffFactor: 1.5,
-          distanceModel: "exponential",
-          maxDistance: 10000,
-          panningModel: "HRTF"
+          ...PANNER_OPTIONS
         });
         
-        // Connect player to panner to analyzer
+        // The panner feeds the source's channel strip once it is built
         player.connect(panner);
-        panner.connect(analyzer);
         
         // Store in refs and for cleanup
         playerRefs.current.set(initialAudioId, player);
@@ -163,7 +250,8 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
           position: { x: 0, y: 0.5, z: 0 },
           isPlaying: false,
           volume: 1,
-          isSelected: true
+          isSelected: true,
+          clip: createClip(audioData.buffer.duration)
         };
         
         setSpatialAudioSources([initialSource]);
@@ -178,6 +266,8 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
       playersToDispose.forEach((player, id) => {
         try {
           console.log(`Disposing player ${id}`);
+          clipSchedules.get(id)?.unschedule();
+          clipSchedules.delete(id);
           player.stop();
           player.disconnect();
           player.dispose();
@@ -197,91 +287,12 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
         }
       });
       
-      // Dispose of effects
-      if (reverbRef.current) {
-        reverbRef.current.disconnect();
-        reverbRef.current.dispose();
-      }
-      
-      if (delayRef.current) {
-        delayRef.current.disconnect();
-        delayRef.current.dispose();
-      }
-      
-      if (distortionRef.current) {
-        distortionRef.current.disconnect();
-        distortionRef.current.dispose();
-      }
-      
-      if (filterRef.current) {
-        filterRef.current.disconnect();
-        filterRef.current.dispose();
-      }
-      
-      if (analyzerRef.current) {
-        analyzerRef.current.disconnect();
-        analyzerRef.current.dispose();
-      }
-      
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [audioData, filterFreq, playbackSpeed]);
+  }, [audioData, playbackSpeed]);
 
-  // Update effect chain when effects change
-  useEffect(() => {
-    if (!reverbRef.current || !delayRef.current || 
-        !distortionRef.current || !filterRef.current || !analyzerRef.current) {
-      return;
-    }
-    
-    const reverb = reverbRef.current;
-    const delay = delayRef.current;
-    const distortion = distortionRef.current;
-    const filter = filterRef.current;
-    const analyzer = analyzerRef.current;
-    
-    // For each player, update the effect chain
-    playerRefs.current.forEach((player) => {
-      // Store player state before disconnecting
-      const wasPlaying = player.state === "started";
-      const currentTime = player.now();
-      
-      // Disconnect all
-      player.disconnect();
-      
-      // Build chain based on active effects
-      const chain: (Tone.ToneAudioNode)[] = [player];
-      
-      if (effects.reverb) chain.push(reverb);
-      if (effects.delay) chain.push(delay);
-      if (effects.distortion) chain.push(distortion);
-      if (effects.filter) chain.push(filter);
-      
-      // Always end with analyzer and connect to destination
-      chain.push(analyzer);
-      
-      // Connect chain
-      for (let i = 0; i < chain.length - 1; i++) {
-        chain[i].connect(chain[i + 1]);
-      }
-      
-      // Connect last node to destination
-      chain[chain.length - 1].toDestination();
-      
-      // Restore player state
-      if (wasPlaying) {
-        player.start();
-        try {
-          player.seek(currentTime);
-        } catch (error) {
-          console.warn("Could not restore exact playback position", error);
-        }
-      }
-    });
-  }, [effects]);
-  
   // Initialize audio context when user clicks play button
   useEffect(() => {
     // Add click event listener to document to initialize audio context
@@ -301,13 +312,6 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
     };
   }, []);
   
-  // Update filter frequency
-  useEffect(() => {
-    if (filterRef.current) {
-      filterRef.current.frequency.value = filterFreq;
-    }
-  }, [filterFreq]);
-  
   // Setup visualization
   useEffect(() => {
     if (!canvasRef.current || !analyzerRef.current) return;
@@ -318,22 +322,6 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
     
     const analyzer = analyzerRef.current;
     
-    // Track playback time
-    const updateTime = () => {
-      if (isPlaying) {
-        // Get current time from first player
-        const firstPlayer = playerRefs.current.values().next().value;
-        if (firstPlayer) {
-          setCurrentTime(firstPlayer.now());
-        }
-        requestAnimationFrame(updateTime);
-      }
-    };
-    
-    if (isPlaying) {
-      updateTime();
-    }
-    
     // Resize canvas
     const resizeCanvas = () => {
       canvas.width = canvas.clientWidth;
@@ -393,140 +381,49 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
     };
   }, [isPlaying]);
   
-  // Handle adding a new audio file
-  const handleAddAudio = useCallback(async (file: File) => {
+  // Handle adding new audio files
+  const handleAddAudio = useCallback(async (files: File[]) => {
     try {
-      await addAudioFile(file);
-      
-      // After adding a file, recalculate the max duration for all audio files
-      setTimeout(() => {
-        let maxDuration = 0;
-        playerRefs.current.forEach((player) => {
-          if (player.buffer && player.buffer.duration > maxDuration) {
-            maxDuration = player.buffer.duration;
-          }
-        });
-        
-        if (maxDuration > 0) {
-          setTotalDuration(maxDuration);
-        }
-      }, 500); // Give a short delay for the audio to load
+      await addAudioFiles(files);
     } catch (error) {
       console.error("Error adding audio file:", error);
     }
-  }, [addAudioFile]);
+  }, [addAudioFiles]);
   
-  // Track the maximum duration among all loaded audio files
-  useEffect(() => {
-    // Find the maximum duration among all players
-    let maxDuration = 0;
-    
-    playerRefs.current.forEach((player) => {
-      if (player.buffer && player.buffer.duration > maxDuration) {
-        maxDuration = player.buffer.duration;
-      }
-    });
-    
-    if (maxDuration > 0) {
-      setTotalDuration(maxDuration);
-    }
-  }, [library.items]);
   // Add initial audio if provided
   useEffect(() => {
     if (audioData && audioData.file) {
-      handleAddAudio(audioData.file).catch(error => {
+      handleAddAudio([audioData.file]).catch(error => {
         console.error("Error adding initial audio file:", error);
       });
     }
   }, [audioData, handleAddAudio]);
   
-  // Track the maximum duration among all loaded audio files and handle time updates
+  // Follow the transport position while playing, stopping at the end of the timeline
   const updateTimeTracking = useCallback(() => {
     if (!isPlaying) return;
     
-    // Find the maximum duration among all players
-    let maxDuration = 0;
-    let currentTimeValue = 0;
-    let longestDurationPlayerId = '';
-    
-    // First find the longest duration track
-    playerRefs.current.forEach((player, id) => {
-      try {
-        // Only check players that are loaded
-        if (player.buffer) {
-          if (player.buffer.duration > maxDuration) {
-            maxDuration = player.buffer.duration;
-            longestDurationPlayerId = id;
-          }
-        }
-      } catch (error: unknown) {
-        // Ignore errors from players that might be in an invalid state
-        console.debug("Error getting player state:", error);
-      }
-    });
-    
-    // Get current time from the player with the longest duration if playing
-    if (isPlaying && longestDurationPlayerId) {
-      try {
-        const longestPlayer = playerRefs.current.get(longestDurationPlayerId);
-        if (longestPlayer && longestPlayer.state === "started") {
-          // Get the current time of the longest player
-          currentTimeValue = longestPlayer.now() % maxDuration; // Handle looping
-          
-          // If we're near the end of the track, prepare for looping or stopping
-          if (currentTimeValue > maxDuration - 0.1) {
-            currentTimeValue = 0;
-            
-            // Handle what happens at the end - loop back to beginning
-            console.log("End of track reached, looping back to beginning");
-            
-            // Optional: implement auto-stop at end by calling togglePlayback()
-            // if you want playback to stop at the end instead of looping
-          }
-          
-          // Ensure all other players are in sync with the longest one
-          playerRefs.current.forEach((player, id) => {
-            if (id !== longestDurationPlayerId && player.buffer && player.state === "started") {
-              try {
-                // Calculate normalized position
-                const normalizedPosition = currentTimeValue / maxDuration;
-                const expectedPlayerTime = normalizedPosition * player.buffer.duration;
-                const actualPlayerTime = player.now() % player.buffer.duration;
-                
-                // If the difference is too large, re-sync this player
-                if (Math.abs(actualPlayerTime - expectedPlayerTime) > 0.1) {
-                  console.log(`Re-syncing player ${id}: expected=${expectedPlayerTime.toFixed(2)}s, actual=${actualPlayerTime.toFixed(2)}s`);
-                  player.seek(expectedPlayerTime);
-                }
-              } catch (error) {
-                // Ignore sync errors
-                console.debug(`Error syncing player ${id}:`, error);
-              }
-            }
-          });
-        }
-      } catch (error: unknown) {
-        console.debug("Error getting player time:", error);
-      }
-    }
-    
-    // Update the state with the new values
-    if (maxDuration > 0) {
-      setTotalDuration(maxDuration);
-      
-      if (isPlaying) {
-        setCurrentTime(currentTimeValue);
-      }
+    const transport = Tone.getTransport();
+    if (transport.seconds >= totalDuration) {
+      // Stopping rewinds the transport for the next play
+      transport.stop();
+      setCurrentTime(0);
+      setIsPlaying(false);
+      setSpatialAudioSources(prev => 
+        prev.map(source => ({ ...source, isPlaying: false }))
+      );
+      return;
     }
     
-    // Continue the animation loop if playing
-    if (isPlaying) {
-      animationRef.current = requestAnimationFrame(updateTimeTracking);
-    }
-  }, [isPlaying]);
+    setCurrentTime(transport.seconds);
+    animationRef.current = requestAnimationFrame(updateTimeTracking);
+  }, [isPlaying, totalDuration]);
   
   // Start or stop time tracking when play state changes
   useEffect(() => {
+    // Each play starts a new pass of recording
+    recordedAtRef.current.clear();
+    
     if (isPlaying) {
       // Start the animation loop for time tracking
       updateTimeTracking();
@@ -550,92 +447,12 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
       Tone.context.resume().then(() => {
         console.log("Audio context resumed successfully");
         
-        // Create a master analyzer if it doesn't exist
-        if (!analyzerRef.current) {
-          analyzerRef.current = new Tone.Analyser('fft', 512);
-          analyzerRef.current.toDestination();
-        }
-        
-        // Find the longest audio track to use as a reference
-        let maxDuration = 0;
-        let currentPlayTime = currentTime;
-        
-        // Make sure we don't exceed the longest track's duration
-        playerRefs.current.forEach((player) => {
-          if (player.buffer && player.buffer.duration > maxDuration) {
-            maxDuration = player.buffer.duration;
-          }
-        });
-        
-        // Ensure current playback time is valid
-        if (currentPlayTime > maxDuration) {
-          currentPlayTime = 0;
+        // Players follow the transport; start over once the end was reached
+        const transport = Tone.getTransport();
+        if (currentTime >= totalDuration) {
+          transport.seconds = 0;
         }
-        
-        // Start all players with proper spatial positioning and synchronized timing
-        playerRefs.current.forEach((player, id) => {
-          try {
-            // Find the spatial data for this player
-            const sourceData = spatialAudioSources.find(source => source.id === id);
-            
-            if (sourceData) {
-              // Ensure the player is properly configured with a panner
-              let panner = pannerRefs.current.get(id);
-              
-              // If we don't have a panner yet, create one
-              if (!panner) {
-                console.log(`Creating new panner for audio source ${id}`);
-                panner = new Tone.Panner3D({
-                  positionX: sourceData.position.x,
-                  positionY: sourceData.position.y,
-                  positionZ: sourceData.position.z,
-                  refDistance: 1,
-                  rolloffFactor: 1.5,
-                  distanceModel: "exponential",
-                  maxDistance: 10000,
-                  panningModel: "HRTF"
-                });
-                
-                // Store panner reference
-                pannerRefs.current.set(id, panner);
-              }
-              
-              // Disconnect everything to rebuild the audio chain
-              player.disconnect();
-              
-              // Connect player to panner
-              player.connect(panner);
-              
-              // Connect panner to analyzer and destination
-              if (analyzerRef.current) {
-                panner.connect(analyzerRef.current);
-              } else {
-                panner.toDestination();
-              }
-              
-              // Calculate normalized seek position based on the longest track
-              // This ensures all tracks stay in sync relative to their position in the overall timeline
-              if (player.buffer) {
-                const normalizedPosition = currentPlayTime / maxDuration;
-                const playerStartTime = normalizedPosition * player.buffer.duration;
-                
-                // Start playback with synchronized timing
-                if (player.state !== "started") {
-                  console.log(`Starting playback for audio source ${id} at position ${playerStartTime}`);
-                  player.start();
-                  player.seek(playerStartTime);
-                }
-              } else {
-                // If no buffer yet (still loading), just start the player
-                if (player.state !== "started") {
-                  player.start();
-                }
-              }
-            }
-          } catch (error) {
-            console.error(`Error starting audio ${id}:`, error);
-          }
-        });
+        transport.start();
         
         // Update playing state
         setIsPlaying(true);
@@ -648,15 +465,8 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
         console.error("Could not resume audio context:", error);
       });
     } else {
-      // Stop all players
-      playerRefs.current.forEach((player) => {
-        try {
-          console.log(`Stopping playback for audio source ${player}`);
-          player.stop();
-        } catch (error) {
-          console.error("Error stopping player:", error);
-        }
-      });
+      // Pausing keeps the position; the players stop with the transport
+      Tone.getTransport().pause();
       
       setIsPlaying(false);
       
@@ -665,15 +475,7 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
         prev.map(source => ({ ...source, isPlaying: false }))
       );
     }
-  }, [isPlaying, spatialAudioSources, currentTime]);
-  
-  // Toggle effects
-  const toggleEffect = useCallback((effect: keyof typeof effects) => {
-    setEffects(prev => ({
-      ...prev,
-      [effect]: !prev[effect]
-    }));
-  }, []);
+  }, [isPlaying, currentTime, totalDuration]);
   
   // Handle playback speed change
   const handlePlaybackSpeedChange = useCallback((speed: number) => {
@@ -685,11 +487,128 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
     });
   }, []);
   
+  // While recording during playback, the stretch of the timeline a new value
+  // for `lane` covers: from the lane's previous recorded value up to the
+  // transport position. Null when nothing should be recorded.
+  const takeRecordingSlot = useCallback((lane: string): { from: number; time: number } | null => {
+    if (!isRecordingAutomation || !isPlaying) return null;
+    
+    const time = Tone.getTransport().seconds;
+    const last = recordedAtRef.current.get(lane);
+    if (last !== undefined && last <= time && time - last < AUTOMATION_RECORD_INTERVAL) return null;
+    
+    recordedAtRef.current.set(lane, time);
+    return { from: last !== undefined && last <= time ? last : time, time };
+  }, [isRecordingAutomation, isPlaying]);
+  
+  // Change a source's effects. While automation is recorded, moving a send,
+  // filter frequency or distortion wet level writes it into the source's automation.
+  const handleSourceEffectsChange = useCallback((id: string, effects: SourceEffects) => {
+    const source = spatialAudioSources.find(existing => existing.id === id);
+    if (!source) return;
+    
+    const previous = getSourceEffects(source);
+    const changed: Partial<Record<SourceAutomationParameter, number>> = {};
+    if (effects.reverbSend !== previous.reverbSend) changed.reverbSend = effects.reverbSend;
+    if (effects.delaySend !== previous.delaySend) changed.delaySend = effects.delaySend;
+    effects.inserts.forEach(insert => {
+      const before = previous.inserts.find(existing => existing.id === insert.id);
+      if (insert.type === 'filter' && before?.type === 'filter' && insert.frequency !== before.frequency) {
+        changed.filterFrequency = insert.frequency;
+      } else if (insert.type === 'distortion' && before?.type === 'distortion' && insert.wet !== before.wet) {
+        changed.distortionWet = insert.wet;
+      }
+    });
+    
+    const recorded: Partial<Record<SourceAutomationParameter, AutomationKeyframe[]>> = {};
+    (Object.keys(changed) as SourceAutomationParameter[]).forEach(parameter => {
+      const slot = takeRecordingSlot(`${id}:${parameter}`);
+      if (slot) {
+        recorded[parameter] = recordKeyframe(
+          source.automation?.[parameter] ?? [],
+          slot.from,
+          slot.time,
+          changed[parameter] as number
+        );
+      }
+    });
+    
+    setSpatialAudioSources(prev => prev.map(existing => 
+      existing.id === id
+        ? { ...existing, effects, automation: { ...existing.automation, ...recorded } }
+        : existing
+    ));
+  }, [spatialAudioSources, takeRecordingSlot]);
+  
+  // Move a source's fader, recording its volume while automation is recorded
+  const handleVolumeChange = useCallback((id: string, volume: number) => {
+    const slot = takeRecordingSlot(`${id}:volume`);
+    
+    setSpatialAudioSources(prev => prev.map(source => {
+      if (source.id !== id) return source;
+      if (!slot) return { ...source, volume };
+      
+      return {
+        ...source,
+        volume,
+        automation: {
+          ...source.automation,
+          volume: recordKeyframe(source.automation?.volume ?? [], slot.from, slot.time, volume)
+        }
+      };
+    }));
+  }, [takeRecordingSlot]);
+  
+  // Change a source's mute, solo, EQ or panning
+  const handleChannelChange = useCallback((id: string, changes: Partial<MixerChannel>) => {
+    setSpatialAudioSources(prev => prev.map(source => 
+      source.id === id ? { ...source, channel: { ...getSourceChannel(source), ...changes } } : source
+    ));
+  }, []);
+  
+  // Current output levels of every channel strip and the master bus, for the mixer meters
+  const getMeterLevels = useCallback((): MeterReadings => {
+    const sources: Record<string, MeterLevels> = {};
+    channelStripsRef.current.forEach(({ strip }, id) => {
+      sources[id] = strip.getLevels();
+    });
+    return {
+      sources,
+      master: masterBusRef.current?.getLevels() ?? SILENT_LEVELS,
+      loudness: loudnessTapRef.current?.read() ?? SILENT_LOUDNESS
+    };
+  }, []);
+  
+  // Start measuring the master's loudness afresh
+  const handleResetLoudness = useCallback(() => {
+    loudnessTapRef.current?.reset();
+  }, []);
+  
   // Handle placing audio in 3D space
   const handleAudioPlaced = useCallback((placement: AudioPlacement) => {
+    // Dragging while recording writes the position into the source's automation
+    const slot = placement.isDragging ? takeRecordingSlot(`${placement.id}:position`) : null;
+    
     setSpatialAudioSources(prevSources => {
       return prevSources.map(source => {
         if (source.id === placement.id) {
+          if (slot) {
+            const automation = source.automation ?? {};
+            const record = (keyframes: AutomationKeyframe[] | undefined, value: number) => 
+              recordKeyframe(keyframes ?? [], slot.from, slot.time, value);
+            
+            return {
+              ...source,
+              position: placement.position,
+              automation: {
+                ...automation,
+                positionX: record(automation.positionX, placement.position.x),
+                positionY: record(automation.positionY, placement.position.y),
+                positionZ: record(automation.positionZ, placement.position.z)
+              }
+            };
+          }
+          
           // Update the position
           return {
             ...source,
@@ -715,42 +634,48 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
           positionX: placement.position.x,
           positionY: placement.position.y,
           positionZ: placement.position.z,
-          refDistance: 1,
-          rolloffFactor: 1.5,
-          distanceModel: "exponential",
-          maxDistance: 10000,
-          panningModel: "HRTF"
+          ...PANNER_OPTIONS
         });
         
         // Disconnect player from all outputs
         player.disconnect();
         
-        // Connect to new panner
+        // Connect to new panner, which feeds the source's channel strip
         player.connect(newPanner);
         
-        // Connect to effects chain
-        if (analyzerRef.current) {
-          newPanner.connect(analyzerRef.current);
-          analyzerRef.current.toDestination();
-        } else {
-          newPanner.toDestination();
-        }
-        
         // Store the panner reference
         pannerRefs.current.set(placement.id, newPanner);
       }
     }
-  }, []);
+  }, [takeRecordingSlot]);
   
   // Handle audio dropped from library to canvas
   const handleAudioDropped = useCallback((id: string, position: { x: number; y: number; z: number }) => {
     // Find the audio item in the library
     const audioItem = library.items.find(item => item.id === id);
-    if (!audioItem || !audioItem.audioData) {
+    if (!audioItem) {
       console.error("Could not find audio item in library:", id);
       return;
     }
     
+    // Items are decoded on first use; place this one once it has loaded
+    if (!audioItem.audioData) {
+      setPendingSources(prev => [
+        ...prev.filter(source => source.id !== id),
+        {
+        id,
+        position,
+        volume: 1,
+        clip: null,
+        automation: {},
+        effects: NO_EFFECTS,
+        channel: DEFAULT_MIXER_CHANNEL
+      }
+      ]);
+      loadAudioData(id);
+      return;
+    }
+    
     console.log(`Adding audio source ${id} at position:`, position);
     
     // Check if the audio is already in the scene
@@ -773,59 +698,24 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
       // Create new player with the audio URL
       try {
         console.log(`Creating new player for audio ${id}`);
-        player = new Tone.Player({
-          url: audioItem.audioData.url,
-          loop: true,
-          playbackRate: playbackSpeed,
-          onload: () => {
-            console.log(`Audio ${id} loaded for spatial positioning`);
-            // Set total duration once loaded
-            if (player && player.buffer) {
-              // Update max duration if this file is longer
-              const newDuration = player.buffer.duration;
-              if (newDuration > totalDuration) {
-                setTotalDuration(newDuration);
-              }
-            }
-          }
-        });
+        player = new Tone.Player(audioItem.audioData.buffer);
+        player.playbackRate = playbackSpeed;
         
         // Create panner for spatial audio
         const panner = new Tone.Panner3D({
           positionX: position.x,
           positionY: position.y,
           positionZ: position.z,
-          refDistance: 1,
-          rolloffFactor: 1.5,
-          distanceModel: "exponential",
-          maxDistance: 10000,
-          panningModel: "HRTF" // More realistic 3D audio
+          ...PANNER_OPTIONS
         });
         
-        // Connect player to panner
+        // Connect player to panner; the panner feeds the source's channel
+        // strip once the source is added
         player.connect(panner);
         
-        // Connect to analyzer if available
-        if (analyzerRef.current) {
-          panner.connect(analyzerRef.current);
-        } else {
-          // Connect directly to destination if no analyzer
-          panner.toDestination();
-        }
-        
         // Store player and panner for later use
         playerRefs.current.set(id, player);
         pannerRefs.current.set(id, panner);
-        
-        // Start playing if currently playing
-        if (isPlaying) {
-          console.log(`Starting playback for new audio ${id}`);
-          Tone.context.resume().then(() => {
-            player?.start();
-          }).catch(err => {
-            console.error("Could not resume audio context:", err);
-          });
-        }
       } catch (error) {
         console.error(`Error creating player for audio ${id}:`, error);
         return;
@@ -841,7 +731,10 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
       position,
       isPlaying: isPlaying,
       volume: 1,
-      isSelected: true
+      isSelected: true,
+      // New sources start at the beginning of the timeline; the player joins
+      // in once its clip is scheduled on the transport
+      clip: createClip(audioItem.audioData.buffer.duration)
     };
     
     // Add to spatial sources
@@ -849,7 +742,7 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
     
     // Select this audio
     selectAudioFile(id);
-  }, [library.items, spatialAudioSources, isPlaying, selectAudioFile, handleAudioPlaced, playbackSpeed, totalDuration]);
+  }, [library.items, spatialAudioSources, isPlaying, selectAudioFile, handleAudioPlaced, playbackSpeed, loadAudioData]);
   
   // Handle selecting an audio in the 3D scene
   const handleAudioSelected = useCallback((id: string) => {
@@ -874,22 +767,6 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
     
     const analyzer = analyzerRef.current;
     
-    // Track playback time
-    const updateTime = () => {
-      if (isPlaying) {
-        // Get current time from first player
-        const firstPlayer = playerRefs.current.values().next().value;
-        if (firstPlayer) {
-          setCurrentTime(firstPlayer.now());
-        }
-        requestAnimationFrame(updateTime);
-      }
-    };
-    
-    if (isPlaying) {
-      updateTime();
-    }
-    
     // Resize canvas
     const resizeCanvas = () => {
       canvas.width = canvas.clientWidth;
@@ -949,6 +826,175 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
     };
   }, [isPlaying]);
   
+  // Place waiting sources as their audio finishes loading
+  useEffect(() => {
+    if (pendingSources.length === 0) return;
+    
+    const remaining = pendingSources.filter(source => {
+      const item = library.items.find(libraryItem => libraryItem.id === source.id);
+      if (item?.audioData) {
+        handleAudioDropped(source.id, source.position);
+        setSpatialAudioSources(prev => prev.map(existing => 
+          existing.id === source.id
+            ? {
+                ...existing,
+                volume: source.volume,
+                clip: source.clip ? normalizeClip(source.clip, existing.buffer.duration) : existing.clip,
+                automation: source.automation,
+                effects: source.effects,
+                channel: source.channel
+              }
+            : existing
+        ));
+        return false;
+      }
+      
+      // Sources whose audio is missing or failed to load are left out
+      if (!item?.file || item.error) return false;
+      
+      if (!item.isLoading) {
+        loadAudioData(item.id);
+      }
+      return true;
+    });
+    
+    if (remaining.length === pendingSources.length) return;
+    setPendingSources(remaining);
+    
+    if (remaining.length === 0 && pendingSelectionRef.current) {
+      handleAudioSelected(pendingSelectionRef.current);
+      pendingSelectionRef.current = null;
+    }
+  }, [pendingSources, library.items, handleAudioDropped, handleAudioSelected, loadAudioData]);
+  
+  // Only items in the scene keep their decoded audio, so large libraries
+  // don't hold every file in memory
+  useEffect(() => {
+    const inUse = new Set([
+      ...spatialAudioSources.map(source => source.id),
+      ...pendingSources.map(source => source.id)
+    ]);
+    
+    library.items.forEach(item => {
+      if (item.audioData && !inUse.has(item.id)) {
+        releaseAudioData(item.id);
+      }
+    });
+  }, [library.items, spatialAudioSources, pendingSources, releaseAudioData]);
+  
+  // Remove every source from the scene and release its player
+  const clearScene = useCallback(() => {
+    Tone.getTransport().stop();
+    clipSchedulesRef.current.forEach(({ unschedule }) => unschedule());
+    clipSchedulesRef.current.clear();
+    playerRefs.current.forEach((player, id) => {
+      try {
+        player.stop();
+        player.dispose();
+      } catch (error) {
+        console.error(`Error disposing player ${id}:`, error);
+      }
+    });
+    pannerRefs.current.forEach((panner, id) => {
+      try {
+        panner.dispose();
+      } catch (error) {
+        console.error(`Error disposing panner ${id}:`, error);
+      }
+    });
+    channelStripsRef.current.forEach(({ strip }) => strip.dispose());
+    channelStripsRef.current.clear();
+    playerRefs.current.clear();
+    pannerRefs.current.clear();
+    
+    setSpatialAudioSources([]);
+    setIsPlaying(false);
+    setCurrentTime(0);
+  }, []);
+  
+  // Save the session as a project file
+  const handleSaveProject = useCallback(async (embedAudio: boolean) => {
+    setIsProjectBusy(true);
+    setProjectError(null);
+    
+    try {
+      const project = await createProject({
+        // Items whose audio is missing have nothing to save
+        library: library.items.flatMap(item => 
+          item.file
+            ? [{ id: item.id, name: item.name, color: item.color, folder: item.folder, tags: item.tags, file: item.file }]
+            : []
+        ),
+        selectedItemId: library.selectedItemId,
+        sources: spatialAudioSources.map(source => ({
+          id: source.id,
+          position: source.position,
+          volume: source.volume,
+          clip: source.clip ?? null,
+          automation: source.automation ?? {},
+          effects: getSourceEffects(source),
+          channel: getSourceChannel(source)
+        })),
+        automation: masterAutomation,
+        buses: sendBuses,
+        master: masterBus,
+        playbackSpeed,
+        visualizationType
+      }, { embedAudio });
+      
+      downloadBlob(new Blob([serializeProject(project)], { type: 'application/json' }), 'project.json');
+    } catch (error) {
+      console.error('Error saving project:', error);
+      setProjectError(error instanceof Error ? error.message : 'Failed to save the project');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  }, [library, spatialAudioSources, masterAutomation, sendBuses, masterBus, playbackSpeed, visualizationType]);
+  
+  // Open a project file. Any other files picked with it are the audio files
+  // a project without embedded audio refers to.
+  const handleOpenProject = useCallback(async (files: File[]) => {
+    const projectFile = files.find(file => file.name.toLowerCase().endsWith('.json'));
+    if (!projectFile) {
+      setProjectError('Select a project file (.json) to open');
+      return;
+    }
+    
+    setIsProjectBusy(true);
+    setProjectError(null);
+    
+    try {
+      // Read everything before touching the session so a bad file leaves it intact
+      const project = parseProject(await projectFile.text());
+      const audioFiles = files.filter(file => file !== projectFile);
+      const entries = project.library.map(item => ({
+        id: item.id,
+        name: item.name,
+        color: item.color,
+        folder: item.folder ?? undefined,
+        tags: item.tags,
+        file: resolveProjectAudio(item.audio, audioFiles),
+        missingFileError: `Audio file "${item.audio.fileName}" was not selected. Open the project together with it.`
+      }));
+      
+      clearScene();
+      setSendBuses(project.buses);
+      setMasterBus(project.master);
+      setMasterAutomation(project.automation);
+      handlePlaybackSpeedChange(project.playbackSpeed);
+      setVisualizationType(project.visualizationType);
+      setPendingSources(project.sources);
+      pendingSelectionRef.current = project.selectedItemId;
+      
+      await replaceLibrary(entries, project.selectedItemId);
+    } catch (error) {
+      console.error('Error opening project:', error);
+      setProjectError(error instanceof Error ? error.message : 'Failed to open the project');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  }, [clearScene, handlePlaybackSpeedChange, replaceLibrary]);
+  
   // Handle audio position change (from 2D view)
   const handleAudioPositionChange = useCallback((id: string, position: { x: number; y: number; z: number }) => {
     handleAudioPlaced({
@@ -958,84 +1004,201 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
     });
   }, [handleAudioPlaced]);
 
-  // Handle seeking to a specific time
+  // Seek by moving the transport; clips it lands inside pick up at the matching point
   const handleSeek = useCallback((time: number) => {
-    // Store current playback state
-    const wasPlaying = isPlaying;
+    const clampedTime = Math.max(0, Math.min(time, totalDuration));
+    Tone.getTransport().seconds = clampedTime;
+    setCurrentTime(clampedTime);
+  }, [totalDuration]);
+  
+  // Keep every player scheduled on the transport to match its clip. Only
+  // clips that changed are rescheduled, so moving a source in the scene
+  // doesn't interrupt it.
+  useEffect(() => {
+    const schedules = clipSchedulesRef.current;
+    const sourceIds = new Set(spatialAudioSources.map(source => source.id));
     
-    // If playing, temporarily pause to avoid timing issues during seek
-    if (wasPlaying) {
-      // Instead of stopping the players, we'll just prepare for repositioning
-      // We'll restart them after seeking
-      console.log("Pausing players for seek operation");
-    }
+    schedules.forEach(({ unschedule }, id) => {
+      if (!sourceIds.has(id)) {
+        unschedule();
+        schedules.delete(id);
+      }
+    });
     
-    // Find the longest audio track
-    let maxDuration = 0;
+    spatialAudioSources.forEach(source => {
+      const player = playerRefs.current.get(source.id);
+      if (!player?.loaded) return;
+      
+      const clip = getSourceClip(source);
+      const scheduled = schedules.get(source.id);
+      if (scheduled && scheduled.clip === clip && scheduled.speed === playbackSpeed) return;
+      
+      scheduled?.unschedule();
+      schedules.set(source.id, { clip, speed: playbackSpeed, unschedule: scheduleClip(player, clip, playbackSpeed) });
+    });
+  }, [spatialAudioSources, playbackSpeed]);
+  
+  // Give every source its own channel strip, fed by its panner or, while
+  // the channel isn't linked to the scene, by the player directly. Strips
+  // follow the sources' effects, mixer settings, mute and solo.
+  useEffect(() => {
+    const master = masterBusRef.current;
+    const buses = sendBusesRef.current;
+    if (!master || !buses) return;
     
-    playerRefs.current.forEach((player) => {
-      if (player.buffer && player.buffer.duration > maxDuration) {
-        maxDuration = player.buffer.duration;
+    const strips = channelStripsRef.current;
+    const sourceIds = new Set(spatialAudioSources.map(source => source.id));
+    strips.forEach(({ strip }, id) => {
+      if (!sourceIds.has(id)) {
+        strip.dispose();
+        strips.delete(id);
       }
     });
     
-    // Clamp time to valid range
-    const clampedTime = Math.max(0, Math.min(time, maxDuration));
+    const audibleIds = getAudibleSourceIds(spatialAudioSources);
+    spatialAudioSources.forEach(source => {
+      const player = playerRefs.current.get(source.id);
+      const panner = pannerRefs.current.get(source.id);
+      if (!player || !panner) return;
+      
+      const effects = getSourceEffects(source);
+      const channel = getSourceChannel(source);
+      const audible = audibleIds.has(source.id);
+      let entry = strips.get(source.id);
+      
+      if (entry && entry.player === player && entry.panner === panner) {
+        entry.strip.update(effects, channel, audible);
+      } else {
+        // A new source, or one whose player or panner was replaced
+        entry?.strip.dispose();
+        const strip = createChannelStrip(effects, channel, audible, buses, master.input);
+        panner.connect(strip.input);
+        entry = { strip, player, panner, spatialLink: true };
+        strips.set(source.id, entry);
+      }
+      
+      // Route the player through the panner, or around it for stereo panning
+      if (entry.spatialLink !== channel.spatialLink) {
+        player.disconnect();
+        player.connect(channel.spatialLink ? panner : entry.strip.input);
+        entry.spatialLink = channel.spatialLink;
+      }
+    });
+  }, [spatialAudioSources]);
+  
+  useEffect(() => {
+    sendBusesRef.current?.update(sendBuses);
+  }, [sendBuses]);
+  
+  useEffect(() => {
+    masterBusRef.current?.update(masterBus);
+  }, [masterBus]);
+  
+  // Point the automation at the current params and curves. While stopped,
+  // params jump straight to their values at the playhead.
+  useEffect(() => {
+    const targets: AutomationTarget[] = [];
+    spatialAudioSources.forEach(source => {
+      const player = playerRefs.current.get(source.id);
+      const panner = pannerRefs.current.get(source.id);
+      if (player && panner) {
+        const strip = channelStripsRef.current.get(source.id)?.strip;
+        targets.push(...getSourceAutomationTargets(source, player, panner, strip));
+      }
+    });
     
-    // Calculate normalized position (0-1) of the seek point relative to max duration
-    const normalizedPosition = clampedTime / maxDuration;
-    console.log(`Seeking to normalized position: ${normalizedPosition} (${clampedTime}s / ${maxDuration}s)`);
+    if (sendBusesRef.current) {
+      targets.push(...getSendBusAutomationTargets(sendBusesRef.current, sendBuses, masterAutomation));
+    }
     
-    // Update all players with the new position
-    playerRefs.current.forEach((player, id) => {
-      try {
-        if (player.buffer) {
-          // Calculate the appropriate time for this specific player based on its duration
-          const playerTime = normalizedPosition * player.buffer.duration;
-          const seekTime = Math.min(playerTime, player.buffer.duration);
-          
-          console.log(`Setting player ${id} to position: ${seekTime}s / ${player.buffer.duration}s`);
-          
-          // If player was already started, we need to restart it at the new position
-          const playerWasStarted = player.state === "started";
-          
-          if (playerWasStarted) {
-            // For players that were playing, stop and restart at new position
-            player.stop();
-            player.start();
-            player.seek(seekTime);
-            
-            // If we're not supposed to be playing, stop it again
-            if (!wasPlaying) {
-              setTimeout(() => player.stop(), 10);
-            }
-          } else {
-            // For stopped players, just set the seek position
-            player.seek(seekTime);
-            
-            // If we should be playing, start the player
-            if (wasPlaying) {
-              player.start();
-            }
-          }
+    automationTargetsRef.current = targets;
+    if (!isPlaying) {
+      applyAutomation(targets, currentTime);
+    }
+  }, [spatialAudioSources, masterAutomation, sendBuses, isPlaying, currentTime]);
+  
+  // Automation follows the transport for as long as the editor is open
+  useEffect(() => followAutomation(() => automationTargetsRef.current), []);
+  
+  // Lanes for the selected source's position, volume and effects, then the bus returns.
+  // Filter and distortion lanes are offered once the source has such an insert.
+  const automationLanes = useMemo((): AutomationLaneOption[] => {
+    const selected = spatialAudioSources.find(source => source.id === library.selectedItemId);
+    const effects = selected ? getSourceEffects(selected) : NO_EFFECTS;
+    const filter = effects.inserts.find(insert => insert.type === 'filter');
+    const distortion = effects.inserts.find(insert => insert.type === 'distortion');
+    const sourceValues: Partial<Record<SourceAutomationParameter, number>> = selected
+      ? {
+          positionX: selected.position.x,
+          positionY: selected.position.y,
+          positionZ: selected.position.z,
+          volume: selected.volume,
+          ...(filter?.type === 'filter' ? { filterFrequency: filter.frequency } : {}),
+          ...(distortion?.type === 'distortion' ? { distortionWet: distortion.wet } : {}),
+          reverbSend: effects.reverbSend,
+          delaySend: effects.delaySend
         }
-      } catch (error: unknown) {
-        console.error(`Error seeking player ${id}:`, error);
-      }
-    });
+      : {};
+    const masterValues: Record<MasterAutomationParameter, number> = {
+      reverbReturn: sendBuses.reverb.returnLevel,
+      delayReturn: sendBuses.delay.returnLevel
+    };
     
-    // Update current time display
-    setCurrentTime(clampedTime);
+    const sourceLanes = selected
+      ? (Object.keys(sourceValues) as SourceAutomationParameter[]).map(parameter => ({
+          id: `${selected.id}:${parameter}`,
+          parameter,
+          label: `${selected.name}: ${AUTOMATION_PARAMETERS[parameter].label}`,
+          keyframes: selected.automation?.[parameter] ?? [],
+          value: sourceValues[parameter] as number
+        }))
+      : [];
+    const masterLanes = (Object.keys(masterValues) as MasterAutomationParameter[]).map(parameter => ({
+      id: `master:${parameter}`,
+      parameter,
+      label: AUTOMATION_PARAMETERS[parameter].label,
+      keyframes: masterAutomation[parameter] ?? [],
+      value: masterValues[parameter]
+    }));
     
-    // Update time tracking
-    if (wasPlaying) {
-      // Restart animation frame loop for time tracking
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
-      animationRef.current = requestAnimationFrame(updateTimeTracking);
+    return [...sourceLanes, ...masterLanes];
+  }, [spatialAudioSources, library.selectedItemId, masterAutomation, sendBuses]);
+  
+  // Replace a lane's keyframes; lane ids are "<source id or master>:<parameter>"
+  const handleAutomationChange = useCallback((laneId: string, keyframes: AutomationKeyframe[]) => {
+    const separator = laneId.lastIndexOf(':');
+    const owner = laneId.slice(0, separator);
+    const parameter = laneId.slice(separator + 1);
+    
+    if (owner === 'master') {
+      setMasterAutomation(prev => ({ ...prev, [parameter]: keyframes }));
+    } else {
+      setSpatialAudioSources(prev => prev.map(source => 
+        source.id === owner
+          ? { ...source, automation: { ...source.automation, [parameter]: keyframes } }
+          : source
+      ));
     }
-  }, [isPlaying, updateTimeTracking]);
+  }, []);
+  
+  // Leave the shared transport stopped and empty when the editor goes away
+  useEffect(() => {
+    const schedules = clipSchedulesRef.current;
+    return () => {
+      Tone.getTransport().stop();
+      schedules.forEach(({ unschedule }) => unschedule());
+      schedules.clear();
+    };
+  }, []);
+  
+  // Edit a source's clip from the timeline
+  const handleClipChange = useCallback((id: string, changes: Partial<TimelineClip>) => {
+    setSpatialAudioSources(prev => prev.map(source => 
+      source.id === id
+        ? { ...source, clip: normalizeClip({ ...getSourceClip(source), ...changes }, source.buffer.duration) }
+        : source
+    ));
+  }, []);
 
   return (
     <div className="visualization-container flex flex-col h-screen w-full dark text-foreground">
@@ -1044,58 +1207,132 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
         <EditorSidebar 
           activeTab={activeSidebarTab}
           onTabChange={setActiveSidebarTab}
-          effects={effects}
-          onToggleEffect={(effect) => toggleEffect(effect as keyof typeof effects)}
-          filterFreq={filterFreq}
-          onFilterFreqChange={setFilterFreq}
+          sendBuses={sendBuses}
+          onSendBusesChange={setSendBuses}
+          mixerSources={spatialAudioSources}
+          masterBus={masterBus}
+          onMasterBusChange={setMasterBus}
+          onVolumeChange={handleVolumeChange}
+          onChannelChange={handleChannelChange}
+          getMeterLevels={getMeterLevels}
+          onResetLoudness={handleResetLoudness}
           audioLibraryItems={library.items}
           selectedAudioItemId={library.selectedItemId}
           onAddAudio={handleAddAudio}
           onRemoveAudio={removeAudioFile}
           onSelectAudio={selectAudioFile}
-          maxAudioFiles={MAX_AUDIO_FILES}
+          onEvictAudio={evictAudioFile}
+          onUpdateAudioDetails={updateItemDetails}
+          onAnalyzeAudio={loadAudioData}
+          decodedBytes={decodedBytes}
+          storageUsage={isStorageAvailable ? storageUsage : undefined}
+          storageError={storageError}
+          onDismissStorageError={clearStorageError}
+          exportState={exportState}
+          canExport={spatialAudioSources.length > 0}
+          onExport={(format) => exportMix(
+            spatialAudioSources,
+            { buses: sendBuses, master: masterBus, playbackSpeed, automation: masterAutomation },
+            format
+          )}
+          onCancelExport={cancelExport}
+          onExportBinaural={(format, followCameraPath) => {
+            // The binaural render leaves out sources the mixer silences
+            const audibleIds = getAudibleSourceIds(spatialAudioSources);
+            exportBinaural(
+              captureSpatialEnvironment(
+                spatialAudioSources.filter(source => audibleIds.has(source.id)),
+                cameraPath.getCurrentPose(),
+                {
+                  reverbLevel: activeEffects.reverb ? sendBuses.reverb.returnLevel : 0,
+                  roomSize: sendBuses.reverb.decay
+                }
+              ),
+              format,
+              followCameraPath ? cameraPath.path : undefined
+            );
+          }}
+          isRecordingCameraPath={cameraPath.isRecording}
+          cameraPathDuration={cameraPath.pathDuration}
+          onToggleCameraPathRecording={cameraPath.isRecording ? cameraPath.stopRecording : cameraPath.startRecording}
+          onClearCameraPath={cameraPath.clearPath}
         />
         
         {/* Main Editor Area */}
         <div className="flex-1 overflow-hidden bg-background/10 backdrop-blur-md flex flex-col relative ml-[60px]">
+          {projectError && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 max-w-lg bg-red-900/80 border border-red-700 text-red-100 text-xs rounded-md px-4 py-3 flex items-start space-x-3">
+              <p className="whitespace-pre-line flex-1">{projectError}</p>
+              <button className="text-red-200 hover:text-white" onClick={() => setProjectError(null)}>
+                Dismiss
+              </button>
+            </div>
+          )}
+          
           {/* Main Canvas */}
           <div className="flex-1 relative">
             <div className="absolute inset-0">
               {visualizationType === 'spatial' ? (
                 <SpatialAudioScene 
-                  audioSources={spatialAudioSources}
+                  audioSources={displayedSources}
                   onAudioPlaced={handleAudioPlaced}
                   onAudioSelected={handleAudioSelected}
                   onAudioDropped={handleAudioDropped}
                   analyzer={analyzerRef.current}
                   isPlaying={isPlaying}
+                  onListenerMove={cameraPath.handleListenerPose}
                 />
               ) : visualizationType === 'cinematic' ? (
                 <Canvas camera={{ position: [0, 0, 15], fov: 60 }}>
                   <ambientLight intensity={0.5} />
                   <spotLight position={[10, 10, 10]} angle={0.15} penumbra={1} />
                   <pointLight position={[-10, -10, -10]} intensity={1} />
-                  <CinematicScene effects={effects} analyzer={analyzerRef.current} isPlaying={isPlaying} />
+                  <CinematicScene effects={activeEffects} analyzer={analyzerRef.current} isPlaying={isPlaying} />
                   <OrbitControls enableZoom={true} enablePan={true} />
                 </Canvas>
               ) : (
                 <SpectralAudioVisualizer 
                   analyzer={analyzerRef.current} 
                   isPlaying={isPlaying} 
-                  effects={effects} 
+                  effects={activeEffects} 
                 />
               )}
             </div>
           </div>
+          
+          {/* Timeline lanes */}
+          <TimelineLanes 
+            sources={spatialAudioSources}
+            playbackSpeed={playbackSpeed}
+            currentTime={currentTime}
+            duration={totalDuration}
+            selectedId={library.selectedItemId}
+            onSelect={handleAudioSelected}
+            onClipChange={handleClipChange}
+            onSeek={handleSeek}
+          />
+          
+          {/* Automation lanes */}
+          {spatialAudioSources.length > 0 && (
+            <AutomationLanes 
+              lanes={automationLanes}
+              duration={totalDuration}
+              currentTime={currentTime}
+              isRecording={isRecordingAutomation}
+              onToggleRecording={() => setIsRecordingAutomation(prev => !prev)}
+              onChange={handleAutomationChange}
+            />
+          )}
         </div>
         
         {/* Right Sidebar */}
         <EditorRightSidebar 
           isOscillatorEnabled={isOscillatorEnabled}
           onOscillatorEnabledChange={setIsOscillatorEnabled}
-          audioSources={spatialAudioSources}
+          audioSources={displayedSources}
           selectedAudioId={library.selectedItemId}
           onAudioPositionChange={handleAudioPositionChange}
+          onAudioEffectsChange={handleSourceEffectsChange}
         />
       </div>
       
@@ -1110,6 +1347,9 @@ export function AudioEditor({ audioData }: AudioEditorProps) {
         isPlaying={isPlaying}
         onPlayPause={togglePlayback}
         onSeek={handleSeek}
+        onSaveProject={handleSaveProject}
+        onOpenProject={handleOpenProject}
+        isProjectBusy={isProjectBusy}
       />
     </div>
   );
@@ -1,18 +1,51 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '../ui/button';
 import { type AudioLibraryItem } from '../../types/spatial-audio';
+import { type LibraryItemDetails } from '../../hooks/use-audio-library';
+import {
+  filterLibraryItems,
+  groupLibraryItemsByFolder,
+  parseTags,
+  sortLibraryItems,
+  type LibrarySortKey
+} from '../../utils/library-organization';
 import Uplo from '../ui/uplo';
 
 interface AudioLibraryTabProps {
   audioItems: AudioLibraryItem[];
   selectedItemId: string | null;
-  onAddAudio: (file: File) => Promise<void>;
+  onAddAudio: (files: File[]) => Promise<void>;
   onRemoveAudio: (id: string) => void;
   onSelectAudio: (id: string) => void;
   onTogglePlay?: (id: string) => void;
-  maxFiles: number;
+  onEvictAudio?: (id: string) => void;
+  onUpdateDetails?: (id: string, details: LibraryItemDetails) => void;
+  onAnalyzeAudio?: (id: string) => void;
+  decodedBytes?: number;
+  storageUsage?: { bytes: number; quota: number | null };
+  storageError?: string | null;
+  onDismissStorageError?: () => void;
 }
 
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} bytes`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const SORT_OPTIONS: { value: LibrarySortKey; label: string }[] = [
+  { value: 'added', label: 'Date added' },
+  { value: 'name', label: 'Name' },
+  { value: 'duration', label: 'Duration' },
+  { value: 'folder', label: 'Folder' }
+];
+
 export function AudioLibraryTab({
   audioItems,
   selectedItemId,
@@ -20,18 +53,36 @@ export function AudioLibraryTab({
   onRemoveAudio,
   onSelectAudio,
   onTogglePlay,
-  maxFiles
+  onEvictAudio,
+  onUpdateDetails,
+  onAnalyzeAudio,
+  decodedBytes,
+  storageUsage,
+  storageError,
+  onDismissStorageError
 }: AudioLibraryTabProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   
   const [dragActive, setDragActive] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortKey, setSortKey] = useState<LibrarySortKey>('added');
+  
+  const groups = useMemo(
+    () => groupLibraryItemsByFolder(sortLibraryItems(filterLibraryItems(audioItems, searchQuery), sortKey)),
+    [audioItems, searchQuery, sortKey]
+  );
+  const folders = useMemo(
+    () => Array.from(new Set(audioItems.flatMap(item => (item.folder ? [item.folder] : [])))).sort(),
+    [audioItems]
+  );
+  const selectedItem = audioItems.find(item => item.id === selectedItemId) ?? null;
   
-  const handleFileSelected = async (file: File) => {
+  const handleFilesSelected = async (files: File[]) => {
     try {
       setIsUploading(true);
       setUploadError(null);
-      await onAddAudio(file);
+      await onAddAudio(files);
     } catch (err) {
       console.error("Error uploading file:", err);
       setUploadError(err instanceof Error ? err.message : 'Unknown error occurred');
@@ -59,166 +110,319 @@ export function AudioLibraryTab({
     const files = e.dataTransfer.files;
     if (!files || files.length === 0) return;
     
-    // Validate and process the file
-    const file = files[0];
-    if (!file.type.startsWith('audio/')) {
-      setUploadError('Please upload an audio file');
+    // Validate and process the files
+    const audioFiles = Array.from(files).filter(file => file.type.startsWith('audio/'));
+    if (audioFiles.length === 0) {
+      setUploadError('Please upload audio files');
       return;
     }
     
-    handleFileSelected(file);
+    handleFilesSelected(audioFiles);
   };
   
+  const renderItem = (item: AudioLibraryItem) => (
+    <div 
+      key={item.id}
+      className={`p-2 rounded-md audio-item flex items-center justify-between text-sm border ${
+        selectedItemId === item.id 
+          ? 'bg-primary/20 border-primary' 
+          : 'bg-card border-border hover:border-primary/50'
+      }`}
+      onClick={() => onSelectAudio(item.id)}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData('audio/id', item.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+    >
+      <div className="flex items-center min-w-0">
+        <div 
+          className={`w-3 h-3 rounded-full mr-2 flex-shrink-0 ${item.isPlaying ? 'animate-pulse' : ''}`}
+          style={{ backgroundColor: item.color }}
+        />
+        <div className="min-w-0">
+          <span className="block truncate max-w-[120px]" title={item.error ?? item.name}>{item.name}</span>
+          {item.tags && item.tags.length > 0 && (
+            <span className="block truncate max-w-[120px] text-[10px] text-muted-foreground">
+              {item.tags.map(tag => `#${tag}`).join(' ')}
+            </span>
+          )}
+        </div>
+      </div>
+      
+      {item.isLoading && (
+        <span className="text-xs">
+          {item.progress !== undefined ? `Analyzing ${item.progress}%` : 'Loading...'}
+        </span>
+      )}
+      {item.error && !item.isLoading && (
+        <span className="text-xs text-red-500" title={item.error}>Error</span>
+      )}
+      
+      <div className="flex items-center">
+        {item.isStored && onEvictAudio && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 mr-1"
+            title={`Saved for later sessions (${formatFileSize(item.storedBytes ?? 0)}). Click to remove the saved copy.`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onEvictAudio(item.id);
+            }}
+          >
+            <svg 
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <ellipse cx="12" cy="5" rx="9" ry="3"></ellipse>
+              <path d="M3 5v14c0 1.66 4 3 9 3s9-1.34 9-3V5"></path>
+              <path d="M3 12c0 1.66 4 3 9 3s9-1.34 9-3"></path>
+            </svg>
+          </Button>
+        )}
+        
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 mr-1"
+          onClick={(e) => {
+            e.stopPropagation();
+            // Toggle play/pause for this audio item
+            if (onTogglePlay) {
+              onTogglePlay(item.id);
+            }
+          }}
+        >
+          <svg 
+            xmlns="http://www.w3.org/2000/svg"
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            {item.isPlaying ? (
+              <>
+                <rect x="6" y="4" width="4" height="16"></rect>
+                <rect x="14" y="4" width="4" height="16"></rect>
+              </>
+            ) : (
+              <polygon points="5 3 19 12 5 21 5 3"></polygon>
+            )}
+          </svg>
+        </Button>
+        
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemoveAudio(item.id);
+          }}
+        >
+          <svg 
+            xmlns="http://www.w3.org/2000/svg"
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M3 6h18"></path>
+            <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"></path>
+            <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"></path>
+          </svg>
+        </Button>
+      </div>
+    </div>
+  );
+  
   return (
     <div className="space-y-4">
       <h3 className="text-sm font-medium mb-2">Audio Library</h3>
       
       {/* Upload component */}
       <div className="mb-4">
-        {audioItems.length < maxFiles ? (
+        <div 
+          className={`uplo-wrapper ${dragActive ? 'drag-active' : ''}`}
+          onDragEnter={handleDrag}
+          onDragOver={handleDrag}
+          onDragLeave={handleDrag}
+          onDrop={handleDrop}
+        >
           <div 
-            className={`uplo-wrapper ${dragActive ? 'drag-active' : ''}`}
-            onDragEnter={handleDrag}
-            onDragOver={handleDrag}
-            onDragLeave={handleDrag}
-            onDrop={handleDrop}
+            className="w-full h-full flex items-center justify-center"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              const fileInput = document.getElementById('file-upload-input') as HTMLInputElement;
+              if (fileInput) {
+                fileInput.click();
+              }
+            }}
           >
-            <div 
-              className="w-full h-full flex items-center justify-center"
-              onClick={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                const fileInput = document.getElementById('file-upload-input') as HTMLInputElement;
-                if (fileInput) {
-                  fileInput.click();
-                }
-              }}
-            >
-              <Uplo />
-            </div>
-            <input 
-              id="file-upload-input"
-              type="file"
-              accept="audio/*"
-              onChange={(e) => {
-                if (e.target.files && e.target.files.length > 0) {
-                  handleFileSelected(e.target.files[0]);
-                }
-              }}
-              style={{ display: 'none' }}
-              disabled={isUploading}
-            />
-            {isUploading && (
-              <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 rounded-xl">
-                <div className="text-white">Processing...</div>
-              </div>
-            )}
+            <Uplo />
           </div>
-        ) : (
-          <p className="text-xs text-amber-400">Maximum number of files reached ({maxFiles})</p>
-        )}
+          <input 
+            id="file-upload-input"
+            type="file"
+            accept="audio/*"
+            multiple
+            onChange={(e) => {
+              if (e.target.files && e.target.files.length > 0) {
+                handleFilesSelected(Array.from(e.target.files));
+                // Reset so the same files can be added again
+                e.target.value = '';
+              }
+            }}
+            style={{ display: 'none' }}
+            disabled={isUploading}
+          />
+          {isUploading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 rounded-xl">
+              <div className="text-white">Processing...</div>
+            </div>
+          )}
+        </div>
         
         {uploadError && (
           <p className="text-xs text-red-500 mt-1">{uploadError}</p>
         )}
       </div>
       
-      {/* Audio item list */}
+      {/* Search and sort */}
+      {audioItems.length > 0 && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="search"
+            className="flex-1 min-w-0 h-7 px-2 text-xs bg-background/80 border border-border rounded-md"
+            placeholder="Search names, folders, #tags"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+          <select
+            className="h-7 px-2 text-xs bg-background/80 border border-border rounded-md"
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as LibrarySortKey)}
+            title="Sort by"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      
+      {/* Audio item list, grouped by folder */}
       <div className="space-y-2 max-h-[300px] overflow-y-auto">
         {audioItems.length === 0 ? (
           <p className="text-xs text-muted-foreground">No audio files uploaded yet</p>
+        ) : groups.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No audio files match "{searchQuery}"</p>
         ) : (
-          audioItems.map(item => (
-            <div 
-              key={item.id}
-              className={`p-2 rounded-md audio-item flex items-center justify-between text-sm border ${
-                selectedItemId === item.id 
-                  ? 'bg-primary/20 border-primary' 
-                  : 'bg-card border-border hover:border-primary/50'
-              }`}
-              onClick={() => onSelectAudio(item.id)}
-              draggable
-              onDragStart={(e) => {
-                e.dataTransfer.setData('audio/id', item.id);
-                e.dataTransfer.effectAllowed = 'move';
-              }}
-            >
-              <div className="flex items-center">
-                <div 
-                  className={`w-3 h-3 rounded-full mr-2 ${item.isPlaying ? 'animate-pulse' : ''}`}
-                  style={{ backgroundColor: item.color }}
-                />
-                <span className="truncate max-w-[120px]">{item.name}</span>
-              </div>
-              
-              {item.isLoading && <span className="text-xs">Loading...</span>}
-              
-              <div className="flex items-center">
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6 mr-1"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    // Toggle play/pause for this audio item
-                    if (onTogglePlay) {
-                      onTogglePlay(item.id);
-                    }
-                  }}
-                >
-                  <svg 
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="14"
-                    height="14"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                  >
-                    {item.isPlaying ? (
-                      <>
-                        <rect x="6" y="4" width="4" height="16"></rect>
-                        <rect x="14" y="4" width="4" height="16"></rect>
-                      </>
-                    ) : (
-                      <polygon points="5 3 19 12 5 21 5 3"></polygon>
-                    )}
-                  </svg>
-                </Button>
-                
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onRemoveAudio(item.id);
-                  }}
-                >
-                  <svg 
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="14"
-                    height="14"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                  >
-                    <path d="M3 6h18"></path>
-                    <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"></path>
-                    <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"></path>
-                  </svg>
-                </Button>
-              </div>
+          groups.map(group => (
+            <div key={group.folder ?? ''} className="space-y-2">
+              {/* Only label the loose items when there are folders to tell them apart from */}
+              {(group.folder !== null || folders.length > 0) && (
+                <h4 className="text-[10px] uppercase tracking-wide text-muted-foreground pt-1">
+                  {group.folder ?? 'No folder'} ({group.items.length})
+                </h4>
+              )}
+              {group.items.map(renderItem)}
             </div>
           ))
         )}
       </div>
       
+      {/* Details of the selected item */}
+      {selectedItem && onUpdateDetails && (
+        <div key={selectedItem.id} className="p-3 bg-card/30 rounded-md border border-border space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium truncate">{selectedItem.name}</span>
+            {selectedItem.cachedAnalysis ? (
+              <span className="text-muted-foreground">
+                {formatDuration(selectedItem.cachedAnalysis.metadata.duration)}
+              </span>
+            ) : onAnalyzeAudio && selectedItem.file && !selectedItem.isLoading && (
+              <button
+                className="text-primary hover:underline"
+                onClick={() => onAnalyzeAudio(selectedItem.id)}
+              >
+                Analyze
+              </button>
+            )}
+          </div>
+          <label className="block text-xs text-muted-foreground">
+            Folder
+            <input
+              className="mt-1 w-full h-7 px-2 text-xs text-foreground bg-background/80 border border-border rounded-md"
+              list="library-folders"
+              defaultValue={selectedItem.folder ?? ''}
+              placeholder="e.g. Drums"
+              onBlur={(e) => onUpdateDetails(selectedItem.id, { folder: e.target.value.trim() || undefined })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+            />
+          </label>
+          <datalist id="library-folders">
+            {folders.map(folder => <option key={folder} value={folder} />)}
+          </datalist>
+          <label className="block text-xs text-muted-foreground">
+            Tags
+            <input
+              className="mt-1 w-full h-7 px-2 text-xs text-foreground bg-background/80 border border-border rounded-md"
+              defaultValue={(selectedItem.tags ?? []).join(', ')}
+              placeholder="e.g. kick, loop"
+              onBlur={(e) => onUpdateDetails(selectedItem.id, { tags: parseTags(e.target.value) })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+            />
+          </label>
+        </div>
+      )}
+      
+      {/* Storage used by saved audio */}
+      {storageUsage && (
+        <div className="text-xs text-muted-foreground">
+          Saved audio: {formatFileSize(storageUsage.bytes)}
+          {storageUsage.quota !== null && ` of ${formatFileSize(storageUsage.quota)} available`}
+        </div>
+      )}
+      
+      {decodedBytes !== undefined && decodedBytes > 0 && (
+        <div className="text-xs text-muted-foreground" title="Audio of items in the scene is kept decoded; the rest is released">
+          Decoded in memory: {formatFileSize(decodedBytes)}
+        </div>
+      )}
+      
+      {storageError && (
+        <div className="flex items-start justify-between text-xs text-red-500">
+          <p>{storageError}</p>
+          {onDismissStorageError && (
+            <button className="ml-2 hover:text-red-300" onClick={onDismissStorageError}>
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+      
       {/* Drag and drop instructions */}
       <div className="mt-4 p-3 bg-card/30 rounded-md border border-dashed border-border">
         <h4 className="text-xs font-medium mb-1">How to use:</h4>
@@ -0,0 +1,253 @@
+import { useRef, useState } from 'react';
+import {
+  type AutomationInterpolation,
+  type AutomationKeyframe,
+  type AutomationParameter
+} from '../../types/spatial-audio';
+import { AUTOMATION_PARAMETERS, evaluateAutomation, setKeyframe } from '../../utils/automation';
+import { getTimelineViewDuration } from '../../utils/timeline';
+
+// An automation curve that can be shown and edited
+export interface AutomationLaneOption {
+  id: string;
+  parameter: AutomationParameter;
+  label: string;
+  keyframes: AutomationKeyframe[];
+  value: number; // static value, shown while the lane has no keyframes
+}
+
+interface AutomationLanesProps {
+  lanes: AutomationLaneOption[];
+  duration: number; // where the last clip ends
+  currentTime: number;
+  isRecording: boolean;
+  onToggleRecording: () => void;
+  onChange: (id: string, keyframes: AutomationKeyframe[]) => void;
+}
+
+// Points sampled across the lane to draw the curve
+const CURVE_SAMPLES = 300;
+
+// Position of a value within its parameter's range, 0 at the bottom and 1 at the top
+function toFraction(parameter: AutomationParameter, value: number): number {
+  const { min, max, logarithmic } = AUTOMATION_PARAMETERS[parameter];
+  const fraction = logarithmic
+    ? Math.log(Math.max(value, min) / min) / Math.log(max / min)
+    : (value - min) / (max - min);
+  return Math.min(Math.max(fraction, 0), 1);
+}
+
+function fromFraction(parameter: AutomationParameter, fraction: number): number {
+  const { min, max, logarithmic } = AUTOMATION_PARAMETERS[parameter];
+  const clamped = Math.min(Math.max(fraction, 0), 1);
+  return logarithmic ? min * Math.pow(max / min, clamped) : min + (max - min) * clamped;
+}
+
+function formatValue(parameter: AutomationParameter, value: number): string {
+  return parameter === 'filterFrequency' ? `${Math.round(value)} Hz` : value.toFixed(2);
+}
+
+// One automation lane under the timeline, with a picker for which curve it shows
+export function AutomationLanes({
+  lanes,
+  duration,
+  currentTime,
+  isRecording,
+  onToggleRecording,
+  onChange
+}: AutomationLanesProps) {
+  const [selectedLaneId, setSelectedLaneId] = useState<string | null>(null);
+  const [selectedTime, setSelectedTime] = useState<number | null>(null);
+  // Keyframes while one is dragged, committed when the drag ends
+  const [draft, setDraft] = useState<AutomationKeyframe[] | null>(null);
+  const dragRef = useRef<{ index: number; rect: DOMRect } | null>(null);
+
+  const lane = lanes.find(option => option.id === selectedLaneId) ?? lanes[0];
+  if (!lane) return null;
+
+  const viewDuration = getTimelineViewDuration(duration);
+  const keyframes = draft ?? lane.keyframes;
+  const selectedIndex = keyframes.findIndex(keyframe => keyframe.time === selectedTime);
+  const selectedKeyframe = selectedIndex >= 0 ? keyframes[selectedIndex] : null;
+  const range = AUTOMATION_PARAMETERS[lane.parameter];
+
+  const pointFromEvent = (event: React.PointerEvent, rect: DOMRect) => ({
+    time: Math.max(((event.clientX - rect.left) / rect.width) * viewDuration, 0),
+    value: fromFraction(lane.parameter, 1 - (event.clientY - rect.top) / rect.height)
+  });
+
+  const selectLane = (id: string) => {
+    setSelectedLaneId(id);
+    setSelectedTime(null);
+  };
+
+  const updateKeyframe = (index: number, changes: Partial<AutomationKeyframe>) => {
+    const updated = { ...keyframes[index], ...changes };
+    onChange(lane.id, setKeyframe(keyframes.filter((_, i) => i !== index), updated));
+    setSelectedTime(updated.time);
+  };
+
+  const removeKeyframe = (index: number) => {
+    onChange(lane.id, keyframes.filter((_, i) => i !== index));
+    setSelectedTime(null);
+  };
+
+  // Clicking empty lane space adds a keyframe there
+  const handleLanePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    const point = pointFromEvent(event, event.currentTarget.getBoundingClientRect());
+    const keyframe: AutomationKeyframe = { ...point, interpolation: selectedKeyframe?.interpolation ?? 'linear' };
+    onChange(lane.id, setKeyframe(lane.keyframes, keyframe));
+    setSelectedTime(keyframe.time);
+  };
+
+  const handleKeyframePointerDown = (event: React.PointerEvent<HTMLDivElement>, index: number) => {
+    if (event.button !== 0) return;
+    const laneElement = event.currentTarget.parentElement;
+    if (!laneElement) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { index, rect: laneElement.getBoundingClientRect() };
+    setSelectedTime(keyframes[index].time);
+  };
+
+  const handleKeyframePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = pointFromEvent(event, drag.rect);
+    const moved = { ...lane.keyframes[drag.index], ...point };
+    setDraft(setKeyframe(lane.keyframes.filter((_, i) => i !== drag.index), moved));
+    setSelectedTime(moved.time);
+  };
+
+  const handleKeyframePointerUp = () => {
+    if (draft) onChange(lane.id, draft);
+    dragRef.current = null;
+    setDraft(null);
+  };
+
+  // The curve, sampled across the visible timeline
+  const curvePoints = Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => {
+    const time = (i / CURVE_SAMPLES) * viewDuration;
+    const value = evaluateAutomation(keyframes, time) ?? lane.value;
+    return `${(i / CURVE_SAMPLES) * 1000},${(1 - toFraction(lane.parameter, value)) * 100}`;
+  }).join(' ');
+
+  return (
+    <div className="border-t border-border bg-background/60 backdrop-blur-md text-xs select-none">
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-border/40">
+        <select
+          className="h-6 px-1 bg-background/80 border border-border rounded-md max-w-[12rem]"
+          value={lane.id}
+          onChange={event => selectLane(event.target.value)}
+        >
+          {lanes.map(option => (
+            <option key={option.id} value={option.id}>
+              {option.label}{option.keyframes.length > 0 ? ' •' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          className={`h-6 px-2 rounded-md border ${isRecording ? 'bg-red-600 border-red-500 text-white' : 'border-border'}`}
+          onClick={onToggleRecording}
+          title="While playing, dragging sources or moving their sends, filter frequency or distortion wet level writes keyframes"
+        >
+          {isRecording ? 'Recording' : 'Record'}
+        </button>
+        {selectedKeyframe && (
+          <>
+            <label className="flex items-center space-x-1">
+              <span className="text-muted-foreground">Value</span>
+              <input
+                type="number"
+                step={lane.parameter === 'filterFrequency' ? 1 : 0.01}
+                min={range.min}
+                max={range.max}
+                className="w-20 h-6 px-1 bg-background/80 border border-border rounded"
+                value={Number(selectedKeyframe.value.toFixed(2))}
+                onChange={event => {
+                  const value = parseFloat(event.target.value);
+                  if (Number.isFinite(value)) {
+                    updateKeyframe(selectedIndex, { value: Math.min(Math.max(value, range.min), range.max) });
+                  }
+                }}
+              />
+            </label>
+            <label className="flex items-center space-x-1">
+              <span className="text-muted-foreground">To next</span>
+              <select
+                className="h-6 px-1 bg-background/80 border border-border rounded-md"
+                value={selectedKeyframe.interpolation}
+                onChange={event => updateKeyframe(selectedIndex, {
+                  interpolation: event.target.value as AutomationInterpolation
+                })}
+              >
+                <option value="linear">Linear</option>
+                <option value="bezier">Bezier</option>
+              </select>
+            </label>
+            <button className="text-muted-foreground hover:text-foreground" onClick={() => removeKeyframe(selectedIndex)}>
+              Delete
+            </button>
+          </>
+        )}
+        {lane.keyframes.length > 0 && (
+          <button
+            className="ml-auto text-muted-foreground hover:text-foreground"
+            onClick={() => {
+              onChange(lane.id, []);
+              setSelectedTime(null);
+            }}
+          >
+            Clear lane
+          </button>
+        )}
+      </div>
+
+      <div className="flex">
+        <div className="w-32 shrink-0 px-3 py-1 flex flex-col justify-between text-[10px] text-muted-foreground">
+          <span>{formatValue(lane.parameter, range.max)}</span>
+          <span>{formatValue(lane.parameter, range.min)}</span>
+        </div>
+        <div className="relative flex-1 h-20 cursor-crosshair" onPointerDown={handleLanePointerDown}>
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" preserveAspectRatio="none" viewBox="0 0 1000 100">
+            <polyline
+              points={curvePoints}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={1.5}
+              strokeDasharray={keyframes.length === 0 ? '6 4' : undefined}
+              vectorEffect="non-scaling-stroke"
+              className="text-primary"
+            />
+          </svg>
+          {keyframes.map((keyframe, index) => (
+            <div
+              key={`${keyframe.time}-${index}`}
+              className={`absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full border cursor-move ${
+                index === selectedIndex ? 'bg-primary border-white' : 'bg-background border-primary'
+              }`}
+              style={{
+                left: `${(keyframe.time / viewDuration) * 100}%`,
+                top: `${(1 - toFraction(lane.parameter, keyframe.value)) * 100}%`
+              }}
+              title={`${keyframe.time.toFixed(2)}s: ${formatValue(lane.parameter, keyframe.value)} (right-click to delete)`}
+              onPointerDown={event => handleKeyframePointerDown(event, index)}
+              onPointerMove={handleKeyframePointerMove}
+              onPointerUp={handleKeyframePointerUp}
+              onContextMenu={event => {
+                event.preventDefault();
+                removeKeyframe(index);
+              }}
+            ></div>
+          ))}
+          {/* Playhead */}
+          <div
+            className="absolute top-0 h-full w-px bg-primary/70 pointer-events-none"
+            style={{ left: `${(currentTime / viewDuration) * 100}%` }}
+          ></div>
+        </div>
+      </div>
+    </div>
+  );
+}
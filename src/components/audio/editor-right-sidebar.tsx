@@ -1,6 +1,7 @@
 import { OscillatorViewer } from './oscillator-viewer';
 import { BlobPositionControl } from './blob-position-control';
-import { type SpatialAudioData } from '../../types/spatial-audio';
+import { SourceEffectsPanel } from './source-effects-panel';
+import { type SourceEffects, type SpatialAudioData } from '../../types/spatial-audio';
 
 interface EditorRightSidebarProps {
   isOscillatorEnabled: boolean;
@@ -8,6 +9,7 @@ interface EditorRightSidebarProps {
   audioSources: SpatialAudioData[];
   selectedAudioId: string | null;
   onAudioPositionChange: (id: string, position: { x: number; y: number; z: number }) => void;
+  onAudioEffectsChange: (id: string, effects: SourceEffects) => void;
 }
 
 export function EditorRightSidebar({
@@ -15,10 +17,12 @@ export function EditorRightSidebar({
   onOscillatorEnabledChange,
   audioSources,
   selectedAudioId,
-  onAudioPositionChange
+  onAudioPositionChange,
+  onAudioEffectsChange
 }: EditorRightSidebarProps) {
   // Determine if we have any audio sources placed in the scene
   const hasAudioSources = audioSources.length > 0;
+  const selectedSource = audioSources.find(source => source.id === selectedAudioId);
 
   return (
     <div className="bg-secondary/20 border-l border-border w-72 flex flex-col h-full">
@@ -36,6 +40,11 @@ export function EditorRightSidebar({
           />
         )}
         
+        {/* Effects of the selected source */}
+        {selectedSource && (
+          <SourceEffectsPanel source={selectedSource} onChange={onAudioEffectsChange} />
+        )}
+        
         <div className="pt-1">
           <OscillatorViewer 
             isEnabled={isOscillatorEnabled} 
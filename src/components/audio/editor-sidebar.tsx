@@ -1,44 +1,103 @@
 import { useState } from 'react';
 import { Button } from '../ui/button';
 import { AudioLibraryTab } from './audio-library-tab';
-import { type AudioLibraryItem } from '../../types/spatial-audio';
+import { MixerPanel } from './mixer-panel';
+import {
+  type AudioLibraryItem,
+  type MasterBus,
+  type MixerChannel,
+  type SendBuses,
+  type SpatialAudioData
+} from '../../types/spatial-audio';
+import { type LibraryItemDetails } from '../../hooks/use-audio-library';
+import { type ExportFormat, type ExportState } from '../../hooks/use-mix-export';
+import { type WavBitDepth } from '../../utils/wav-encoder';
+import { type MeterReadings } from '../../utils/mixer';
+import { LOUDNESS_TARGETS } from '../../utils/loudness';
 import '../audio/editor-styles.css';
 
 interface EditorSidebarProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
-  effects: {
-    reverb: boolean;
-    delay: boolean;
-    distortion: boolean;
-    filter: boolean;
-  };
-  onToggleEffect: (effect: string) => void;
-  filterFreq: number;
-  onFilterFreqChange: (value: number) => void;
+  sendBuses: SendBuses;
+  onSendBusesChange: (buses: SendBuses) => void;
+  mixerSources: SpatialAudioData[];
+  masterBus: MasterBus;
+  onMasterBusChange: (master: MasterBus) => void;
+  onVolumeChange: (id: string, volume: number) => void;
+  onChannelChange: (id: string, changes: Partial<MixerChannel>) => void;
+  getMeterLevels: () => MeterReadings;
+  onResetLoudness: () => void;
   audioLibraryItems: AudioLibraryItem[];
   selectedAudioItemId: string | null;
-  onAddAudio: (file: File) => Promise<void>;
+  onAddAudio: (files: File[]) => Promise<void>;
   onRemoveAudio: (id: string) => void;
   onSelectAudio: (id: string) => void;
-  maxAudioFiles: number;
+  onEvictAudio?: (id: string) => void;
+  onUpdateAudioDetails?: (id: string, details: LibraryItemDetails) => void;
+  onAnalyzeAudio?: (id: string) => void;
+  decodedBytes?: number;
+  storageUsage?: { bytes: number; quota: number | null };
+  storageError?: string | null;
+  onDismissStorageError?: () => void;
+  exportState: ExportState;
+  canExport: boolean;
+  onExport: (format: ExportFormat) => void;
+  onCancelExport: () => void;
+  onExportBinaural: (format: ExportFormat, followCameraPath: boolean) => void;
+  isRecordingCameraPath: boolean;
+  cameraPathDuration: number;
+  onToggleCameraPathRecording: () => void;
+  onClearCameraPath: () => void;
 }
 
 export function EditorSidebar({
   activeTab,
   onTabChange,
-  effects,
-  onToggleEffect,
-  filterFreq,
-  onFilterFreqChange,
+  sendBuses,
+  onSendBusesChange,
+  mixerSources,
+  masterBus,
+  onMasterBusChange,
+  onVolumeChange,
+  onChannelChange,
+  getMeterLevels,
+  onResetLoudness,
   audioLibraryItems,
   selectedAudioItemId,
   onAddAudio,
   onRemoveAudio,
   onSelectAudio,
-  maxAudioFiles
+  onEvictAudio,
+  onUpdateAudioDetails,
+  onAnalyzeAudio,
+  decodedBytes,
+  storageUsage,
+  storageError,
+  onDismissStorageError,
+  exportState,
+  canExport,
+  onExport,
+  onCancelExport,
+  onExportBinaural,
+  isRecordingCameraPath,
+  cameraPathDuration,
+  onToggleCameraPathRecording,
+  onClearCameraPath
 }: EditorSidebarProps) {
   const [expanded, setExpanded] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>({
+    bitDepth: 24,
+    sampleRate: 48000,
+    normalization: null
+  });
+  const normalization = exportFormat.normalization;
+  const normalizationPreset = normalization
+    ? LOUDNESS_TARGETS.find(target =>
+        target.integrated === normalization.integrated && target.truePeak === normalization.truePeak
+      )?.id ?? 'custom'
+    : 'off';
+  const [followCameraPath, setFollowCameraPath] = useState(true);
 
   const tabs = [
     { id: 'library', label: 'Library', icon: '/images/folder.svg' },
@@ -76,141 +135,264 @@ export function EditorSidebar({
             onAddAudio={onAddAudio}
             onRemoveAudio={onRemoveAudio}
             onSelectAudio={onSelectAudio}
-            maxFiles={maxAudioFiles}
+            onEvictAudio={onEvictAudio}
+            onUpdateDetails={onUpdateAudioDetails}
+            onAnalyzeAudio={onAnalyzeAudio}
+            decodedBytes={decodedBytes}
+            storageUsage={storageUsage}
+            storageError={storageError}
+            onDismissStorageError={onDismissStorageError}
           />
         )}
         
         {activeTab === 'effects' && (
           <div className="space-y-4">
-            <h3 className="text-sm font-medium mb-2">Audio Effects</h3>
+            <h3 className="text-sm font-medium mb-2">Send Buses</h3>
+            <p className="text-xs text-muted-foreground">
+              Shared by every source. Each source's inserts and send levels are set in the right sidebar.
+            </p>
             
             <div className="space-y-2">
-              <Button 
-                variant={effects.reverb ? 'default' : 'outline'} 
-                onClick={() => onToggleEffect('reverb')}
-                size="sm"
-                className="w-full justify-start"
-              >
-                Reverb
-              </Button>
-              
-              <Button 
-                variant={effects.delay ? 'default' : 'outline'} 
-                onClick={() => onToggleEffect('delay')}
-                size="sm"
-                className="w-full justify-start"
-              >
-                Delay
-              </Button>
-              
-              <Button 
-                variant={effects.distortion ? 'default' : 'outline'} 
-                onClick={() => onToggleEffect('distortion')}
-                size="sm"
-                className="w-full justify-start"
-              >
-                Distortion
-              </Button>
-              
-              <Button 
-                variant={effects.filter ? 'default' : 'outline'} 
-                onClick={() => onToggleEffect('filter')}
-                size="sm"
-                className="w-full justify-start"
-              >
-                Filter
-              </Button>
+              <h4 className="text-xs font-medium">Reverb</h4>
+              {([
+                ['Decay', 'decay', 0.1, 10, 0.1, ' s'],
+                ['Return', 'returnLevel', 0, 1, 0.01, '']
+              ] as const).map(([label, key, min, max, step, unit]) => (
+                <div key={key} className="space-y-1">
+                  <label className="text-xs">{label}: {sendBuses.reverb[key].toFixed(2)}{unit}</label>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={sendBuses.reverb[key]}
+                    onChange={(e) => onSendBusesChange({
+                      ...sendBuses,
+                      reverb: { ...sendBuses.reverb, [key]: parseFloat(e.target.value) }
+                    })}
+                    className="w-full"
+                  />
+                </div>
+              ))}
             </div>
             
-            {effects.filter && (
-              <div className="space-y-2">
-                <h4 className="text-xs font-medium">Filter: {filterFreq}Hz</h4>
-                <input
-                  type="range"
-                  min="20"
-                  max="20000"
-                  step="1"
-                  value={filterFreq}
-                  onChange={(e) => onFilterFreqChange(parseInt(e.target.value))}
-                  className="w-full"
-                />
-              </div>
-            )}
+            <div className="space-y-2">
+              <h4 className="text-xs font-medium">Delay</h4>
+              {([
+                ['Time', 'delayTime', 0.01, 1, 0.01, ' s'],
+                ['Feedback', 'feedback', 0, 0.95, 0.01, ''],
+                ['Return', 'returnLevel', 0, 1, 0.01, '']
+              ] as const).map(([label, key, min, max, step, unit]) => (
+                <div key={key} className="space-y-1">
+                  <label className="text-xs">{label}: {sendBuses.delay[key].toFixed(2)}{unit}</label>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={sendBuses.delay[key]}
+                    onChange={(e) => onSendBusesChange({
+                      ...sendBuses,
+                      delay: { ...sendBuses.delay, [key]: parseFloat(e.target.value) }
+                    })}
+                    className="w-full"
+                  />
+                </div>
+              ))}
+            </div>
           </div>
         )}
 
         {activeTab === 'mixing' && (
           <div className="space-y-4">
             <h3 className="text-sm font-medium mb-2">Audio Mixing</h3>
+            <MixerPanel
+              sources={mixerSources}
+              masterBus={masterBus}
+              onMasterBusChange={onMasterBusChange}
+              onVolumeChange={onVolumeChange}
+              onChannelChange={onChannelChange}
+              getMeterLevels={getMeterLevels}
+              onResetLoudness={onResetLoudness}
+            />
+          </div>
+        )}
+
+        {activeTab === 'export' && (
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium mb-2">Export Options</h3>
             
             <div className="space-y-2">
               <div className="space-y-1">
-                <label className="text-xs">Master Volume</label>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  className="w-full"
-                />
+                <label className="text-xs">Format</label>
+                <select
+                  className="w-full p-2 bg-background border border-border rounded-md"
+                  value={exportFormat.bitDepth}
+                  disabled={exportState.isExporting}
+                  onChange={(e) => setExportFormat(prev => ({
+                    ...prev,
+                    bitDepth: parseInt(e.target.value) as WavBitDepth
+                  }))}
+                >
+                  <option value={16}>WAV 16-bit PCM</option>
+                  <option value={24}>WAV 24-bit PCM</option>
+                  <option value={32}>WAV 32-bit float</option>
+                </select>
               </div>
               
               <div className="space-y-1">
-                <label className="text-xs">Low EQ</label>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  className="w-full"
-                />
+                <label className="text-xs">Sample Rate</label>
+                <select
+                  className="w-full p-2 bg-background border border-border rounded-md"
+                  value={exportFormat.sampleRate}
+                  disabled={exportState.isExporting}
+                  onChange={(e) => setExportFormat(prev => ({
+                    ...prev,
+                    sampleRate: parseInt(e.target.value)
+                  }))}
+                >
+                  <option value={44100}>44.1 kHz</option>
+                  <option value={48000}>48 kHz</option>
+                  <option value={96000}>96 kHz</option>
+                </select>
               </div>
               
               <div className="space-y-1">
-                <label className="text-xs">Mid EQ</label>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  className="w-full"
-                />
+                <label className="text-xs">Loudness</label>
+                <select
+                  className="w-full p-2 bg-background border border-border rounded-md"
+                  value={normalizationPreset}
+                  disabled={exportState.isExporting}
+                  onChange={(e) => {
+                    const preset = e.target.value;
+                    const target = LOUDNESS_TARGETS.find(candidate => candidate.id === preset);
+                    setExportFormat(prev => ({
+                      ...prev,
+                      normalization: preset === 'off'
+                        ? null
+                        : target ?? prev.normalization ?? { integrated: -16, truePeak: -1 }
+                    }));
+                  }}
+                >
+                  <option value="off">As mixed</option>
+                  {LOUDNESS_TARGETS.map(target => (
+                    <option key={target.id} value={target.id}>Normalize: {target.label}</option>
+                  ))}
+                  <option value="custom">Normalize: Custom</option>
+                </select>
+                
+                {normalization && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {([
+                      ['Target (LUFS)', 'integrated', -40, 0],
+                      ['Ceiling (dBTP)', 'truePeak', -12, 0]
+                    ] as const).map(([label, key, min, max]) => (
+                      <label key={key} className="space-y-0.5">
+                        <span className="text-[11px] text-muted-foreground">{label}</span>
+                        <input
+                          type="number"
+                          min={min}
+                          max={max}
+                          step={0.5}
+                          value={normalization[key]}
+                          disabled={exportState.isExporting}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (Number.isNaN(value)) return;
+                            setExportFormat(prev => ({
+                              ...prev,
+                              normalization: prev.normalization && {
+                                ...prev.normalization,
+                                [key]: Math.min(Math.max(value, min), max)
+                              }
+                            }));
+                          }}
+                          className="w-full p-1.5 text-xs bg-background border border-border rounded-md"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
               </div>
               
-              <div className="space-y-1">
-                <label className="text-xs">High EQ</label>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
+              {exportState.isExporting ? (
+                <div className="space-y-2 mt-4">
+                  <div className="h-2 w-full bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${exportState.progress ?? 0}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">Rendering mix... {exportState.progress ?? 0}%</p>
+                  <Button variant="outline" size="sm" className="w-full" onClick={onCancelExport}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Button className="w-full mt-4" disabled={!canExport} onClick={() => onExport(exportFormat)}>
+                  Export
+                </Button>
+              )}
+              
+              <div className="space-y-2 pt-4 mt-4 border-t border-border">
+                <h4 className="text-xs font-medium">Binaural (Headphones)</h4>
+                <p className="text-xs text-muted-foreground">
+                  Renders the scene as heard from the camera. Record a camera path to move the listener over time.
+                </p>
+                
+                <Button
+                  variant={isRecordingCameraPath ? 'destructive' : 'outline'}
+                  size="sm"
                   className="w-full"
-                />
+                  onClick={onToggleCameraPathRecording}
+                >
+                  {isRecordingCameraPath ? 'Stop Recording Path' : 'Record Camera Path'}
+                </Button>
+                
+                {cameraPathDuration > 0 && !isRecordingCameraPath && (
+                  <div className="flex items-center justify-between text-xs">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={followCameraPath}
+                        onChange={(e) => setFollowCameraPath(e.target.checked)}
+                      />
+                      Follow path ({cameraPathDuration.toFixed(1)}s)
+                    </label>
+                    <button type="button" className="text-muted-foreground hover:underline" onClick={onClearCameraPath}>
+                      Clear
+                    </button>
+                  </div>
+                )}
+                
+                {!exportState.isExporting && (
+                  <Button
+                    className="w-full"
+                    disabled={!canExport || isRecordingCameraPath}
+                    onClick={() => onExportBinaural(exportFormat, followCameraPath && cameraPathDuration > 0)}
+                  >
+                    Render Binaural
+                  </Button>
+                )}
               </div>
-            </div>
-          </div>
-        )}
-
-        {activeTab === 'export' && (
-          <div className="space-y-4">
-            <h3 className="text-sm font-medium mb-2">Export Options</h3>
-            
-            <div className="space-y-2">
-              <select className="w-full p-2 bg-background border border-border rounded-md">
-                <option>MP3</option>
-                <option>WAV</option>
-                <option>FLAC</option>
-                <option>OGG</option>
-              </select>
               
-              <div className="space-y-1">
-                <label className="text-xs">Quality</label>
-                <select className="w-full p-2 bg-background border border-border rounded-md">
-                  <option>High (320kbps)</option>
-                  <option>Medium (192kbps)</option>
-                  <option>Low (128kbps)</option>
-                </select>
-              </div>
+              {!canExport && !exportState.isExporting && (
+                <p className="text-xs text-muted-foreground">Place audio in the scene to export a mix.</p>
+              )}
+              
+              {exportState.normalization && Number.isFinite(exportState.normalization.integrated) && !exportState.isExporting && (
+                <p className="text-xs text-muted-foreground">
+                  Last export was {exportState.normalization.gain >= 0 ? 'raised' : 'lowered'} by{' '}
+                  {Math.abs(exportState.normalization.gain).toFixed(1)} dB to{' '}
+                  {exportState.normalization.integrated.toFixed(1)} LUFS, true peak{' '}
+                  {exportState.normalization.truePeak.toFixed(1)} dBTP
+                  {exportState.normalization.isPeakLimited && ', held below the target by the true-peak ceiling'}.
+                </p>
+              )}
               
-              <Button className="w-full mt-4">
-                Export
-              </Button>
+              {exportState.error && (
+                <p className="text-xs text-red-400">{exportState.error}</p>
+              )}
             </div>
           </div>
         )}
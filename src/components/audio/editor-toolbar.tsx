@@ -1,3 +1,4 @@
+import { useRef, useState } from 'react';
 import '../audio/editor-styles.css';
 import '../audio/play-button.css';
 import '../audio/time-slider.css';
@@ -20,6 +21,9 @@ interface EditorToolbarProps {
   isPlaying?: boolean;
   onPlayPause?: () => void;
   onSeek?: (time: number) => void;
+  onSaveProject?: (embedAudio: boolean) => void;
+  onOpenProject?: (files: File[]) => void; // the project file, plus audio files it references
+  isProjectBusy?: boolean;
 }
 
 export function EditorToolbar({ 
@@ -31,8 +35,14 @@ export function EditorToolbar({
   totalDuration = 0,
   isPlaying = false,
   onPlayPause = () => {},
-  onSeek = () => {}
+  onSeek = () => {},
+  onSaveProject = () => {},
+  onOpenProject = () => {},
+  isProjectBusy = false
 }: EditorToolbarProps) {
+  const [embedAudio, setEmbedAudio] = useState(true);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  
   return (
     <div className="bg-background/60 backdrop-blur-md border-t border-border h-14 flex items-center px-4 justify-between">
       <div className="flex items-center space-x-4 text-sm">
@@ -118,7 +128,47 @@ export function EditorToolbar({
       </div>
       
       <div className="flex items-center space-x-4">
-       
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-muted-foreground">Project:</span>
+          <button
+            className="h-7 px-3 text-xs bg-background/80 border border-border rounded-md hover:bg-muted disabled:opacity-50"
+            onClick={() => projectInputRef.current?.click()}
+            disabled={isProjectBusy}
+            title="Select a project file, together with its audio files if the audio is not embedded"
+          >
+            Open
+          </button>
+          <button
+            className="h-7 px-3 text-xs bg-background/80 border border-border rounded-md hover:bg-muted disabled:opacity-50"
+            onClick={() => onSaveProject(embedAudio)}
+            disabled={isProjectBusy}
+          >
+            Save
+          </button>
+          <label className="flex items-center space-x-1 text-xs text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={embedAudio}
+              onChange={(e) => setEmbedAudio(e.target.checked)}
+            />
+            <span>Embed audio</span>
+          </label>
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept=".json,application/json,audio/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              // Reset so the same file can be opened again
+              e.target.value = '';
+              if (files.length > 0) onOpenProject(files);
+            }}
+          />
+        </div>
+        
+        <div className="h-6 w-px bg-border"></div>
         
         <div className="flex items-center space-x-2">
           <span className="text-xs text-muted-foreground">Visualization:</span>
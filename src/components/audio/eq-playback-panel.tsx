@@ -0,0 +1,131 @@
+import { type EQBand } from '../../utils/audio-mixing';
+import { type ABMode } from '../../hooks/use-eq-playback';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { ToggleSwitch } from '../ui/toggle-switch';
+import { cn } from '../../lib/utils';
+
+interface EQPlaybackPanelProps {
+  bands: EQBand[];
+  abMode: ABMode;
+  isPlaying: boolean;
+  track1Name: string;
+  track2Name: string;
+  onPlay: () => void;
+  onStop: () => void;
+  onABModeChange: (mode: ABMode) => void;
+  onBandChange: (id: number, changes: Partial<Pick<EQBand, 'gain' | 'q' | 'enabled'>>) => void;
+  onReset: () => void;
+}
+
+export function EQPlaybackPanel({
+  bands,
+  abMode,
+  isPlaying,
+  track1Name,
+  track2Name,
+  onPlay,
+  onStop,
+  onABModeChange,
+  onBandChange,
+  onReset
+}: EQPlaybackPanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audition EQ</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Play both tracks together and switch between the original mix (A) and the mix with the suggested EQ applied (B).
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button onClick={isPlaying ? onStop : onPlay}>
+            {isPlaying ? 'Stop' : 'Play Both Tracks'}
+          </Button>
+
+          <div className="inline-flex rounded-md border border-slate-600/50 overflow-hidden">
+            {(['original', 'eq'] as const).map(mode => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => onABModeChange(mode)}
+                className={cn(
+                  'px-4 py-2 text-sm transition-colors',
+                  abMode === mode ? 'bg-primary text-primary-foreground' : 'text-white/70 hover:bg-slate-700/50'
+                )}
+              >
+                {mode === 'original' ? 'A · Original' : 'B · With EQ'}
+              </button>
+            ))}
+          </div>
+
+          {bands.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={onReset}>
+              Reset to Suggestions
+            </Button>
+          )}
+        </div>
+
+        {bands.length === 0 ? (
+          <p className="text-sm text-muted-foreground">There are no EQ suggestions to apply for these tracks.</p>
+        ) : (
+          <div className="space-y-3">
+            {bands.map(band => (
+              <div
+                key={band.id}
+                className={cn(
+                  'p-3 bg-background/50 dark:bg-slate-700/40 rounded-md border dark:border-slate-600/30',
+                  !band.enabled && 'opacity-60'
+                )}
+              >
+                <div className="flex justify-between items-center mb-2">
+                  <span className="font-medium">
+                    {band.track === 1 ? track1Name : track2Name}
+                    <span className="ml-2 text-xs text-muted-foreground">{band.label} · {band.frequency}Hz</span>
+                  </span>
+                  <ToggleSwitch
+                    size="sm"
+                    label={band.enabled ? 'On' : 'Bypassed'}
+                    checked={band.enabled}
+                    onChange={enabled => onBandChange(band.id, { enabled })}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label className="text-xs">Gain: {band.gain.toFixed(1)} dB</label>
+                    <input
+                      type="range"
+                      min="-18"
+                      max="6"
+                      step="0.5"
+                      value={band.gain}
+                      disabled={!band.enabled}
+                      onChange={(e) => onBandChange(band.id, { gain: parseFloat(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs">Q: {band.q.toFixed(1)}</label>
+                    <input
+                      type="range"
+                      min="0.3"
+                      max="10"
+                      step="0.1"
+                      value={band.q}
+                      disabled={!band.enabled}
+                      onChange={(e) => onBandChange(band.id, { q: parseFloat(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
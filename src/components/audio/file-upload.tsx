@@ -5,13 +5,17 @@ interface FileUploadProps {
   accept?: string;
   maxSize?: number;
   isProcessing?: boolean;
+  progress?: number; // 0-100, shown while processing
+  onCancel?: () => void;
 }
 
 export function FileUpload({
   onFileSelected,
   accept = 'audio/*',
   maxSize = 50 * 1024 * 1024, // 50MB default
-  isProcessing = false
+  isProcessing = false,
+  progress,
+  onCancel
 }: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -106,8 +110,29 @@ export function FileUpload({
 
           <div className="space-y-2">
             <p className="text-base font-medium text-white">
-              {isProcessing ? 'Processing audio file...' : 'Upload'}
+              {isProcessing
+                ? `Processing audio file...${progress !== undefined ? ` ${progress}%` : ''}`
+                : 'Upload'}
             </p>
+            
+            {isProcessing && progress !== undefined && (
+              <div className="mx-auto h-1.5 w-48 overflow-hidden rounded-full bg-slate-800">
+                <div
+                  className="h-full bg-cyan-500 transition-all"
+                  style={{ width: `${progress}%` }}
+                />
+              </div>
+            )}
+            
+            {isProcessing && onCancel && (
+              <button
+                type="button"
+                className="relative z-[60] text-sm text-slate-300 underline hover:text-white"
+                onClick={onCancel}
+              >
+                Cancel
+              </button>
+            )}
             <p className="text-sm text-slate-400">
               MP3, WAV, OGG, FLAC
             </p>
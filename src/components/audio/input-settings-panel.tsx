@@ -0,0 +1,102 @@
+import { type InputConfiguration, type InputDevice, type InputSettings } from '../../utils/audio-input';
+
+interface InputSettingsPanelProps {
+  devices: InputDevice[];
+  configuration: InputConfiguration;
+  settings: InputSettings | null; // what the open input was granted, null while closed
+  contextSampleRate: number | null;
+  disabled?: boolean;
+  onChange: (changes: Partial<InputConfiguration>) => void;
+}
+
+const PROCESSING_OPTIONS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' }
+];
+
+function formatSampleRate(sampleRate: number | null): string {
+  return sampleRate ? `${(sampleRate / 1000).toFixed(1)} kHz` : 'unknown';
+}
+
+// Input device, channel and browser processing choices, with what the browser actually granted
+export function InputSettingsPanel({
+  devices,
+  configuration,
+  settings,
+  contextSampleRate,
+  disabled = false,
+  onChange
+}: InputSettingsPanelProps) {
+  // Until an input is open its channel count is unknown, so offer at least a stereo pair
+  const channelCount = Math.max(settings?.channelCount ?? 2, (configuration.channel ?? 0) + 1);
+  const isSavedDeviceMissing = configuration.deviceId !== null
+    && devices.length > 0
+    && !devices.some(device => device.deviceId === configuration.deviceId);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="flex flex-col gap-1 text-sm text-white/80">
+          Input device
+          <select
+            value={configuration.deviceId ?? ''}
+            disabled={disabled}
+            onChange={event => onChange({ deviceId: event.target.value || null })}
+            className="rounded-md bg-slate-800 border border-slate-600 px-2 py-1 text-white"
+          >
+            <option value="">System default</option>
+            {devices.map(device => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+            ))}
+            {isSavedDeviceMissing && (
+              <option value={configuration.deviceId ?? ''}>Saved input (not connected)</option>
+            )}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1 text-sm text-white/80">
+          Channel
+          <select
+            value={configuration.channel ?? ''}
+            disabled={disabled}
+            onChange={event => onChange({ channel: event.target.value === '' ? null : Number(event.target.value) })}
+            className="rounded-md bg-slate-800 border border-slate-600 px-2 py-1 text-white"
+          >
+            <option value="">All channels</option>
+            {Array.from({ length: channelCount }, (_, channel) => (
+              <option key={channel} value={channel}>Channel {channel + 1} only</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {PROCESSING_OPTIONS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-white/80">
+            <input
+              type="checkbox"
+              checked={configuration[key]}
+              disabled={disabled}
+              onChange={event => onChange({ [key]: event.target.checked })}
+            />
+            {label}
+            {settings && settings[key] !== configuration[key] && (
+              <span className="text-xs text-amber-300">(browser kept it {settings[key] ? 'on' : 'off'})</span>
+            )}
+          </label>
+        ))}
+      </div>
+
+      <p className="text-xs text-white/60">
+        {settings
+          ? `Input at ${formatSampleRate(settings.sampleRate)} with ${settings.channelCount} channel${settings.channelCount === 1 ? '' : 's'}, analyzed at ${formatSampleRate(contextSampleRate)}.`
+          : 'The sample rate and channel count show once recording starts.'}
+        {' '}Changes apply the next time you start recording.
+      </p>
+      {settings?.usedFallbackDevice && (
+        <p className="text-xs text-amber-300">The chosen input is not connected, so the system default is being used.</p>
+      )}
+    </div>
+  );
+}
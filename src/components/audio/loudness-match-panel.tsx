@@ -0,0 +1,62 @@
+import { type AudioData } from '../../types/audio';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+
+interface LoudnessMatchPanelProps {
+  tracks: [AudioData, AudioData];
+  enabled: boolean;
+  gains: [number, number]; // dB applied to each track, 0 while matching is off
+  onEnabledChange: (enabled: boolean) => void;
+}
+
+function formatGain(gain: number): string {
+  return `${gain > 0 ? '+' : ''}${gain.toFixed(1)} dB`;
+}
+
+// Switch for matching the tracks' loudness, with each track's loudness and the gain it gets
+export function LoudnessMatchPanel({ tracks, enabled, gains, onEnabledChange }: LoudnessMatchPanelProps) {
+  const isMeasured = tracks.every(track => Number.isFinite(track.features.loudness?.integrated ?? -Infinity));
+
+  return (
+    <Card className="bg-secondary/20 dark:bg-slate-800/40 backdrop-blur-sm border dark:border-slate-700/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base text-white/90">Loudness Matching</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <label className="flex items-center gap-2 text-sm text-white/80">
+          <input
+            type="checkbox"
+            checked={enabled}
+            disabled={!isMeasured}
+            onChange={event => onEnabledChange(event.target.checked)}
+          />
+          Match loudness before analysis and playback
+        </label>
+        <p className="text-xs text-white/60">
+          {isMeasured
+            ? 'The louder track is turned down to the level of the quieter one, so the overlap analysis and EQ suggestions compare the tracks at equal loudness.'
+            : 'Loudness is only measured for tracks with sound in them, so these tracks cannot be matched.'}
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          {tracks.map((track, index) => {
+            const integrated = track.features.loudness?.integrated ?? -Infinity;
+            return (
+              <div
+                key={index}
+                className="flex flex-col p-3 bg-secondary/20 dark:bg-slate-700/30 rounded-md border dark:border-slate-600/30"
+              >
+                <span className="text-xs text-white/60 truncate">Track {index + 1}: {track.metadata.name}</span>
+                <span className="text-sm font-medium text-white/90">
+                  {Number.isFinite(integrated) ? `${integrated.toFixed(1)} LUFS` : 'Not measured'}
+                </span>
+                <span className={`text-xs ${gains[index] !== 0 ? 'text-amber-300' : 'text-white/60'}`}>
+                  Gain offset {formatGain(gains[index])}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
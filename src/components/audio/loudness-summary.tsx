@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { type LoudnessMeasurement } from '../../types/audio';
+import { compareToTarget, LOUDNESS_TARGETS } from '../../utils/loudness';
+
+interface LoudnessSummaryProps {
+  loudness?: LoudnessMeasurement;
+  className?: string;
+}
+
+function formatLevel(value: number, unit: string): string {
+  return Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
+}
+
+// Integrated loudness, range and true peak, and how far they are from a delivery target
+export function LoudnessSummary({ loudness, className = '' }: LoudnessSummaryProps) {
+  const [targetId, setTargetId] = useState(LOUDNESS_TARGETS[0].id);
+  const target = LOUDNESS_TARGETS.find(candidate => candidate.id === targetId) ?? LOUDNESS_TARGETS[0];
+
+  if (!loudness) {
+    return (
+      <p className={`text-xs text-slate-400 ${className}`}>Loudness was not measured for this file.</p>
+    );
+  }
+
+  const { gain, isOverCeiling } = compareToTarget(loudness, target);
+  const readings = [
+    { label: 'Integrated', value: formatLevel(loudness.integrated, 'LUFS') },
+    { label: 'Range', value: `${loudness.range.toFixed(1)} LU` },
+    { label: 'True peak', value: formatLevel(loudness.truePeak, 'dBTP') },
+    { label: 'Max short-term', value: formatLevel(loudness.maxShortTerm, 'LUFS') }
+  ];
+
+  return (
+    <div className={`space-y-2 text-xs ${className}`}>
+      <div className="grid grid-cols-2 gap-2">
+        {readings.map(reading => (
+          <div key={reading.label} className="flex flex-col">
+            <span className="text-slate-400">{reading.label}</span>
+            <span className="font-medium tabular-nums">{reading.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <span className="text-slate-400">Target</span>
+        <select
+          className="flex-1 h-6 px-1 bg-background/80 border border-border rounded-md"
+          value={target.id}
+          onChange={event => setTargetId(event.target.value)}
+        >
+          {LOUDNESS_TARGETS.map(candidate => (
+            <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {Number.isFinite(loudness.integrated) && (
+        <p className={Math.abs(gain) <= 1 ? 'text-emerald-500' : 'text-amber-400'}>
+          {Math.abs(gain) <= 1
+            ? 'Within 1 LU of the target'
+            : `${gain > 0 ? 'Raise' : 'Lower'} by ${Math.abs(gain).toFixed(1)} dB to reach the target`}
+        </p>
+      )}
+      {isOverCeiling && (
+        <p className="text-red-400">True peak is above the {target.truePeak} dBTP ceiling</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { type MaskingWindow, FREQUENCY_BANDS } from '../../utils/audio-mixing';
+
+interface MaskingTimelineProps {
+  windows: MaskingWindow[];
+  duration: number;
+  track1Name: string;
+  track2Name: string;
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+// One row per frequency band, with a block wherever the tracks collide
+export function MaskingTimeline({ windows, duration, track1Name, track2Name }: MaskingTimelineProps) {
+  if (windows.length === 0) {
+    return (
+      <p className="text-sm text-white/60">
+        The tracks don't mask each other in any frequency band for a noticeable stretch of time.
+      </p>
+    );
+  }
+
+  const length = duration || 1;
+
+  return (
+    <div className="space-y-2">
+      {FREQUENCY_BANDS.map(band => {
+        const bandWindows = windows.filter(window => window.band === band.name);
+        return (
+          <div key={band.name} className="flex items-center gap-3">
+            <span className="w-24 shrink-0 text-xs text-white/60">{band.name}</span>
+            <div className="relative h-4 flex-1 rounded bg-slate-900/60">
+              {bandWindows.map((window, index) => (
+                <div
+                  key={index}
+                  className={`absolute top-0 h-full rounded-sm ${window.dominantTrack === 1 ? 'bg-orange-500' : 'bg-sky-500'}`}
+                  style={{
+                    left: `${(window.start / length) * 100}%`,
+                    width: `${Math.max(0.5, ((window.end - window.start) / length) * 100)}%`,
+                    opacity: 0.3 + window.overlapIntensity * 0.7
+                  }}
+                  title={`${formatTime(window.start)} - ${formatTime(window.end)}: ${
+                    window.dominantTrack === 1 ? track1Name : track2Name
+                  } is louder (${Math.round(window.overlapIntensity * 100)}% overlap)`}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex justify-between pl-[6.75rem] text-[10px] text-white/40">
+        <span>0:00</span>
+        <span>{formatTime(duration)}</span>
+      </div>
+      <div className="flex gap-4 text-xs text-white/60">
+        <span><span className="inline-block w-3 h-3 bg-orange-500 mr-1"></span>{track1Name} louder</span>
+        <span><span className="inline-block w-3 h-3 bg-sky-500 mr-1"></span>{track2Name} louder</span>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { MiniWaveform } from './mini-waveform';
 import { useNavigate } from 'react-router-dom';
 import { useRef } from 'react';
 import { StaticSpectralViewer } from '../visualization/static-spectral-viewer';
+import { LoudnessSummary } from './loudness-summary';
 
 interface AudioMetadataDisplayProps {
   audioData: AudioData;
@@ -72,6 +73,12 @@ export function AudioMetadataDisplay({ audioData }: AudioMetadataDisplayProps) {
                 </div>
               </div>
               
+              {/* Loudness against delivery targets */}
+              <div className="mb-4 rounded-lg bg-slate-900/50 p-3">
+                <p className="mb-2 text-xs font-medium text-slate-400">Loudness</p>
+                <LoudnessSummary loudness={audioData.features.loudness} className="text-white" />
+              </div>
+              
               {/* Display mini waveform */}
               <div className="mb-4 h-24 w-full overflow-hidden rounded-lg bg-slate-900/50 p-3 flex items-center justify-center">
                 <MiniWaveform 
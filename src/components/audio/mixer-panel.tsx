@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { type MasterBus, type MixerChannel, type SpatialAudioData } from '../../types/spatial-audio';
+import {
+  EQ_RANGE_DB,
+  FADER_MAX_DB,
+  FADER_MIN_DB,
+  faderToVolume,
+  getAudibleSourceIds,
+  getSourceChannel,
+  volumeToFader,
+  type MeterLevels,
+  type MeterReadings
+} from '../../utils/mixer';
+import { SILENT_LOUDNESS } from '../../utils/loudness';
+import { LoudnessSummary } from './loudness-summary';
+
+interface MixerPanelProps {
+  sources: SpatialAudioData[];
+  masterBus: MasterBus;
+  onMasterBusChange: (master: MasterBus) => void;
+  onVolumeChange: (id: string, volume: number) => void;
+  onChannelChange: (id: string, changes: Partial<MixerChannel>) => void;
+  getMeterLevels: () => MeterReadings;
+  onResetLoudness: () => void;
+}
+
+// Lowest level the meters show, in dBFS
+const METER_FLOOR_DB = -60;
+
+function formatDecibels(decibels: number): string {
+  return decibels <= FADER_MIN_DB ? '-∞ dB' : `${decibels > 0 ? '+' : ''}${decibels.toFixed(1)} dB`;
+}
+
+function meterFraction(decibels: number): number {
+  return Math.min(Math.max((decibels - METER_FLOOR_DB) / -METER_FLOOR_DB, 0), 1);
+}
+
+// RMS as a bar and peak as a line, turning red when the peak reaches full scale
+function LevelMeter({ levels }: { levels?: MeterLevels }) {
+  const peak = levels?.peak ?? -Infinity;
+  const rms = levels?.rms ?? -Infinity;
+  const isClipping = peak >= 0;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <div className="relative flex-1 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+        <div className="absolute inset-y-0 left-0 bg-green-500" style={{ width: `${meterFraction(rms) * 100}%` }}></div>
+        <div
+          className={`absolute inset-y-0 w-0.5 ${isClipping ? 'bg-red-500' : peak > -6 ? 'bg-yellow-400' : 'bg-green-300'}`}
+          style={{ left: `${meterFraction(peak) * 100}%` }}
+        ></div>
+      </div>
+      <span className={`w-20 text-right text-[10px] tabular-nums ${isClipping ? 'text-red-400' : 'text-muted-foreground'}`}>
+        {Number.isFinite(peak) ? `${peak.toFixed(1)} / ${Number.isFinite(rms) ? rms.toFixed(1) : '-∞'}` : '-∞'}
+      </span>
+    </div>
+  );
+}
+
+interface MixerSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  display: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+function MixerSlider({ label, value, min, max, step, display, disabled, onChange }: MixerSliderProps) {
+  return (
+    <label className={`flex items-center space-x-2 text-[11px] ${disabled ? 'opacity-50' : ''}`}>
+      <span className="w-10 text-muted-foreground">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={event => onChange(parseFloat(event.target.value))}
+        className="flex-1"
+      />
+      <span className="w-14 text-right tabular-nums">{display}</span>
+    </label>
+  );
+}
+
+// Mixer with a channel strip per source in the scene and the master bus
+export function MixerPanel({
+  sources,
+  masterBus,
+  onMasterBusChange,
+  onVolumeChange,
+  onChannelChange,
+  getMeterLevels,
+  onResetLoudness
+}: MixerPanelProps) {
+  const [levels, setLevels] = useState<MeterReadings | null>(null);
+  const loudness = levels?.loudness ?? SILENT_LOUDNESS;
+  const audibleIds = getAudibleSourceIds(sources);
+
+  // Read the meters every frame while the mixer is shown
+  useEffect(() => {
+    let frame = requestAnimationFrame(function update() {
+      setLevels(getMeterLevels());
+      frame = requestAnimationFrame(update);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [getMeterLevels]);
+
+  return (
+    <div className="space-y-3">
+      {sources.length === 0 && (
+        <p className="text-xs text-muted-foreground">Place audio in the scene to mix it.</p>
+      )}
+
+      {sources.map(source => {
+        const channel = getSourceChannel(source);
+        const fader = volumeToFader(source.volume);
+        const eqBand = (band: keyof MixerChannel['eq'], label: string) => (
+          <MixerSlider
+            label={label}
+            value={channel.eq[band]}
+            min={-EQ_RANGE_DB}
+            max={EQ_RANGE_DB}
+            step={0.5}
+            display={`${channel.eq[band] > 0 ? '+' : ''}${channel.eq[band].toFixed(1)}`}
+            onChange={value => onChannelChange(source.id, { eq: { ...channel.eq, [band]: value } })}
+          />
+        );
+
+        return (
+          <div
+            key={source.id}
+            className={`border border-border rounded-md p-2 space-y-1.5 ${audibleIds.has(source.id) ? '' : 'opacity-60'}`}
+          >
+            <div className="flex items-center space-x-2 text-xs">
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: source.color }}></span>
+              <span className="flex-1 truncate">{source.name}</span>
+              <button
+                className={`w-6 h-5 rounded border text-[10px] ${channel.mute ? 'bg-red-600 border-red-500 text-white' : 'border-border'}`}
+                onClick={() => onChannelChange(source.id, { mute: !channel.mute })}
+                title="Mute"
+              >
+                M
+              </button>
+              <button
+                className={`w-6 h-5 rounded border text-[10px] ${channel.solo ? 'bg-yellow-500 border-yellow-400 text-black' : 'border-border'}`}
+                onClick={() => onChannelChange(source.id, { solo: !channel.solo })}
+                title="Solo"
+              >
+                S
+              </button>
+            </div>
+
+            <LevelMeter levels={levels?.sources[source.id]} />
+
+            <MixerSlider
+              label="Fader"
+              value={fader}
+              min={FADER_MIN_DB}
+              max={FADER_MAX_DB}
+              step={0.5}
+              display={formatDecibels(fader)}
+              onChange={value => onVolumeChange(source.id, faderToVolume(value))}
+            />
+            {eqBand('high', 'High')}
+            {eqBand('mid', 'Mid')}
+            {eqBand('low', 'Low')}
+            <MixerSlider
+              label="Pan"
+              value={channel.pan}
+              min={-1}
+              max={1}
+              step={0.01}
+              display={channel.spatialLink ? 'Scene' : channel.pan === 0 ? 'C' : `${Math.abs(channel.pan * 100).toFixed(0)}${channel.pan < 0 ? 'L' : 'R'}`}
+              disabled={channel.spatialLink}
+              onChange={pan => onChannelChange(source.id, { pan })}
+            />
+            <label className="flex items-center space-x-1.5 text-[11px]">
+              <input
+                type="checkbox"
+                checked={channel.spatialLink}
+                onChange={event => onChannelChange(source.id, { spatialLink: event.target.checked })}
+              />
+              <span>Pan from scene position</span>
+            </label>
+          </div>
+        );
+      })}
+
+      <div className="border border-primary/40 rounded-md p-2 space-y-1.5">
+        <div className="text-xs font-medium">Master</div>
+        <LevelMeter levels={levels?.master} />
+        <MixerSlider
+          label="Fader"
+          value={masterBus.fader}
+          min={FADER_MIN_DB}
+          max={FADER_MAX_DB}
+          step={0.5}
+          display={formatDecibels(masterBus.fader)}
+          onChange={fader => onMasterBusChange({ ...masterBus, fader })}
+        />
+        <label className="flex items-center space-x-1.5 text-[11px]">
+          <input
+            type="checkbox"
+            checked={masterBus.limiter}
+            onChange={event => onMasterBusChange({ ...masterBus, limiter: event.target.checked })}
+          />
+          <span>Limiter</span>
+        </label>
+        <MixerSlider
+          label="Ceiling"
+          value={masterBus.ceiling}
+          min={-24}
+          max={0}
+          step={0.1}
+          display={`${masterBus.ceiling.toFixed(1)} dB`}
+          disabled={!masterBus.limiter}
+          onChange={ceiling => onMasterBusChange({ ...masterBus, ceiling })}
+        />
+
+        <div className="pt-1.5 border-t border-border space-y-1.5">
+          <div className="flex items-center space-x-3 text-[11px] tabular-nums">
+            <span>M {Number.isFinite(loudness.momentary) ? loudness.momentary.toFixed(1) : '-∞'}</span>
+            <span>S {Number.isFinite(loudness.shortTerm) ? loudness.shortTerm.toFixed(1) : '-∞'}</span>
+            <span className="flex-1 text-muted-foreground">LUFS</span>
+            <button
+              className="px-1.5 h-5 rounded border border-border text-[10px] hover:bg-secondary"
+              onClick={onResetLoudness}
+              title="Start measuring the integrated loudness, range and true peak afresh"
+            >
+              Reset
+            </button>
+          </div>
+          <LoudnessSummary loudness={loudness} className="text-[11px]" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { type AudioData } from '../../types/audio';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { PITCH_CLASSES } from '../../utils/tonal-analysis';
+
+interface MusicalSummaryProps {
+  audioData: AudioData;
+}
+
+// Give each chord root its own hue around the circle of pitch classes
+function chordColor(root: string | null, quality: 'major' | 'minor' | null): string {
+  if (!root) return 'rgba(100, 116, 139, 0.3)';
+  const hue = (PITCH_CLASSES.indexOf(root) / 12) * 360;
+  return `hsla(${hue}, ${quality === 'minor' ? 45 : 70}%, ${quality === 'minor' ? 40 : 50}%, 0.8)`;
+}
+
+export function MusicalSummary({ audioData }: MusicalSummaryProps) {
+  const { features, metadata } = audioData;
+  const chords = features.chords ?? [];
+  const duration = metadata.duration || 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Musical Summary</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-col p-3 bg-slate-900/50 rounded-lg">
+            <span className="text-xs text-slate-400">Tempo</span>
+            <span className="text-lg font-semibold text-white">
+              {features.tempo && features.tempo.bpm > 0 ? `${Math.round(features.tempo.bpm)} BPM` : '—'}
+            </span>
+            {features.tempo && features.tempo.bpm > 0 && (
+              <span className="text-xs text-emerald-500">
+                {Math.round(features.tempo.confidence * 100)}% confidence
+              </span>
+            )}
+          </div>
+
+          <div className="flex flex-col p-3 bg-slate-900/50 rounded-lg">
+            <span className="text-xs text-slate-400">Key</span>
+            <span className="text-lg font-semibold text-white">{features.key?.name ?? '—'}</span>
+            {features.key && (
+              <span className="text-xs text-emerald-500">
+                {Math.round(features.key.confidence * 100)}% confidence
+              </span>
+            )}
+          </div>
+        </div>
+
+        {chords.length > 0 && (
+          <div>
+            <span className="text-xs text-slate-400">Chord timeline</span>
+            <div className="mt-1 flex h-8 w-full overflow-hidden rounded-md">
+              {chords.map((chord, index) => (
+                <div
+                  key={index}
+                  className="flex items-center justify-center border-r border-black/40 text-[10px] text-white overflow-hidden"
+                  style={{
+                    width: `${((chord.end - chord.start) / duration) * 100}%`,
+                    backgroundColor: chordColor(chord.root, chord.quality)
+                  }}
+                  title={`${chord.label === 'N' ? 'No chord' : chord.label} (${chord.start.toFixed(1)}s - ${chord.end.toFixed(1)}s)`}
+                >
+                  {chord.label !== 'N' && chord.label}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
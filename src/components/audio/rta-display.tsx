@@ -0,0 +1,202 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '../ui/button';
+import type {
+  FrequencyWeighting,
+  LevelReading,
+  MeasurementSettings,
+  OctaveBand,
+  OctaveFraction,
+  RtaAveraging,
+  RtaReading,
+  TimeWeighting
+} from '../../utils/live-measurement';
+
+interface RtaDisplayProps {
+  bands: OctaveBand[];
+  rta: RtaReading | null;
+  level: LevelReading | null;
+  settings: MeasurementSettings;
+  onSettingsChange: (changes: Partial<MeasurementSettings>) => void;
+  onReset: () => void;
+}
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 260;
+const LABEL_HEIGHT = 16;
+
+// dBFS range of the bar graph
+const FLOOR_DB = -100;
+const CEILING_DB = 0;
+
+const FRACTIONS: { value: OctaveFraction; label: string }[] = [
+  { value: 3, label: '1/3 octave' },
+  { value: 6, label: '1/6 octave' }
+];
+
+const AVERAGING_MODES: { value: RtaAveraging; label: string }[] = [
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'infinite', label: 'Infinite' }
+];
+
+const WEIGHTINGS: FrequencyWeighting[] = ['A', 'C', 'Z'];
+
+const TIME_WEIGHTINGS: { value: TimeWeighting; label: string }[] = [
+  { value: 'fast', label: 'Fast (125 ms)' },
+  { value: 'slow', label: 'Slow (1 s)' }
+];
+
+const selectClassName = 'rounded-md bg-slate-800 border border-slate-600 px-2 py-1 text-white';
+
+function levelToY(level: number): number {
+  const ratio = (Math.max(FLOOR_DB, Math.min(CEILING_DB, level)) - FLOOR_DB) / (CEILING_DB - FLOOR_DB);
+  return (CANVAS_HEIGHT - LABEL_HEIGHT) * (1 - ratio);
+}
+
+function formatLevel(level: number | undefined): string {
+  return level !== undefined && Number.isFinite(level) ? level.toFixed(1) : '–';
+}
+
+// Fractional-octave bar graph with held peaks and the max-hold trace, plus the weighted level meter
+export function RtaDisplay({ bands, rta, level, settings, onSettingsChange, onReset }: RtaDisplayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvasCtx = canvasRef.current?.getContext('2d');
+    if (!canvasCtx) return;
+
+    const graphHeight = CANVAS_HEIGHT - LABEL_HEIGHT;
+    const barWidth = CANVAS_WIDTH / Math.max(1, bands.length);
+    canvasCtx.fillStyle = 'rgb(15, 23, 42)';
+    canvasCtx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    // Level grid every 20 dB
+    canvasCtx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+    canvasCtx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    canvasCtx.font = '10px Arial';
+    canvasCtx.textAlign = 'left';
+    for (let db = CEILING_DB; db > FLOOR_DB; db -= 20) {
+      const y = levelToY(db);
+      canvasCtx.beginPath();
+      canvasCtx.moveTo(0, y);
+      canvasCtx.lineTo(CANVAS_WIDTH, y);
+      canvasCtx.stroke();
+      canvasCtx.fillText(`${db}`, 2, y + 10);
+    }
+
+    if (rta) {
+      bands.forEach((_, band) => {
+        const x = band * barWidth;
+        const top = levelToY(rta.levels[band]);
+        canvasCtx.fillStyle = 'rgb(56, 189, 248)';
+        canvasCtx.fillRect(x + 1, top, barWidth - 2, graphHeight - top);
+
+        if (Number.isFinite(rta.peaks[band])) {
+          canvasCtx.fillStyle = 'rgb(251, 191, 36)';
+          canvasCtx.fillRect(x + 1, levelToY(rta.peaks[band]) - 1, barWidth - 2, 2);
+        }
+      });
+
+      // Max-hold trace through the band centers
+      canvasCtx.strokeStyle = 'rgb(248, 113, 113)';
+      canvasCtx.lineWidth = 1.5;
+      canvasCtx.beginPath();
+      bands.forEach((_, band) => {
+        const x = (band + 0.5) * barWidth;
+        const y = levelToY(rta.maxHold[band]);
+        if (band === 0) canvasCtx.moveTo(x, y);
+        else canvasCtx.lineTo(x, y);
+      });
+      canvasCtx.stroke();
+      canvasCtx.lineWidth = 1;
+    }
+
+    // Band labels, thinned out so they don't overlap
+    const labelEvery = Math.max(1, Math.ceil(28 / barWidth));
+    canvasCtx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    canvasCtx.textAlign = 'center';
+    bands.forEach(({ label }, band) => {
+      if (band % labelEvery === 0) canvasCtx.fillText(label, (band + 0.5) * barWidth, CANVAS_HEIGHT - 4);
+    });
+  }, [bands, rta]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+        {[
+          { label: `Level L${settings.weighting}${settings.timeWeighting === 'fast' ? 'F' : 'S'}`, value: formatLevel(level?.level), unit: 'dBFS' },
+          { label: 'Max', value: formatLevel(level?.max), unit: 'dBFS' },
+          { label: 'Peak', value: formatLevel(level?.peak), unit: 'dBFS' },
+          { label: 'Crest factor', value: formatLevel(level?.crestFactor), unit: 'dB' }
+        ].map(({ label, value, unit }) => (
+          <div key={label} className="rounded-md bg-slate-800 border border-slate-600/50 p-2">
+            <div className="text-xs text-white/60">{label}</div>
+            <div className="text-2xl font-goldman text-white">{value}</div>
+            <div className="text-xs text-white/50">{unit}</div>
+          </div>
+        ))}
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        className="w-full h-auto border border-slate-600/50 rounded-md"
+      />
+      <p className="text-xs text-white/60">
+        Bars show the averaged band levels in dBFS, <span className="text-amber-400">ticks</span> the held peaks
+        and the <span className="text-red-400">line</span> the highest level each band reached since the last reset.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 text-sm text-white/80">
+        <label className="flex flex-col gap-1">
+          Resolution
+          <select
+            value={settings.fraction}
+            onChange={event => onSettingsChange({ fraction: Number(event.target.value) as OctaveFraction })}
+            className={selectClassName}
+          >
+            {FRACTIONS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          Averaging
+          <select
+            value={settings.averaging}
+            onChange={event => onSettingsChange({ averaging: event.target.value as RtaAveraging })}
+            className={selectClassName}
+          >
+            {AVERAGING_MODES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          Weighting
+          <select
+            value={settings.weighting}
+            onChange={event => onSettingsChange({ weighting: event.target.value as FrequencyWeighting })}
+            className={selectClassName}
+          >
+            {WEIGHTINGS.map(weighting => <option key={weighting} value={weighting}>{weighting}</option>)}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          Time weighting
+          <select
+            value={settings.timeWeighting}
+            onChange={event => onSettingsChange({ timeWeighting: event.target.value as TimeWeighting })}
+            className={selectClassName}
+          >
+            {TIME_WEIGHTINGS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </label>
+
+        <Button variant="outline" size="sm" onClick={onReset}>
+          Reset
+        </Button>
+      </div>
+    </div>
+  );
+}
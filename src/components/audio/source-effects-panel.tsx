@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  type FilterType,
+  type InsertEffect,
+  type InsertEffectType,
+  type SourceEffects,
+  type SpatialAudioData
+} from '../../types/spatial-audio';
+import { createInsert, getSourceEffects, INSERT_LABELS, moveInsert } from '../../utils/source-effects';
+
+interface SourceEffectsPanelProps {
+  source: SpatialAudioData;
+  onChange: (id: string, effects: SourceEffects) => void;
+}
+
+interface EffectSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}
+
+const FILTER_TYPES: { value: FilterType; label: string }[] = [
+  { value: 'lowpass', label: 'Low-pass' },
+  { value: 'highpass', label: 'High-pass' },
+  { value: 'bandpass', label: 'Band-pass' },
+  { value: 'notch', label: 'Notch' }
+];
+
+function EffectSlider({ label, value, min, max, step, unit = '', onChange }: EffectSliderProps) {
+  return (
+    <label className="block space-y-0.5">
+      <span className="flex justify-between text-[11px] text-muted-foreground">
+        <span>{label}</span>
+        <span>{step >= 1 ? Math.round(value) : value.toFixed(2)}{unit}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={event => onChange(parseFloat(event.target.value))}
+        className="w-full"
+      />
+    </label>
+  );
+}
+
+// The settings of one insert, by its type
+function InsertSettings({ insert, onChange }: { insert: InsertEffect; onChange: (insert: InsertEffect) => void }) {
+  switch (insert.type) {
+    case 'reverb':
+      return (
+        <>
+          <EffectSlider label="Decay" value={insert.decay} min={0.1} max={10} step={0.1} unit=" s"
+            onChange={decay => onChange({ ...insert, decay })} />
+          <EffectSlider label="Wet" value={insert.wet} min={0} max={1} step={0.01}
+            onChange={wet => onChange({ ...insert, wet })} />
+        </>
+      );
+    case 'delay':
+      return (
+        <>
+          <EffectSlider label="Time" value={insert.delayTime} min={0.01} max={1} step={0.01} unit=" s"
+            onChange={delayTime => onChange({ ...insert, delayTime })} />
+          <EffectSlider label="Feedback" value={insert.feedback} min={0} max={0.95} step={0.01}
+            onChange={feedback => onChange({ ...insert, feedback })} />
+          <EffectSlider label="Wet" value={insert.wet} min={0} max={1} step={0.01}
+            onChange={wet => onChange({ ...insert, wet })} />
+        </>
+      );
+    case 'distortion':
+      return (
+        <>
+          <EffectSlider label="Drive" value={insert.drive} min={0} max={1} step={0.01}
+            onChange={drive => onChange({ ...insert, drive })} />
+          <EffectSlider label="Wet" value={insert.wet} min={0} max={1} step={0.01}
+            onChange={wet => onChange({ ...insert, wet })} />
+        </>
+      );
+    case 'filter':
+      return (
+        <>
+          <select
+            className="w-full h-6 px-1 text-xs bg-background/80 border border-border rounded-md"
+            value={insert.filterType}
+            onChange={event => onChange({ ...insert, filterType: event.target.value as FilterType })}
+          >
+            {FILTER_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          <EffectSlider label="Frequency" value={insert.frequency} min={20} max={20000} step={1} unit=" Hz"
+            onChange={frequency => onChange({ ...insert, frequency })} />
+          <EffectSlider label="Q" value={insert.Q} min={0.1} max={20} step={0.1}
+            onChange={Q => onChange({ ...insert, Q })} />
+        </>
+      );
+  }
+}
+
+// The selected source's insert chain, in processing order, and its sends to the shared buses
+export function SourceEffectsPanel({ source, onChange }: SourceEffectsPanelProps) {
+  const [newType, setNewType] = useState<InsertEffectType>('filter');
+  const effects = getSourceEffects(source);
+
+  const setInserts = (inserts: InsertEffect[]) => onChange(source.id, { ...effects, inserts });
+  const replaceInsert = (index: number, insert: InsertEffect) =>
+    setInserts(effects.inserts.map((existing, i) => (i === index ? insert : existing)));
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium truncate">Effects: {source.name}</h4>
+
+      {effects.inserts.length === 0 && (
+        <p className="text-xs text-muted-foreground">No inserts. The source plays dry into the mix.</p>
+      )}
+
+      {effects.inserts.map((insert, index) => (
+        <div key={insert.id} className="border border-border rounded-md p-2 space-y-1.5">
+          <div className="flex items-center space-x-1 text-xs">
+            <label className="flex items-center space-x-1.5 flex-1">
+              <input
+                type="checkbox"
+                checked={insert.enabled}
+                onChange={event => replaceInsert(index, { ...insert, enabled: event.target.checked })}
+              />
+              <span className={insert.enabled ? '' : 'text-muted-foreground'}>
+                {index + 1}. {INSERT_LABELS[insert.type]}
+              </span>
+            </label>
+            <button
+              className="px-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+              disabled={index === 0}
+              onClick={() => setInserts(moveInsert(effects.inserts, index, -1))}
+              title="Move earlier in the chain"
+            >
+              ↑
+            </button>
+            <button
+              className="px-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+              disabled={index === effects.inserts.length - 1}
+              onClick={() => setInserts(moveInsert(effects.inserts, index, 1))}
+              title="Move later in the chain"
+            >
+              ↓
+            </button>
+            <button
+              className="px-1 text-muted-foreground hover:text-foreground"
+              onClick={() => setInserts(effects.inserts.filter((_, i) => i !== index))}
+              title="Remove"
+            >
+              ×
+            </button>
+          </div>
+          {insert.enabled && <InsertSettings insert={insert} onChange={updated => replaceInsert(index, updated)} />}
+        </div>
+      ))}
+
+      <div className="flex items-center space-x-2">
+        <select
+          className="flex-1 h-7 px-1 text-xs bg-background/80 border border-border rounded-md"
+          value={newType}
+          onChange={event => setNewType(event.target.value as InsertEffectType)}
+        >
+          {(Object.keys(INSERT_LABELS) as InsertEffectType[]).map(type => (
+            <option key={type} value={type}>{INSERT_LABELS[type]}</option>
+          ))}
+        </select>
+        <button
+          className="h-7 px-2 text-xs border border-border rounded-md hover:bg-secondary"
+          onClick={() => setInserts([...effects.inserts, createInsert(newType, uuidv4())])}
+        >
+          Add insert
+        </button>
+      </div>
+
+      <div className="space-y-1 pt-1 border-t border-border">
+        <h5 className="text-xs font-medium pt-1">Sends</h5>
+        <EffectSlider label="Reverb bus" value={effects.reverbSend} min={0} max={1} step={0.01}
+          onChange={reverbSend => onChange(source.id, { ...effects, reverbSend })} />
+        <EffectSlider label="Delay bus" value={effects.delaySend} min={0} max={1} step={0.01}
+          onChange={delaySend => onChange(source.id, { ...effects, delaySend })} />
+      </div>
+    </div>
+  );
+}
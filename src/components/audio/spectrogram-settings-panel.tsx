@@ -0,0 +1,108 @@
+import {
+  LIVE_FFT_SIZES,
+  MIN_DECIBEL_WINDOW,
+  type ColormapName,
+  type FrequencyScale,
+  type LiveSpectrogramSettings
+} from '../../utils/spectrogram-display';
+
+interface SpectrogramSettingsPanelProps {
+  settings: LiveSpectrogramSettings;
+  sampleRate: number;
+  onChange: (changes: Partial<LiveSpectrogramSettings>) => void;
+}
+
+const FREQUENCY_SCALES: { value: FrequencyScale; label: string }[] = [
+  { value: 'log', label: 'Logarithmic' },
+  { value: 'mel', label: 'Mel' },
+  { value: 'linear', label: 'Linear' }
+];
+
+const COLORMAPS: { value: ColormapName; label: string }[] = [
+  { value: 'viridis', label: 'Viridis' },
+  { value: 'magma', label: 'Magma' },
+  { value: 'inferno', label: 'Inferno' },
+  { value: 'grayscale', label: 'Grayscale' }
+];
+
+const selectClassName = 'rounded-md bg-slate-800 border border-slate-600 px-2 py-1 text-white';
+
+// Frequency scale, colors, resolution and level window of the live spectrogram
+export function SpectrogramSettingsPanel({ settings, sampleRate, onChange }: SpectrogramSettingsPanelProps) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-3 text-sm text-white/80">
+      <label className="flex flex-col gap-1">
+        Frequency scale
+        <select
+          value={settings.frequencyScale}
+          onChange={event => onChange({ frequencyScale: event.target.value as FrequencyScale })}
+          className={selectClassName}
+        >
+          {FREQUENCY_SCALES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        Colors
+        <select
+          value={settings.colormap}
+          onChange={event => onChange({ colormap: event.target.value as ColormapName })}
+          className={selectClassName}
+        >
+          {COLORMAPS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        FFT size
+        <select
+          value={settings.fftSize}
+          onChange={event => onChange({ fftSize: Number(event.target.value) })}
+          className={selectClassName}
+        >
+          {LIVE_FFT_SIZES.map(size => (
+            <option key={size} value={size}>
+              {size} ({(sampleRate / size).toFixed(1)} Hz, {((size / sampleRate) * 1000).toFixed(0)} ms)
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        Floor {settings.minDecibels} dB
+        <input
+          type="range"
+          min={-140}
+          max={settings.maxDecibels - MIN_DECIBEL_WINDOW}
+          step={1}
+          value={settings.minDecibels}
+          onChange={event => onChange({ minDecibels: Number(event.target.value) })}
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        Ceiling {settings.maxDecibels} dB
+        <input
+          type="range"
+          min={settings.minDecibels + MIN_DECIBEL_WINDOW}
+          max={0}
+          step={1}
+          value={settings.maxDecibels}
+          onChange={event => onChange({ maxDecibels: Number(event.target.value) })}
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        Smoothing {settings.smoothing.toFixed(2)}
+        <input
+          type="range"
+          min={0}
+          max={0.95}
+          step={0.05}
+          value={settings.smoothing}
+          onChange={event => onChange({ smoothing: Number(event.target.value) })}
+        />
+      </label>
+    </div>
+  );
+}
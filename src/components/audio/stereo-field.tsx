@@ -0,0 +1,220 @@
+import { useEffect, useRef } from 'react';
+import { type MonoCompatibilityWarning, type StereoAnalysis } from '../../types/audio';
+
+interface StereoFieldDisplayProps {
+  stereo?: StereoAnalysis;
+  duration: number;
+  size?: number; // vectorscope side length in pixels
+  className?: string;
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function formatLevel(value: number): string {
+  return Number.isFinite(value) ? `${value.toFixed(1)} dBFS` : '-∞ dBFS';
+}
+
+function describeWarning(warning: MonoCompatibilityWarning): string {
+  if (warning.kind === 'band-cancels') {
+    return `${warning.band} loses ${Math.abs(warning.value).toFixed(1)} dB in mono`;
+  }
+  return `${formatTime(warning.start)} - ${formatTime(warning.end)}: channels out of phase (correlation ${warning.value.toFixed(2)})`;
+}
+
+// Red below zero, amber while barely related, green towards mono
+function getCorrelationColor(correlation: number): string {
+  if (correlation < 0) return 'rgb(248, 113, 113)';
+  if (correlation < 0.3) return 'rgb(251, 191, 36)';
+  return 'rgb(52, 211, 153)';
+}
+
+// Goniometer: mid on the vertical axis, side on the horizontal one
+function drawVectorscope(canvas: HTMLCanvasElement, points: Float32Array) {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { width, height } = canvas;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.min(width, height) / 2;
+
+  context.fillStyle = 'rgba(15, 23, 42, 0.9)';
+  context.fillRect(0, 0, width, height);
+
+  // Axes: vertical is mono, the diagonals are the left and right channels alone
+  context.strokeStyle = 'rgba(148, 163, 184, 0.25)';
+  context.lineWidth = 1;
+  context.beginPath();
+  context.moveTo(centerX, 0);
+  context.lineTo(centerX, height);
+  context.moveTo(0, centerY);
+  context.lineTo(width, centerY);
+  context.moveTo(centerX - radius, centerY - radius);
+  context.lineTo(centerX + radius, centerY + radius);
+  context.moveTo(centerX + radius, centerY - radius);
+  context.lineTo(centerX - radius, centerY + radius);
+  context.stroke();
+
+  context.fillStyle = 'rgba(148, 163, 184, 0.6)';
+  context.font = '10px sans-serif';
+  context.fillText('L', 4, 12);
+  context.fillText('R', width - 10, 12);
+  context.fillText('M', centerX + 4, 12);
+  context.fillText('S', width - 10, centerY - 4);
+
+  let peak = 0;
+  for (let i = 0; i < points.length; i++) peak = Math.max(peak, Math.abs(points[i]));
+  const scale = radius / Math.max(peak, 1e-6) / Math.SQRT2;
+
+  context.fillStyle = 'rgba(52, 211, 153, 0.5)';
+  for (let i = 0; i < points.length; i += 2) {
+    const left = points[i];
+    const right = points[i + 1];
+    const x = centerX + (right - left) * scale;
+    const y = centerY - (left + right) * scale;
+    context.fillRect(x, y, 1.5, 1.5);
+  }
+}
+
+// Correlation over time, from -1 at the bottom to 1 at the top
+function drawCorrelation(canvas: HTMLCanvasElement, correlations: number[]) {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { width, height } = canvas;
+  context.fillStyle = 'rgba(15, 23, 42, 0.9)';
+  context.fillRect(0, 0, width, height);
+
+  context.strokeStyle = 'rgba(148, 163, 184, 0.25)';
+  context.beginPath();
+  context.moveTo(0, height / 2);
+  context.lineTo(width, height / 2);
+  context.stroke();
+
+  if (correlations.length === 0) return;
+  const step = width / correlations.length;
+  correlations.forEach((correlation, index) => {
+    const y = ((1 - correlation) / 2) * height;
+    context.fillStyle = getCorrelationColor(correlation);
+    if (correlation >= 0) {
+      context.fillRect(index * step, y, Math.max(1, step), height / 2 - y);
+    } else {
+      context.fillRect(index * step, height / 2, Math.max(1, step), y - height / 2);
+    }
+  });
+}
+
+// Correlation, mid/side balance, per-band width, a vectorscope and mono warnings for one file
+export function StereoFieldDisplay({ stereo, duration, size = 200, className = '' }: StereoFieldDisplayProps) {
+  const vectorscopeRef = useRef<HTMLCanvasElement>(null);
+  const correlationRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!stereo) return;
+    if (vectorscopeRef.current) drawVectorscope(vectorscopeRef.current, stereo.vectorscope);
+    if (correlationRef.current) drawCorrelation(correlationRef.current, stereo.correlationOverTime);
+  }, [stereo]);
+
+  if (!stereo) {
+    return (
+      <p className={`text-xs text-slate-400 ${className}`}>The stereo field was not analyzed for this file.</p>
+    );
+  }
+
+  if (!stereo.isStereo) {
+    return (
+      <p className={`text-xs text-slate-400 ${className}`}>
+        This file has a single channel, so it sounds the same in mono and stereo.
+      </p>
+    );
+  }
+
+  const readings = [
+    { label: 'Correlation', value: stereo.correlation.toFixed(2) },
+    { label: 'Width', value: `${Math.round(stereo.width * 100)}%` },
+    { label: 'Mid', value: formatLevel(stereo.midLevel) },
+    { label: 'Side', value: formatLevel(stereo.sideLevel) }
+  ];
+
+  return (
+    <div className={`space-y-4 text-xs ${className}`}>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {readings.map(reading => (
+          <div key={reading.label} className="flex flex-col">
+            <span className="text-slate-400">{reading.label}</span>
+            <span className="font-medium tabular-nums">{reading.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="relative h-2 rounded bg-slate-900/60">
+          <div className="absolute top-0 left-1/2 h-full w-px bg-slate-500" />
+          <div
+            className="absolute top-[-2px] h-3 w-1 rounded-sm"
+            style={{
+              left: `calc(${((stereo.correlation + 1) / 2) * 100}% - 2px)`,
+              backgroundColor: getCorrelationColor(stereo.correlation)
+            }}
+          />
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <span>-1 out of phase</span>
+          <span>0</span>
+          <span>+1 mono</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <canvas
+          ref={vectorscopeRef}
+          width={size}
+          height={size}
+          className="rounded-md border border-slate-700/50"
+        />
+        <div className="flex-1 min-w-[12rem] space-y-2">
+          <span className="text-slate-400">Correlation over time</span>
+          <canvas
+            ref={correlationRef}
+            width={400}
+            height={60}
+            className="w-full h-16 rounded-md border border-slate-700/50"
+          />
+          <div className="flex justify-between text-[10px] text-slate-500">
+            <span>0:00</span>
+            <span>{formatTime(duration)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-slate-400">Width per band</span>
+        {stereo.bands.map(band => (
+          <div key={band.name} className="flex items-center gap-3">
+            <span className="w-24 shrink-0 text-slate-400">{band.name}</span>
+            <div className="relative h-3 flex-1 rounded bg-slate-900/60">
+              <div
+                className={`h-full rounded-sm ${band.monoLoss < -6 ? 'bg-red-400' : 'bg-sky-500'}`}
+                style={{ width: `${band.width * 100}%` }}
+              />
+            </div>
+            <span className="w-10 text-right tabular-nums">{Math.round(band.width * 100)}%</span>
+          </div>
+        ))}
+      </div>
+
+      {stereo.warnings.length > 0 ? (
+        <ul className="space-y-1 text-amber-400">
+          {stereo.warnings.map((warning, index) => (
+            <li key={index}>{describeWarning(warning)}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-emerald-500">Nothing cancels when summed to mono.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useRef } from 'react';
+import { Library, Play, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { computeWaveformPeaks, getTakeDuration, type RecordingTake } from '../../utils/recording';
+
+// Where a take is on its way into the library
+export interface TakeLibraryState {
+  status: 'analyzing' | 'added' | 'failed';
+  progress?: number; // 0-100 while analyzing
+  error?: string;
+}
+
+interface TakeListProps {
+  takes: RecordingTake[];
+  libraryStates: Record<string, TakeLibraryState>;
+  canSendToLibrary: boolean;
+  onTrimChange: (id: string, trimStart: number, trimEnd: number) => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+  onPlay: (take: RecordingTake) => void;
+  onSendToLibrary: (take: RecordingTake) => void;
+}
+
+const PREVIEW_WIDTH = 600;
+const PREVIEW_HEIGHT = 64;
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+}
+
+function describeLibraryState(state: TakeLibraryState): string {
+  if (state.status === 'analyzing') return `Analyzing${state.progress !== undefined ? ` ${Math.round(state.progress)}%` : ''}`;
+  if (state.status === 'added') return 'In the editor library';
+  return `Could not be added: ${state.error}`;
+}
+
+// Waveform with the trimmed-off ends shaded
+function drawTakePreview(canvas: HTMLCanvasElement, take: RecordingTake) {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { width, height } = canvas;
+  const duration = getTakeDuration(take);
+  const { min, max } = computeWaveformPeaks(take.channels, width);
+
+  context.fillStyle = 'rgba(15, 23, 42, 0.9)';
+  context.fillRect(0, 0, width, height);
+
+  context.fillStyle = 'rgba(20, 230, 180, 0.8)';
+  for (let x = 0; x < width; x++) {
+    const top = ((1 - max[x]) / 2) * height;
+    const bottom = ((1 - min[x]) / 2) * height;
+    context.fillRect(x, top, 1, Math.max(1, bottom - top));
+  }
+
+  if (duration === 0) return;
+  const startX = (take.trimStart / duration) * width;
+  const endX = (take.trimEnd / duration) * width;
+  context.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  context.fillRect(0, 0, startX, height);
+  context.fillRect(endX, 0, width - endX, height);
+
+  context.fillStyle = 'rgba(251, 191, 36, 0.9)';
+  context.fillRect(startX, 0, 1, height);
+  context.fillRect(Math.max(0, endX - 1), 0, 1, height);
+}
+
+function TakeRow({
+  take,
+  libraryState,
+  canSendToLibrary,
+  onTrimChange,
+  onRename,
+  onRemove,
+  onPlay,
+  onSendToLibrary
+}: Omit<TakeListProps, 'takes' | 'libraryStates'> & { take: RecordingTake; libraryState?: TakeLibraryState }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const duration = getTakeDuration(take);
+  const isSending = libraryState?.status === 'analyzing' || libraryState?.status === 'added';
+
+  useEffect(() => {
+    if (canvasRef.current) drawTakePreview(canvasRef.current, take);
+  }, [take]);
+
+  return (
+    <li className="p-3 space-y-2 bg-secondary/20 dark:bg-slate-700/30 rounded-md border dark:border-slate-600/30">
+      <div className="flex items-center gap-2">
+        <input
+          value={take.name}
+          onChange={event => onRename(take.id, event.target.value)}
+          className="flex-1 min-w-0 bg-transparent text-sm font-medium text-white/90 border-b border-transparent focus:border-slate-500 outline-none"
+          aria-label="Take name"
+        />
+        <span className="text-xs text-white/60">
+          {formatTime(take.trimEnd - take.trimStart)} of {formatTime(duration)}
+        </span>
+        <Button size="sm" variant="outline" onClick={() => onPlay(take)} title="Play the trimmed take">
+          <Play className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onSendToLibrary(take)}
+          disabled={!canSendToLibrary || isSending}
+          title={canSendToLibrary ? 'Analyze the take and add it to the editor library' : 'Saved audio is not available in this browser'}
+        >
+          <Library className="mr-1 h-4 w-4" /> Send to editor library
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onRemove(take.id)} title="Discard this take">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <canvas ref={canvasRef} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} className="w-full h-16 rounded" />
+
+      <div className="grid grid-cols-2 gap-4 text-xs text-white/70">
+        <label className="flex items-center gap-2">
+          Start {formatTime(take.trimStart)}
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={take.trimStart}
+            onChange={event => onTrimChange(take.id, Number(event.target.value), take.trimEnd)}
+            className="flex-1"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          End {formatTime(take.trimEnd)}
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={take.trimEnd}
+            onChange={event => onTrimChange(take.id, take.trimStart, Number(event.target.value))}
+            className="flex-1"
+          />
+        </label>
+      </div>
+
+      {libraryState && (
+        <p className={`text-xs ${libraryState.status === 'failed' ? 'text-red-400' : 'text-white/60'}`}>
+          {describeLibraryState(libraryState)}
+        </p>
+      )}
+    </li>
+  );
+}
+
+// Recorded takes with waveform previews, trim controls and a way into the editor library
+export function TakeList({ takes, libraryStates, ...handlers }: TakeListProps) {
+  if (takes.length === 0) {
+    return <p className="text-sm text-gray-400">Recorded takes appear here. Each recording becomes a new take.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {takes.map(take => (
+        <TakeRow key={take.id} take={take} libraryState={libraryStates[take.id]} {...handlers} />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,272 @@
+import { useRef, useState } from 'react';
+import { type SpatialAudioData, type TimelineClip } from '../../types/spatial-audio';
+import {
+  getClipLength,
+  getSourceClip,
+  getTimelineViewDuration,
+  normalizeClip,
+  MIN_CLIP_SECONDS
+} from '../../utils/timeline';
+
+interface TimelineLanesProps {
+  sources: SpatialAudioData[];
+  playbackSpeed: number;
+  currentTime: number;
+  duration: number; // where the last clip ends
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onClipChange: (id: string, changes: Partial<TimelineClip>) => void;
+  onSeek: (time: number) => void;
+}
+
+// What a pointer drag on a clip changes
+type DragMode = 'move' | 'trim-start' | 'trim-end';
+
+interface ClipDrag {
+  id: string;
+  mode: DragMode;
+  originX: number;
+  origin: TimelineClip;
+  fileDuration: number;
+  laneWidth: number;
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+/**
+ * The clip a drag turns `origin` into after moving `delta` timeline seconds.
+ * Trimming the start keeps the rest of the audio where it was on the timeline.
+ */
+function dragClip(origin: TimelineClip, mode: DragMode, delta: number, playbackSpeed: number): TimelineClip {
+  if (mode === 'move') {
+    return { ...origin, start: Math.max(origin.start + delta, 0) };
+  }
+  if (mode === 'trim-start') {
+    const shift = Math.max(delta, -origin.start, -origin.trimStart / playbackSpeed);
+    return {
+      ...origin,
+      start: origin.start + shift,
+      trimStart: origin.trimStart + shift * playbackSpeed,
+      loopLength: origin.loop ? origin.loopLength - shift : origin.loopLength
+    };
+  }
+  return origin.loop
+    ? { ...origin, loopLength: Math.max(origin.loopLength + delta, MIN_CLIP_SECONDS) }
+    : { ...origin, trimEnd: origin.trimEnd + delta * playbackSpeed };
+}
+
+// One lane per scene source under the 3D view, with its clip drawn to scale
+export function TimelineLanes({
+  sources,
+  playbackSpeed,
+  currentTime,
+  duration,
+  selectedId,
+  onSelect,
+  onClipChange,
+  onSeek
+}: TimelineLanesProps) {
+  const dragRef = useRef<ClipDrag | null>(null);
+  // The clip being dragged, committed when the drag ends so playback isn't
+  // rescheduled on every pointer move
+  const [draft, setDraft] = useState<{ id: string; clip: TimelineClip } | null>(null);
+
+  const viewDuration = getTimelineViewDuration(duration);
+  const toPercent = (seconds: number) => `${(seconds / viewDuration) * 100}%`;
+  const selectedSource = sources.find(source => source.id === selectedId) ?? null;
+  const selectedClip = selectedSource ? getSourceClip(selectedSource) : null;
+
+  const startDrag = (event: React.PointerEvent<HTMLElement>, source: SpatialAudioData, mode: DragMode) => {
+    const lane = event.currentTarget.closest('[data-lane]');
+    if (!lane) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onSelect(source.id);
+    dragRef.current = {
+      id: source.id,
+      mode,
+      originX: event.clientX,
+      origin: getSourceClip(source),
+      fileDuration: source.buffer.duration,
+      laneWidth: lane.getBoundingClientRect().width
+    };
+  };
+
+  const moveDrag = (event: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = ((event.clientX - drag.originX) / drag.laneWidth) * viewDuration;
+    setDraft({
+      id: drag.id,
+      clip: normalizeClip(dragClip(drag.origin, drag.mode, delta, playbackSpeed), drag.fileDuration)
+    });
+  };
+
+  const endDrag = () => {
+    if (dragRef.current && draft?.id === dragRef.current.id) {
+      onClipChange(draft.id, draft.clip);
+    }
+    dragRef.current = null;
+    setDraft(null);
+  };
+
+  const seekFromRuler = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onSeek(((event.clientX - rect.left) / rect.width) * viewDuration);
+  };
+
+  if (sources.length === 0) {
+    return (
+      <div className="border-t border-border bg-background/60 backdrop-blur-md px-4 py-3 text-xs text-muted-foreground">
+        Drop audio into the scene to add it to the timeline.
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t border-border bg-background/60 backdrop-blur-md text-xs select-none">
+      {/* Ruler: click to move the playhead */}
+      <div className="flex">
+        <div className="w-32 shrink-0 px-3 py-1 text-muted-foreground">{formatTime(currentTime)}</div>
+        <div className="relative flex-1 h-5 cursor-pointer border-b border-border" onClick={seekFromRuler}>
+          {Array.from({ length: Math.floor(viewDuration / 5) + 1 }, (_, i) => i * 5).map(seconds => (
+            <span
+              key={seconds}
+              className="absolute top-0 h-full border-l border-border/60 pl-1 text-[10px] text-muted-foreground"
+              style={{ left: toPercent(seconds) }}
+            >
+              {formatTime(seconds).replace(/\.\d$/, '')}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-40 overflow-y-auto">
+        {sources.map(source => {
+          const clip = draft?.id === source.id ? draft.clip : getSourceClip(source);
+          const length = getClipLength(clip, playbackSpeed);
+          const isSelected = source.id === selectedId;
+
+          return (
+            <div key={source.id} className="flex items-center">
+              <button
+                className={`w-32 shrink-0 px-3 py-2 flex items-center space-x-2 text-left truncate ${isSelected ? 'text-primary' : ''}`}
+                onClick={() => onSelect(source.id)}
+              >
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: source.color }}></span>
+                <span className="truncate">{source.name}</span>
+              </button>
+              <div data-lane className="relative flex-1 h-8 border-b border-border/40">
+                <div
+                  className={`absolute top-1 bottom-1 rounded-sm overflow-hidden cursor-grab ${isSelected ? 'ring-1 ring-primary' : ''}`}
+                  style={{ left: toPercent(clip.start), width: toPercent(length), backgroundColor: source.color, opacity: isSelected ? 0.9 : 0.6 }}
+                  onPointerDown={event => startDrag(event, source, 'move')}
+                  onPointerMove={moveDrag}
+                  onPointerUp={endDrag}
+                  title={`${source.name}: ${formatTime(clip.start)} - ${formatTime(clip.start + length)}`}
+                >
+                  {/* Fades drawn as ramps over the clip */}
+                  <svg className="absolute inset-0 w-full h-full pointer-events-none" preserveAspectRatio="none" viewBox="0 0 100 10">
+                    {clip.fadeIn > 0 && (
+                      <polygon points={`0,0 ${(clip.fadeIn / length) * 100},0 0,10`} fill="rgba(0, 0, 0, 0.35)" />
+                    )}
+                    {clip.fadeOut > 0 && (
+                      <polygon points={`100,0 ${100 - (clip.fadeOut / length) * 100},0 100,10`} fill="rgba(0, 0, 0, 0.35)" />
+                    )}
+                  </svg>
+                  {/* Loop repeats marked where each pass of the region begins */}
+                  {clip.loop && Array.from(
+                    { length: Math.min(Math.ceil(length / ((clip.trimEnd - clip.trimStart) / playbackSpeed)) - 1, 100) },
+                    (_, i) => (
+                      <span
+                        key={i}
+                        className="absolute top-0 h-full border-l border-dashed border-white/40 pointer-events-none"
+                        style={{ left: `${(((i + 1) * (clip.trimEnd - clip.trimStart)) / playbackSpeed / length) * 100}%` }}
+                      ></span>
+                    )
+                  )}
+                  {clip.loop && (
+                    <span className="absolute left-2 top-0.5 text-[10px] text-white/80 pointer-events-none">Loop</span>
+                  )}
+                  <div
+                    className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/30 hover:bg-white/60"
+                    onPointerDown={event => startDrag(event, source, 'trim-start')}
+                    onPointerMove={moveDrag}
+                    onPointerUp={endDrag}
+                  ></div>
+                  <div
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/30 hover:bg-white/60"
+                    onPointerDown={event => startDrag(event, source, 'trim-end')}
+                    onPointerMove={moveDrag}
+                    onPointerUp={endDrag}
+                  ></div>
+                </div>
+                {/* Playhead */}
+                <div
+                  className="absolute top-0 h-full w-px bg-primary pointer-events-none"
+                  style={{ left: toPercent(currentTime) }}
+                ></div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Exact values for the selected clip */}
+      {selectedSource && selectedClip && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2 border-t border-border">
+          <span className="font-medium truncate max-w-[8rem]">{selectedSource.name}</span>
+          {([
+            ['Start', 'start'],
+            ['Trim in', 'trimStart'],
+            ['Trim out', 'trimEnd'],
+            ['Fade in', 'fadeIn'],
+            ['Fade out', 'fadeOut']
+          ] as const).map(([label, key]) => (
+            <label key={key} className="flex items-center space-x-1">
+              <span className="text-muted-foreground">{label}</span>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                className="w-16 h-6 px-1 bg-background/80 border border-border rounded"
+                value={Number(selectedClip[key].toFixed(2))}
+                onChange={event => {
+                  const value = parseFloat(event.target.value);
+                  if (Number.isFinite(value)) onClipChange(selectedSource.id, { [key]: value });
+                }}
+              />
+            </label>
+          ))}
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={selectedClip.loop}
+              onChange={event => onClipChange(selectedSource.id, { loop: event.target.checked })}
+            />
+            <span>Loop</span>
+          </label>
+          {selectedClip.loop && (
+            <label className="flex items-center space-x-1">
+              <span className="text-muted-foreground">Length</span>
+              <input
+                type="number"
+                min={MIN_CLIP_SECONDS}
+                step={0.1}
+                className="w-16 h-6 px-1 bg-background/80 border border-border rounded"
+                value={Number(selectedClip.loopLength.toFixed(2))}
+                onChange={event => {
+                  const value = parseFloat(event.target.value);
+                  if (Number.isFinite(value)) onClipChange(selectedSource.id, { loopLength: value });
+                }}
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { type AudioData } from '../../types/audio';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
+import { LoudnessSummary } from './loudness-summary';
 
 interface TrackInfoCardProps {
   audioData: AudioData;
@@ -46,6 +47,10 @@ export function TrackInfoCard({ audioData, trackTitle, onChangeTrack }: TrackInf
             <span className="text-sm font-medium text-white/90">{audioData.metadata.type}</span>
           </div>
         </div>
+        <LoudnessSummary
+          loudness={audioData.features.loudness}
+          className="mb-3 p-3 text-white/90 bg-secondary/20 dark:bg-slate-700/30 backdrop-blur-sm rounded-md border dark:border-slate-600/30"
+        />
         <audio 
           src={audioData.url} 
           controls 
@@ -0,0 +1,66 @@
+import { REFERENCE_A4_RANGE, getNoteReading } from '../../utils/pitch-tracking';
+
+interface TunerDisplayProps {
+  frequency: number; // Hz, 0 while no pitch is heard
+  referenceA4: number;
+  onReferenceChange: (referenceA4: number) => void;
+}
+
+// Within this many cents a note counts as in tune
+const IN_TUNE_CENTS = 5;
+
+function getCentsColor(cents: number): string {
+  if (Math.abs(cents) <= IN_TUNE_CENTS) return 'rgb(52, 211, 153)';
+  if (Math.abs(cents) <= 20) return 'rgb(251, 191, 36)';
+  return 'rgb(248, 113, 113)';
+}
+
+// Note name, cents needle and frequency of the tracked pitch, with the A4 reference to tune against
+export function TunerDisplay({ frequency, referenceA4, onReferenceChange }: TunerDisplayProps) {
+  const reading = getNoteReading(frequency, referenceA4);
+  const cents = reading?.cents ?? 0;
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="text-5xl font-bold font-goldman text-white" style={{ color: reading ? getCentsColor(cents) : undefined }}>
+        {reading?.note ?? '–'}
+      </div>
+
+      {/* Needle from -50 to +50 cents */}
+      <div className="relative w-full max-w-md h-6 rounded bg-slate-800 border border-slate-600/50">
+        <div className="absolute inset-y-0 left-1/2 w-px bg-white/40" />
+        {reading && (
+          <div
+            className="absolute inset-y-0 w-1 rounded"
+            style={{ left: `calc(${50 + cents}% - 2px)`, backgroundColor: getCentsColor(cents) }}
+          />
+        )}
+        <span className="absolute left-1 top-1 text-[10px] text-white/50">-50</span>
+        <span className="absolute right-1 top-1 text-[10px] text-white/50">+50</span>
+      </div>
+
+      <div className="text-sm text-white/80">
+        {reading
+          ? `${frequency.toFixed(1)} Hz · ${cents > 0 ? '+' : ''}${cents.toFixed(0)} cents from ${reading.frequency.toFixed(1)} Hz`
+          : 'No pitch detected'}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-white/70">
+        A4 =
+        <input
+          type="number"
+          min={REFERENCE_A4_RANGE.min}
+          max={REFERENCE_A4_RANGE.max}
+          step={1}
+          value={referenceA4}
+          onChange={event => {
+            const value = Number(event.target.value);
+            if (value >= REFERENCE_A4_RANGE.min && value <= REFERENCE_A4_RANGE.max) onReferenceChange(value);
+          }}
+          className="w-16 rounded bg-slate-800 border border-slate-600 px-1 text-white"
+        />
+        Hz
+      </label>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { useRef, useEffect, useMemo, useState } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
-import { OrbitControls } from '@react-three/drei';
+import { OrbitControls, Html } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import ThreeForceGraph from 'three-forcegraph';
 import * as Tone from 'tone';
-import { analyzeTonality, frequencyToColor, analyzeSpectralFeatures } from '../../utils/audio-analysis';
+import { analyzeTonality, frequencyToColor, analyzeSpectralFeatures, type TonalityData } from '../../utils/audio-analysis';
+import { type AudioFeatures } from '../../types/audio';
 import { spectralVertexShader, spectralFragmentShader } from '../../utils/audio-shaders';
 
 // Fragment shader for spectral analysis visualization
@@ -112,9 +113,12 @@ interface AnalyticalSceneProps {
   };
   analyzer: Tone.Analyser | null;
   isPlaying?: boolean;
+  // Offline key and chord timeline of the playing file, shown in the tonality overlay
+  features?: AudioFeatures;
+  currentTime?: number;
 }
 
-export function AnalyticalScene({ effects, analyzer, isPlaying = true }: AnalyticalSceneProps) {
+export function AnalyticalScene({ effects, analyzer, isPlaying = true, features, currentTime = 0 }: AnalyticalSceneProps) {
   const spectrogramRef = useRef<THREE.Mesh | null>(null);
   const shaderMaterialRef = useRef<THREE.ShaderMaterial | null>(null);
   const gridRef = useRef<THREE.GridHelper | null>(null);
@@ -129,13 +133,19 @@ export function AnalyticalScene({ effects, analyzer, isPlaying = true }: Analyti
   });
   
   // State for tonality info
-  const [tonalityInfo, setTonalityInfo] = useState({
+  const [tonalityInfo, setTonalityInfo] = useState<TonalityData>({
     isMajor: true,
     isMinor: false,
     dominantKey: 'C',
+    key: null,
     intensity: 0.5,
     lowFrequencyImpact: 0
   });
+  
+  // Chord sounding at the current playback position
+  const currentChord = useMemo(() => {
+    return features?.chords?.find(chord => currentTime >= chord.start && currentTime < chord.end) ?? null;
+  }, [features, currentTime]);
 
   // Frequency bands for the visualization
   const frequencyBands = useMemo(() => {
@@ -423,7 +433,7 @@ export function AnalyticalScene({ effects, analyzer, isPlaying = true }: Analyti
         
         // Update tonality analysis once every few frames for performance
         if (frameCountRef.current % 30 === 0) {
-          const tonality = analyzeTonality(audioData);
+          const tonality = analyzeTonality(audioData, audioData.length * 2, Tone.getContext().sampleRate);
           setTonalityInfo(tonality);
           
           // Analyze spectral features
@@ -455,6 +465,8 @@ export function AnalyticalScene({ effects, analyzer, isPlaying = true }: Analyti
     }
   });
   
+  const displayedKey = features?.key ?? tonalityInfo.key;
+  
   return (
     <>
       <EffectComposer>
@@ -462,6 +474,21 @@ export function AnalyticalScene({ effects, analyzer, isPlaying = true }: Analyti
         <Vignette eskil={false} offset={0.1} darkness={0.2} />
       </EffectComposer>
       <OrbitControls enableDamping dampingFactor={0.05} />
+      
+      {/* Tonality overlay: file key and chord timeline when known, live estimate otherwise */}
+      <Html position={[-4, 3, 0]} style={{ pointerEvents: 'none' }}>
+        <div className="rounded-md bg-black/60 px-3 py-2 text-xs text-white/80 whitespace-nowrap">
+          <div>
+            Key: {displayedKey ? displayedKey.name : '—'}
+            {displayedKey && (
+              <span className="ml-1 text-white/50">({Math.round(displayedKey.confidence * 100)}%)</span>
+            )}
+          </div>
+          {currentChord && (
+            <div>Chord: {currentChord.label === 'N' ? 'none' : currentChord.label}</div>
+          )}
+        </div>
+      </Html>
     </>
   );
 }
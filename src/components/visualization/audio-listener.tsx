@@ -1,7 +1,12 @@
 import { useFrame, useThree } from '@react-three/fiber';
 import { updateListenerPosition } from '../../utils/spatial-audio-processing';
+import { type ListenerPose } from '../../types/spatial-audio';
 
-export function AudioListener() {
+interface AudioListenerProps {
+  onMove?: (pose: ListenerPose) => void;
+}
+
+export function AudioListener({ onMove }: AudioListenerProps) {
   const { camera } = useThree();
   
   useFrame(() => {
@@ -28,6 +33,7 @@ export function AudioListener() {
     
     // Update the audio listener position and orientation
     updateListenerPosition(position, { forward, up });
+    onMove?.({ position, orientation: { forward, up } });
   });
   
   return null;
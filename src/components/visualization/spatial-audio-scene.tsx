@@ -5,7 +5,7 @@ import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import { BlendFunction } from 'postprocessing';
 import * as THREE from 'three';
 import * as Tone from 'tone';
-import { type SpatialAudioData, type AudioPlacement } from '../../types/spatial-audio';
+import { type SpatialAudioData, type AudioPlacement, type ListenerPose } from '../../types/spatial-audio';
 import { createPerlinNoiseBlobMaterial, updatePerlinNoiseBlobShader } from './perlin-noise-blob-shader';
 import { AudioListener } from './audio-listener';
 
@@ -294,6 +294,7 @@ interface SpatialAudioSceneProps {
   onAudioDropped?: (id: string, position: { x: number; y: number; z: number }) => void;
   analyzer?: Tone.Analyser | null;
   isPlaying?: boolean;
+  onListenerMove?: (pose: ListenerPose) => void;
 }
 
 // WASD controls component
@@ -427,7 +428,8 @@ export function SpatialAudioScene({
   onAudioSelected,
   onAudioDropped,
   analyzer,
-  isPlaying = false
+  isPlaying = false,
+  onListenerMove
 }: SpatialAudioSceneProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -610,7 +612,7 @@ export function SpatialAudioScene({
         </EffectComposer>
         
         {/* Audio listener to update audio based on camera */}
-        <AudioListener />
+        <AudioListener onMove={onListenerMove} />
         
         {/* Scene elements */}
         <GridFloor />
@@ -0,0 +1,82 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  getDefaultConfigurationStorage,
+  listInputDevices,
+  loadInputConfiguration,
+  openInput,
+  saveInputConfiguration,
+  type InputConfiguration,
+  type InputDevice,
+  type InputSettings,
+  type OpenedInput
+} from '../utils/audio-input';
+
+const defaultConfigurationStorage = getDefaultConfigurationStorage();
+
+function getDefaultMediaDevices(): MediaDevices | null {
+  return typeof navigator === 'undefined' ? null : navigator.mediaDevices ?? null;
+}
+
+/**
+ * The available audio inputs and the saved choice among them. `open` asks
+ * for the configured input; `settings` then shows what the browser granted.
+ */
+export function useAudioInput(
+  mediaDevices: MediaDevices | null = getDefaultMediaDevices(),
+  storage: Pick<Storage, 'getItem' | 'setItem'> | null = defaultConfigurationStorage
+) {
+  const [devices, setDevices] = useState<InputDevice[]>([]);
+  const [configuration, setConfiguration] = useState<InputConfiguration>(() => loadInputConfiguration(storage));
+  const [settings, setSettings] = useState<InputSettings | null>(null);
+
+  const refreshDevices = useCallback(async () => {
+    if (!mediaDevices) return;
+
+    try {
+      setDevices(await listInputDevices(mediaDevices));
+    } catch (error) {
+      console.error('Error listing audio inputs:', error);
+    }
+  }, [mediaDevices]);
+
+  const updateConfiguration = useCallback((changes: Partial<InputConfiguration>) => {
+    setConfiguration(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  // Remember the choice for the next session
+  useEffect(() => {
+    saveInputConfiguration(storage, configuration);
+  }, [storage, configuration]);
+
+  const open = useCallback(async (): Promise<OpenedInput> => {
+    if (!mediaDevices) {
+      throw new Error('This browser does not offer audio input');
+    }
+
+    const opened = await openInput(mediaDevices, configuration);
+    setSettings(opened.settings);
+
+    // Inputs only have names once access is granted
+    refreshDevices();
+    return opened;
+  }, [mediaDevices, configuration, refreshDevices]);
+
+  // Follow inputs being plugged in and out
+  useEffect(() => {
+    if (!mediaDevices) return;
+
+    refreshDevices();
+    mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [mediaDevices, refreshDevices]);
+
+  return {
+    devices,
+    configuration,
+    settings,
+    isAvailable: mediaDevices !== null,
+    updateConfiguration,
+    open,
+    clearSettings: useCallback(() => setSettings(null), [])
+  };
+}
@@ -1,81 +1,288 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { type AudioLibrary, type AudioLibraryItem, type SpatialAudioData } from '../types/spatial-audio';
-import { processAudioFile } from '../utils/audio-processing';
+import { type AudioData, type CachedAudioAnalysis } from '../types/audio';
+import { processAudioFile, restoreAudioData, isAbortError } from '../utils/audio-pipeline';
 import { createSpatialAudioSource } from '../utils/spatial-audio-processing';
+import { pickAudioColor } from '../utils/audio-colors';
+import {
+  createStoredItem,
+  estimateStoredSize,
+  getDefaultLibraryStorage,
+  getStorageQuota,
+  getStoredItemAnalysis,
+  getStoredItemFile,
+  getStoredItemSize,
+  type LibraryStorage
+} from '../utils/library-storage';
 
-const MAX_AUDIO_FILES = 3;
+// Shared by every library so they all see the same stored items
+const defaultLibraryStorage = getDefaultLibraryStorage();
 
-// Default colors for audio visualizations
-const AUDIO_COLORS = [
-  '#FF5F6D', // Pink
-  '#38AECC', // Blue
-  '#57CC99', // Green
-];
+// Organizing details of a library item that users can edit
+export interface LibraryItemDetails {
+  name?: string;
+  folder?: string;
+  tags?: string[];
+}
+
+// Bytes held by a decoded buffer: 32-bit float samples per channel
+function getDecodedSize(audioData: AudioData): number {
+  return audioData.buffer.length * audioData.buffer.numberOfChannels * 4;
+}
 
-export function useAudioLibrary() {
+function toCachedAnalysis({ metadata, features, analysis }: AudioData): CachedAudioAnalysis {
+  return { metadata, features, analysis };
+}
+
+export function useAudioLibrary(storage: LibraryStorage | null = defaultLibraryStorage) {
   const [library, setLibrary] = useState<AudioLibrary>({
     items: [],
     selectedItemId: null
   });
+  const [storageQuota, setStorageQuota] = useState<number | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  
+  // In-flight analyses, keyed by library item id
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  
+  // Running loads, so asking for the same item twice shares one decode
+  const loadsRef = useRef(new Map<string, Promise<AudioData | null>>());
+  
+  // Whether each item's file is stored, kept as a promise so writes that
+  // follow a pending store wait for it to finish
+  const storesRef = useRef(new Map<string, Promise<boolean>>());
+  
+  // Latest items, for work that finishes after the render that started it
+  const itemsRef = useRef<AudioLibraryItem[]>([]);
+  itemsRef.current = library.items;
+  
+  const updateItem = useCallback((id: string, changes: Partial<AudioLibraryItem>) => {
+    setLibrary(prev => ({
+      ...prev,
+      items: prev.items.map(item => (item.id === id ? { ...item, ...changes } : item))
+    }));
+  }, []);
+  
+  // Save a new item's file so the next session restores it
+  const persistItem = useCallback((item: AudioLibraryItem, file: File) => {
+    if (!storage) return Promise.resolve(false);
+    
+    const store = (async () => {
+      try {
+        const stored = await createStoredItem({
+          id: item.id,
+          name: item.name,
+          color: item.color,
+          addedAt: item.addedAt ?? Date.now(),
+          folder: item.folder,
+          tags: item.tags
+        }, file, item.cachedAnalysis);
+        await storage.put(stored);
+        
+        // The item may have been removed while it was being written
+        if (!itemsRef.current.some(current => current.id === item.id)) {
+          await storage.delete(item.id);
+          return false;
+        }
+        
+        updateItem(item.id, { isStored: true, storedBytes: getStoredItemSize(stored) });
+        return true;
+      } catch (error) {
+        console.error(`Error storing audio file ${item.name}:`, error);
+        setStorageError(`"${item.name}" could not be saved for later sessions: ${(error as Error).message}`);
+        return false;
+      }
+    })();
+    
+    storesRef.current.set(item.id, store);
+    return store;
+  }, [storage, updateItem]);
   
-  // Add a new audio file to the library
-  const addAudioFile = useCallback(async (file: File) => {
-    // Check if we've reached the maximum number of files
-    if (library.items.length >= MAX_AUDIO_FILES) {
-      throw new Error(`Maximum of ${MAX_AUDIO_FILES} audio files allowed`);
+  // Keep the analysis with the stored file so it never has to run again
+  const persistAnalysis = useCallback(async (id: string, cachedAnalysis: CachedAudioAnalysis) => {
+    if (!storage || !(await storesRef.current.get(id))) return;
+    
+    const item = itemsRef.current.find(current => current.id === id);
+    if (!item?.file) return;
+    
+    try {
+      await storage.update(id, cachedAnalysis);
+      updateItem(id, { storedBytes: estimateStoredSize(item.file.size, cachedAnalysis.features) });
+    } catch (error) {
+      console.error(`Error storing analysis of ${item.name}:`, error);
     }
+  }, [storage, updateItem]);
+  
+  /**
+   * Decode an item's audio, analyzing it first if it never was, and keep the
+   * result on the item until it is released. Resolves to null when the item
+   * has no audio or is removed meanwhile.
+   */
+  const loadAudioData = useCallback((id: string): Promise<AudioData | null> => {
+    const item = itemsRef.current.find(current => current.id === id);
+    if (!item?.file) return Promise.resolve(null);
+    if (item.audioData) return Promise.resolve(item.audioData);
     
-    // Create a new library item
-    const id = uuidv4();
-    const colorIndex = library.items.length % AUDIO_COLORS.length;
+    const running = loadsRef.current.get(id);
+    if (running) return running;
     
-    const newItem: AudioLibraryItem = {
-      id,
-      name: file.name,
-      color: AUDIO_COLORS[colorIndex],
-      isLoading: true
-    };
+    const { file, cachedAnalysis } = item;
+    const abortController = new AbortController();
+    abortControllersRef.current.set(id, abortController);
+    updateItem(id, { isLoading: true, progress: cachedAnalysis ? undefined : 0, error: undefined });
+    
+    const load = (async () => {
+      try {
+        // Analyzed items only need decoding again
+        const audioData = cachedAnalysis
+          ? await restoreAudioData(file, cachedAnalysis)
+          : await processAudioFile(file, {
+              signal: abortController.signal,
+              onProgress: ({ percent }) => updateItem(id, { progress: percent })
+            });
+        
+        if (abortController.signal.aborted) {
+          URL.revokeObjectURL(audioData.url);
+          return null;
+        }
+        
+        updateItem(id, {
+          audioData,
+          cachedAnalysis: toCachedAnalysis(audioData),
+          isLoading: false,
+          progress: undefined
+        });
+        
+        if (!cachedAnalysis) {
+          persistAnalysis(id, toCachedAnalysis(audioData));
+        }
+        
+        return audioData;
+      } catch (error) {
+        // The item was removed while it was still being analyzed
+        if (isAbortError(error)) {
+          return null;
+        }
+        
+        console.error(`Error loading audio file ${item.name}:`, error);
+        updateItem(id, { error: (error as Error).message, isLoading: false, progress: undefined });
+        return null;
+      } finally {
+        abortControllersRef.current.delete(id);
+        loadsRef.current.delete(id);
+      }
+    })();
+    
+    loadsRef.current.set(id, load);
+    return load;
+  }, [updateItem, persistAnalysis]);
+  
+  // Drop an item's decoded audio to free memory. The file and its analysis
+  // stay, so loading it again is cheap.
+  const releaseAudioData = useCallback((id: string) => {
+    const item = itemsRef.current.find(current => current.id === id);
+    if (!item?.audioData) return;
+    
+    URL.revokeObjectURL(item.audioData.url);
+    updateItem(id, { audioData: undefined });
+  }, [updateItem]);
+  
+  // Add audio files to the library. They are analyzed when first needed.
+  const addAudioFiles = useCallback(async (files: File[], details: LibraryItemDetails = {}) => {
+    const addedAt = Date.now();
+    const usedColors = itemsRef.current.map(item => item.color);
+    
+    const newItems = files.map((file, index): AudioLibraryItem => {
+      const color = pickAudioColor(usedColors);
+      usedColors.push(color);
+      
+      return {
+        id: uuidv4(),
+        name: details.name ?? file.name,
+        color,
+        file,
+        folder: details.folder,
+        tags: details.tags,
+        addedAt: addedAt + index
+      };
+    });
+    
+    // Make the new items visible to calls made before the next render
+    itemsRef.current = [...itemsRef.current, ...newItems];
     
-    // Add the item to the library
     setLibrary(prev => ({
       ...prev,
-      items: [...prev.items, newItem],
-      selectedItemId: prev.selectedItemId || id // Select this item if none selected
+      items: [...prev.items, ...newItems],
+      selectedItemId: prev.selectedItemId || newItems[0]?.id || null // Select the first new item if none selected
     }));
     
-    try {
-      // Process the audio file
-      const audioData = await processAudioFile(file);
-      
-      // Update the library item with the processed data
-      setLibrary(prev => ({
-        ...prev,
-        items: prev.items.map(item => 
-          item.id === id 
-            ? { ...item, audioData, isLoading: false }
-            : item
-        )
-      }));
-      
-      return id;
-    } catch (error) {
-      // Update the library item with the error
-      setLibrary(prev => ({
-        ...prev,
-        items: prev.items.map(item => 
-          item.id === id 
-            ? { ...item, error: (error as Error).message, isLoading: false }
-            : item
-        )
-      }));
-      
-      throw error;
+    newItems.forEach(item => persistItem(item, item.file as File));
+    
+    return newItems.map(item => item.id);
+  }, [persistItem]);
+  
+  // Add a single audio file to the library
+  const addAudioFile = useCallback(async (file: File, details?: LibraryItemDetails) => {
+    const [id] = await addAudioFiles([file], details);
+    return id;
+  }, [addAudioFiles]);
+  
+  // Rename an item or change its folder or tags
+  const updateItemDetails = useCallback((id: string, details: LibraryItemDetails) => {
+    updateItem(id, details);
+    
+    storage?.update(id, details).catch(error => {
+      console.error('Error storing audio file details:', error);
+    });
+  }, [storage, updateItem]);
+  
+  // Replace the whole library, e.g. when opening a project. Entries without
+  // a file are kept as items showing `missingFileError`.
+  const replaceLibrary = useCallback(async (
+    entries: (Omit<AudioLibraryItem, 'file'> & { file: File | null; missingFileError?: string })[],
+    selectedItemId: string | null
+  ) => {
+    // Cancel running analyses and release the old audio
+    abortControllersRef.current.forEach(controller => controller.abort());
+    itemsRef.current.forEach(item => {
+      if (item.audioData?.url) {
+        URL.revokeObjectURL(item.audioData.url);
+      }
+    });
+    
+    const addedAt = Date.now();
+    const items = entries.map(({ file, missingFileError, ...item }, index): AudioLibraryItem => (
+      file
+        ? { ...item, file, addedAt: item.addedAt ?? addedAt + index }
+        : { ...item, error: missingFileError ?? 'Audio file is missing' }
+    ));
+    itemsRef.current = items;
+    storesRef.current.clear();
+    setLibrary({ items, selectedItemId });
+    
+    // The stored library is replaced too, so drop what the old one saved
+    if (storage) {
+      try {
+        await storage.clear();
+      } catch (error) {
+        console.error('Error clearing stored audio library:', error);
+      }
     }
-  }, [library.items]);
+    
+    await Promise.all(items.map(item => (item.file ? persistItem(item, item.file) : undefined)));
+  }, [storage, persistItem]);
   
   // Remove an audio file from the library
   const removeAudioFile = useCallback((id: string) => {
+    // Cancel the analysis if the file is still loading
+    abortControllersRef.current.get(id)?.abort();
+    
+    storesRef.current.delete(id);
+    storage?.delete(id).catch(error => {
+      console.error('Error deleting stored audio file:', error);
+    });
+    
     setLibrary(prev => {
       // Get the item to remove
       const itemToRemove = prev.items.find(item => item.id === id);
@@ -100,7 +307,23 @@ export function useAudioLibrary() {
         selectedItemId
       };
     });
-  }, []);
+  }, [storage]);
+  
+  // Free the stored copy of an item; it stays in the library for this session
+  const evictAudioFile = useCallback(async (id: string) => {
+    if (!storage) return;
+    
+    try {
+      await storage.delete(id);
+      storesRef.current.set(id, Promise.resolve(false));
+      updateItem(id, { isStored: false, storedBytes: undefined });
+    } catch (error) {
+      console.error('Error evicting stored audio file:', error);
+      setStorageError(`Could not remove the stored copy: ${(error as Error).message}`);
+    }
+  }, [storage, updateItem]);
+  
+  const clearStorageError = useCallback(() => setStorageError(null), []);
   
   // Select an audio file
   const selectAudioFile = useCallback((id: string | null) => {
@@ -134,25 +357,90 @@ export function useAudioLibrary() {
     return createSpatialAudioSource(spatialData);
   }, [library.selectedItemId]);
   
+  // Restore the stored library. Nothing is decoded until an item is used.
+  useEffect(() => {
+    if (!storage) return;
+    
+    let cancelled = false;
+    
+    getStorageQuota().then(quota => {
+      if (!cancelled) setStorageQuota(quota);
+    });
+    
+    storage.getAll().then(storedItems => {
+      if (cancelled || storedItems.length === 0) return;
+      
+      storedItems.forEach(stored => storesRef.current.set(stored.id, Promise.resolve(true)));
+      setLibrary(prev => ({
+        items: [
+          ...storedItems.map((stored): AudioLibraryItem => ({
+            id: stored.id,
+            name: stored.name,
+            color: stored.color,
+            file: getStoredItemFile(stored),
+            folder: stored.folder,
+            tags: stored.tags,
+            addedAt: stored.addedAt,
+            cachedAnalysis: getStoredItemAnalysis(stored),
+            isStored: true,
+            storedBytes: getStoredItemSize(stored)
+          })),
+          ...prev.items
+        ],
+        selectedItemId: prev.selectedItemId ?? storedItems[0].id
+      }));
+    }).catch(error => {
+      console.error('Error restoring audio library:', error);
+      if (!cancelled) {
+        setStorageError(`Saved audio files could not be restored: ${(error as Error).message}`);
+      }
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [storage]);
+  
+  // Stop any running analyses on unmount
+  useEffect(() => {
+    const abortControllers = abortControllersRef.current;
+    return () => {
+      abortControllers.forEach(controller => controller.abort());
+    };
+  }, []);
+  
   // Clean up on unmount
   useEffect(() => {
     return () => {
       // Revoke all object URLs
-      library.items.forEach(item => {
+      itemsRef.current.forEach(item => {
         if (item.audioData?.url) {
           URL.revokeObjectURL(item.audioData.url);
         }
       });
     };
-  }, [library.items]);
+  }, []);
   
   return {
     library,
     addAudioFile,
+    addAudioFiles,
+    updateItemDetails,
+    loadAudioData,
+    releaseAudioData,
+    replaceLibrary,
     removeAudioFile,
+    evictAudioFile,
     selectAudioFile,
     getSelectedAudio,
     createSpatialAudio,
-    MAX_AUDIO_FILES
+    storageUsage: {
+      bytes: library.items.reduce((sum, item) => sum + (item.storedBytes ?? 0), 0),
+      quota: storageQuota
+    },
+    decodedBytes: library.items.reduce((sum, item) => sum + (item.audioData ? getDecodedSize(item.audioData) : 0), 0),
+    storageError,
+    clearStorageError,
+    isStorageAvailable: storage !== null
   };
 }
@@ -1,11 +1,13 @@
-import { useState, useEffect, useCallback } from 'react';
-import { type AudioData } from '../types/audio';
-import { processAudioFile } from '../utils/audio-processing';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { type AudioData, type AnalysisProgress } from '../types/audio';
+import { processAudioFile, isAbortError } from '../utils/audio-pipeline';
+import { getMatchGains } from '../utils/loudness';
 
 export interface MixingState {
   track1: AudioData | null;
   track2: AudioData | null;
   isProcessing: boolean;
+  progress: AnalysisProgress | null;
   error: string | null;
 }
 
@@ -14,32 +16,58 @@ export function useAudioMixing() {
     track1: null,
     track2: null,
     isProcessing: false,
+    progress: null,
     error: null
   });
+  const [loudnessMatch, setLoudnessMatch] = useState(false);
+  const abortControllersRef = useRef(new Map<1 | 2, AbortController>());
 
   const processTrack = useCallback(async (file: File, trackNumber: 1 | 2) => {
-    try {
-      setMixingState(prev => ({ ...prev, isProcessing: true, error: null }));
-      
-      const data = await processAudioFile(file);
-      
+    // Replace any analysis still running for this track
+    abortControllersRef.current.get(trackNumber)?.abort();
+    const abortController = new AbortController();
+    abortControllersRef.current.set(trackNumber, abortController);
+    
+    const finish = (update: Partial<MixingState>) => {
+      abortControllersRef.current.delete(trackNumber);
+      const stillProcessing = abortControllersRef.current.size > 0;
       setMixingState(prev => ({
         ...prev,
-        [`track${trackNumber}`]: data,
-        isProcessing: false
+        ...update,
+        isProcessing: stillProcessing,
+        progress: stillProcessing ? prev.progress : null
       }));
+    };
+    
+    try {
+      setMixingState(prev => ({ ...prev, isProcessing: true, progress: null, error: null }));
+      
+      const data = await processAudioFile(file, {
+        onProgress: progress => setMixingState(prev => ({ ...prev, progress })),
+        signal: abortController.signal
+      });
+      
+      finish({ [`track${trackNumber}`]: data });
       
       return data;
     } catch (err) {
-      setMixingState(prev => ({
-        ...prev,
-        isProcessing: false,
-        error: err instanceof Error ? err.message : 'An unknown error occurred'
-      }));
+      if (isAbortError(err)) {
+        // A newer request for this track owns the state now
+        if (abortControllersRef.current.get(trackNumber) === abortController) {
+          finish({});
+        }
+        return null;
+      }
+      
+      finish({ error: err instanceof Error ? err.message : 'An unknown error occurred' });
       return null;
     }
   }, []);
 
+  const cancelProcessing = useCallback((trackNumber: 1 | 2) => {
+    abortControllersRef.current.get(trackNumber)?.abort();
+  }, []);
+
   const clearTrack = useCallback((trackNumber: 1 | 2) => {
     setMixingState(prev => {
       const track = prev[`track${trackNumber}` as keyof Pick<MixingState, 'track1' | 'track2'>];
@@ -53,6 +81,14 @@ export function useAudioMixing() {
     });
   }, []);
 
+  // Stop any running analysis when the component unmounts
+  useEffect(() => {
+    const abortControllers = abortControllersRef.current;
+    return () => {
+      abortControllers.forEach(controller => controller.abort());
+    };
+  }, []);
+
   // Clean up object URLs when component unmounts
   useEffect(() => {
     return () => {
@@ -71,9 +107,21 @@ export function useAudioMixing() {
     return Math.min(mixingState.track1.buffer.duration, mixingState.track2.buffer.duration);
   }, [mixingState.track1, mixingState.track2]);
 
+  // Gain in dB applied to each track for analysis and playback: the louder
+  // track is brought down to the quieter one while loudness matching is on
+  const gainOffsets = useMemo<[number, number]>(() => (
+    loudnessMatch
+      ? getMatchGains(mixingState.track1?.features.loudness, mixingState.track2?.features.loudness)
+      : [0, 0]
+  ), [loudnessMatch, mixingState.track1, mixingState.track2]);
+
   return {
     mixingState,
+    loudnessMatch,
+    setLoudnessMatch,
+    gainOffsets,
     processTrack,
+    cancelProcessing,
     clearTrack,
     getOverlappingDuration
   };
@@ -1,30 +1,51 @@
-import { useState, useEffect, useCallback } from 'react';
-import { type AudioData } from '../types/audio';
-import { processAudioFile } from '../utils/audio-processing';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { type AudioData, type AnalysisProgress } from '../types/audio';
+import { processAudioFile, isAbortError } from '../utils/audio-pipeline';
 
 // Keep this hook for backward compatibility, but use use-audio-library.ts for new features
 export function useAudioProcessing() {
   const [audioData, setAudioData] = useState<AudioData | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const processAudio = useCallback(async (file: File) => {
+    // Only one file is processed at a time
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
     try {
       setIsProcessing(true);
+      setProgress(null);
       setError(null);
       
-      const data = await processAudioFile(file);
+      const data = await processAudioFile(file, {
+        onProgress: setProgress,
+        signal: abortController.signal
+      });
       setAudioData(data);
       
       return data;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
       return null;
     } finally {
-      setIsProcessing(false);
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setIsProcessing(false);
+        setProgress(null);
+      }
     }
   }, []);
 
+  const cancelProcessing = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const clearAudio = useCallback(() => {
     if (audioData?.url) {
       URL.revokeObjectURL(audioData.url);
@@ -32,6 +53,13 @@ export function useAudioProcessing() {
     setAudioData(null);
   }, [audioData]);
 
+  // Stop any running analysis when the component unmounts
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
   // Clean up object URL when component unmounts
   useEffect(() => {
     return () => {
@@ -44,8 +72,10 @@ export function useAudioProcessing() {
   return {
     audioData,
     isProcessing,
+    progress,
     error,
     processAudio,
+    cancelProcessing,
     clearAudio
   };
 }
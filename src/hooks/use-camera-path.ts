@@ -0,0 +1,70 @@
+import { useState, useCallback, useRef } from 'react';
+import { type CameraPathKeyframe, type ListenerPose } from '../types/spatial-audio';
+
+// Minimum time between recorded keyframes, in seconds
+const KEYFRAME_INTERVAL = 0.05;
+
+// Where the scene camera starts, facing down the negative z axis
+const DEFAULT_POSE: ListenerPose = {
+  position: { x: 0, y: 0.5, z: 8 },
+  orientation: {
+    forward: { x: 0, y: 0, z: -1 },
+    up: { x: 0, y: 1, z: 0 }
+  }
+};
+
+export function useCameraPath() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [path, setPath] = useState<CameraPathKeyframe[]>([]);
+  const poseRef = useRef<ListenerPose>(DEFAULT_POSE);
+  const recordingRef = useRef<{ startedAt: number; keyframes: CameraPathKeyframe[] } | null>(null);
+
+  // Called with the listener pose on every rendered frame of the scene
+  const handleListenerPose = useCallback((pose: ListenerPose) => {
+    poseRef.current = pose;
+
+    const recording = recordingRef.current;
+    if (!recording) return;
+
+    const time = (performance.now() - recording.startedAt) / 1000;
+    const last = recording.keyframes[recording.keyframes.length - 1];
+    if (!last || time - last.time >= KEYFRAME_INTERVAL) {
+      recording.keyframes.push({ ...pose, time });
+    }
+  }, []);
+
+  const startRecording = useCallback(() => {
+    recordingRef.current = {
+      startedAt: performance.now(),
+      keyframes: [{ ...poseRef.current, time: 0 }]
+    };
+    setIsRecording(true);
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    if (recordingRef.current) {
+      setPath(recordingRef.current.keyframes);
+      recordingRef.current = null;
+    }
+    setIsRecording(false);
+  }, []);
+
+  const clearPath = useCallback(() => {
+    setPath([]);
+  }, []);
+
+  // The most recent listener pose, read on demand so the scene's frame loop
+  // doesn't re-render the editor
+  const getCurrentPose = useCallback(() => poseRef.current, []);
+
+  return {
+    isRecording,
+    path,
+    pathDuration: path.length > 0 ? path[path.length - 1].time : 0,
+    handleListenerPose,
+    startRecording,
+    stopRecording,
+    clearPath,
+    getCurrentPose
+  };
+}
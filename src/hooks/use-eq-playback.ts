@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import * as Tone from 'tone';
+import { type AudioData } from '../types/audio';
+import { type EQBand, type EQSuggestion, createEQBands } from '../utils/audio-mixing';
+
+// 'original' plays the tracks untouched (A), 'eq' through the EQ bands (B)
+export type ABMode = 'original' | 'eq';
+
+// Parameter changes are ramped over this many seconds to avoid clicks
+const PARAM_RAMP_TIME = 0.05;
+
+const NO_GAIN: [number, number] = [0, 0];
+
+export function useEQPlayback(
+  track1: AudioData | null,
+  track2: AudioData | null,
+  suggestions: EQSuggestion[],
+  gains: [number, number] = NO_GAIN
+) {
+  const [bands, setBands] = useState<EQBand[]>(() => createEQBands(suggestions));
+  const [abMode, setABMode] = useState<ABMode>('eq');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [graphVersion, setGraphVersion] = useState(0);
+  const playersRef = useRef<Tone.Player[]>([]);
+  const filtersRef = useRef(new Map<number, Tone.Filter>());
+  const endTimerRef = useRef<number | null>(null);
+
+  const clearEndTimer = () => {
+    if (endTimerRef.current !== null) {
+      window.clearTimeout(endTimerRef.current);
+      endTimerRef.current = null;
+    }
+  };
+
+  // Start over from the suggestions whenever they are regenerated
+  useEffect(() => {
+    setBands(createEQBands(suggestions));
+  }, [suggestions]);
+
+  // Build player -> EQ filters -> destination for each track
+  useEffect(() => {
+    if (!track1 || !track2) return;
+
+    const initialBands = createEQBands(suggestions);
+    const filters = new Map<number, Tone.Filter>();
+
+    const players = ([track1, track2] as const).map((track, index) => {
+      const player = new Tone.Player(track.buffer);
+      const chain: Tone.ToneAudioNode[] = [player];
+
+      initialBands
+        .filter(band => band.track === index + 1)
+        .forEach(band => {
+          // Filters start flat; the settings effect below applies the gains
+          const filter = new Tone.Filter({ type: 'peaking', frequency: band.frequency, Q: band.q, gain: 0 });
+          filters.set(band.id, filter);
+          chain.push(filter);
+        });
+
+      for (let i = 0; i < chain.length - 1; i++) {
+        chain[i].connect(chain[i + 1]);
+      }
+      chain[chain.length - 1].toDestination();
+
+      return player;
+    });
+
+    playersRef.current = players;
+    filtersRef.current = filters;
+    setGraphVersion(version => version + 1);
+
+    return () => {
+      clearEndTimer();
+      players.forEach(player => player.dispose());
+      filters.forEach(filter => filter.dispose());
+      playersRef.current = [];
+      filtersRef.current = new Map();
+      setIsPlaying(false);
+    };
+  }, [track1, track2, suggestions]);
+
+  // Apply band settings and the A/B switch to the filters, including freshly built ones
+  useEffect(() => {
+    bands.forEach(band => {
+      const filter = filtersRef.current.get(band.id);
+      if (!filter) return;
+
+      const gain = abMode === 'eq' && band.enabled ? band.gain : 0;
+      filter.gain.rampTo(gain, PARAM_RAMP_TIME);
+      filter.Q.rampTo(band.q, PARAM_RAMP_TIME);
+    });
+  }, [bands, abMode, graphVersion]);
+
+  // Play each track at its loudness matching gain, in both A and B
+  useEffect(() => {
+    playersRef.current.forEach((player, index) => {
+      player.volume.rampTo(gains[index], PARAM_RAMP_TIME);
+    });
+  }, [gains, graphVersion]);
+
+  const play = useCallback(async () => {
+    if (playersRef.current.length === 0) return;
+    clearEndTimer();
+
+    try {
+      await Tone.start();
+      // Schedule both players on the same audio clock time so they stay in sync
+      const startTime = Tone.now() + 0.05;
+      playersRef.current.forEach(player => {
+        if (player.state === 'started') player.stop();
+        player.start(startTime);
+      });
+      setIsPlaying(true);
+
+      // Playback is over once the longer track has finished
+      const duration = Math.max(...playersRef.current.map(player => player.buffer.duration));
+      endTimerRef.current = window.setTimeout(() => {
+        endTimerRef.current = null;
+        setIsPlaying(false);
+      }, (duration + 0.05) * 1000);
+    } catch (error) {
+      console.error('Error starting EQ playback:', error);
+      setIsPlaying(false);
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    clearEndTimer();
+    playersRef.current.forEach(player => {
+      if (player.state === 'started') player.stop();
+    });
+    setIsPlaying(false);
+  }, []);
+
+  const updateBand = useCallback((id: number, changes: Partial<Pick<EQBand, 'gain' | 'q' | 'enabled'>>) => {
+    setBands(prev => prev.map(band => (band.id === id ? { ...band, ...changes } : band)));
+  }, []);
+
+  const resetBands = useCallback(() => {
+    setBands(createEQBands(suggestions));
+  }, [suggestions]);
+
+  return {
+    bands,
+    abMode,
+    isPlaying,
+    play,
+    stop,
+    setABMode,
+    updateBand,
+    resetBands
+  };
+}
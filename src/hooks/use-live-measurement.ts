@@ -0,0 +1,90 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  DEFAULT_MEASUREMENT_SETTINGS,
+  createLevelMeter,
+  createRtaAverager,
+  getBandPowers,
+  getOctaveBands,
+  type LevelReading,
+  type MeasurementSettings,
+  type RtaReading
+} from '../utils/live-measurement';
+
+// Fine enough for 1/6-octave bands down to 100 Hz
+const MEASUREMENT_FFT_SIZE = 8192;
+
+// How often the readings are handed to React
+const READING_INTERVAL = 100; // ms
+
+/**
+ * Measures an input analyser every animation frame: fractional-octave band
+ * levels averaged the chosen way and a weighted level meter. The analyser is
+ * set up for the measurement, so it should not be shared with other views.
+ */
+export function useLiveMeasurement(analyser: AnalyserNode | null) {
+  const [settings, setSettings] = useState<MeasurementSettings>(DEFAULT_MEASUREMENT_SETTINGS);
+  const [rta, setRta] = useState<RtaReading | null>(null);
+  const [level, setLevel] = useState<LevelReading | null>(null);
+  const [resetCount, setResetCount] = useState(0);
+
+  const sampleRate = analyser?.context.sampleRate ?? 48000;
+  const bands = useMemo(() => getOctaveBands(settings.fraction, sampleRate / 2), [settings.fraction, sampleRate]);
+
+  // Readings start over with new settings
+  const averagerRef = useRef(createRtaAverager(bands.length, { averaging: settings.averaging }));
+  const meterRef = useRef(createLevelMeter(settings.weighting, settings.timeWeighting));
+  useEffect(() => {
+    averagerRef.current = createRtaAverager(bands.length, { averaging: settings.averaging });
+    meterRef.current = createLevelMeter(settings.weighting, settings.timeWeighting);
+    setRta(null);
+    setLevel(null);
+  }, [bands, settings, resetCount]);
+
+  useEffect(() => {
+    if (!analyser) return;
+
+    analyser.fftSize = MEASUREMENT_FFT_SIZE;
+    analyser.smoothingTimeConstant = 0;
+    const spectrum = new Float32Array(analyser.frequencyBinCount);
+    const samples = new Float32Array(analyser.fftSize);
+    let lastFrame = performance.now();
+    let lastReading = 0;
+    let frame = 0;
+
+    const measure = (now: number) => {
+      const elapsed = Math.max(0, (now - lastFrame) / 1000);
+      lastFrame = now;
+
+      analyser.getFloatFrequencyData(spectrum);
+      analyser.getFloatTimeDomainData(samples);
+      const bandReading = averagerRef.current.update(
+        getBandPowers(spectrum, analyser.context.sampleRate, bands, settings.weighting),
+        elapsed
+      );
+      const levelReading = meterRef.current.update(spectrum, samples, analyser.context.sampleRate, elapsed);
+
+      if (now - lastReading >= READING_INTERVAL) {
+        lastReading = now;
+        setRta(bandReading);
+        setLevel(levelReading);
+      }
+      frame = requestAnimationFrame(measure);
+    };
+
+    frame = requestAnimationFrame(measure);
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, bands, settings.weighting]);
+
+  const updateSettings = useCallback((changes: Partial<MeasurementSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  return {
+    settings,
+    bands,
+    rta,
+    level,
+    updateSettings,
+    reset: useCallback(() => setResetCount(count => count + 1), [])
+  };
+}
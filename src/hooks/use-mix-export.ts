@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  type CameraPathKeyframe,
+  type SpatialAudioData,
+  type SpatialAudioEnvironment
+} from '../types/spatial-audio';
+import { renderEditorMix, type MixSettings, type RenderOptions } from '../utils/offline-render';
+import { renderBinaural } from '../utils/binaural-render';
+import { createWavBlob, type WavBitDepth } from '../utils/wav-encoder';
+import { isAbortError } from '../utils/audio-pipeline';
+import { downloadBlob } from '../utils/download';
+import {
+  applyGain,
+  getNormalizationGain,
+  measureLoudness,
+  type LoudnessTarget,
+  type NormalizationResult
+} from '../utils/loudness';
+
+export interface ExportFormat {
+  bitDepth: WavBitDepth;
+  sampleRate: number;
+  // Loudness to bring the file to, within a true-peak ceiling; null exports it as rendered
+  normalization: Pick<LoudnessTarget, 'integrated' | 'truePeak'> | null;
+}
+
+export interface ExportState {
+  isExporting: boolean;
+  progress: number | null; // 0-100
+  error: string | null;
+  normalization: NormalizationResult | null; // how the last export was normalized
+}
+
+const IDLE_EXPORT_STATE: ExportState = { isExporting: false, progress: null, error: null, normalization: null };
+
+export function useMixExport() {
+  const [exportState, setExportState] = useState<ExportState>(IDLE_EXPORT_STATE);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Render with `render`, encode the result as WAV and download it
+  const runExport = useCallback(async (
+    render: (options: RenderOptions) => Promise<AudioBuffer>,
+    format: ExportFormat,
+    name: string
+  ) => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setExportState({ ...IDLE_EXPORT_STATE, isExporting: true, progress: 0 });
+
+    try {
+      const rendered = await render({
+        sampleRate: format.sampleRate,
+        signal: abortController.signal,
+        onProgress: fraction => setExportState(prev => ({ ...prev, progress: Math.round(fraction * 100) }))
+      });
+
+      // Bring the whole file to the target at once, so its dynamics are kept
+      const normalization = format.normalization
+        ? getNormalizationGain(measureLoudness(rendered), format.normalization)
+        : null;
+      const output = normalization ? applyGain(rendered, normalization.gain) : rendered;
+
+      const blob = createWavBlob(output, { bitDepth: format.bitDepth });
+      const suffix = format.normalization ? `-${format.normalization.integrated}LUFS` : '';
+      downloadBlob(blob, `${name}-${format.sampleRate / 1000}kHz-${format.bitDepth}bit${suffix}.wav`);
+
+      setExportState({ ...IDLE_EXPORT_STATE, normalization });
+    } catch (err) {
+      if (isAbortError(err)) {
+        // A newer export owns the state when this one was replaced
+        if (abortControllerRef.current === abortController) {
+          setExportState(IDLE_EXPORT_STATE);
+        }
+        return;
+      }
+
+      console.error('Error exporting mix:', err);
+      setExportState({
+        ...IDLE_EXPORT_STATE,
+        error: err instanceof Error ? err.message : 'Failed to export the mix'
+      });
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+    }
+  }, []);
+
+  const exportMix = useCallback((
+    sources: SpatialAudioData[],
+    settings: MixSettings,
+    format: ExportFormat
+  ) => runExport(options => renderEditorMix(sources, settings, options), format, 'mix'), [runExport]);
+
+  const exportBinaural = useCallback((
+    environment: SpatialAudioEnvironment,
+    format: ExportFormat,
+    cameraPath?: CameraPathKeyframe[]
+  ) => runExport(options => renderBinaural(environment, { ...options, cameraPath }), format, 'binaural'), [runExport]);
+
+  const cancelExport = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Abandon a running export when the component unmounts
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  return {
+    exportState,
+    exportMix,
+    exportBinaural,
+    cancelExport
+  };
+}
@@ -0,0 +1,150 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import recorderWorkletUrl from '../workers/recorder.worklet.ts?worker&url';
+import {
+  RECORDER_PROCESSOR_NAME,
+  createTake,
+  setTakeTrim,
+  type RecorderMessage,
+  type RecordingTake
+} from '../utils/recording';
+
+// How long to wait for the processor's last batch before keeping what arrived
+const STOP_TIMEOUT_MS = 500;
+
+interface Capture {
+  node: AudioWorkletNode;
+  source: AudioNode;
+  chunks: Float32Array[][];
+  sampleRate: number;
+  startedAt: number;
+  finished: Promise<void>;
+}
+
+// Contexts that already have the capture processor registered
+const preparedContexts = new WeakSet<BaseAudioContext>();
+
+async function prepareContext(context: BaseAudioContext) {
+  if (preparedContexts.has(context)) return;
+  await context.audioWorklet.addModule(recorderWorkletUrl);
+  preparedContexts.add(context);
+}
+
+/**
+ * Record what a node plays into in-memory takes. Capture runs in an audio
+ * worklet, so takes hold the exact samples the context saw.
+ */
+export function useTakeRecorder() {
+  const [takes, setTakes] = useState<RecordingTake[]>([]);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [capturedSeconds, setCapturedSeconds] = useState(0);
+  const captureRef = useRef<Capture | null>(null);
+  // Set while the processor loads, so a second start can't begin another capture
+  const isStartingRef = useRef(false);
+  const takeNumberRef = useRef(0);
+
+  // Start capturing `source` into a new take
+  const startCapture = useCallback(async (context: AudioContext, source: AudioNode) => {
+    if (captureRef.current || isStartingRef.current) return;
+
+    isStartingRef.current = true;
+    try {
+      await prepareContext(context);
+    } finally {
+      isStartingRef.current = false;
+    }
+    const node = new AudioWorkletNode(context, RECORDER_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0
+    });
+
+    const chunks: Float32Array[][] = [];
+    let capturedLength = 0;
+    const finished = new Promise<void>(resolve => {
+      node.port.onmessage = (event: MessageEvent<RecorderMessage>) => {
+        if (event.data.type === 'done') {
+          resolve();
+          return;
+        }
+
+        chunks.push(event.data.channels);
+        const seconds = Math.floor(capturedLength / context.sampleRate);
+        capturedLength += event.data.channels[0].length;
+        // Only re-render when the shown whole seconds change
+        if (Math.floor(capturedLength / context.sampleRate) !== seconds) {
+          setCapturedSeconds(Math.floor(capturedLength / context.sampleRate));
+        }
+      };
+    });
+
+    source.connect(node);
+    captureRef.current = { node, source, chunks, sampleRate: context.sampleRate, startedAt: Date.now(), finished };
+    setCapturedSeconds(0);
+    setIsCapturing(true);
+  }, []);
+
+  // Stop capturing and keep what was recorded as a take. Resolves to null
+  // when nothing was captured.
+  const stopCapture = useCallback(async (): Promise<RecordingTake | null> => {
+    const capture = captureRef.current;
+    if (!capture) return null;
+    captureRef.current = null;
+
+    // The processor sends the samples it still holds before it ends; a
+    // suspended or closed context never does, so don't wait for it forever
+    capture.node.port.postMessage('stop');
+    await Promise.race([
+      capture.finished,
+      new Promise(resolve => setTimeout(resolve, STOP_TIMEOUT_MS))
+    ]);
+    capture.source.disconnect(capture.node);
+    capture.node.port.onmessage = null;
+    setIsCapturing(false);
+
+    if (capture.chunks.length === 0) return null;
+
+    takeNumberRef.current += 1;
+    const take = createTake({
+      id: uuidv4(),
+      name: `Take ${takeNumberRef.current}`,
+      recordedAt: capture.startedAt
+    }, capture.chunks, capture.sampleRate);
+    setTakes(prev => [...prev, take]);
+    return take;
+  }, []);
+
+  const updateTrim = useCallback((id: string, trimStart: number, trimEnd: number) => {
+    setTakes(prev => prev.map(take => (take.id === id ? setTakeTrim(take, trimStart, trimEnd) : take)));
+  }, []);
+
+  const renameTake = useCallback((id: string, name: string) => {
+    setTakes(prev => prev.map(take => (take.id === id ? { ...take, name } : take)));
+  }, []);
+
+  const removeTake = useCallback((id: string) => {
+    setTakes(prev => prev.filter(take => take.id !== id));
+  }, []);
+
+  // Drop a capture still running on unmount
+  useEffect(() => {
+    return () => {
+      const capture = captureRef.current;
+      if (!capture) return;
+
+      capture.node.port.postMessage('stop');
+      capture.source.disconnect(capture.node);
+      captureRef.current = null;
+    };
+  }, []);
+
+  return {
+    takes,
+    isCapturing,
+    capturedSeconds,
+    startCapture,
+    stopCapture,
+    updateTrim,
+    renameTake,
+    removeTake
+  };
+}
@@ -7,7 +7,9 @@ import Gitbutton from '../components/ui/gitbutton';
 import { FileUpload } from '../components/audio/file-upload';
 import { FrequencySpectrum } from '../components/audio/frequency-spectrum';
 import { Spectrogram } from '../components/audio/spectrogram';
+import { StereoFieldDisplay } from '../components/audio/stereo-field';
 import { AudioMetadataDisplay } from '../components/audio/metadata-display';
+import { MusicalSummary } from '../components/audio/musical-summary';
 import { AudioVisualizer } from '../components/visualization/audio-visualizer-3d';
 import { useAudioProcessing } from '../hooks/use-audio-processing';
 import DarkVeil from '../components/ui/DarkVeil';
@@ -17,8 +19,8 @@ import { PlayButton } from '../components/ui/play-button';
 import '../components/audio/visualization-styles.css';
 
 export function HomePage() {
-  const { audioData, isProcessing, processAudio } = useAudioProcessing();
-  const [activeVisualization, setActiveVisualization] = useState<'frequency' | 'spectrogram' | '3d'>('frequency');
+  const { audioData, isProcessing, progress, processAudio, cancelProcessing } = useAudioProcessing();
+  const [activeVisualization, setActiveVisualization] = useState<'frequency' | 'spectrogram' | 'stereo' | '3d'>('frequency');
   const [isPlaying, setIsPlaying] = useState(false);
   const audioRef = useRef<HTMLAudioElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -83,7 +85,7 @@ export function HomePage() {
     };
   }, [audioData]);
 
-  const handleVisualizationChange = (newVisualization: 'frequency' | 'spectrogram' | '3d') => {
+  const handleVisualizationChange = (newVisualization: 'frequency' | 'spectrogram' | 'stereo' | '3d') => {
     // Only set the new visualization if audio data exists and is ready
     if (audioData?.buffer) {
       // Set the new visualization
@@ -160,11 +162,15 @@ export function HomePage() {
           <FileUpload 
             onFileSelected={handleFileSelected} 
             isProcessing={isProcessing} 
+            progress={progress?.percent}
+            onCancel={cancelProcessing}
           />
         ) : (
           <div className="space-y-8">
             <AudioMetadataDisplay audioData={audioData} />
             
+            <MusicalSummary audioData={audioData} />
+            
             {/* Hidden audio element for controlling playback */}
             <audio 
               ref={audioRef} 
@@ -190,6 +196,12 @@ export function HomePage() {
                     >
                       Spectrogram
                     </button>
+                    <button 
+                      className={`px-3 py-1 rounded-md ${activeVisualization === 'stereo' ? 'bg-primary text-primary-foreground' : 'bg-secondary/70 dark:bg-slate-700/50 text-secondary-foreground border border-slate-600/30'}`}
+                      onClick={() => handleVisualizationChange('stereo')}
+                    >
+                      Stereo
+                    </button>
                     <button 
                       className={`px-3 py-1 rounded-md ${activeVisualization === '3d' ? 'bg-primary text-primary-foreground' : 'bg-secondary/70 dark:bg-slate-700/50 text-secondary-foreground border border-slate-600/30'}`}
                       onClick={() => handleVisualizationChange('3d')}
@@ -227,6 +239,14 @@ export function HomePage() {
                       />
                     )}
                     
+                    {activeVisualization === 'stereo' && (
+                      <StereoFieldDisplay 
+                        stereo={audioData.features.stereo}
+                        duration={audioData.metadata.duration}
+                        className="h-full overflow-y-auto pr-2"
+                      />
+                    )}
+                    
                     {activeVisualization === '3d' && (
                       <AudioVisualizer 
                         audioData={audioData} 
@@ -3,8 +3,69 @@ import { Container } from '../components/ui/container';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import DarkVeil from '../components/ui/DarkVeil';
-import { AlertCircle, Mic, MicOff } from 'lucide-react';
+import { AlertCircle, Mic, MicOff, Pause, Play } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert';
+import { TakeList, type TakeLibraryState } from '../components/audio/take-list';
+import { InputSettingsPanel } from '../components/audio/input-settings-panel';
+import { TunerDisplay } from '../components/audio/tuner-display';
+import { SpectrogramSettingsPanel } from '../components/audio/spectrogram-settings-panel';
+import { RtaDisplay } from '../components/audio/rta-display';
+import { useAudioInput } from '../hooks/use-audio-input';
+import { useTakeRecorder } from '../hooks/use-take-recorder';
+import { useAudioLibrary } from '../hooks/use-audio-library';
+import { useLiveMeasurement } from '../hooks/use-live-measurement';
+import { createTakeFile, getTrimmedSignal, type RecordingTake } from '../utils/recording';
+import { selectInputChannel } from '../utils/audio-input';
+import { DEFAULT_REFERENCE_A4, detectPitchYin, getMedianPitch } from '../utils/pitch-tracking';
+import {
+  DEFAULT_LIVE_SPECTROGRAM_SETTINGS,
+  createColorLookup,
+  createRowBinMap,
+  createSpectrogramHistory,
+  frequencyToPosition,
+  getFrequencyTicks,
+  getHistorySlot,
+  mapSpectrumToRows,
+  positionToFrequency,
+  pushSpectrogramColumn,
+  renderSpectrogramHistory,
+  scrollSpectrogramImage,
+  type LiveSpectrogramSettings
+} from '../utils/spectrogram-display';
+
+// Size of the spectrogram canvas; one column is painted per animation frame
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 400;
+
+// Columns kept to scroll back through, about a minute at 60 frames per second
+const HISTORY_COLUMNS = 3600;
+
+// Recent pitch estimates the tuner takes the median of, to steady the reading
+const TUNER_SMOOTHING_FRAMES = 5;
+
+// How often the tuner reading is refreshed, in ms
+const TUNER_UPDATE_INTERVAL = 100;
+
+// Samples the pitch tracker looks at, whatever FFT size the view uses; two
+// periods of the lowest tracked pitch (50 Hz) fit at up to 48 kHz
+const PITCH_WINDOW_SIZE = 2048;
+
+// Library folder that recorded takes are filed under
+const RECORDINGS_FOLDER = 'Recordings';
+
+// Set an analyser to the view settings. The dB bounds are moved in an order
+// that never puts the floor above the ceiling, which the node rejects.
+function applyAnalyserSettings(analyser: AnalyserNode, settings: LiveSpectrogramSettings) {
+  analyser.fftSize = settings.fftSize;
+  analyser.smoothingTimeConstant = settings.smoothing;
+  if (settings.minDecibels >= analyser.maxDecibels) {
+    analyser.maxDecibels = settings.maxDecibels;
+    analyser.minDecibels = settings.minDecibels;
+  } else {
+    analyser.minDecibels = settings.minDecibels;
+    analyser.maxDecibels = settings.maxDecibels;
+  }
+}
 
 export function LiveAudioPage() {
   const [isRecording, setIsRecording] = useState(false);
@@ -13,57 +74,114 @@ export function LiveAudioPage() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const pitchAnalyserRef = useRef<AnalyserNode | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const animationFrameRef = useRef<number | null>(null);
-  const xPosRef = useRef(0);
-
-  // Color map for the spectrogram
-  const colorMap = useMemo(() => [
-    'rgba(0, 0, 0, 1)',
-    'rgba(0, 0, 255, 1)',
-    'rgba(0, 255, 255, 1)',
-    'rgba(0, 255, 0, 1)',
-    'rgba(255, 255, 0, 1)',
-    'rgba(255, 0, 0, 1)'
-  ], []);
-
-  // Helper function to get a color based on value
-  const getColor = useCallback((value: number) => {
-    const v = Math.max(0, Math.min(1, value));
-    const index = Math.floor(v * (colorMap.length - 1));
-    
-    if (index === colorMap.length - 1) {
-      return colorMap[index];
+  const historyRef = useRef(createSpectrogramHistory(HISTORY_COLUMNS, CANVAS_HEIGHT));
+  // Pixels of the spectrogram, kept between frames; live frames only scroll
+  // them while they still show the newest columns
+  const imageRef = useRef<ImageData | null>(null);
+  const isLiveImageRef = useRef(false);
+  const playbackRef = useRef<AudioBufferSourceNode | null>(null);
+  const {
+    takes,
+    capturedSeconds,
+    startCapture,
+    stopCapture,
+    updateTrim,
+    renameTake,
+    removeTake
+  } = useTakeRecorder();
+  const { library, addAudioFile, loadAudioData, isStorageAvailable } = useAudioLibrary();
+  const {
+    devices,
+    configuration: inputConfiguration,
+    settings: inputSettings,
+    updateConfiguration: updateInputConfiguration,
+    open: openInput
+  } = useAudioInput();
+  const [contextSampleRate, setContextSampleRate] = useState<number | null>(null);
+  const [referenceA4, setReferenceA4] = useState(DEFAULT_REFERENCE_A4);
+  const [trackedPitch, setTrackedPitch] = useState(0);
+  const [spectrogramSettings, setSpectrogramSettings] = useState<LiveSpectrogramSettings>(DEFAULT_LIVE_SPECTROGRAM_SETTINGS);
+  const [isFrozen, setIsFrozen] = useState(false);
+  const [scrollOffset, setScrollOffset] = useState(0); // columns back from the newest
+  const [historyCount, setHistoryCount] = useState(0);
+  const [hoverFrequency, setHoverFrequency] = useState<number | null>(null);
+  // Separate analyser for the measurements, which need their own FFT size and no smoothing
+  const [measurementAnalyser, setMeasurementAnalyser] = useState<AnalyserNode | null>(null);
+  const {
+    settings: measurementSettings,
+    bands: measurementBands,
+    rta,
+    level,
+    updateSettings: updateMeasurementSettings,
+    reset: resetMeasurement
+  } = useLiveMeasurement(measurementAnalyser);
+  
+  // Latest view state, for the animation loop
+  const spectrogramSettingsRef = useRef(spectrogramSettings);
+  spectrogramSettingsRef.current = spectrogramSettings;
+  const isFrozenRef = useRef(isFrozen);
+  isFrozenRef.current = isFrozen;
+  
+  // Library item each sent take became
+  const [sentTakes, setSentTakes] = useState<Record<string, string>>({});
+
+  // Colors of the chosen map for every byte value
+  const colorLookup = useMemo(() => createColorLookup(spectrogramSettings.colormap), [spectrogramSettings.colormap]);
+  const colorLookupRef = useRef(colorLookup);
+  colorLookupRef.current = colorLookup;
+  useEffect(() => {
+    isLiveImageRef.current = false;
+  }, [colorLookup]);
+
+  // Paint the held columns ending `offset` columns before the newest, the
+  // pitch trace over them and the frequency scale. Given the columns pushed
+  // since the last live frame, only those are painted.
+  const paintSpectrogram = useCallback((offset: number, newColumns?: number) => {
+    const canvasCtx = canvasRef.current?.getContext('2d');
+    if (!canvasCtx) return;
+
+    const history = historyRef.current;
+    const { frequencyScale } = spectrogramSettingsRef.current;
+    const nyquist = (audioContextRef.current?.sampleRate || 44100) / 2;
+    imageRef.current ??= canvasCtx.createImageData(CANVAS_WIDTH, CANVAS_HEIGHT);
+    const imageData = imageRef.current;
+    if (newColumns !== undefined && isLiveImageRef.current) {
+      scrollSpectrogramImage(history, imageData, colorLookupRef.current, newColumns);
+    } else {
+      renderSpectrogramHistory(history, imageData, colorLookupRef.current, offset);
     }
-    
-    const ratio = v * (colorMap.length - 1) - index;
-    const color1 = colorMap[index];
-    const color2 = colorMap[index + 1];
-    
-    // Parse colors
-    const parseColor = (colorString: string) => {
-      const match = colorString.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*(\d+(?:\.\d+)?))?\)/);
-      if (!match) return [0, 0, 0, 1];
-      
-      return [
-        parseInt(match[1], 10),
-        parseInt(match[2], 10),
-        parseInt(match[3], 10),
-        match[4] ? parseFloat(match[4]) : 1
-      ];
-    };
-    
-    const c1 = parseColor(color1);
-    const c2 = parseColor(color2);
-    
-    // Interpolate between colors
-    const r = Math.round(c1[0] + ratio * (c2[0] - c1[0]));
-    const g = Math.round(c1[1] + ratio * (c2[1] - c1[1]));
-    const b = Math.round(c1[2] + ratio * (c2[2] - c1[2]));
-    const a = c1[3] + ratio * (c2[3] - c1[3]);
-    
-    return `rgba(${r}, ${g}, ${b}, ${a})`;
-  }, [colorMap]);
+    isLiveImageRef.current = offset === 0;
+    canvasCtx.putImageData(imageData, 0, 0);
+
+    // Tracked pitch of every column
+    canvasCtx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    for (let x = 0; x < CANVAS_WIDTH; x++) {
+      const slot = getHistorySlot(history, offset + CANVAS_WIDTH - 1 - x);
+      const pitch = slot < 0 ? 0 : history.pitches[slot];
+      if (pitch > 0) {
+        const y = (1 - frequencyToPosition(pitch, frequencyScale, nyquist)) * CANVAS_HEIGHT;
+        canvasCtx.fillRect(x, y - 1, 1, 3);
+      }
+    }
+
+    // Frequency labels over a dark strip at the right edge
+    canvasCtx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    canvasCtx.fillRect(CANVAS_WIDTH - 60, 0, 60, CANVAS_HEIGHT);
+    canvasCtx.fillStyle = 'white';
+    canvasCtx.font = '10px Arial';
+    canvasCtx.textAlign = 'left';
+    getFrequencyTicks(frequencyScale, nyquist).forEach(freq => {
+      const y = (1 - frequencyToPosition(freq, frequencyScale, nyquist)) * CANVAS_HEIGHT;
+      canvasCtx.fillText(
+        freq >= 1000 ? `${(freq / 1000).toFixed(1)}kHz` : `${freq}Hz`,
+        CANVAS_WIDTH - 55,
+        Math.max(10, Math.min(CANVAS_HEIGHT - 2, y + 3))
+      );
+    });
+  }, []);
 
   // Request microphone access and set up audio processing
   const startRecording = async () => {
@@ -71,26 +189,39 @@ export function LiveAudioPage() {
       // Clear any previous errors
       setError(null);
 
-      // Create audio context if it doesn't exist
+      // Request access to the configured input
+      const { stream, settings } = await openInput();
+      mediaStreamRef.current = stream;
+
+      // Run the context at the input's rate so nothing gets resampled
+      if (audioContextRef.current && settings.sampleRate && audioContextRef.current.sampleRate !== settings.sampleRate) {
+        await audioContextRef.current.close();
+        audioContextRef.current = null;
+      }
       if (!audioContextRef.current) {
-        audioContextRef.current = new AudioContext();
+        audioContextRef.current = new AudioContext(settings.sampleRate ? { sampleRate: settings.sampleRate } : undefined);
       }
-
-      // Request access to the microphone
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaStreamRef.current = stream;
+      setContextSampleRate(audioContextRef.current.sampleRate);
 
       // Create an analyzer node
       const analyser = audioContextRef.current.createAnalyser();
-      analyser.fftSize = 2048;
-      analyser.minDecibels = -90;
-      analyser.maxDecibels = -10;
-      analyser.smoothingTimeConstant = 0.85;
+      applyAnalyserSettings(analyser, spectrogramSettingsRef.current);
       analyserRef.current = analyser;
 
-      // Connect the microphone stream to the analyzer
+      // Connect the chosen channels of the microphone stream to the analyzer
       const source = audioContextRef.current.createMediaStreamSource(stream);
-      source.connect(analyser);
+      const input = selectInputChannel(audioContextRef.current, source, inputConfiguration.channel, settings.channelCount);
+      input.connect(analyser);
+      const pitchAnalyser = audioContextRef.current.createAnalyser();
+      pitchAnalyser.fftSize = PITCH_WINDOW_SIZE;
+      input.connect(pitchAnalyser);
+      pitchAnalyserRef.current = pitchAnalyser;
+      const measurementInput = audioContextRef.current.createAnalyser();
+      input.connect(measurementInput);
+      setMeasurementAnalyser(measurementInput);
+
+      // Capture the same input into a new take
+      await startCapture(audioContextRef.current, input);
 
       // Start the visualization
       setIsRecording(true);
@@ -99,13 +230,18 @@ export function LiveAudioPage() {
     } catch (err) {
       console.error('Error accessing microphone:', err);
       setError(err instanceof Error ? err.message : 'Error accessing microphone');
+      mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+      mediaStreamRef.current = null;
       setPermissionGranted(false);
       setIsRecording(false);
     }
   };
 
-  // Stop recording and clean up
-  const stopRecording = () => {
+  // Stop recording, keep the take and clean up
+  const stopRecording = async () => {
+    // Let the take collect what the input still holds before it stops
+    await stopCapture();
+
     // Stop the animation frame
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
@@ -118,26 +254,72 @@ export function LiveAudioPage() {
       mediaStreamRef.current = null;
     }
 
-    // Reset state
+    // Reset state, keeping what was painted to scroll back through
+    setHistoryCount(historyRef.current.count);
+    setMeasurementAnalyser(null);
     setIsRecording(false);
   };
 
-  // Draw the spectrogram
-  const startVisualization = useCallback(() => {
-    if (!canvasRef.current || !analyserRef.current || !isRecording) return;
+  // Play the kept part of a take, stopping whatever take was playing
+  const playTake = (take: RecordingTake) => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext();
+    }
+    const context = audioContextRef.current;
 
-    const canvas = canvasRef.current;
-    const canvasCtx = canvas.getContext('2d');
-    if (!canvasCtx) return;
+    const signal = getTrimmedSignal(take);
+    if (signal.length === 0) return;
+    const buffer = context.createBuffer(signal.numberOfChannels, signal.length, signal.sampleRate);
+    for (let channel = 0; channel < signal.numberOfChannels; channel++) {
+      buffer.copyToChannel(signal.getChannelData(channel).slice(), channel);
+    }
 
-    // Set canvas dimensions
-    const width = canvas.width;
-    const height = canvas.height;
+    playbackRef.current?.stop();
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start();
+    playbackRef.current = source;
+  };
+
+  // Analyze a take like an uploaded file and add it to the editor library
+  const sendToLibrary = async (take: RecordingTake) => {
+    const id = await addAudioFile(createTakeFile(take), { folder: RECORDINGS_FOLDER });
+    setSentTakes(prev => ({ ...prev, [take.id]: id }));
+    await loadAudioData(id);
+  };
+
+  // Follow each sent take's library item through its analysis
+  const libraryStates = useMemo(() => {
+    const states: Record<string, TakeLibraryState> = {};
+    Object.entries(sentTakes).forEach(([takeId, itemId]) => {
+      const item = library.items.find(current => current.id === itemId);
+      if (!item) return;
+      if (item.error) {
+        states[takeId] = { status: 'failed', error: item.error };
+      } else if (item.isLoading || !item.cachedAnalysis) {
+        states[takeId] = { status: 'analyzing', progress: item.progress };
+      } else {
+        states[takeId] = { status: 'added' };
+      }
+    });
+    return states;
+  }, [sentTakes, library.items]);
+
+  // Draw the spectrogram
+  const startVisualization = useCallback(() => {
+    if (!canvasRef.current || !analyserRef.current || !pitchAnalyserRef.current || !isRecording) return;
 
-    // Set up the frequency data array
     const analyser = analyserRef.current;
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
+    const pitchAnalyser = pitchAnalyserRef.current;
+    const history = historyRef.current;
+    const column = new Uint8Array(CANVAS_HEIGHT);
+    const recentPitches: number[] = [];
+    let lastTunerUpdate = 0;
+    let dataArray = new Uint8Array(0);
+    const timeData = new Float32Array(PITCH_WINDOW_SIZE);
+    let rowMap = createRowBinMap(CANVAS_HEIGHT, 'linear', 44100, 2048);
+    let rowMapKey = '';
 
     // Animation function
     const draw = () => {
@@ -146,81 +328,81 @@ export function LiveAudioPage() {
       }
 
       animationFrameRef.current = requestAnimationFrame(draw);
-      analyser.getByteFrequencyData(dataArray);
 
-      // Draw current column
-      const imageData = canvasCtx.createImageData(1, height);
-
-      for (let i = 0; i < height; i++) {
-        // Map canvas y coordinate to frequency bin
-        const binIndex = Math.floor(i / height * bufferLength);
-        const value = dataArray[binIndex] / 255.0;
+      // Follow FFT size and scale changes made while running
+      const { fftSize, frequencyScale } = spectrogramSettingsRef.current;
+      // Safely access the sample rate with a fallback value
+      const sampleRate = audioContextRef.current?.sampleRate || 44100;
+      if (dataArray.length !== analyser.frequencyBinCount) {
+        dataArray = new Uint8Array(analyser.frequencyBinCount);
+      }
+      const key = `${frequencyScale}:${fftSize}:${sampleRate}`;
+      if (key !== rowMapKey) {
+        rowMap = createRowBinMap(CANVAS_HEIGHT, frequencyScale, sampleRate, analyser.fftSize);
+        rowMapKey = key;
+      }
 
-        // Get color for the value
-        const color = getColor(value);
+      // Track the fundamental for the tuner and the trace
+      pitchAnalyser.getFloatTimeDomainData(timeData);
+      const pitch = detectPitchYin(timeData, sampleRate);
+      recentPitches.push(pitch.frequency);
+      if (recentPitches.length > TUNER_SMOOTHING_FRAMES) recentPitches.shift();
+      const now = performance.now();
+      if (now - lastTunerUpdate >= TUNER_UPDATE_INTERVAL) {
+        lastTunerUpdate = now;
+        setTrackedPitch(getMedianPitch(recentPitches));
+      }
 
-        // Parse the color
-        const match = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*(\d+(?:\.\d+)?))?\)/);
-        if (!match) continue;
+      // A frozen view keeps showing what it held when it was frozen
+      if (isFrozenRef.current) return;
 
-        const r = parseInt(match[1], 10);
-        const g = parseInt(match[2], 10);
-        const b = parseInt(match[3], 10);
-        const a = match[4] ? parseFloat(match[4]) * 255 : 255;
+      analyser.getByteFrequencyData(dataArray);
+      mapSpectrumToRows(dataArray, rowMap, column);
+      pushSpectrogramColumn(history, column, pitch.frequency);
+      paintSpectrogram(0, 1);
+    };
 
-        // Set pixel color
-        const pixelIndex = (height - i - 1) * 4;
-        imageData.data[pixelIndex] = r;
-        imageData.data[pixelIndex + 1] = g;
-        imageData.data[pixelIndex + 2] = b;
-        imageData.data[pixelIndex + 3] = a;
-      }
+    // Start the animation
+    draw();
+  }, [isRecording, paintSpectrogram]);
 
-      // Put image data
-      canvasCtx.putImageData(imageData, xPosRef.current, 0);
+  // Apply analyser settings as they change. Columns painted on another
+  // frequency scale can't be shown on the new one, so they are dropped.
+  const previousScaleRef = useRef(spectrogramSettings.frequencyScale);
+  useEffect(() => {
+    if (analyserRef.current) {
+      applyAnalyserSettings(analyserRef.current, spectrogramSettings);
+    }
 
-      // Increment x position
-      xPosRef.current = (xPosRef.current + 1) % width;
+    if (previousScaleRef.current !== spectrogramSettings.frequencyScale) {
+      previousScaleRef.current = spectrogramSettings.frequencyScale;
+      historyRef.current = createSpectrogramHistory(HISTORY_COLUMNS, CANVAS_HEIGHT);
+      isLiveImageRef.current = false;
+      setHistoryCount(0);
+      setScrollOffset(0);
+    }
+  }, [spectrogramSettings]);
 
-      // Draw vertical line at current position
-      canvasCtx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-      canvasCtx.fillRect(xPosRef.current, 0, 1, height);
+  // Repaint a view that isn't scrolling by itself when what it shows changes
+  useEffect(() => {
+    if (isFrozen || !isRecording) {
+      paintSpectrogram(scrollOffset);
+    }
+  }, [isFrozen, isRecording, scrollOffset, colorLookup, paintSpectrogram]);
 
-      // Draw frequency scale
-      canvasCtx.save();
-      
-      // Draw over right edge with black box
-      canvasCtx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      canvasCtx.fillRect(width - 60, 0, 60, height);
-      
-      // Draw frequency labels
-      canvasCtx.fillStyle = 'white';
-      canvasCtx.font = '10px Arial';
-      canvasCtx.textAlign = 'left';
-      
-      const labelCount = 10;
-      // Safely access the sample rate with a fallback value
-      const sampleRate = audioContextRef.current?.sampleRate || 44100;
-      const step = Math.floor(sampleRate / 2 / labelCount);
-      
-      for (let i = 0; i <= labelCount; i++) {
-        const freq = Math.floor(i * step);
-        const y = height - (i / labelCount) * height;
-        
-        canvasCtx.fillText(
-          freq >= 1000 ? `${(freq / 1000).toFixed(1)}kHz` : `${freq}Hz`,
-          width - 55,
-          y + 3
-        );
-      }
-      
-      // Restore context
-      canvasCtx.restore();
-    };
+  const toggleFreeze = () => {
+    setHistoryCount(historyRef.current.count);
+    setScrollOffset(0);
+    setIsFrozen(frozen => !frozen);
+  };
 
-    // Start the animation
-    draw();
-  }, [isRecording, getColor]);
+  // Frequency under the pointer, on the current scale
+  const handleCanvasHover = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const position = 1 - (event.clientY - bounds.top) / bounds.height;
+    const nyquist = (audioContextRef.current?.sampleRate || 44100) / 2;
+    setHoverFrequency(positionToFrequency(position, spectrogramSettings.frequencyScale, nyquist));
+  };
 
   // Initialize the canvas
   useEffect(() => {
@@ -231,14 +413,12 @@ export function LiveAudioPage() {
     if (!canvasCtx) return;
 
     // Set canvas dimensions
-    const width = 800;
-    const height = 400;
-    canvas.width = width;
-    canvas.height = height;
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
 
     // Clear canvas with black background
     canvasCtx.fillStyle = 'black';
-    canvasCtx.fillRect(0, 0, width, height);
+    canvasCtx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
     // Clean up on unmount
     return () => {
@@ -318,7 +498,7 @@ export function LiveAudioPage() {
               >
                 {isRecording ? (
                   <>
-                    <MicOff className="mr-2 h-4 w-4" /> Stop Recording
+                    <MicOff className="mr-2 h-4 w-4" /> Stop Recording ({capturedSeconds}s)
                   </>
                 ) : (
                   <>
@@ -327,29 +507,146 @@ export function LiveAudioPage() {
                 )}
               </Button>
             </CardHeader>
-            <CardContent className="relative">
-              <div className="w-full h-[400px] bg-black rounded-md overflow-hidden">
+            <CardContent className="space-y-4">
+              <div className="relative w-full h-[400px] bg-black rounded-md overflow-hidden">
                 <canvas 
                   ref={canvasRef} 
                   className="w-full h-full"
+                  onMouseMove={handleCanvasHover}
+                  onMouseLeave={() => setHoverFrequency(null)}
                 />
-                {!isRecording && !error && (
+                {!isRecording && !error && historyCount === 0 && (
                   <div className="absolute inset-0 flex items-center justify-center bg-black/50">
                     <p className="text-white text-lg">Click "Start Recording" to begin</p>
                   </div>
                 )}
+                {hoverFrequency !== null && (
+                  <span className="absolute left-2 top-2 rounded bg-black/70 px-2 py-1 text-xs text-white">
+                    {hoverFrequency >= 1000 ? `${(hoverFrequency / 1000).toFixed(2)} kHz` : `${hoverFrequency.toFixed(0)} Hz`}
+                  </span>
+                )}
               </div>
-              <div className="mt-4">
+
+              <div className="flex items-center gap-4">
+                <Button variant="outline" size="sm" onClick={toggleFreeze} disabled={!isRecording}>
+                  {isFrozen ? (
+                    <>
+                      <Play className="mr-2 h-4 w-4" /> Resume
+                    </>
+                  ) : (
+                    <>
+                      <Pause className="mr-2 h-4 w-4" /> Freeze
+                    </>
+                  )}
+                </Button>
+                {(isFrozen || !isRecording) && historyCount > CANVAS_WIDTH && (
+                  <label className="flex flex-1 items-center gap-2 text-xs text-white/70">
+                    Scroll back
+                    <input
+                      type="range"
+                      min={0}
+                      max={historyCount - CANVAS_WIDTH}
+                      step={1}
+                      value={historyCount - CANVAS_WIDTH - scrollOffset}
+                      onChange={event => setScrollOffset(historyCount - CANVAS_WIDTH - Number(event.target.value))}
+                      className="flex-1"
+                    />
+                  </label>
+                )}
+              </div>
+
+              <SpectrogramSettingsPanel
+                settings={spectrogramSettings}
+                sampleRate={contextSampleRate ?? 44100}
+                onChange={changes => setSpectrogramSettings(prev => ({ ...prev, ...changes }))}
+              />
+
+              <div>
                 <h3 className="text-sm font-medium mb-2">About This Visualization</h3>
                 <p className="text-sm text-gray-400">
                   This spectrogram shows frequency (vertical axis) over time (horizontal axis). 
                   Brighter colors indicate stronger presence of that frequency in the audio signal.
-                  The visualization scrolls from left to right as new audio data is processed.
+                  New audio enters at the right edge; freeze the view to scroll back through the last minute.
                 </p>
               </div>
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Tuner</CardTitle>
+              <p className="text-sm text-gray-400 mt-1">
+                The fundamental of your input, also traced in white on the spectrogram
+              </p>
+            </CardHeader>
+            <CardContent>
+              <TunerDisplay
+                frequency={isRecording ? trackedPitch : 0}
+                referenceA4={referenceA4}
+                onReferenceChange={setReferenceA4}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Measurement</CardTitle>
+              <p className="text-sm text-gray-400 mt-1">
+                Real-time analyzer and level meter. Levels are relative to digital full scale, not calibrated sound pressure
+              </p>
+            </CardHeader>
+            <CardContent>
+              <RtaDisplay
+                bands={measurementBands}
+                rta={rta}
+                level={level}
+                settings={measurementSettings}
+                onSettingsChange={updateMeasurementSettings}
+                onReset={resetMeasurement}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Input</CardTitle>
+              <p className="text-sm text-gray-400 mt-1">
+                Choose the interface and channel to record, and whether the browser may process the signal
+              </p>
+            </CardHeader>
+            <CardContent>
+              <InputSettingsPanel
+                devices={devices}
+                configuration={inputConfiguration}
+                settings={inputSettings}
+                contextSampleRate={contextSampleRate}
+                disabled={isRecording}
+                onChange={updateInputConfiguration}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Takes</CardTitle>
+              <p className="text-sm text-gray-400 mt-1">
+                Trim your recordings and send them to the editor library, where they are analyzed like uploaded files
+              </p>
+            </CardHeader>
+            <CardContent>
+              <TakeList
+                takes={takes}
+                libraryStates={libraryStates}
+                canSendToLibrary={isStorageAvailable}
+                onTrimChange={updateTrim}
+                onRename={renameTake}
+                onRemove={removeTake}
+                onPlay={playTake}
+                onSendToLibrary={sendToLibrary}
+              />
+            </CardContent>
+          </Card>
+
           <div className="mt-8 text-center">
             <p className="text-gray-400 mb-2">
               Note: Your audio is processed locally in your browser and is not sent to any server.
@@ -9,44 +9,69 @@ import { FrequencySpectrum } from '../components/audio/frequency-spectrum';
 import { FrequencyInterferenceExplanation } from '../components/audio/frequency-interference-explanation';
 import { CombinedAudioVisualizer } from '../components/audio/combined-audio-visualizer';
 import { TrackInfoCard } from '../components/audio/track-info-card';
+import { MaskingTimeline } from '../components/audio/masking-timeline';
+import { EQPlaybackPanel } from '../components/audio/eq-playback-panel';
+import { LoudnessMatchPanel } from '../components/audio/loudness-match-panel';
+import { StereoFieldDisplay } from '../components/audio/stereo-field';
 import { useAudioMixing } from '../hooks/use-audio-mixing';
+import { useEQPlayback } from '../hooks/use-eq-playback';
 import { analyzeFrequencyOverlap, generateEQSuggestions } from '../utils/audio-mixing';
-import type { FrequencyOverlap, EQSuggestion } from '../utils/audio-mixing';
+import type { FrequencyOverlap, EQSuggestion, MaskingWindow } from '../utils/audio-mixing';
 import DarkVeil from '../components/ui/DarkVeil';
 import MagicBento from '../components/ui/MagicBento';
 import Search from '../components/ui/Search';
 import MetaBalls from '../components/ui/MetaBalls';
 
 export function MixingPage() {
-  const { mixingState, processTrack, clearTrack } = useAudioMixing();
+  const {
+    mixingState,
+    processTrack,
+    cancelProcessing,
+    clearTrack,
+    loudnessMatch,
+    setLoudnessMatch,
+    gainOffsets
+  } = useAudioMixing();
   const [overlaps, setOverlaps] = useState<FrequencyOverlap[]>([]);
+  const [maskingWindows, setMaskingWindows] = useState<MaskingWindow[]>([]);
   const [suggestions, setSuggestions] = useState<EQSuggestion[]>([]);
   const [analyzing, setAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const eqPlayback = useEQPlayback(mixingState.track1, mixingState.track2, suggestions, gainOffsets);
   const navigate = useNavigate();
 
   useEffect(() => {
     if (mixingState.track1 && mixingState.track2) {
       setAnalyzing(true);
+      setAnalysisError(null);
       setTimeout(() => {
         try {
-          const frequencyOverlaps = analyzeFrequencyOverlap(
+          const analysis = analyzeFrequencyOverlap(
             mixingState.track1!, 
-            mixingState.track2!
+            mixingState.track2!,
+            gainOffsets
           );
-          setOverlaps(frequencyOverlaps);
-          const eqSuggestions = generateEQSuggestions(frequencyOverlaps);
+          setOverlaps(analysis.overlaps);
+          setMaskingWindows(analysis.windows);
+          const eqSuggestions = generateEQSuggestions(analysis.overlaps);
           setSuggestions(eqSuggestions);
         } catch (err) {
           console.error('Error analyzing audio:', err);
+          setOverlaps([]);
+          setMaskingWindows([]);
+          setSuggestions([]);
+          setAnalysisError(err instanceof Error ? err.message : 'Failed to analyze frequency overlap');
         } finally {
           setAnalyzing(false);
         }
       }, 100);
     } else {
       setOverlaps([]);
+      setMaskingWindows([]);
       setSuggestions([]);
+      setAnalysisError(null);
     }
-  }, [mixingState.track1, mixingState.track2]);
+  }, [mixingState.track1, mixingState.track2, gainOffsets]);
   
   // Calculate overlapping duration when both tracks are loaded
   const getOverlappingInfo = () => {
@@ -55,11 +80,13 @@ export function MixingPage() {
     const duration1 = mixingState.track1.metadata.duration;
     const duration2 = mixingState.track2.metadata.duration;
     const overlapDuration = Math.min(duration1, duration2);
+    const totalDuration = Math.max(duration1, duration2);
     
     const hasDifferentLengths = Math.abs(duration1 - duration2) > 0.5; // More than 0.5 seconds difference
     
     return {
       overlapDuration,
+      totalDuration,
       hasDifferentLengths,
       track1IsShorter: duration1 < duration2
     };
@@ -142,6 +169,8 @@ export function MixingPage() {
                 <FileUpload 
                   onFileSelected={handleTrack1Selected} 
                   isProcessing={mixingState.isProcessing} 
+                  progress={mixingState.progress?.percent}
+                  onCancel={() => cancelProcessing(1)}
                 />
               ) : (
                 <TrackInfoCard 
@@ -158,6 +187,8 @@ export function MixingPage() {
                 <FileUpload 
                   onFileSelected={handleTrack2Selected} 
                   isProcessing={mixingState.isProcessing} 
+                  progress={mixingState.progress?.percent}
+                  onCancel={() => cancelProcessing(2)}
                 />
               ) : (
                 <TrackInfoCard 
@@ -171,6 +202,13 @@ export function MixingPage() {
           
           {mixingState.track1 && mixingState.track2 ? (
             <div className="space-y-6">
+              <LoudnessMatchPanel
+                tracks={[mixingState.track1, mixingState.track2]}
+                enabled={loudnessMatch}
+                gains={gainOffsets}
+                onEnabledChange={setLoudnessMatch}
+              />
+              
               <Card className="bg-secondary/20 dark:bg-slate-800/40 backdrop-blur-sm border dark:border-slate-700/50">
                 <CardHeader>
                   <CardTitle className="text-white/90">Frequency Overlap Analysis</CardTitle>
@@ -180,6 +218,12 @@ export function MixingPage() {
                     <div className="flex justify-center items-center h-80">
                       <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
                     </div>
+                  ) : analysisError ? (
+                    <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-md">
+                      <p className="text-sm text-red-300">
+                        <span className="font-medium">Analysis failed:</span> {analysisError}
+                      </p>
+                    </div>
                   ) : (
                     <>
                       <p className="text-sm text-white/70 mb-4">
@@ -199,7 +243,8 @@ export function MixingPage() {
                               <p className="text-sm text-amber-200">
                                 <span className="font-medium">Note:</span> These tracks have different lengths 
                                 ({Math.abs(mixingState.track1!.metadata.duration - mixingState.track2!.metadata.duration).toFixed(1)}s difference).
-                                Analysis is performed on the first {overlapInfo.overlapDuration.toFixed(1)} seconds of both tracks.
+                                Analysis covers all {overlapInfo.totalDuration.toFixed(1)} seconds; after {overlapInfo.overlapDuration.toFixed(1)} seconds
+                                only {overlapInfo.track1IsShorter ? 'Track 2' : 'Track 1'} is playing, so nothing can be masked.
                               </p>
                             </div>
                           );
@@ -215,6 +260,15 @@ export function MixingPage() {
                           height={300}
                           width={800}
                         />
+                        <div>
+                          <h3 className="text-lg font-medium text-white/90 mb-2">Masking Over Time</h3>
+                          <MaskingTimeline
+                            windows={maskingWindows}
+                            duration={Math.max(mixingState.track1.metadata.duration, mixingState.track2.metadata.duration)}
+                            track1Name={mixingState.track1.metadata.name}
+                            track2Name={mixingState.track2.metadata.name}
+                          />
+                        </div>
                         <div className="grid grid-cols-2 gap-4">
                           <div>
                             <h3 className="text-lg font-medium text-white/90 mb-2">Track 1 Spectrum</h3>
@@ -223,6 +277,13 @@ export function MixingPage() {
                               height={200}
                               width={400}
                             />
+                            <h4 className="text-sm font-medium text-white/80 mt-4 mb-2">Stereo Field</h4>
+                            <StereoFieldDisplay
+                              stereo={mixingState.track1.features.stereo}
+                              duration={mixingState.track1.metadata.duration}
+                              size={160}
+                              className="text-white/80"
+                            />
                           </div>
                           <div>
                             <h3 className="text-lg font-medium text-white/90 mb-2">Track 2 Spectrum</h3>
@@ -231,6 +292,13 @@ export function MixingPage() {
                               height={200}
                               width={400}
                             />
+                            <h4 className="text-sm font-medium text-white/80 mt-4 mb-2">Stereo Field</h4>
+                            <StereoFieldDisplay
+                              stereo={mixingState.track2.features.stereo}
+                              duration={mixingState.track2.metadata.duration}
+                              size={160}
+                              className="text-white/80"
+                            />
                           </div>
                         </div>
                       </div>
@@ -239,7 +307,7 @@ export function MixingPage() {
                 </CardContent>
               </Card>
               
-              {!analyzing && (
+              {!analyzing && !analysisError && (
                 <>
                   <FrequencyInterferenceExplanation overlaps={overlaps} />
                   
@@ -268,6 +336,19 @@ export function MixingPage() {
                     track1Name={mixingState.track1.metadata.name}
                     track2Name={mixingState.track2.metadata.name}
                   />
+
+                  <EQPlaybackPanel
+                    bands={eqPlayback.bands}
+                    abMode={eqPlayback.abMode}
+                    isPlaying={eqPlayback.isPlaying}
+                    track1Name={mixingState.track1.metadata.name}
+                    track2Name={mixingState.track2.metadata.name}
+                    onPlay={eqPlayback.play}
+                    onStop={eqPlayback.stop}
+                    onABModeChange={eqPlayback.setABMode}
+                    onBandChange={eqPlayback.updateBand}
+                    onReset={eqPlayback.resetBands}
+                  />
                 </>
               )}
             </div>
@@ -1,3 +1,5 @@
+import type { SpectrumScale, WindowFunction } from '../utils/stft';
+
 export interface AudioData {
   buffer: AudioBuffer;
   file: File;
@@ -7,6 +9,33 @@ export interface AudioData {
   analysis: AudioAnalysis;
 }
 
+// Analysis results kept for an audio file so decoding it again doesn't
+// require analyzing it again
+export type CachedAudioAnalysis = Pick<AudioData, 'metadata' | 'features' | 'analysis'>;
+
+// The subset of AudioBuffer that offline analysis needs. Lets the analysis
+// worker wrap transferred channel data without a real AudioBuffer.
+export type AudioSignal = Pick<
+  AudioBuffer,
+  'sampleRate' | 'length' | 'duration' | 'numberOfChannels' | 'getChannelData'
+>;
+
+export type AnalysisStage =
+  | 'decoding'
+  | 'rms'
+  | 'loudness'
+  | 'spectrogram'
+  | 'stereo'
+  | 'descriptors'
+  | 'beats'
+  | 'tonality'
+  | 'analysis';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  percent: number; // overall progress, 0-100
+}
+
 export interface AudioMetadata {
   name: string;
   size: number;
@@ -22,6 +51,13 @@ export interface AudioFeatures {
   beats: Beat[];
   spectrogram: SpectrogramData;
   rms: number[];
+  loudness?: LoudnessMeasurement; // missing from analyses cached before it was measured
+  stereo?: StereoAnalysis; // likewise
+  descriptors?: SpectralDescriptors; // likewise
+  tempo?: TempoEstimate;
+  downbeat?: DownbeatEstimate | null;
+  key?: KeyEstimate;
+  chords?: ChordSegment[];
 }
 
 export interface AudioAnalysis {
@@ -52,12 +88,109 @@ export interface FrequencyPeak {
 export interface Beat {
   time: number;
   confidence: number;
+  isDownbeat?: boolean;
+}
+
+// Loudness per ITU-R BS.1770 / EBU R128. Silence measures -Infinity.
+export interface LoudnessMeasurement {
+  integrated: number; // gated programme loudness, LUFS
+  range: number; // loudness range (LRA), LU
+  truePeak: number; // dBTP
+  maxMomentary: number; // loudest 400 ms, LUFS
+  maxShortTerm: number; // loudest 3 s, LUFS
+}
+
+// How the left and right channels relate. Mono files read as fully correlated.
+export interface StereoAnalysis {
+  isStereo: boolean;
+  correlation: number; // -1 (out of phase) to 1 (mono), 0 when unrelated
+  correlationWindow: number; // seconds covered by each value below
+  correlationOverTime: number[]; // 0 for silent windows
+  midLevel: number; // RMS of (L + R) / 2, dBFS
+  sideLevel: number; // RMS of (L - R) / 2, dBFS
+  width: number; // share of the energy in the side signal, 0 (mono) to 1 (all side)
+  monoLoss: number; // dB lost when the channels are summed to mono, 0 or less
+  bands: StereoBand[];
+  vectorscope: Float32Array; // left/right sample pairs, interleaved
+  warnings: MonoCompatibilityWarning[];
+}
+
+export interface StereoBand {
+  name: string;
+  min: number; // Hz
+  max: number; // Hz
+  level: number; // dBFS
+  width: number;
+  correlation: number;
+  monoLoss: number;
+}
+
+// Something that will sound different, or disappear, in mono
+export interface MonoCompatibilityWarning {
+  kind: 'out-of-phase' | 'band-cancels';
+  start: number; // seconds
+  end: number;
+  band: string | null; // the band that cancels, for 'band-cancels'
+  value: number; // correlation for 'out-of-phase', mono loss in dB for 'band-cancels'
+}
+
+export interface TempoEstimate {
+  bpm: number; // 0 when no periodicity was found
+  confidence: number; // 0-1
+}
+
+export interface DownbeatEstimate {
+  time: number; // time of the first downbeat
+  beatIndex: number; // index in Beat[] of the first downbeat
+  beatsPerBar: number;
+  confidence: number; // 0-1
 }
 
 export interface SpectrogramData {
   data: Float32Array[];
   minDecibels: number;
   maxDecibels: number;
+  scale?: SpectrumScale; // decibels unless stated otherwise
+  fftSize?: number;
+  hopSize?: number;
+  sampleRate?: number;
+  windowFunction?: WindowFunction;
+}
+
+// Descriptors of every analysis frame, as time series with one value (or
+// one array, for MFCCs and contrast) per frame. Frame i starts at
+// i * frameDuration seconds.
+export interface SpectralDescriptors {
+  frameDuration: number; // seconds between frames
+  hopSize: number; // samples between frames
+  fftSize: number; // samples covered by each frame
+  sampleRate: number;
+  level: Float32Array; // dB of the frame's total power
+  mfcc: Float32Array[]; // 13 coefficients per frame, c0 first
+  centroid: Float32Array; // Hz
+  bandwidth: Float32Array; // Hz around the centroid
+  rolloff: Float32Array; // Hz below which 85% of the power lies
+  flatness: Float32Array; // 0 (tonal) to 1 (white noise)
+  contrast: Float32Array[]; // dB per octave sub-band, per frame
+  zeroCrossingRate: Float32Array; // share of samples that change sign
+  pitch: Float32Array; // Hz, 0 where no period stood out
+  pitchClarity: Float32Array; // 0-1
+}
+
+export interface KeyEstimate {
+  tonic: string; // pitch class, using sharps (e.g. 'F#')
+  mode: 'major' | 'minor';
+  name: string; // e.g. 'F# minor'
+  confidence: number; // 0-1
+}
+
+export interface ChordSegment {
+  start: number;
+  end: number;
+  label: string; // e.g. 'Am', or 'N' when no chord is sounding
+  root: string | null;
+  quality: 'major' | 'minor' | null;
+  confidence: number; // 0-1
 }
 
 export interface TimeSegment {
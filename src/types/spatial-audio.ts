@@ -1,4 +1,4 @@
-import type { AudioData } from './audio';
+import type { AudioData, CachedAudioAnalysis } from './audio';
 
 // Extending the existing AudioData type with spatial audio properties
 export interface SpatialAudioData extends AudioData {
@@ -10,6 +10,112 @@ export interface SpatialAudioData extends AudioData {
   volume: number;
   panner?: PannerNode;
   isSelected?: boolean;
+  clip?: TimelineClip; // where the source plays on the timeline, the whole file from 0 when unset
+  automation?: SourceAutomation; // position, volume and effect levels over time, instead of the static values
+  effects?: SourceEffects; // insert chain and sends, none when unset
+  channel?: MixerChannel; // mixer settings, unmuted and flat when unset
+}
+
+// A source's placement on the timeline. Trim points are positions in the
+// audio file; start, length and fades are timeline seconds.
+export interface TimelineClip {
+  start: number; // when the clip begins
+  trimStart: number; // where in the file playback begins
+  trimEnd: number; // where in the file playback ends
+  loop: boolean; // repeat the trimmed region
+  loopLength: number; // how long a looping clip plays; a clip without looping plays the region once
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export type InsertEffectType = 'reverb' | 'delay' | 'distortion' | 'filter';
+export type FilterType = 'lowpass' | 'highpass' | 'bandpass' | 'notch';
+
+// One effect in a source's insert chain. Reverb, delay and distortion mix
+// their output with the dry signal by `wet`, 0-1.
+export type InsertEffect =
+  | { id: string; type: 'reverb'; enabled: boolean; decay: number; wet: number }
+  | { id: string; type: 'delay'; enabled: boolean; delayTime: number; feedback: number; wet: number }
+  | { id: string; type: 'distortion'; enabled: boolean; drive: number; wet: number }
+  | { id: string; type: 'filter'; enabled: boolean; filterType: FilterType; frequency: number; Q: number };
+
+// A source's processing after its panner: the inserts in order, then sends
+// from the end of the chain to the shared buses
+export interface SourceEffects {
+  inserts: InsertEffect[];
+  reverbSend: number; // gain into the reverb bus
+  delaySend: number; // gain into the delay bus
+}
+
+// The reverb and delay every source can send to. Each bus is fully wet and
+// is mixed back in at its return level.
+export interface SendBuses {
+  reverb: { decay: number; returnLevel: number };
+  delay: { delayTime: number; feedback: number; returnLevel: number };
+}
+
+// A source's strip in the mixer. Its fader is the source's volume.
+export interface MixerChannel {
+  mute: boolean;
+  solo: boolean;
+  eq: { low: number; mid: number; high: number }; // gain of each band in dB
+  pan: number; // -1 left to 1 right, used while not linked to the scene
+  spatialLink: boolean; // the source's scene position pans it, instead of `pan`
+}
+
+// The bus every source and send bus feeds before the speakers
+export interface MasterBus {
+  fader: number; // dB
+  limiter: boolean;
+  ceiling: number; // limiter threshold in dBFS
+}
+
+export interface Vector3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type AutomationInterpolation = 'linear' | 'bezier';
+
+// A point on an automation curve. Its interpolation shapes the curve from
+// this keyframe to the next one.
+export interface AutomationKeyframe {
+  time: number; // timeline seconds
+  value: number;
+  interpolation: AutomationInterpolation;
+  handles?: [number, number, number, number]; // bezier x1, y1, x2, y2 within the segment, each 0-1
+}
+
+// Filter frequency and distortion wet drive every filter or distortion insert of the source
+export type SourceAutomationParameter =
+  | 'positionX'
+  | 'positionY'
+  | 'positionZ'
+  | 'volume'
+  | 'filterFrequency'
+  | 'distortionWet'
+  | 'reverbSend'
+  | 'delaySend';
+export type MasterAutomationParameter = 'reverbReturn' | 'delayReturn';
+export type AutomationParameter = SourceAutomationParameter | MasterAutomationParameter;
+
+// Keyframes by parameter, sorted by time. Parameters without keyframes keep their static value.
+export type SourceAutomation = Partial<Record<SourceAutomationParameter, AutomationKeyframe[]>>;
+export type MasterAutomation = Partial<Record<MasterAutomationParameter, AutomationKeyframe[]>>;
+
+// Where the listener is and which way it faces
+export interface ListenerPose {
+  position: Vector3D;
+  orientation: {
+    forward: Vector3D;
+    up: Vector3D;
+  };
+}
+
+// A listener pose sampled while recording a camera path
+export interface CameraPathKeyframe extends ListenerPose {
+  time: number; // seconds since recording started
 }
 
 // Types for the 3D spatial audio environment
@@ -35,10 +141,18 @@ export interface AudioLibraryItem {
   id: string;
   name: string;
   color: string;
+  file?: File; // source audio, kept so decoded audio can be released and rebuilt
+  folder?: string;
+  tags?: string[];
+  addedAt?: number; // ms since epoch
+  cachedAnalysis?: CachedAudioAnalysis; // set once the file has been analyzed
   isLoading?: boolean;
+  progress?: number; // analysis progress while loading, 0-100
   isPlaying?: boolean;
   error?: string;
-  audioData?: AudioData;
+  audioData?: AudioData; // decoded audio, only while the item is in use
+  isStored?: boolean; // persisted for later sessions
+  storedBytes?: number;
 }
 
 export interface AudioLibrary {
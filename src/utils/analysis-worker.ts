@@ -0,0 +1,7 @@
+// Start the audio analysis worker. Kept in its own module so the bundler
+// sees the worker URL and tests can stand in for the worker.
+export function createAnalysisWorker(): Worker {
+  return new Worker(new URL('../workers/audio-analysis.worker.ts', import.meta.url), {
+    type: 'module'
+  });
+}
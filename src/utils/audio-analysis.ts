@@ -1,7 +1,9 @@
 import * as THREE from 'three';
+import { type KeyEstimate } from '../types/audio';
+import { computeChroma, estimateKey } from './tonal-analysis';
 
 // A map of note frequencies
-const noteFrequencies: { [key: string]: number } = {
+export const noteFrequencies: { [key: string]: number } = {
   'C0': 16.35, 'C#0': 17.32, 'D0': 18.35, 'D#0': 19.45, 'E0': 20.60, 'F0': 21.83, 'F#0': 23.12, 'G0': 24.50, 'G#0': 25.96, 'A0': 27.50, 'A#0': 29.14, 'B0': 30.87,
   'C1': 32.70, 'C#1': 34.65, 'D1': 36.71, 'D#1': 38.89, 'E1': 41.20, 'F1': 43.65, 'F#1': 46.25, 'G1': 49.00, 'G#1': 51.91, 'A1': 55.00, 'A#1': 58.27, 'B1': 61.74,
   'C2': 65.41, 'C#2': 69.30, 'D2': 73.42, 'D#2': 77.78, 'E2': 82.41, 'F2': 87.31, 'F#2': 92.50, 'G2': 98.00, 'G#2': 103.83, 'A2': 110.00, 'A#2': 116.54, 'B2': 123.47,
@@ -13,42 +15,19 @@ const noteFrequencies: { [key: string]: number } = {
   'C8': 4186.01, 'C#8': 4434.92, 'D8': 4698.63, 'D#8': 4978.03, 'E8': 5274.04, 'F8': 5587.65, 'F#8': 5919.91, 'G8': 6271.93, 'G#8': 6644.88, 'A8': 7040.00, 'A#8': 7458.62, 'B8': 7902.13
 };
 
-// Major and minor chords for tonality detection
-const majorChords = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
-const minorChords = ['Cm', 'Dm', 'Em', 'Fm', 'Gm', 'Am', 'Bm'];
-
-// Basic set of major chord frequencies for each key
-const majorChordFrequencies: { [key: string]: number[] } = {
-  'C': [noteFrequencies['C4'], noteFrequencies['E4'], noteFrequencies['G4']],
-  'D': [noteFrequencies['D4'], noteFrequencies['F#4'], noteFrequencies['A4']],
-  'E': [noteFrequencies['E4'], noteFrequencies['G#4'], noteFrequencies['B4']],
-  'F': [noteFrequencies['F4'], noteFrequencies['A4'], noteFrequencies['C5']],
-  'G': [noteFrequencies['G4'], noteFrequencies['B4'], noteFrequencies['D5']],
-  'A': [noteFrequencies['A4'], noteFrequencies['C#5'], noteFrequencies['E5']],
-  'B': [noteFrequencies['B4'], noteFrequencies['D#5'], noteFrequencies['F#5']]
-};
-
-// Basic set of minor chord frequencies for each key
-const minorChordFrequencies: { [key: string]: number[] } = {
-  'Cm': [noteFrequencies['C4'], noteFrequencies['D#4'], noteFrequencies['G4']],
-  'Dm': [noteFrequencies['D4'], noteFrequencies['F4'], noteFrequencies['A4']],
-  'Em': [noteFrequencies['E4'], noteFrequencies['G4'], noteFrequencies['B4']],
-  'Fm': [noteFrequencies['F4'], noteFrequencies['G#4'], noteFrequencies['C5']],
-  'Gm': [noteFrequencies['G4'], noteFrequencies['A#4'], noteFrequencies['D5']],
-  'Am': [noteFrequencies['A4'], noteFrequencies['C5'], noteFrequencies['E5']],
-  'Bm': [noteFrequencies['B4'], noteFrequencies['D5'], noteFrequencies['F#5']]
-};
-
 export interface TonalityData {
   isMajor: boolean;
   isMinor: boolean;
-  dominantKey: string;
+  dominantKey: string; // tonic, with an 'm' suffix for minor keys (e.g. 'F#m')
+  key: KeyEstimate | null;
   intensity: number;
   lowFrequencyImpact: number;
 }
 
 /**
- * Analyze the spectral data to detect dominant tonality and low frequency impact
+ * Analyze a decibel spectrum (as returned by AnalyserNode / Tone.Analyser)
+ * for its most likely key and low frequency impact. The spectrum is folded
+ * into a 12-bin chroma profile and matched against all 24 major and minor keys.
  */
 export function analyzeTonality(spectralData: Float32Array, fftSize: number = 1024, sampleRate: number = 44100): TonalityData {
   // Default values
@@ -56,6 +35,7 @@ export function analyzeTonality(spectralData: Float32Array, fftSize: number = 10
     isMajor: false,
     isMinor: false,
     dominantKey: 'C',
+    key: null,
     intensity: 0,
     lowFrequencyImpact: 0
   };
@@ -63,94 +43,33 @@ export function analyzeTonality(spectralData: Float32Array, fftSize: number = 10
   // Calculate frequency resolution
   const frequencyResolution = sampleRate / fftSize;
   
-  // Track energy in different frequency bands
-  const majorEnergy: { [key: string]: number } = {};
-  const minorEnergy: { [key: string]: number } = {};
-  
-  // Initialize energy counters
-  majorChords.forEach(chord => { majorEnergy[chord] = 0; });
-  minorChords.forEach(chord => { minorEnergy[chord] = 0; });
-  
-  // Calculate total energy for normalization
+  // Calculate total and low frequency energy (typically below 150Hz for kick drums, etc.)
   let totalEnergy = 0;
+  let lowFrequencyEnergy = 0;
   for (let i = 0; i < spectralData.length; i++) {
-    const value = spectralData[i];
-    totalEnergy += value * value; // square for energy calculation
-  }
-  
-  // If there's no significant energy, return default values
-  if (totalEnergy < 0.001) {
-    return result;
-  }
-  
-  // Calculate energy for each key's chord frequencies
-  for (let i = 0; i < spectralData.length; i++) {
-    const frequency = i * frequencyResolution;
-    const magnitude = Math.abs(spectralData[i]);
-    
-    // Calculate low frequency impact (typically below 150Hz for kick drums, etc.)
-    if (frequency < 150) {
-      result.lowFrequencyImpact += magnitude / (spectralData.length / 10);
-    }
+    const magnitude = Math.pow(10, spectralData[i] / 20);
+    const energy = magnitude * magnitude;
+    totalEnergy += energy;
     
-    // Check major chords
-    for (const [key, freqs] of Object.entries(majorChordFrequencies)) {
-      for (const chordFreq of freqs) {
-        // Allow for some tolerance in frequency matching
-        if (Math.abs(frequency - chordFreq) < 5) {
-          majorEnergy[key] += magnitude;
-        }
-      }
-    }
-    
-    // Check minor chords
-    for (const [key, freqs] of Object.entries(minorChordFrequencies)) {
-      for (const chordFreq of freqs) {
-        // Allow for some tolerance in frequency matching
-        if (Math.abs(frequency - chordFreq) < 5) {
-          minorEnergy[key] += magnitude;
-        }
-      }
-    }
-  }
-  
-  // Determine maximum energies
-  let maxMajorEnergy = 0;
-  let maxMinorEnergy = 0;
-  let maxMajorKey = 'C';
-  let maxMinorKey = 'Cm';
-  
-  for (const [key, energy] of Object.entries(majorEnergy)) {
-    if (energy > maxMajorEnergy) {
-      maxMajorEnergy = energy;
-      maxMajorKey = key;
+    if (i * frequencyResolution < 150) {
+      lowFrequencyEnergy += energy;
     }
   }
   
-  for (const [key, energy] of Object.entries(minorEnergy)) {
-    if (energy > maxMinorEnergy) {
-      maxMinorEnergy = energy;
-      maxMinorKey = key;
-    }
+  // If there's no significant energy, return default values
+  if (!(totalEnergy > 1e-10)) {
+    return result;
   }
   
-  // Normalize energies
-  maxMajorEnergy /= totalEnergy;
-  maxMinorEnergy /= totalEnergy;
-  
-  // Determine if major or minor is dominant
-  if (maxMajorEnergy > maxMinorEnergy) {
-    result.isMajor = true;
-    result.dominantKey = maxMajorKey;
-    result.intensity = maxMajorEnergy;
-  } else {
-    result.isMinor = true;
-    result.dominantKey = maxMinorKey;
-    result.intensity = maxMinorEnergy;
-  }
+  // Match the chroma profile against every key
+  const key = estimateKey(computeChroma(spectralData, fftSize, sampleRate));
   
-  // Ensure lowFrequencyImpact is within 0-1 range
-  result.lowFrequencyImpact = Math.min(1, Math.max(0, result.lowFrequencyImpact));
+  result.key = key;
+  result.isMajor = key.mode === 'major';
+  result.isMinor = key.mode === 'minor';
+  result.dominantKey = key.mode === 'minor' ? `${key.tonic}m` : key.tonic;
+  result.intensity = key.confidence;
+  result.lowFrequencyImpact = Math.min(1, Math.max(0, lowFrequencyEnergy / totalEnergy));
   
   return result;
 }
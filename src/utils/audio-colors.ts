@@ -0,0 +1,46 @@
+// Hue of the first generated color, the pink the library has always started with
+const BASE_HUE = 354;
+
+// Stepping the hue by the golden angle keeps any run of consecutive colors
+// well apart on the color wheel
+const GOLDEN_ANGLE = 137.508;
+
+// Lightness cycles from one color to the next, so neighbouring colors
+// stay distinguishable on dark backgrounds even where their hues come close
+const LIGHTNESS_STEPS = [65, 55, 72];
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const a = s * Math.min(l, 1 - l);
+
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+
+  return `#${channel(0)}${channel(8)}${channel(4)}`.toUpperCase();
+}
+
+/**
+ * The color for the `index`-th audio item. Any number of items get
+ * distinct colors.
+ */
+export function generateAudioColor(index: number): string {
+  const hue = (BASE_HUE + index * GOLDEN_ANGLE) % 360;
+  const lightness = LIGHTNESS_STEPS[index % LIGHTNESS_STEPS.length];
+  return hslToHex(hue, 75, lightness);
+}
+
+/**
+ * The first generated color no item uses yet, so removing and adding items
+ * doesn't produce duplicates.
+ */
+export function pickAudioColor(usedColors: Iterable<string>): string {
+  const used = new Set(Array.from(usedColors, color => color.toUpperCase()));
+  for (let index = 0; ; index++) {
+    const color = generateAudioColor(index);
+    if (!used.has(color)) return color;
+  }
+}
@@ -0,0 +1,170 @@
+// Which input to record from and how the browser may process it
+export interface InputConfiguration {
+  deviceId: string | null; // null picks the system default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  channel: number | null; // 0-based input channel to use alone, null keeps every channel
+}
+
+// Analysis wants the signal as it arrives, so the browser DSP starts off
+export const DEFAULT_INPUT_CONFIGURATION: InputConfiguration = {
+  deviceId: null,
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+  channel: null
+};
+
+export interface InputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// What the browser actually opened, which may differ from what was asked for
+export interface InputSettings {
+  deviceId: string | null;
+  sampleRate: number | null;
+  channelCount: number;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  usedFallbackDevice: boolean; // the chosen device was gone and the default opened instead
+}
+
+export interface OpenedInput {
+  stream: MediaStream;
+  settings: InputSettings;
+}
+
+// Storage key of the saved configuration
+const CONFIGURATION_KEY = 'live-audio-input';
+
+/**
+ * Constraints asking for exactly the configured processing. Channel counts
+ * are only a preference, so interfaces with fewer channels still open.
+ */
+export function buildAudioConstraints(configuration: InputConfiguration): MediaTrackConstraints {
+  return {
+    ...(configuration.deviceId ? { deviceId: { exact: configuration.deviceId } } : {}),
+    echoCancellation: configuration.echoCancellation,
+    noiseSuppression: configuration.noiseSuppression,
+    autoGainControl: configuration.autoGainControl,
+    channelCount: { ideal: Math.max(2, (configuration.channel ?? 0) + 1) }
+  };
+}
+
+/**
+ * Audio inputs the browser offers. Labels stay empty until microphone
+ * access is granted, so unnamed inputs are numbered instead.
+ */
+export async function listInputDevices(mediaDevices: Pick<MediaDevices, 'enumerateDevices'>): Promise<InputDevice[]> {
+  const devices = await mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Input ${index + 1}`
+    }));
+}
+
+// A device that was unplugged or belongs to another browser profile can't be opened exactly
+function isMissingDeviceError(error: unknown): boolean {
+  const name = (error as { name?: string } | null)?.name;
+  return name === 'OverconstrainedError' || name === 'NotFoundError';
+}
+
+function readSettings(stream: MediaStream, configuration: InputConfiguration, usedFallbackDevice: boolean): InputSettings {
+  const settings = stream.getAudioTracks()[0]?.getSettings() ?? {};
+  return {
+    deviceId: settings.deviceId ?? null,
+    sampleRate: settings.sampleRate ?? null,
+    channelCount: settings.channelCount ?? 1,
+    echoCancellation: settings.echoCancellation ?? configuration.echoCancellation,
+    noiseSuppression: settings.noiseSuppression ?? configuration.noiseSuppression,
+    autoGainControl: settings.autoGainControl ?? configuration.autoGainControl,
+    usedFallbackDevice
+  };
+}
+
+/**
+ * Open the configured input. When the chosen device is missing the default
+ * one is opened with the same processing, and the settings say so.
+ */
+export async function openInput(
+  mediaDevices: Pick<MediaDevices, 'getUserMedia'>,
+  configuration: InputConfiguration
+): Promise<OpenedInput> {
+  try {
+    const stream = await mediaDevices.getUserMedia({ audio: buildAudioConstraints(configuration) });
+    return { stream, settings: readSettings(stream, configuration, false) };
+  } catch (error) {
+    if (!configuration.deviceId || !isMissingDeviceError(error)) throw error;
+
+    const fallback = { ...configuration, deviceId: null };
+    const stream = await mediaDevices.getUserMedia({ audio: buildAudioConstraints(fallback) });
+    return { stream, settings: readSettings(stream, fallback, true) };
+  }
+}
+
+// Storage for the saved configuration, or null where the browser has none
+export function getDefaultConfigurationStorage(): Pick<Storage, 'getItem' | 'setItem'> | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
+
+/**
+ * The saved configuration, with defaults for anything missing or invalid so
+ * a damaged entry never stops the page from opening an input.
+ */
+export function loadInputConfiguration(storage: Pick<Storage, 'getItem'> | null): InputConfiguration {
+  if (!storage) return DEFAULT_INPUT_CONFIGURATION;
+
+  try {
+    const saved = JSON.parse(storage.getItem(CONFIGURATION_KEY) ?? 'null') as Partial<InputConfiguration> | null;
+    if (!saved || typeof saved !== 'object') return DEFAULT_INPUT_CONFIGURATION;
+
+    const readFlag = (key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl') =>
+      typeof saved[key] === 'boolean' ? saved[key] : DEFAULT_INPUT_CONFIGURATION[key];
+    return {
+      deviceId: typeof saved.deviceId === 'string' ? saved.deviceId : null,
+      echoCancellation: readFlag('echoCancellation'),
+      noiseSuppression: readFlag('noiseSuppression'),
+      autoGainControl: readFlag('autoGainControl'),
+      channel: Number.isInteger(saved.channel) && (saved.channel as number) >= 0 ? saved.channel as number : null
+    };
+  } catch (error) {
+    console.error('Error reading the saved input configuration:', error);
+    return DEFAULT_INPUT_CONFIGURATION;
+  }
+}
+
+export function saveInputConfiguration(storage: Pick<Storage, 'setItem'> | null, configuration: InputConfiguration): void {
+  if (!storage) return;
+
+  try {
+    storage.setItem(CONFIGURATION_KEY, JSON.stringify(configuration));
+  } catch (error) {
+    console.error('Error saving the input configuration:', error);
+  }
+}
+
+/**
+ * Node carrying only `channel` of `source`, or `source` itself when every
+ * channel is kept. A channel the input doesn't have falls back to the first.
+ */
+export function selectInputChannel(
+  context: BaseAudioContext,
+  source: AudioNode,
+  channel: number | null,
+  channelCount: number
+): AudioNode {
+  if (channel === null || channelCount < 2) return source;
+
+  const splitter = context.createChannelSplitter(channelCount);
+  const selected = context.createGain();
+  selected.channelCount = 1;
+  selected.channelCountMode = 'explicit';
+  source.connect(splitter);
+  splitter.connect(selected, channel < channelCount ? channel : 0);
+  return selected;
+}
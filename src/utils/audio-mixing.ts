@@ -1,11 +1,37 @@
-import { type AudioData } from '../types/audio';
+import { type AudioData, type AudioSignal } from '../types/audio';
+import { computeSpectrum } from './stft';
 
 export interface FrequencyOverlap {
   frequency: number;
+  band: string;
   magnitude1: number;
   magnitude2: number;
   overlapIntensity: number; // 0-1 scale of overlap intensity
   isConstructive: boolean; // true if constructive, false if destructive
+  maskedDuration: number; // seconds during which the band is masked
+}
+
+// A stretch of time in which both tracks compete in the same band
+export interface MaskingWindow {
+  band: string;
+  frequency: number;
+  start: number; // seconds
+  end: number; // seconds
+  overlapIntensity: number;
+  dominantTrack: 1 | 2;
+}
+
+export interface FrequencyOverlapAnalysis {
+  overlaps: FrequencyOverlap[];
+  windows: MaskingWindow[];
+  duration: number;
+  windowDuration: number;
+}
+
+export interface FrequencyBand {
+  name: string;
+  min: number;
+  max: number;
 }
 
 export interface EQSuggestion {
@@ -19,135 +45,249 @@ export interface EQSuggestion {
   reason: string;
 }
 
-// Analyze frequency overlap between two audio tracks
-export function analyzeFrequencyOverlap(track1: AudioData, track2: AudioData): FrequencyOverlap[] {
-  // Create a placeholder set of overlaps for visualization purposes
-  const overlaps: FrequencyOverlap[] = [];
+// A parametric EQ band built from a suggestion, with editable settings
+export interface EQBand {
+  id: number;
+  track: 1 | 2;
+  frequency: number; // center frequency in Hz
+  gain: number; // in dB
+  q: number;
+  enabled: boolean;
+  label: string;
+}
+
+export const FREQUENCY_BANDS: FrequencyBand[] = [
+  { name: "Sub Bass", min: 20, max: 60 },
+  { name: "Bass", min: 60, max: 250 },
+  { name: "Low Mids", min: 250, max: 500 },
+  { name: "Mids", min: 500, max: 2000 },
+  { name: "High Mids", min: 2000, max: 4000 },
+  { name: "Presence", min: 4000, max: 6000 },
+  { name: "Brilliance", min: 6000, max: 20000 }
+];
+
+// Length of one analysis frame, in seconds (2048 samples at 44.1 kHz)
+const FRAME_DURATION = 2048 / 44100;
+
+// Masking is summarized over windows of this length, in seconds
+const WINDOW_DURATION = 1;
+
+// Band energy below this level (dB relative to a full-scale sine) counts as silence
+const ACTIVITY_FLOOR_DB = -60;
+
+// Bands this far (dB) below the loudest band of the same track and frame are
+// inaudible next to it, and mostly window leakage anyway
+const RELATIVE_FLOOR_DB = -40;
+
+// Overlap intensity from which two tracks are considered to mask each other
+const MASKING_THRESHOLD = 0.5;
+
+// Bands with less overlap than this are left out of the report
+const MIN_OVERLAP_INTENSITY = 0.05;
+
+// Share of the duration a band may be masked and still count as constructive
+const MAX_CONSTRUCTIVE_MASKED_SHARE = 0.1;
+
+// Average all channels into one
+function downmix(signal: AudioSignal): Float32Array {
+  const mono = new Float32Array(signal.length);
+  for (let channel = 0; channel < signal.numberOfChannels; channel++) {
+    const data = signal.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += data[i] / signal.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Power in each frequency band for consecutive frames of `frameDuration`
+ * seconds. Frames start at the same times regardless of sample rate, so
+ * the results of two signals line up frame by frame. Frames past the end
+ * of the signal are silent. Returns one array of frames per band.
+ */
+export function computeBandEnergies(
+  signal: AudioSignal,
+  bands: FrequencyBand[],
+  frameDuration: number,
+  frameCount: number
+): Float32Array[] {
+  const samples = downmix(signal);
+  const { sampleRate } = signal;
+  const fftSize = Math.pow(2, Math.ceil(Math.log2(Math.round(frameDuration * sampleRate))));
+  const binCount = fftSize / 2 + 1;
   
-  // Define frequency bands for broader analysis
-  const frequencyBands = [
-    { name: "Sub Bass", min: 20, max: 60, defaultIsConstructive: false },
-    { name: "Bass", min: 60, max: 250, defaultIsConstructive: false },
-    { name: "Low Mids", min: 250, max: 500, defaultIsConstructive: true },
-    { name: "Mids", min: 500, max: 2000, defaultIsConstructive: true },
-    { name: "High Mids", min: 2000, max: 4000, defaultIsConstructive: true },
-    { name: "Presence", min: 4000, max: 6000, defaultIsConstructive: true },
-    { name: "Brilliance", min: 6000, max: 20000, defaultIsConstructive: true }
-  ];
+  const bandBins = bands.map(band => ({
+    start: Math.max(1, Math.ceil((band.min * fftSize) / sampleRate)),
+    end: Math.min(binCount, Math.ceil((band.max * fftSize) / sampleRate))
+  }));
+  const energies = bands.map(() => new Float32Array(frameCount));
   
-  try {
-    // Create audio context for analysis
-    const audioContext = new AudioContext();
-    
-    // Create analyzers for both tracks
-    const analyzer1 = audioContext.createAnalyser();
-    analyzer1.fftSize = 2048;
-    const bufferLength = analyzer1.frequencyBinCount;
-    const dataArray1 = new Float32Array(bufferLength);
-    
-    const analyzer2 = audioContext.createAnalyser();
-    analyzer2.fftSize = 2048;
-    const dataArray2 = new Float32Array(bufferLength);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = Math.round(frame * frameDuration * sampleRate);
+    if (start >= samples.length) break;
     
-    // Create sources and connect to analyzers
-    const source1 = audioContext.createBufferSource();
-    source1.buffer = track1.buffer;
-    source1.connect(analyzer1);
+    // Pull the last frames back inside the signal rather than zero-padding,
+    // which would smear the abrupt cut across every band
+    const offset = Math.max(0, Math.min(start, samples.length - fftSize));
+    const segment = samples.subarray(offset, Math.min(offset + fftSize, samples.length));
+    // Blackman sidelobes keep a loud band from leaking into its neighbours
+    const spectrum = computeSpectrum(segment, { fftSize, scale: 'power', windowFunction: 'blackman' });
     
-    const source2 = audioContext.createBufferSource();
-    source2.buffer = track2.buffer;
-    source2.connect(analyzer2);
-    
-    // Get frequency data
-    analyzer1.getFloatFrequencyData(dataArray1);
-    analyzer2.getFloatFrequencyData(dataArray2);
+    bandBins.forEach(({ start, end }, band) => {
+      let power = 0;
+      for (let bin = start; bin < end; bin++) power += spectrum[bin];
+      energies[band][frame] = power;
+    });
+  }
+  
+  return energies;
+}
+
+// Per-frame activity threshold for every band of one track
+function activityFloors(energies: Float32Array[], frameCount: number): Float32Array {
+  const absolute = Math.pow(10, ACTIVITY_FLOOR_DB / 10);
+  const relative = Math.pow(10, RELATIVE_FLOOR_DB / 10);
+  const floors = new Float32Array(frameCount);
+  
+  for (let frame = 0; frame < frameCount; frame++) {
+    let loudest = 0;
+    energies.forEach(band => {
+      loudest = Math.max(loudest, band[frame]);
+    });
+    floors[frame] = Math.max(absolute, loudest * relative);
+  }
+  
+  return floors;
+}
+
+/**
+ * Analyze where and when two tracks overlap in frequency.
+ * Both tracks are split into time-aligned frames covering the longer of
+ * the two; each band's overlap is the average amplitude ratio of the
+ * quieter to the louder track over the frames in which either plays.
+ * Windows where that ratio stays high are reported as masking.
+ * `gains` (dB per track) analyze the tracks as they play after loudness matching.
+ */
+export function analyzeFrequencyOverlap(
+  track1: AudioData,
+  track2: AudioData,
+  gains: [number, number] = [0, 0]
+): FrequencyOverlapAnalysis {
+  [track1, track2].forEach((track, index) => {
+    if (!track.buffer || track.buffer.length === 0) {
+      throw new Error(`Cannot analyze frequency overlap: Track ${index + 1} contains no audio`);
+    }
+  });
+  
+  const duration = Math.max(track1.buffer.duration, track2.buffer.duration);
+  const frameCount = Math.ceil(duration / FRAME_DURATION);
+  const framesPerWindow = Math.max(1, Math.round(WINDOW_DURATION / FRAME_DURATION));
+  
+  const [energies1, energies2] = ([track1, track2] as const).map((track, index) => {
+    const energies = computeBandEnergies(track.buffer, FREQUENCY_BANDS, FRAME_DURATION, frameCount);
+    const powerGain = Math.pow(10, gains[index] / 10);
+    if (powerGain !== 1) energies.forEach(band => band.forEach((power, frame) => (band[frame] = power * powerGain)));
+    return energies;
+  });
+  const floors1 = activityFloors(energies1, frameCount);
+  const floors2 = activityFloors(energies2, frameCount);
+  
+  const overlaps: FrequencyOverlap[] = [];
+  const windows: MaskingWindow[] = [];
+  
+  FREQUENCY_BANDS.forEach((band, bandIndex) => {
+    const power1 = energies1[bandIndex];
+    const power2 = energies2[bandIndex];
+    const frequency = (band.min + band.max) / 2;
     
-    // Calculate the Nyquist frequency (half the sample rate)
-    const nyquist = track1.buffer.sampleRate / 2;
+    let totalPower1 = 0;
+    let totalPower2 = 0;
+    let totalOverlap = 0;
+    let activeFrames = 0;
+    let maskedFrames = 0;
     
-    // For each important frequency band, analyze the overlap
-    frequencyBands.forEach(band => {
-      // Find the frequency range in the frequency data
-      const startBin = Math.floor(band.min * bufferLength / nyquist);
-      const endBin = Math.ceil(band.max * bufferLength / nyquist);
+    for (let start = 0; start < frameCount; start += framesPerWindow) {
+      const end = Math.min(frameCount, start + framesPerWindow);
+      let windowOverlap = 0;
+      let windowActive = 0;
+      let windowPower1 = 0;
+      let windowPower2 = 0;
       
-      // Calculate average magnitudes for this band
-      let band1Total = 0;
-      let band2Total = 0;
-      let count = 0;
-      
-      for (let i = startBin; i <= endBin; i++) {
-        if (i < bufferLength) {
-          // Convert from dB to linear scale (approximately)
-          const mag1 = Math.pow(10, dataArray1[i] / 20);
-          const mag2 = Math.pow(10, dataArray2[i] / 20);
-          
-          band1Total += mag1;
-          band2Total += mag2;
-          count++;
+      for (let frame = start; frame < end; frame++) {
+        windowPower1 += power1[frame];
+        windowPower2 += power2[frame];
+        const active1 = power1[frame] >= floors1[frame];
+        const active2 = power2[frame] >= floors2[frame];
+        if (!active1 && !active2) continue;
+        
+        // The amplitude ratio of the quieter to the louder track, when both play
+        if (active1 && active2) {
+          windowOverlap += Math.sqrt(
+            Math.min(power1[frame], power2[frame]) / Math.max(power1[frame], power2[frame])
+          );
         }
+        windowActive++;
       }
       
-      // Calculate average magnitude for the band
-      const avgMag1 = band1Total / count;
-      const avgMag2 = band2Total / count;
+      totalPower1 += windowPower1;
+      totalPower2 += windowPower2;
+      totalOverlap += windowOverlap;
+      activeFrames += windowActive;
       
-      // Calculate overlap intensity
-      let overlapIntensity = 0;
-      if (avgMag1 > 0 && avgMag2 > 0) {
-        overlapIntensity = Math.min(avgMag1, avgMag2) / Math.max(avgMag1, avgMag2);
-        overlapIntensity = Math.min(1, Math.max(0.3, overlapIntensity)); // Ensure it's between 0.3 and 1
-      }
+      const intensity = windowActive > 0 ? windowOverlap / windowActive : 0;
+      if (intensity < MASKING_THRESHOLD) continue;
       
-      // Add to overlaps if significant
-      if (overlapIntensity > 0.2) {
-        overlaps.push({
-          frequency: (band.min + band.max) / 2, // Use center frequency of the band
-          magnitude1: avgMag1,
-          magnitude2: avgMag2,
-          overlapIntensity,
-          isConstructive: band.defaultIsConstructive
-        });
-      }
-    });
-    
-    // Ensure we have at least one overlap for each band for visualization
-    frequencyBands.forEach(band => {
-      const hasOverlapInBand = overlaps.some(
-        o => o.frequency >= band.min && o.frequency <= band.max
-      );
+      maskedFrames += end - start;
+      const window: MaskingWindow = {
+        band: band.name,
+        frequency,
+        start: start * FRAME_DURATION,
+        end: Math.min(duration, end * FRAME_DURATION),
+        overlapIntensity: intensity,
+        dominantTrack: windowPower1 >= windowPower2 ? 1 : 2
+      };
       
-      if (!hasOverlapInBand) {
-        // Add a default overlap for this band
-        overlaps.push({
-          frequency: (band.min + band.max) / 2,
-          magnitude1: 0.5,
-          magnitude2: 0.5,
-          overlapIntensity: 0.5,
-          isConstructive: band.defaultIsConstructive
-        });
+      // Merge with the previous window when the same band keeps colliding
+      const previous = windows[windows.length - 1];
+      if (
+        previous &&
+        previous.band === window.band &&
+        previous.dominantTrack === window.dominantTrack &&
+        Math.abs(previous.end - window.start) < 1e-6
+      ) {
+        const previousLength = previous.end - previous.start;
+        const length = window.end - window.start;
+        previous.overlapIntensity =
+          (previous.overlapIntensity * previousLength + window.overlapIntensity * length) / (previousLength + length);
+        previous.end = window.end;
+      } else {
+        windows.push(window);
       }
-    });
+    }
     
-    // Clean up
-    audioContext.close();
+    const overlapIntensity = activeFrames > 0 ? totalOverlap / activeFrames : 0;
+    if (overlapIntensity < MIN_OVERLAP_INTENSITY) return;
     
-  } catch (error) {
-    console.error('Error analyzing frequency overlap:', error);
-    
-    // If analysis fails, return dummy data for visualization
-    frequencyBands.forEach(band => {
-      overlaps.push({
-        frequency: (band.min + band.max) / 2,
-        magnitude1: 0.5,
-        magnitude2: 0.5,
-        overlapIntensity: 0.5,
-        isConstructive: band.defaultIsConstructive
-      });
+    overlaps.push({
+      frequency,
+      band: band.name,
+      // RMS amplitude of each track in this band
+      magnitude1: Math.sqrt(totalPower1 / frameCount),
+      magnitude2: Math.sqrt(totalPower2 / frameCount),
+      overlapIntensity,
+      isConstructive:
+        overlapIntensity < MASKING_THRESHOLD && maskedFrames < frameCount * MAX_CONSTRUCTIVE_MASKED_SHARE,
+      maskedDuration: Math.min(duration, maskedFrames * FRAME_DURATION)
     });
-  }
+  });
   
-  return overlaps;
+  return {
+    overlaps,
+    windows,
+    duration,
+    windowDuration: framesPerWindow * FRAME_DURATION
+  };
 }
 
 // Generate EQ suggestions based on frequency overlaps
@@ -159,19 +299,8 @@ export function generateEQSuggestions(overlaps: FrequencyOverlap[]): EQSuggestio
     return [];
   }
   
-  // Define frequency bands for broader analysis
-  const frequencyBands = [
-    { name: "Sub Bass", min: 20, max: 60 },
-    { name: "Bass", min: 60, max: 250 },
-    { name: "Low Mids", min: 250, max: 500 },
-    { name: "Mids", min: 500, max: 2000 },
-    { name: "High Mids", min: 2000, max: 4000 },
-    { name: "Presence", min: 4000, max: 6000 },
-    { name: "Brilliance", min: 6000, max: 20000 }
-  ];
-  
   // Group overlaps by frequency bands
-  const bandOverlaps = frequencyBands.map(band => {
+  const bandOverlaps = FREQUENCY_BANDS.map(band => {
     const bandOverlaps = overlaps.filter(o => 
       o.frequency >= band.min && o.frequency <= band.max
     );
@@ -191,13 +320,18 @@ export function generateEQSuggestions(overlaps: FrequencyOverlap[]): EQSuggestio
       (sum, o) => sum + o.magnitude2, 0
     ) / (bandOverlaps.length || 1);
     
+    const maskedDuration = bandOverlaps.reduce(
+      (sum, o) => sum + o.maskedDuration, 0
+    );
+    
     return {
       band,
       bandOverlaps,
       destructiveOverlaps,
       totalDestructiveIntensity,
       track1Magnitude,
-      track2Magnitude
+      track2Magnitude,
+      maskedDuration
     };
   });
   
@@ -208,7 +342,7 @@ export function generateEQSuggestions(overlaps: FrequencyOverlap[]): EQSuggestio
   
   // Generate suggestions for the most problematic bands
   significantBands.forEach(bandData => {
-    const { band, track1Magnitude, track2Magnitude } = bandData;
+    const { band, track1Magnitude, track2Magnitude, maskedDuration } = bandData;
     
     // Determine which track should be EQ'd
     // Usually the one with higher energy in this band is reduced
@@ -230,9 +364,29 @@ export function generateEQSuggestions(overlaps: FrequencyOverlap[]): EQSuggestio
       },
       gainReduction: Math.round(gainReduction * 10) / 10,
       q: 0.7, // broader Q for wider frequency bands
-      reason: `Reduce ${band.name} range in Track ${trackToEQ} to prevent masking Track ${otherTrack}`
+      reason: maskedDuration > 0
+        ? `Reduce ${band.name} range in Track ${trackToEQ} to prevent masking Track ${otherTrack} (${maskedDuration.toFixed(1)}s of collisions)`
+        : `Reduce ${band.name} range in Track ${trackToEQ} to prevent masking Track ${otherTrack}`
     });
   });
   
   return suggestions;
 }
+
+// Turn EQ suggestions into peaking bands centered (geometrically) on each range
+export function createEQBands(suggestions: EQSuggestion[]): EQBand[] {
+  return suggestions.map((suggestion, index) => {
+    const { low, high } = suggestion.frequencyRange;
+    const band = FREQUENCY_BANDS.find(b => b.min === low && b.max === high);
+    
+    return {
+      id: index,
+      track: suggestion.track,
+      frequency: Math.round(Math.sqrt(low * high)),
+      gain: suggestion.gainReduction,
+      q: suggestion.q,
+      enabled: true,
+      label: band ? band.name : `${Math.round(low)}Hz - ${Math.round(high)}Hz`
+    };
+  });
+}
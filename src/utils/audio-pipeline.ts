@@ -0,0 +1,185 @@
+import {
+  type AudioData,
+  type AudioFeatures,
+  type AudioAnalysis,
+  type AnalysisProgress,
+  type AudioSignal,
+  type CachedAudioAnalysis
+} from '../types/audio';
+import {
+  decodeAudioFile,
+  extractMetadata,
+  extractFeatures,
+  analyzeAudio,
+  toAnalysisProgress,
+  type AnalysisProgressCallback
+} from './audio-processing';
+import { createAnalysisWorker } from './analysis-worker';
+
+// Message sent to the analysis worker. Channel buffers are transferred.
+export interface AnalysisWorkerRequest {
+  sampleRate: number;
+  channels: Float32Array<ArrayBuffer>[];
+}
+
+// Messages streamed back from the analysis worker
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; features: AudioFeatures; analysis: AudioAnalysis }
+  | { type: 'error'; message: string };
+
+export interface ProcessAudioOptions {
+  onProgress?: AnalysisProgressCallback;
+  signal?: AbortSignal;
+}
+
+// True when processing stopped because its AbortSignal fired
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Audio processing was cancelled', 'AbortError');
+}
+
+// Fallback for environments without worker support
+function analyzeOnMainThread(
+  buffer: AudioSignal,
+  { onProgress, signal }: ProcessAudioOptions
+): { features: AudioFeatures; analysis: AudioAnalysis } {
+  // Every progress report is a point where a cancellation can take effect
+  const reportProgress = (progress: AnalysisProgress) => {
+    if (signal?.aborted) throw createAbortError();
+    onProgress?.(progress);
+  };
+
+  const features = extractFeatures(buffer, reportProgress);
+  const analysis = analyzeAudio(buffer, features, reportProgress);
+  if (signal?.aborted) throw createAbortError();
+  return { features, analysis };
+}
+
+/**
+ * Run feature extraction and content analysis for a decoded buffer in a
+ * dedicated worker. The channel data is copied and transferred so the
+ * caller's AudioBuffer stays usable for playback.
+ */
+export function analyzeInWorker(
+  buffer: AudioSignal,
+  options: ProcessAudioOptions = {}
+): Promise<{ features: AudioFeatures; analysis: AudioAnalysis }> {
+  const { onProgress, signal } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  if (typeof Worker === 'undefined') {
+    return new Promise(resolve => resolve(analyzeOnMainThread(buffer, options)));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = createAnalysisWorker();
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        cleanup();
+        resolve({ features: message.features, analysis: message.analysis });
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Audio analysis worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    const channels: Float32Array<ArrayBuffer>[] = [];
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      channels.push(buffer.getChannelData(channel).slice());
+    }
+
+    const request: AnalysisWorkerRequest = {
+      sampleRate: buffer.sampleRate,
+      channels
+    };
+    worker.postMessage(request, channels.map(channel => channel.buffer));
+  });
+}
+
+// Main function to process an audio file
+export async function processAudioFile(
+  file: File,
+  options: ProcessAudioOptions = {}
+): Promise<AudioData> {
+  const { onProgress, signal } = options;
+
+  try {
+    // Decode the audio
+    onProgress?.(toAnalysisProgress('decoding', 0));
+    const buffer = await decodeAudioFile(file);
+    if (signal?.aborted) throw createAbortError();
+
+    // Extract metadata
+    const metadata = extractMetadata(buffer, file);
+    onProgress?.(toAnalysisProgress('decoding', 1));
+
+    // Extract features and analyze content off the main thread
+    const { features, analysis } = await analyzeInWorker(buffer, options);
+
+    // Create object URL for the file once nothing can cancel anymore
+    const url = URL.createObjectURL(file);
+
+    // Return complete audio data
+    return {
+      buffer,
+      file,
+      url,
+      metadata,
+      features,
+      analysis
+    };
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error('Error processing audio file:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rebuild AudioData for a file whose analysis was cached earlier. Only the
+ * decode runs again; features and analysis are taken as given.
+ */
+export async function restoreAudioData(
+  file: File,
+  cached: CachedAudioAnalysis
+): Promise<AudioData> {
+  const buffer = await decodeAudioFile(file);
+  return {
+    buffer,
+    file,
+    url: URL.createObjectURL(file),
+    metadata: cached.metadata,
+    features: cached.features,
+    analysis: cached.analysis
+  };
+}
@@ -1,5 +1,4 @@
 import { 
-  type AudioData, 
   type AudioMetadata, 
   type AudioFeatures, 
   type AudioAnalysis, 
@@ -7,8 +6,20 @@ import {
   type FrequencyPeak, 
   type Beat, 
   type TimeSegment,
-  type FrequencyRange
+  type FrequencyRange,
+  type SpectrogramData,
+  type AudioSignal,
+  type AnalysisStage,
+  type AnalysisProgress,
+  type ChordSegment
 } from '../types/audio';
+import { trackBeats } from './beat-tracking';
+import { analyzeHarmony } from './tonal-analysis';
+import { measureLoudness } from './loudness';
+import { analyzeStereo } from './stereo-analysis';
+import { classifySound } from './sound-classification';
+import { extractSpectralDescriptors } from './feature-extraction';
+import { computeSTFT, binToFrequency, DEFAULT_STFT_OPTIONS, type STFTOptions } from './stft';
 
 // Decode audio file to an AudioBuffer
 export async function decodeAudioFile(file: File): Promise<AudioBuffer> {
@@ -46,25 +57,76 @@ export function extractMetadata(audioBuffer: AudioBuffer, file: File): AudioMeta
   };
 }
 
+// Share of the overall progress owned by each pipeline stage, in percent
+const ANALYSIS_STAGE_RANGES: Record<AnalysisStage, [number, number]> = {
+  decoding: [0, 10],
+  rms: [10, 15],
+  loudness: [15, 20],
+  spectrogram: [20, 60],
+  stereo: [60, 65],
+  descriptors: [65, 70],
+  beats: [70, 80],
+  tonality: [80, 90],
+  analysis: [90, 100]
+};
+
+// Convert progress within a stage (0-1) into overall pipeline progress
+export function toAnalysisProgress(stage: AnalysisStage, fraction: number): AnalysisProgress {
+  const [start, end] = ANALYSIS_STAGE_RANGES[stage];
+  const clamped = Math.min(1, Math.max(0, fraction));
+  return {
+    stage,
+    percent: Math.round(start + (end - start) * clamped)
+  };
+}
+
+export type AnalysisProgressCallback = (progress: AnalysisProgress) => void;
+
 // Extract audio features
-export function extractFeatures(audioBuffer: AudioBuffer): AudioFeatures {
+export function extractFeatures(
+  audioBuffer: AudioSignal,
+  onProgress?: AnalysisProgressCallback
+): AudioFeatures {
   // This is a simplified implementation
   // In a real application, you would use more sophisticated algorithms
   const channelData = audioBuffer.getChannelData(0);
   const sampleRate = audioBuffer.sampleRate;
   
   // Calculate RMS (Root Mean Square) values
+  onProgress?.(toAnalysisProgress('rms', 0));
   const rmsWindowSize = Math.floor(sampleRate * 0.02); // 20ms window
   const rms = calculateRMS(channelData, rmsWindowSize);
   
-  // Detect beats (simplified implementation)
-  const beats = detectBeats(rms, sampleRate);
-  
-  // Detect frequency peaks (simplified implementation)
-  const frequencyPeaks = detectFrequencyPeaks(audioBuffer);
+  // Measure loudness over every channel, as a listener would hear it
+  onProgress?.(toAnalysisProgress('loudness', 0));
+  const loudness = measureLoudness(audioBuffer);
   
   // Generate spectrogram data
-  const spectrogram = generateSpectrogram(audioBuffer);
+  onProgress?.(toAnalysisProgress('spectrogram', 0));
+  const spectrogram = generateSpectrogram(audioBuffer, {}, fraction => {
+    onProgress?.(toAnalysisProgress('spectrogram', fraction));
+  });
+  
+  // Measure the stereo field from the first two channels
+  onProgress?.(toAnalysisProgress('stereo', 0));
+  const stereo = analyzeStereo(audioBuffer);
+  
+  // Describe every frame with MFCCs, spectral shape and pitch, for analysis and display
+  onProgress?.(toAnalysisProgress('descriptors', 0));
+  const descriptors = extractSpectralDescriptors(audioBuffer, spectrogram, fraction => {
+    onProgress?.(toAnalysisProgress('descriptors', fraction));
+  });
+  
+  // Estimate tempo and track beats on the onset envelope
+  onProgress?.(toAnalysisProgress('beats', 0));
+  const { beats, tempo, downbeat } = trackBeats(spectrogram, sampleRate);
+  
+  // Estimate key and a beat-synchronous chord timeline from chroma features
+  onProgress?.(toAnalysisProgress('tonality', 0));
+  const { key, chords } = analyzeHarmony(spectrogram, sampleRate, beats);
+  
+  // Detect frequency peaks from the spectrogram
+  const frequencyPeaks = detectFrequencyPeaks(spectrogram, sampleRate);
   
   // Detect time markers (placeholder)
   const timeMarkers = detectTimeMarkers(beats, frequencyPeaks);
@@ -74,7 +136,14 @@ export function extractFeatures(audioBuffer: AudioBuffer): AudioFeatures {
     frequencyPeaks,
     beats,
     spectrogram,
-    rms
+    rms,
+    loudness,
+    stereo,
+    descriptors,
+    tempo,
+    downbeat,
+    key,
+    chords
   };
 }
 
@@ -97,122 +166,62 @@ function calculateRMS(channelData: Float32Array, windowSize: number): number[] {
   return rmsValues;
 }
 
-// Detect beats (simplified)
-function detectBeats(rmsValues: number[], sampleRate: number): Beat[] {
-  const beats: Beat[] = [];
-  const threshold = 0.05;
-  const minDistance = Math.floor(sampleRate * 0.01 / (sampleRate * 0.02)); // At least 10ms between beats
-  
-  let lastBeatIndex = -minDistance;
-  
-  for (let i = 1; i < rmsValues.length - 1; i++) {
-    if (
-      i - lastBeatIndex >= minDistance &&
-      rmsValues[i] > threshold &&
-      rmsValues[i] > rmsValues[i - 1] &&
-      rmsValues[i] >= rmsValues[i + 1]
-    ) {
-      const time = i * 0.02; // Each RMS value represents 20ms
-      const confidence = Math.min(1, rmsValues[i] * 5);
-      
-      beats.push({
-        time,
-        confidence
-      });
-      
-      lastBeatIndex = i;
-    }
-  }
-  
-  return beats;
-}
-
-// Detect frequency peaks (simplified)
-function detectFrequencyPeaks(audioBuffer: AudioBuffer): FrequencyPeak[] {
+// Detect frequency peaks from the spectrogram frames
+export function detectFrequencyPeaks(spectrogram: SpectrogramData, sampleRate: number): FrequencyPeak[] {
   const peaks: FrequencyPeak[] = [];
-  const sampleRate = audioBuffer.sampleRate;
-  const channelData = audioBuffer.getChannelData(0);
-  
-  const fftSize = 2048;
-  const hopSize = fftSize / 4;
-  
-  for (let offset = 0; offset < channelData.length; offset += hopSize) {
-    const segment = channelData.slice(offset, offset + fftSize);
-    if (segment.length < fftSize) break;
-    
-    // Create FFT analyzer
-    const audioContext = new OfflineAudioContext(1, fftSize, sampleRate);
-    const analyser = audioContext.createAnalyser();
-    analyser.fftSize = fftSize;
-    
-    const source = audioContext.createBufferSource();
-    const tempBuffer = audioContext.createBuffer(1, fftSize, sampleRate);
-    tempBuffer.getChannelData(0).set(segment);
-    source.buffer = tempBuffer;
+  const fftSize = spectrogram.fftSize ?? DEFAULT_STFT_OPTIONS.fftSize;
+  const hopSize = spectrogram.hopSize ?? DEFAULT_STFT_OPTIONS.hopSize;
+  const maxPeaksPerFrame = 5;
+  const threshold = -50; // dB threshold
+  
+  spectrogram.data.forEach((frequencyData, frameIndex) => {
+    const framePeaks: FrequencyPeak[] = [];
+    const time = (frameIndex * hopSize) / sampleRate;
     
-    source.connect(analyser);
-    
-    const frequencyData = new Float32Array(analyser.frequencyBinCount);
-    analyser.getFloatFrequencyData(frequencyData);
-    
-    // Find peaks in frequency data
-    const threshold = -50; // dB threshold
+    // Find local maxima in the frame
     for (let i = 1; i < frequencyData.length - 1; i++) {
       if (
         frequencyData[i] > threshold &&
         frequencyData[i] > frequencyData[i - 1] &&
         frequencyData[i] > frequencyData[i + 1]
       ) {
-        const frequency = i * sampleRate / fftSize;
-        const magnitude = frequencyData[i];
-        const time = offset / sampleRate;
-        
-        peaks.push({
-          frequency,
-          magnitude,
+        framePeaks.push({
+          frequency: binToFrequency(i, fftSize, sampleRate),
+          magnitude: frequencyData[i],
           time
         });
       }
     }
-  }
+    
+    // Keep only the strongest peaks of each frame so dense spectra stay bounded
+    framePeaks
+      .sort((a, b) => b.magnitude - a.magnitude)
+      .slice(0, maxPeaksPerFrame)
+      .forEach(peak => peaks.push(peak));
+  });
   
   // Limit to top peaks
   return peaks.sort((a, b) => b.magnitude - a.magnitude).slice(0, 100);
 }
 
-// Generate spectrogram data
-function generateSpectrogram(audioBuffer: AudioBuffer) {
+// Generate spectrogram data with a short-time Fourier transform
+export function generateSpectrogram(
+  audioBuffer: AudioSignal,
+  options: STFTOptions = {},
+  onProgress?: (fraction: number) => void
+): SpectrogramData {
+  const resolved = { ...DEFAULT_STFT_OPTIONS, scale: 'decibels' as const, ...options };
   const channelData = audioBuffer.getChannelData(0);
-  const fftSize = 2048;
-  const hopSize = fftSize / 4;
-  const spectrogramData: Float32Array[] = [];
-  
-  for (let offset = 0; offset < channelData.length; offset += hopSize) {
-    const segment = channelData.slice(offset, offset + fftSize);
-    if (segment.length < fftSize) break;
-    
-    // Create FFT analyzer
-    const audioContext = new OfflineAudioContext(1, fftSize, audioBuffer.sampleRate);
-    const analyser = audioContext.createAnalyser();
-    analyser.fftSize = fftSize;
-    
-    const source = audioContext.createBufferSource();
-    const tempBuffer = audioContext.createBuffer(1, fftSize, audioBuffer.sampleRate);
-    tempBuffer.getChannelData(0).set(segment);
-    source.buffer = tempBuffer;
-    
-    source.connect(analyser);
-    
-    const frequencyData = new Float32Array(analyser.frequencyBinCount);
-    analyser.getFloatFrequencyData(frequencyData);
-    
-    spectrogramData.push(frequencyData);
-  }
   
   return {
-    data: spectrogramData,
-    minDecibels: -100,
-    maxDecibels: 0
+    data: computeSTFT(channelData, resolved, onProgress),
+    minDecibels: resolved.minDecibels,
+    maxDecibels: 0,
+    scale: resolved.scale,
+    fftSize: resolved.fftSize,
+    hopSize: resolved.hopSize,
+    sampleRate: audioBuffer.sampleRate,
+    windowFunction: resolved.windowFunction
   };
 }
 
@@ -240,22 +249,11 @@ function detectTimeMarkers(
     .slice(0, 5);
   
   significantPeaks.forEach((peak, i) => {
-    let type: 'speech' | 'music' | 'environmental' | 'custom' = 'environmental';
-    
-    // Simple heuristic for type classification
-    if (peak.frequency < 300) {
-      type = 'environmental';
-    } else if (peak.frequency < 3000) {
-      type = 'speech';
-    } else {
-      type = 'music';
-    }
-    
     markers.push({
       id: `peak-${i}`,
       time: peak.time,
-      label: `${type.charAt(0).toUpperCase() + type.slice(1)} @ ${Math.round(peak.frequency)}Hz`,
-      type,
+      label: `Peak @ ${Math.round(peak.frequency)}Hz`,
+      type: 'custom',
       confidence: (peak.magnitude + 100) / 100 // Normalize to 0-1
     });
   });
@@ -264,17 +262,20 @@ function detectTimeMarkers(
 }
 
 // Analyze audio content
-export function analyzeAudio(audioBuffer: AudioBuffer, features: AudioFeatures): AudioAnalysis {
-  // Simplified analysis - in a real application, you'd use machine learning models
-  
-  // Detect speech segments based on frequency content
-  const speechSegments = detectSpeechSegments(features);
-  
-  // Detect music segments based on rhythmic features
-  const musicSegments = detectMusicSegments(audioBuffer, features);
-  
-  // Detect environmental sounds
-  const environmentalSoundSegments = detectEnvironmentalSounds(features);
+export function analyzeAudio(
+  audioBuffer: AudioSignal,
+  features: AudioFeatures,
+  onProgress?: AnalysisProgressCallback
+): AudioAnalysis {
+  onProgress?.(toAnalysisProgress('analysis', 0));
+  
+  // Classify frames as speech, music and environmental sound; the segments
+  // of different classes may overlap
+  const descriptors = features.descriptors ?? extractSpectralDescriptors(audioBuffer, features.spectrogram);
+  const { segments } = classifySound(descriptors, features.spectrogram, audioBuffer.duration);
+  const speechSegments = segments.speech;
+  const musicSegments = segments.music;
+  const environmentalSoundSegments = segments.environmental;
   
   // Analyze dominant frequency ranges
   const dominantFrequencyRanges = analyzeDominantFrequencyRanges(features);
@@ -289,6 +290,8 @@ export function analyzeAudio(audioBuffer: AudioBuffer, features: AudioFeatures):
     dominantFrequencyRanges
   );
   
+  onProgress?.(toAnalysisProgress('analysis', 1));
+  
   return {
     hasSpeech: speechSegments.length > 0,
     speechSegments,
@@ -301,122 +304,8 @@ export function analyzeAudio(audioBuffer: AudioBuffer, features: AudioFeatures):
   };
 }
 
-// Detect speech segments (simplified)
-function detectSpeechSegments(features: AudioFeatures): TimeSegment[] {
-  const segments: TimeSegment[] = [];
-  const speechMarkers = features.timeMarkers.filter(marker => marker.type === 'speech');
-  
-  // Group nearby speech markers into segments
-  const maxGap = 0.5; // Maximum gap between markers to be considered same segment (in seconds)
-  let currentSegment: TimeSegment | null = null;
-  
-  for (const marker of speechMarkers) {
-    if (!currentSegment) {
-      currentSegment = {
-        start: marker.time,
-        end: marker.time + 0.1,
-        type: 'speech',
-        confidence: marker.confidence
-      };
-    } else if (marker.time - currentSegment.end < maxGap) {
-      // Extend current segment
-      currentSegment.end = marker.time + 0.1;
-      currentSegment.confidence = (currentSegment.confidence + marker.confidence) / 2;
-    } else {
-      // Finish current segment and start a new one
-      segments.push(currentSegment);
-      currentSegment = {
-        start: marker.time,
-        end: marker.time + 0.1,
-        type: 'speech',
-        confidence: marker.confidence
-      };
-    }
-  }
-  
-  // Add the last segment if it exists
-  if (currentSegment) {
-    segments.push(currentSegment);
-  }
-  
-  return segments;
-}
-
-// Detect music segments (simplified)
-function detectMusicSegments(audioBuffer: AudioBuffer, features: AudioFeatures): TimeSegment[] {
-  const segments: TimeSegment[] = [];
-  
-  // Use beats to detect rhythmic patterns
-  if (features.beats.length > 10) {
-    // Calculate average beat interval
-    let totalInterval = 0;
-    let intervalCount = 0;
-    
-    for (let i = 1; i < features.beats.length; i++) {
-      const interval = features.beats[i].time - features.beats[i - 1].time;
-      if (interval > 0 && interval < 2) { // Reasonable beat interval
-        totalInterval += interval;
-        intervalCount++;
-      }
-    }
-    
-    const avgInterval = totalInterval / intervalCount;
-    const intervalRegularity = features.beats.length / audioBuffer.duration;
-    
-    // If we have regular beats, consider it music
-    if (intervalRegularity > 0.5 && avgInterval > 0) {
-      segments.push({
-        start: features.beats[0].time,
-        end: features.beats[features.beats.length - 1].time,
-        type: 'music',
-        confidence: 0.7
-      });
-    }
-  }
-  
-  return segments;
-}
-
-// Detect environmental sounds (simplified)
-function detectEnvironmentalSounds(features: AudioFeatures): TimeSegment[] {
-  const segments: TimeSegment[] = [];
-  const envMarkers = features.timeMarkers.filter(marker => marker.type === 'environmental');
-  
-  // Group nearby environmental markers into segments
-  const maxGap = 0.5; // Maximum gap between markers to be considered same segment (in seconds)
-  let currentSegment: TimeSegment | null = null;
-  
-  for (const marker of envMarkers) {
-    if (!currentSegment) {
-      currentSegment = {
-        start: marker.time,
-        end: marker.time + 0.1,
-        type: 'environmental',
-        confidence: marker.confidence
-      };
-    } else if (marker.time - currentSegment.end < maxGap) {
-      // Extend current segment
-      currentSegment.end = marker.time + 0.1;
-      currentSegment.confidence = (currentSegment.confidence + marker.confidence) / 2;
-    } else {
-      // Finish current segment and start a new one
-      segments.push(currentSegment);
-      currentSegment = {
-        start: marker.time,
-        end: marker.time + 0.1,
-        type: 'environmental',
-        confidence: marker.confidence
-      };
-    }
-  }
-  
-  // Add the last segment if it exists
-  if (currentSegment) {
-    segments.push(currentSegment);
-  }
-  
-  return segments;
-}
+// Tempo estimates less periodic than this are not reported
+const MIN_TEMPO_CONFIDENCE = 0.2;
 
 // Analyze dominant frequency ranges
 function analyzeDominantFrequencyRanges(features: AudioFeatures): FrequencyRange[] {
@@ -454,9 +343,25 @@ function analyzeDominantFrequencyRanges(features: AudioFeatures): FrequencyRange
   return ranges;
 }
 
+// Key estimates less correlated than this with their profile are not reported
+const MIN_KEY_CONFIDENCE = 0.5;
+
+// Condense a chord timeline into its opening changes, e.g. "Am - F - C - G"
+export function summarizeChordProgression(chords: ChordSegment[], maxChords: number = 8): string {
+  const labels = chords
+    .filter(chord => chord.label !== 'N')
+    .map(chord => chord.label)
+    .filter((label, i, all) => i === 0 || label !== all[i - 1]);
+  
+  if (labels.length === 0) return '';
+  
+  const shown = labels.slice(0, maxChords).join(' - ');
+  return labels.length > maxChords ? `${shown} ...` : shown;
+}
+
 // Generate audio summary
 function generateAudioSummary(
-  audioBuffer: AudioBuffer,
+  audioBuffer: AudioSignal,
   features: AudioFeatures,
   speechSegments: TimeSegment[],
   musicSegments: TimeSegment[],
@@ -498,15 +403,30 @@ function generateAudioSummary(
     
     summary += `Musical patterns detected for approximately ${musicPercentage.toFixed(1)}% of the audio.\n`;
     
-    // Add information about rhythm if we have beats
-    if (features.beats.length > 0) {
-      const beatsPerMinute = (features.beats.length / audioBuffer.duration) * 60;
-      if (beatsPerMinute > 40) {
-        summary += `The tempo is approximately ${Math.round(beatsPerMinute)} BPM.\n\n`;
+    // Add information about rhythm if we found a periodic beat
+    if (features.tempo && features.tempo.bpm > 0 && features.tempo.confidence >= MIN_TEMPO_CONFIDENCE) {
+      summary += `The tempo is approximately ${Math.round(features.tempo.bpm)} BPM ` +
+        `(${Math.round(features.tempo.confidence * 100)}% confidence).\n`;
+      
+      if (features.downbeat) {
+        summary += `The first downbeat falls at ${features.downbeat.time.toFixed(2)}s ` +
+          `(${features.downbeat.beatsPerBar} beats per bar assumed).\n`;
       }
+      summary += '\n';
     }
   }
   
+  // Describe tonality if there is enough pitched content
+  if (features.key && features.key.confidence >= MIN_KEY_CONFIDENCE) {
+    summary += `Estimated key: ${features.key.name} (${Math.round(features.key.confidence * 100)}% confidence).\n`;
+    
+    const progression = summarizeChordProgression(features.chords ?? []);
+    if (progression) {
+      summary += `Chord progression: ${progression}\n`;
+    }
+    summary += '\n';
+  }
+  
   // Describe dominant frequency characteristics
   const sortedRanges = [...dominantFrequencyRanges].sort((a, b) => b.intensity - a.intensity);
   const topRanges = sortedRanges.filter(r => r.intensity > 0.3).slice(0, 3);
@@ -529,36 +449,3 @@ function generateAudioSummary(
   
   return summary;
 }
-
-// Main function to process an audio file
-export async function processAudioFile(file: File): Promise<AudioData> {
-  try {
-    // Create object URL for the file
-    const url = URL.createObjectURL(file);
-    
-    // Decode the audio
-    const buffer = await decodeAudioFile(file);
-    
-    // Extract metadata
-    const metadata = extractMetadata(buffer, file);
-    
-    // Extract features
-    const features = extractFeatures(buffer);
-    
-    // Analyze audio content
-    const analysis = analyzeAudio(buffer, features);
-    
-    // Return complete audio data
-    return {
-      buffer,
-      file,
-      url,
-      metadata,
-      features,
-      analysis
-    };
-  } catch (error) {
-    console.error('Error processing audio file:', error);
-    throw error;
-  }
-}
@@ -0,0 +1,137 @@
+import * as Tone from 'tone';
+import {
+  type AutomationKeyframe,
+  type MasterAutomation,
+  type SendBuses,
+  type SpatialAudioData
+} from '../types/spatial-audio';
+import { evaluateAutomation } from './automation';
+import { type ChannelStrip, type SendBusNodes } from './mixer-graph';
+import { getSourceEffects } from './source-effects';
+
+// Seconds between automation updates, in live playback and offline renders
+export const AUTOMATION_INTERVAL = 0.01;
+
+// The part of a Tone.js Param or Signal automation writes to, whatever its units
+interface AutomatableParam {
+  setValueAtTime(value: number, time: number): unknown;
+  linearRampToValueAtTime(value: number, time: number): unknown;
+  cancelScheduledValues(time: number): unknown;
+}
+
+// A parameter driven by an automation curve
+export interface AutomationTarget {
+  param: AutomatableParam;
+  keyframes?: AutomationKeyframe[];
+  value: number; // static value, used when there are no keyframes
+  toParam?: (value: number) => number; // convert to the param's units, e.g. gain to decibels
+}
+
+// A target's param value at timeline position `position`
+function getTargetValue(target: AutomationTarget, position: number): number {
+  const value = evaluateAutomation(target.keyframes, position) ?? target.value;
+  return target.toParam ? target.toParam(value) : value;
+}
+
+/**
+ * The position and volume params of a source, driven by its automation.
+ * Given the source's channel strip, its sends and the frequency of every
+ * filter insert and wet level of every distortion insert are driven too.
+ */
+export function getSourceAutomationTargets(
+  source: Pick<SpatialAudioData, 'position' | 'volume' | 'automation' | 'effects'>,
+  player: Tone.Player,
+  panner: Tone.Panner3D,
+  strip?: ChannelStrip
+): AutomationTarget[] {
+  const automation = source.automation ?? {};
+  const targets: AutomationTarget[] = [
+    { param: panner.positionX, keyframes: automation.positionX, value: source.position.x },
+    { param: panner.positionY, keyframes: automation.positionY, value: source.position.y },
+    { param: panner.positionZ, keyframes: automation.positionZ, value: source.position.z },
+    { param: player.volume, keyframes: automation.volume, value: source.volume, toParam: Tone.gainToDb }
+  ];
+  if (!strip) return targets;
+
+  const effects = getSourceEffects(source);
+  targets.push(
+    { param: strip.reverbSend.gain, keyframes: automation.reverbSend, value: effects.reverbSend },
+    { param: strip.delaySend.gain, keyframes: automation.delaySend, value: effects.delaySend }
+  );
+  strip.inserts.forEach(({ insert, node }) => {
+    if (node instanceof Tone.Filter && insert.type === 'filter') {
+      targets.push({ param: node.frequency, keyframes: automation.filterFrequency, value: insert.frequency });
+    } else if (node instanceof Tone.Distortion && insert.type === 'distortion') {
+      targets.push({ param: node.wet, keyframes: automation.distortionWet, value: insert.wet });
+    }
+  });
+  return targets;
+}
+
+// The return levels of the send buses, driven by the master automation
+export function getSendBusAutomationTargets(
+  buses: SendBusNodes,
+  settings: SendBuses,
+  automation: MasterAutomation
+): AutomationTarget[] {
+  return [
+    { param: buses.reverbReturn.gain, keyframes: automation.reverbReturn, value: settings.reverb.returnLevel },
+    { param: buses.delayReturn.gain, keyframes: automation.delayReturn, value: settings.delay.returnLevel }
+  ];
+}
+
+/**
+ * Set targets to their values at timeline position `position` right away,
+ * for when the transport is moved while stopped.
+ */
+export function applyAutomation(targets: AutomationTarget[], position: number): void {
+  const now = Tone.now();
+  targets.forEach(target => {
+    target.param.cancelScheduledValues(now);
+    target.param.setValueAtTime(getTargetValue(target, position), now);
+  });
+}
+
+/**
+ * Drive targets from the transport while it runs, ramping every param to its
+ * value at the transport position every AUTOMATION_INTERVAL. Targets are
+ * read on every update so they can change during playback. Returns a
+ * function that stops following.
+ */
+export function followAutomation(
+  getTargets: () => AutomationTarget[],
+  transport: Tone.TransportInstance = Tone.getTransport()
+): () => void {
+  const eventId = transport.scheduleRepeat(time => {
+    const position = transport.getSecondsAtTime(time);
+    getTargets().forEach(target => {
+      target.param.linearRampToValueAtTime(getTargetValue(target, position), time);
+    });
+  }, AUTOMATION_INTERVAL);
+
+  return () => {
+    transport.clear(eventId);
+  };
+}
+
+/**
+ * Schedule a target for an offline render of `duration` seconds from
+ * timeline position 0. Values between keyframes are sampled every
+ * AUTOMATION_INTERVAL so bezier segments keep their shape.
+ */
+export function renderAutomation(target: AutomationTarget, duration: number): void {
+  target.param.setValueAtTime(getTargetValue(target, 0), 0);
+
+  const keyframes = target.keyframes ?? [];
+  if (keyframes.length < 2) return;
+
+  // The curve is flat before its first keyframe and after its last
+  const from = Math.max(keyframes[0].time, 0);
+  const to = Math.min(keyframes[keyframes.length - 1].time, duration);
+  for (let time = from; time < to; time += AUTOMATION_INTERVAL) {
+    target.param.linearRampToValueAtTime(getTargetValue(target, time), time);
+  }
+  if (to > from) {
+    target.param.linearRampToValueAtTime(getTargetValue(target, to), to);
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  type AutomationKeyframe,
+  type AutomationParameter,
+  type SpatialAudioData,
+  type Vector3D
+} from '../types/spatial-audio';
+
+// Range and label of each automatable parameter, for drawing and editing lanes
+export const AUTOMATION_PARAMETERS: Record<
+  AutomationParameter,
+  { label: string; min: number; max: number; logarithmic?: boolean }
+> = {
+  positionX: { label: 'Position X', min: -5, max: 5 },
+  positionY: { label: 'Position Y', min: 0, max: 5 },
+  positionZ: { label: 'Position Z', min: -5, max: 5 },
+  volume: { label: 'Volume', min: 0, max: 2 },
+  filterFrequency: { label: 'Filter frequency', min: 20, max: 20000, logarithmic: true },
+  distortionWet: { label: 'Distortion wet', min: 0, max: 1 },
+  reverbSend: { label: 'Reverb send', min: 0, max: 1 },
+  delaySend: { label: 'Delay send', min: 0, max: 1 },
+  reverbReturn: { label: 'Reverb return', min: 0, max: 1 },
+  delayReturn: { label: 'Delay return', min: 0, max: 1 }
+};
+
+// Ease in and out, used for bezier segments without handles of their own
+export const DEFAULT_BEZIER_HANDLES: [number, number, number, number] = [0.42, 0, 0.58, 1];
+
+// Minimum time between keyframes written while recording, in seconds
+export const AUTOMATION_RECORD_INTERVAL = 0.05;
+
+// Keyframes closer than this are at the same time
+const SAME_TIME = 0.001;
+
+/**
+ * Progress along a bezier segment at fraction `x` of its duration, for a
+ * curve from (0, 0) to (1, 1) with control points (x1, y1) and (x2, y2).
+ */
+export function evaluateBezier([x1, y1, x2, y2]: [number, number, number, number], x: number): number {
+  const curve = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+  const slope = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * p1 + 6 * (1 - t) * t * (p2 - p1) + 3 * t * t * (1 - p2);
+
+  // Find the curve parameter where x is reached: Newton's method, with
+  // bisection when the slope is too flat to trust
+  let t = x;
+  for (let i = 0; i < 8; i++) {
+    const error = curve(t, x1, x2) - x;
+    const gradient = slope(t, x1, x2);
+    if (Math.abs(error) < 1e-6) return curve(t, y1, y2);
+    if (Math.abs(gradient) < 1e-6) break;
+    t = Math.min(Math.max(t - error / gradient, 0), 1);
+  }
+
+  let low = 0;
+  let high = 1;
+  t = x;
+  for (let i = 0; i < 30; i++) {
+    if (curve(t, x1, x2) < x) low = t;
+    else high = t;
+    t = (low + high) / 2;
+  }
+  return curve(t, y1, y2);
+}
+
+/**
+ * Value of an automation curve at timeline position `time`. The curve holds
+ * the first value before its first keyframe and the last value after its
+ * last one. Undefined when there are no keyframes.
+ */
+export function evaluateAutomation(keyframes: AutomationKeyframe[] | undefined, time: number): number | undefined {
+  if (!keyframes || keyframes.length === 0) return undefined;
+  if (time <= keyframes[0].time) return keyframes[0].value;
+
+  const last = keyframes[keyframes.length - 1];
+  if (time >= last.time) return last.value;
+
+  // Binary search for the segment containing the time
+  let low = 0;
+  let high = keyframes.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (keyframes[middle].time <= time) low = middle;
+    else high = middle;
+  }
+
+  const from = keyframes[low];
+  const to = keyframes[high];
+  const fraction = (time - from.time) / (to.time - from.time);
+  const progress = from.interpolation === 'bezier'
+    ? evaluateBezier(from.handles ?? DEFAULT_BEZIER_HANDLES, fraction)
+    : fraction;
+  return from.value + (to.value - from.value) * progress;
+}
+
+// A curve with `keyframe` added, replacing any keyframe at the same time
+export function setKeyframe(keyframes: AutomationKeyframe[], keyframe: AutomationKeyframe): AutomationKeyframe[] {
+  return [
+    ...keyframes.filter(existing => Math.abs(existing.time - keyframe.time) >= SAME_TIME),
+    keyframe
+  ].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Write a recorded value at `time`. Keyframes after `from`, the time of the
+ * previous recorded value, up to `time` were passed over while recording and
+ * are replaced.
+ */
+export function recordKeyframe(
+  keyframes: AutomationKeyframe[],
+  from: number,
+  time: number,
+  value: number
+): AutomationKeyframe[] {
+  const kept = keyframes.filter(keyframe => keyframe.time <= from || keyframe.time > time);
+  return setKeyframe(kept, { time, value, interpolation: 'linear' });
+}
+
+// A source's position at a timeline position, following any position automation
+export function getAutomatedPosition(source: Pick<SpatialAudioData, 'position' | 'automation'>, time: number): Vector3D {
+  const automation = source.automation ?? {};
+  return {
+    x: evaluateAutomation(automation.positionX, time) ?? source.position.x,
+    y: evaluateAutomation(automation.positionY, time) ?? source.position.y,
+    z: evaluateAutomation(automation.positionZ, time) ?? source.position.z
+  };
+}
@@ -0,0 +1,321 @@
+import {
+  type Beat,
+  type DownbeatEstimate,
+  type SpectrogramData,
+  type TempoEstimate
+} from '../types/audio';
+import { DEFAULT_STFT_OPTIONS } from './stft';
+
+export interface TempoOptions {
+  minBpm?: number;
+  maxBpm?: number;
+  priorBpm?: number; // center of the log-normal tempo prior
+  priorOctaves?: number; // spread of the prior, in octaves
+}
+
+export interface BeatTrackingResult {
+  beats: Beat[];
+  tempo: TempoEstimate;
+  downbeat: DownbeatEstimate | null;
+}
+
+const DEFAULT_TEMPO_OPTIONS: Required<TempoOptions> = {
+  minBpm: 50,
+  maxBpm: 220,
+  priorBpm: 120,
+  priorOctaves: 1
+};
+
+// Number of tempo multiples summed by the comb filter
+const COMB_HARMONICS = 4;
+
+// Beats below this share of the average beat strength are trimmed from the edges
+const EDGE_TRIM_RATIO = 0.25;
+
+/**
+ * Onset strength envelope from spectral flux.
+ * Sums the positive change in log magnitude (dB) between consecutive frames,
+ * optionally restricted to a range of bins. The result is non-negative with
+ * one value per spectrogram frame.
+ */
+export function computeOnsetEnvelope(
+  frames: Float32Array[],
+  startBin: number = 0,
+  endBin?: number
+): Float32Array {
+  const envelope = new Float32Array(frames.length);
+  if (frames.length < 2) return envelope;
+
+  const lastBin = Math.min(endBin ?? frames[0].length, frames[0].length);
+  const binCount = Math.max(1, lastBin - startBin);
+
+  for (let t = 1; t < frames.length; t++) {
+    const current = frames[t];
+    const previous = frames[t - 1];
+    let flux = 0;
+
+    for (let bin = startBin; bin < lastBin; bin++) {
+      const diff = current[bin] - previous[bin];
+      if (diff > 0) flux += diff;
+    }
+
+    envelope[t] = flux / binCount;
+  }
+
+  return envelope;
+}
+
+// Autocorrelation of a mean-removed signal for lags 0..maxLag
+function autocorrelate(signal: Float32Array, maxLag: number): Float32Array {
+  let mean = 0;
+  for (let i = 0; i < signal.length; i++) mean += signal[i];
+  mean /= signal.length || 1;
+
+  const centered = new Float32Array(signal.length);
+  for (let i = 0; i < signal.length; i++) centered[i] = signal[i] - mean;
+
+  const result = new Float32Array(maxLag + 1);
+  for (let lag = 0; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < centered.length; i++) {
+      sum += centered[i] * centered[i - lag];
+    }
+    result[lag] = sum;
+  }
+
+  return result;
+}
+
+// Linear interpolation into an array at a fractional index
+function sampleAt(values: Float32Array, index: number): number {
+  const lower = Math.floor(index);
+  if (lower >= values.length - 1) return values[values.length - 1] ?? 0;
+  const fraction = index - lower;
+  return values[lower] * (1 - fraction) + values[lower + 1] * fraction;
+}
+
+/**
+ * Estimate the tempo of an onset envelope.
+ * Candidate beat periods are scored with a comb filter over the envelope's
+ * autocorrelation (so a true period also gets credit for its multiples) and
+ * weighted by a log-normal prior that favours moderate tempos. Confidence is
+ * the normalized autocorrelation at the chosen period.
+ */
+export function estimateTempo(
+  onsetEnvelope: Float32Array,
+  frameRate: number,
+  options: TempoOptions = {}
+): TempoEstimate {
+  const { minBpm, maxBpm, priorBpm, priorOctaves } = { ...DEFAULT_TEMPO_OPTIONS, ...options };
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / maxBpm));
+  const maxLag = Math.ceil((60 * frameRate) / minBpm);
+
+  if (onsetEnvelope.length <= maxLag * 2) {
+    return { bpm: 0, confidence: 0 };
+  }
+
+  const acf = autocorrelate(onsetEnvelope, Math.min(onsetEnvelope.length - 1, maxLag * COMB_HARMONICS));
+  if (acf[0] <= 0) {
+    return { bpm: 0, confidence: 0 };
+  }
+
+  const scores = new Float32Array(maxLag + 2);
+  let bestLag = -1;
+  let bestScore = -Infinity;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let comb = 0;
+    let weights = 0;
+    for (let harmonic = 1; harmonic <= COMB_HARMONICS; harmonic++) {
+      const harmonicLag = lag * harmonic;
+      if (harmonicLag >= acf.length) break;
+      comb += acf[harmonicLag] / harmonic;
+      weights += 1 / harmonic;
+    }
+
+    const bpm = (60 * frameRate) / lag;
+    const octaves = Math.log2(bpm / priorBpm) / priorOctaves;
+    const prior = Math.exp(-0.5 * octaves * octaves);
+
+    scores[lag] = (comb / weights / acf[0]) * prior;
+    if (scores[lag] > bestScore) {
+      bestScore = scores[lag];
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag < 0 || bestScore <= 0) {
+    return { bpm: 0, confidence: 0 };
+  }
+
+  // Refine the period with parabolic interpolation between neighbouring lags
+  let period = bestLag;
+  if (bestLag > minLag && bestLag < maxLag) {
+    const left = scores[bestLag - 1];
+    const right = scores[bestLag + 1];
+    const denominator = left - 2 * bestScore + right;
+    if (denominator < 0) {
+      period += (0.5 * (left - right)) / denominator;
+    }
+  }
+
+  const confidence = Math.min(1, Math.max(0, sampleAt(acf, period) / acf[0]));
+
+  return {
+    bpm: (60 * frameRate) / period,
+    confidence
+  };
+}
+
+/**
+ * Dynamic-programming beat tracker (Ellis, 2007).
+ * Picks the sequence of onset frames that maximizes onset strength while
+ * keeping inter-beat intervals close to `period` frames. Returns frame indices.
+ */
+export function trackBeatFrames(
+  onsetEnvelope: Float32Array,
+  period: number,
+  tightness: number = 100
+): number[] {
+  const length = onsetEnvelope.length;
+  if (length === 0 || period <= 0) return [];
+
+  // Normalize so tightness has the same meaning regardless of signal level
+  let sumSquares = 0;
+  for (let i = 0; i < length; i++) sumSquares += onsetEnvelope[i] * onsetEnvelope[i];
+  const scale = Math.sqrt(sumSquares / length) || 1;
+
+  const localScore = new Float32Array(length);
+  for (let i = 0; i < length; i++) localScore[i] = onsetEnvelope[i] / scale;
+
+  const cumulativeScore = new Float32Array(length);
+  const backlink = new Int32Array(length).fill(-1);
+  const searchStart = Math.round(2 * period);
+  const searchEnd = Math.max(1, Math.round(period / 2));
+
+  for (let t = 0; t < length; t++) {
+    let bestPrevious = -1;
+    let bestScore = -Infinity;
+
+    for (let previous = t - searchStart; previous <= t - searchEnd; previous++) {
+      if (previous < 0) continue;
+      const interval = Math.log((t - previous) / period);
+      const score = cumulativeScore[previous] - tightness * interval * interval;
+      if (score > bestScore) {
+        bestScore = score;
+        bestPrevious = previous;
+      }
+    }
+
+    cumulativeScore[t] = localScore[t] + (bestPrevious >= 0 ? bestScore : 0);
+    backlink[t] = bestPrevious;
+  }
+
+  // Start the backtrace from the best-scoring frame within the final period
+  let last = length - 1;
+  for (let t = Math.max(0, length - Math.ceil(period)); t < length; t++) {
+    if (cumulativeScore[t] > cumulativeScore[last]) last = t;
+  }
+
+  const frames: number[] = [];
+  for (let t = last; t >= 0; t = backlink[t]) {
+    frames.push(t);
+  }
+  frames.reverse();
+
+  // Trim beats that fall in silence at the start and end of the signal
+  const strengths = frames.map(frame => localScore[frame]);
+  const averageStrength = strengths.reduce((sum, value) => sum + value, 0) / (strengths.length || 1);
+  const threshold = averageStrength * EDGE_TRIM_RATIO;
+
+  let first = 0;
+  while (first < frames.length && strengths[first] < threshold) first++;
+  let end = frames.length;
+  while (end > first && strengths[end - 1] < threshold) end--;
+
+  return frames.slice(first, end);
+}
+
+/**
+ * Estimate which beat of the bar is the downbeat.
+ * Bars usually start with the strongest low-frequency onset (kick drum or
+ * bass note), so every phase of the bar is scored by its average
+ * low-frequency onset strength.
+ */
+export function estimateDownbeat(
+  beatFrames: number[],
+  lowFrequencyEnvelope: Float32Array,
+  frameToTime: (frame: number) => number,
+  beatsPerBar: number = 4
+): DownbeatEstimate | null {
+  if (beatFrames.length < beatsPerBar * 2) return null;
+
+  const phaseScores = new Array(beatsPerBar).fill(0);
+  const phaseCounts = new Array(beatsPerBar).fill(0);
+
+  beatFrames.forEach((frame, index) => {
+    // Take the strongest value near the beat to tolerate small timing offsets
+    let strength = 0;
+    for (let offset = -1; offset <= 1; offset++) {
+      strength = Math.max(strength, lowFrequencyEnvelope[frame + offset] ?? 0);
+    }
+    phaseScores[index % beatsPerBar] += strength;
+    phaseCounts[index % beatsPerBar]++;
+  });
+
+  const averages = phaseScores.map((score, phase) => score / (phaseCounts[phase] || 1));
+  const ranked = [...averages].sort((a, b) => b - a);
+  const beatIndex = averages.indexOf(ranked[0]);
+
+  if (ranked[0] <= 0) return null;
+
+  return {
+    time: frameToTime(beatFrames[beatIndex]),
+    beatIndex,
+    beatsPerBar,
+    confidence: Math.min(1, (ranked[0] - ranked[1]) / ranked[0])
+  };
+}
+
+/**
+ * Full tempo and beat-grid estimation from a decibel spectrogram.
+ */
+export function trackBeats(
+  spectrogram: SpectrogramData,
+  sampleRate: number,
+  options: TempoOptions = {}
+): BeatTrackingResult {
+  const fftSize = spectrogram.fftSize ?? DEFAULT_STFT_OPTIONS.fftSize;
+  const hopSize = spectrogram.hopSize ?? DEFAULT_STFT_OPTIONS.hopSize;
+  const frameRate = sampleRate / hopSize;
+  // Report beats at the center of the analysis window
+  const frameToTime = (frame: number) => (frame * hopSize + fftSize / 2) / sampleRate;
+
+  const onsetEnvelope = computeOnsetEnvelope(spectrogram.data);
+  const tempo = estimateTempo(onsetEnvelope, frameRate, options);
+
+  if (tempo.bpm <= 0) {
+    return { beats: [], tempo, downbeat: null };
+  }
+
+  const period = (60 * frameRate) / tempo.bpm;
+  const beatFrames = trackBeatFrames(onsetEnvelope, period);
+
+  let maxStrength = 0;
+  beatFrames.forEach(frame => {
+    maxStrength = Math.max(maxStrength, onsetEnvelope[frame]);
+  });
+
+  // Below ~200 Hz, where kick drums and bass lines mark the bar
+  const lowFrequencyEnd = Math.max(2, Math.round((200 * fftSize) / sampleRate));
+  const lowFrequencyEnvelope = computeOnsetEnvelope(spectrogram.data, 1, lowFrequencyEnd);
+  const downbeat = estimateDownbeat(beatFrames, lowFrequencyEnvelope, frameToTime);
+
+  const beats: Beat[] = beatFrames.map((frame, index) => ({
+    time: frameToTime(frame),
+    confidence: maxStrength > 0 ? onsetEnvelope[frame] / maxStrength : 0,
+    isDownbeat: downbeat ? (index - downbeat.beatIndex) % downbeat.beatsPerBar === 0 : undefined
+  }));
+
+  return { beats, tempo, downbeat };
+}
@@ -0,0 +1,155 @@
+import * as Tone from 'tone';
+import {
+  type CameraPathKeyframe,
+  type ListenerPose,
+  type SpatialAudioData,
+  type SpatialAudioEnvironment
+} from '../types/spatial-audio';
+import { getSourceAutomationTargets, renderAutomation } from './automation-playback';
+import { configureClipPlayer, startClip } from './clip-playback';
+import { PANNER_OPTIONS, runOfflineRender, type RenderOptions } from './offline-render';
+import { getSourceClip, getTimelineDuration } from './timeline';
+
+export interface BinauralRenderOptions extends RenderOptions {
+  cameraPath?: CameraPathKeyframe[]; // listener follows this path instead of staying put
+}
+
+// Extra time rendered after the last source ends so the room reverb rings out
+const REVERB_TAIL_SECONDS = 3;
+
+/**
+ * Snapshot the scene for rendering: source positions and volumes, where the
+ * listener stands and faces, and the room reverb.
+ */
+export function captureSpatialEnvironment(
+  sources: SpatialAudioData[],
+  listener: ListenerPose,
+  room: { reverbLevel: number; roomSize: number }
+): SpatialAudioEnvironment {
+  return {
+    audioSources: sources.map(source => ({
+      ...source,
+      position: { ...source.position }
+    })),
+    listenerPosition: { ...listener.position },
+    listenerOrientation: {
+      forward: { ...listener.orientation.forward },
+      up: { ...listener.orientation.up }
+    },
+    reverbLevel: room.reverbLevel,
+    roomSize: room.roomSize
+  };
+}
+
+// Set the listener to a pose, or ramp to it when `time` is given
+function applyListenerPose(listener: Tone.ListenerInstance, pose: ListenerPose, time?: number): void {
+  const values: [Tone.Param, number][] = [
+    [listener.positionX, pose.position.x],
+    [listener.positionY, pose.position.y],
+    [listener.positionZ, pose.position.z],
+    [listener.forwardX, pose.orientation.forward.x],
+    [listener.forwardY, pose.orientation.forward.y],
+    [listener.forwardZ, pose.orientation.forward.z],
+    [listener.upX, pose.orientation.up.x],
+    [listener.upY, pose.orientation.up.y],
+    [listener.upZ, pose.orientation.up.z]
+  ];
+
+  values.forEach(([param, value]) => {
+    if (time === undefined) {
+      param.setValueAtTime(value, 0);
+    } else {
+      // The panner normalizes orientation vectors, so ramping their components
+      // interpolates the direction between keyframes
+      param.linearRampToValueAtTime(value, time);
+    }
+  });
+}
+
+/**
+ * Length of a binaural render in seconds: up to where the last clip ends,
+ * plus a reverb tail when the room has reverb.
+ */
+export function getBinauralDuration(environment: SpatialAudioEnvironment): number {
+  const end = getTimelineDuration(environment.audioSources, 1);
+  return end + (environment.reverbLevel > 0 ? REVERB_TAIL_SECONDS : 0);
+}
+
+/**
+ * Render a spatial scene to a stereo AudioBuffer for headphones.
+ * Every source plays its clip through an HRTF panner at its position,
+ * following its position and volume automation.
+ * The listener either stays at the captured pose or, given a camera path,
+ * moves along it with time 0 of the path at the start of the render and
+ * holds the final pose once the path ends.
+ */
+export async function renderBinaural(
+  environment: SpatialAudioEnvironment,
+  options: BinauralRenderOptions = {}
+): Promise<AudioBuffer> {
+  const { sampleRate = 44100, cameraPath = [], onProgress, signal } = options;
+
+  if (environment.audioSources.length === 0) {
+    throw new Error('There are no audio sources in the scene to render');
+  }
+
+  const duration = getBinauralDuration(environment);
+  const offline = new Tone.OfflineContext(2, duration, sampleRate);
+  const previousContext = Tone.getContext();
+  const nodes: Tone.ToneAudioNode[] = [];
+  let reverbReady = Promise.resolve();
+
+  try {
+    // Nodes are created in the offline context while it is the global one
+    Tone.setContext(offline);
+
+    const bus = new Tone.Gain();
+    nodes.push(bus);
+    if (environment.reverbLevel > 0) {
+      const reverb = new Tone.Reverb({ decay: environment.roomSize, wet: environment.reverbLevel });
+      reverbReady = reverb.ready;
+      nodes.push(reverb);
+      bus.chain(reverb, offline.destination);
+    } else {
+      bus.connect(offline.destination);
+    }
+
+    const startPose = cameraPath[0] ?? {
+      position: environment.listenerPosition,
+      orientation: environment.listenerOrientation
+    };
+    applyListenerPose(offline.listener, startPose);
+    cameraPath.slice(1).forEach(keyframe => {
+      applyListenerPose(offline.listener, keyframe, keyframe.time - cameraPath[0].time);
+    });
+
+    environment.audioSources.forEach(source => {
+      const player = new Tone.Player(source.buffer);
+
+      const panner = new Tone.Panner3D({
+        ...PANNER_OPTIONS,
+        positionX: source.position.x,
+        positionY: source.position.y,
+        positionZ: source.position.z
+      });
+
+      player.connect(panner);
+      panner.connect(bus);
+      const clip = getSourceClip(source);
+      configureClipPlayer(player, clip);
+      startClip(player, clip, 1, clip.start);
+      getSourceAutomationTargets(source, player, panner).forEach(target => renderAutomation(target, duration));
+      nodes.push(player, panner);
+    });
+  } finally {
+    Tone.setContext(previousContext);
+  }
+
+  try {
+    // The reverb impulse response is generated asynchronously
+    await reverbReady;
+    return await runOfflineRender(offline, duration, { onProgress, signal });
+  } finally {
+    nodes.forEach(node => node.dispose());
+  }
+}
@@ -0,0 +1,83 @@
+import * as Tone from 'tone';
+import { type TimelineClip } from '../types/spatial-audio';
+import { getClipEnd, getClipPlayback } from './timeline';
+
+// Set a player up for a clip: loop over the trimmed region and fade out at its end
+export function configureClipPlayer(player: Tone.Player, clip: TimelineClip): void {
+  player.loop = clip.loop;
+  player.loopStart = clip.trimStart;
+  player.loopEnd = clip.trimEnd;
+  player.fadeOut = clip.fadeOut;
+}
+
+/**
+ * Start a player at context time `time` on the part of its clip that plays
+ * from timeline position `position` on. The fade-in only covers what is left
+ * of it, so starting mid-clip doesn't fade in again. Returns false when the
+ * clip isn't playing at that position.
+ */
+export function startClip(
+  player: Tone.Player,
+  clip: TimelineClip,
+  playbackSpeed: number,
+  time: number,
+  position: number = clip.start
+): boolean {
+  const playback = getClipPlayback(clip, playbackSpeed, position);
+  if (!playback) return false;
+
+  player.fadeIn = Math.max(clip.fadeIn - (position - clip.start), 0);
+  player.start(time, playback.offset, playback.duration);
+  return true;
+}
+
+/**
+ * Play a clip whenever the transport passes over it. Starting or seeking the
+ * transport into the middle of the clip starts the player at the matching
+ * point of the file, so every clip on the transport stays sample-aligned.
+ * Returns a function that takes the clip off the transport.
+ */
+export function scheduleClip(
+  player: Tone.Player,
+  clip: TimelineClip,
+  playbackSpeed: number,
+  transport: Tone.TransportInstance = Tone.getTransport()
+): () => void {
+  configureClipPlayer(player, clip);
+
+  const eventId = transport.schedule(time => {
+    startClip(player, clip, playbackSpeed, time);
+  }, clip.start);
+
+  // The transport reports the position it (re)starts from, also after a seek
+  const handleStart = (time: number, position: number) => {
+    if (position > clip.start && position < getClipEnd(clip, playbackSpeed)) {
+      startClip(player, clip, playbackSpeed, time, position);
+    }
+  };
+  const handleStop = (time: number) => {
+    player.stop(time);
+  };
+
+  transport.on('start', handleStart);
+  transport.on('loopStart', handleStart);
+  transport.on('stop', handleStop);
+  transport.on('pause', handleStop);
+  transport.on('loopEnd', handleStop);
+
+  // Rescheduling during playback picks up where the transport is now
+  if (transport.state === 'started') {
+    const now = player.now();
+    handleStart(now, transport.getSecondsAtTime(now));
+  }
+
+  return () => {
+    transport.clear(eventId);
+    transport.off('start', handleStart);
+    transport.off('loopStart', handleStart);
+    transport.off('stop', handleStop);
+    transport.off('pause', handleStop);
+    transport.off('loopEnd', handleStop);
+    player.stop();
+  };
+}
@@ -0,0 +1,12 @@
+// Save a blob through a temporary download link
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers only start reading the blob after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
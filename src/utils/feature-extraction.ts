@@ -0,0 +1,105 @@
+import { type AudioSignal, type SpectralDescriptors, type SpectrogramData } from '../types/audio';
+import { computeSTFT, DEFAULT_STFT_OPTIONS } from './stft';
+import {
+  computeMFCC,
+  computeSpectralBandwidth,
+  computeSpectralCentroid,
+  computeSpectralContrast,
+  computeSpectralFlatness,
+  computeSpectralRolloff,
+  computeZeroCrossingRate,
+  estimatePitch,
+  toPowerSpectrum
+} from './spectral-features';
+
+// Descriptors are taken about this far apart, in seconds
+const TARGET_FRAME_DURATION = 0.02;
+
+/**
+ * Compute MFCCs, spectral shape, contrast, zero-crossing rate and pitch for
+ * every frame of a signal's first channel. Reuses `spectrogram` when it is
+ * given (taking every few of its frames, about every 20 ms), otherwise runs
+ * its own STFT with the default options.
+ * `onProgress` receives the fraction of frames described so far.
+ */
+export function extractSpectralDescriptors(
+  signal: AudioSignal,
+  spectrogram?: SpectrogramData,
+  onProgress?: (fraction: number) => void
+): SpectralDescriptors {
+  const { sampleRate } = signal;
+  const samples = signal.length > 0 ? signal.getChannelData(0) : new Float32Array(0);
+  const fftSize = spectrogram?.fftSize ?? DEFAULT_STFT_OPTIONS.fftSize;
+  const spectrumHop = spectrogram?.hopSize ?? DEFAULT_STFT_OPTIONS.hopSize;
+  const windowFunction = spectrogram?.windowFunction ?? DEFAULT_STFT_OPTIONS.windowFunction;
+  const stride = Math.max(1, Math.round((TARGET_FRAME_DURATION * sampleRate) / spectrumHop));
+  const hopSize = stride * spectrumHop;
+
+  // Without a spectrogram, compute power spectra at the descriptor hop directly
+  const spectra = spectrogram
+    ? spectrogram.data.filter((_, index) => index % stride === 0)
+    : computeSTFT(samples, { fftSize, hopSize, windowFunction, scale: 'power' });
+  const scale = spectrogram ? spectrogram.scale ?? 'decibels' : 'power';
+
+  const count = spectra.length;
+  const descriptors: SpectralDescriptors = {
+    frameDuration: hopSize / sampleRate,
+    hopSize,
+    fftSize,
+    sampleRate,
+    level: new Float32Array(count),
+    mfcc: [],
+    centroid: new Float32Array(count),
+    bandwidth: new Float32Array(count),
+    rolloff: new Float32Array(count),
+    flatness: new Float32Array(count),
+    contrast: [],
+    zeroCrossingRate: new Float32Array(count),
+    pitch: new Float32Array(count),
+    pitchClarity: new Float32Array(count)
+  };
+
+  const progressInterval = Math.max(1, Math.floor(count / 20));
+  spectra.forEach((spectrum, frame) => {
+    const power = toPowerSpectrum(spectrum, scale);
+    const offset = frame * hopSize;
+    let total = 0;
+    for (let bin = 0; bin < power.length; bin++) total += power[bin];
+
+    const centroid = computeSpectralCentroid(power, sampleRate);
+    const pitch = estimatePitch(power, sampleRate, {}, windowFunction);
+    descriptors.level[frame] = total > 0 ? 10 * Math.log10(total) : -Infinity;
+    descriptors.mfcc.push(computeMFCC(power, sampleRate));
+    descriptors.centroid[frame] = centroid;
+    descriptors.bandwidth[frame] = computeSpectralBandwidth(power, sampleRate, centroid);
+    descriptors.rolloff[frame] = computeSpectralRolloff(power, sampleRate);
+    descriptors.flatness[frame] = computeSpectralFlatness(power);
+    descriptors.contrast.push(computeSpectralContrast(power, sampleRate));
+    descriptors.zeroCrossingRate[frame] = computeZeroCrossingRate(samples.subarray(offset, offset + fftSize));
+    descriptors.pitch[frame] = pitch.frequency;
+    descriptors.pitchClarity[frame] = pitch.clarity;
+
+    if (onProgress && (frame + 1) % progressInterval === 0) {
+      onProgress((frame + 1) / count);
+    }
+  });
+
+  return descriptors;
+}
+
+// Buffers of every descriptor series, to transfer them from a worker without copying
+export function getDescriptorBuffers(descriptors: SpectralDescriptors): ArrayBuffer[] {
+  const { level, centroid, bandwidth, rolloff, flatness, zeroCrossingRate, pitch, pitchClarity } = descriptors;
+  return [
+    level,
+    centroid,
+    bandwidth,
+    rolloff,
+    flatness,
+    zeroCrossingRate,
+    pitch,
+    pitchClarity,
+    ...descriptors.mfcc,
+    ...descriptors.contrast
+  ].map(series => series.buffer as ArrayBuffer);
+}
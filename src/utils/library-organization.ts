@@ -0,0 +1,82 @@
+import { type AudioLibraryItem } from '../types/spatial-audio';
+
+export type LibrarySortKey = 'added' | 'name' | 'duration' | 'folder';
+
+export interface LibraryFolderGroup {
+  folder: string | null; // null for items outside any folder
+  items: AudioLibraryItem[];
+}
+
+// Normalize user-entered tags: trimmed, lower case, no blanks or duplicates
+export function parseTags(input: string): string[] {
+  const tags = input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Items matching every word of `query` in their name, folder or tags.
+ * "#word" only matches tags.
+ */
+export function filterLibraryItems(items: AudioLibraryItem[], query: string): AudioLibraryItem[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return items;
+
+  return items.filter(item => {
+    const tags = item.tags ?? [];
+    const text = `${item.name} ${item.folder ?? ''} ${tags.join(' ')}`.toLowerCase();
+    return words.every(word => (
+      word.startsWith('#')
+        ? tags.some(tag => tag.startsWith(word.slice(1)))
+        : text.includes(word)
+    ));
+  });
+}
+
+function compareNames(a: AudioLibraryItem, b: AudioLibraryItem): number {
+  return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * A sorted copy of `items`. Items whose duration isn't known until they are
+ * analyzed sort after the rest.
+ */
+export function sortLibraryItems(items: AudioLibraryItem[], key: LibrarySortKey): AudioLibraryItem[] {
+  const sorted = [...items];
+
+  switch (key) {
+    case 'name':
+      return sorted.sort(compareNames);
+    case 'duration':
+      return sorted.sort((a, b) => {
+        const durationA = a.cachedAnalysis?.metadata.duration ?? Infinity;
+        const durationB = b.cachedAnalysis?.metadata.duration ?? Infinity;
+        return durationA === durationB ? compareNames(a, b) : durationA - durationB;
+      });
+    case 'folder':
+      return sorted.sort((a, b) => (
+        (a.folder ?? '').localeCompare(b.folder ?? '', undefined, { sensitivity: 'base' }) || compareNames(a, b)
+      ));
+    case 'added':
+    default:
+      return sorted.sort((a, b) => (a.addedAt ?? 0) - (b.addedAt ?? 0));
+  }
+}
+
+/**
+ * Group items by folder, keeping their order within each folder. Folders are
+ * listed alphabetically, followed by the items outside any folder.
+ */
+export function groupLibraryItemsByFolder(items: AudioLibraryItem[]): LibraryFolderGroup[] {
+  const groups = new Map<string | null, AudioLibraryItem[]>();
+  items.forEach(item => {
+    const folder = item.folder || null;
+    groups.set(folder, [...(groups.get(folder) ?? []), item]);
+  });
+
+  return Array.from(groups, ([folder, groupItems]) => ({ folder, items: groupItems }))
+    .sort((a, b) => {
+      if (a.folder === null) return 1;
+      if (b.folder === null) return -1;
+      return a.folder.localeCompare(b.folder, undefined, { sensitivity: 'base' });
+    });
+}
@@ -0,0 +1,196 @@
+import {
+  type AudioAnalysis,
+  type AudioFeatures,
+  type AudioMetadata,
+  type CachedAudioAnalysis
+} from '../types/audio';
+
+// A library item as persisted: the raw file plus, once analyzed, its cached
+// analysis so restoring it only needs a decode
+export interface StoredLibraryItem {
+  id: string;
+  name: string;
+  color: string;
+  addedAt: number; // ms since epoch, restores the library order
+  folder?: string;
+  tags?: string[];
+  file: {
+    name: string;
+    type: string;
+    lastModified: number;
+    data: ArrayBuffer;
+  };
+  metadata?: AudioMetadata;
+  features?: AudioFeatures;
+  analysis?: AudioAnalysis;
+}
+
+// Everything about a stored item that can change after it was added
+export type StoredItemChanges = Partial<Omit<StoredLibraryItem, 'id' | 'file'>>;
+
+export interface LibraryStorage {
+  getAll(): Promise<StoredLibraryItem[]>; // oldest first
+  put(item: StoredLibraryItem): Promise<void>;
+  update(id: string, changes: StoredItemChanges): Promise<void>; // no-op for unknown ids
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DATABASE_NAME = 'know-audio';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'library-items';
+
+// Read a file's bytes with FileReader, which every environment we run in has
+function readFileData(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * Build the stored form of a library item, with its analysis when the item
+ * has been analyzed already.
+ */
+export async function createStoredItem(
+  item: Pick<StoredLibraryItem, 'id' | 'name' | 'color' | 'addedAt' | 'folder' | 'tags'>,
+  file: File,
+  cachedAnalysis?: CachedAudioAnalysis
+): Promise<StoredLibraryItem> {
+  return {
+    ...item,
+    file: {
+      name: file.name,
+      type: file.type,
+      lastModified: file.lastModified,
+      data: await readFileData(file)
+    },
+    ...cachedAnalysis
+  };
+}
+
+// The cached analysis of a stored item, if it was analyzed before storing
+export function getStoredItemAnalysis(item: StoredLibraryItem): CachedAudioAnalysis | undefined {
+  const { metadata, features, analysis } = item;
+  return metadata && features && analysis ? { metadata, features, analysis } : undefined;
+}
+
+// Rebuild the original File of a stored item
+export function getStoredItemFile(item: StoredLibraryItem): File {
+  return new File([item.file.data], item.file.name, {
+    type: item.file.type,
+    lastModified: item.file.lastModified
+  });
+}
+
+/**
+ * Approximate bytes an item takes in storage: the file plus the cached
+ * spectrogram, which dominates the size of the analysis.
+ */
+export function getStoredItemSize(item: StoredLibraryItem): number {
+  return estimateStoredSize(item.file.data.byteLength, item.features);
+}
+
+// The same estimate from a file size and the features that will be cached with it
+export function estimateStoredSize(fileBytes: number, features?: AudioFeatures): number {
+  const frames = features?.spectrogram.data ?? [];
+  return fileBytes + frames.reduce((sum, frame) => sum + frame.byteLength, 0);
+}
+
+// Settle with a request's result once its transaction has committed
+function runTransaction<T>(
+  database: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error('Library storage request failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Library storage transaction was aborted'));
+  });
+}
+
+/**
+ * Library storage backed by IndexedDB. The database is opened on first use.
+ * `factory` defaults to the browser's IndexedDB and can be swapped for an
+ * in-memory implementation in tests.
+ */
+export function createIndexedDBLibraryStorage(
+  factory: IDBFactory = indexedDB,
+  databaseName = DATABASE_NAME
+): LibraryStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(databaseName, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        const upgrading = request.result;
+        if (!upgrading.objectStoreNames.contains(STORE_NAME)) {
+          upgrading.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open the library database'));
+      request.onblocked = () => reject(new Error('The library database is in use by another tab'));
+    }).catch(error => {
+      // Let the next call try again
+      database = null;
+      throw error;
+    });
+    return database;
+  };
+
+  return {
+    async getAll() {
+      const items = await runTransaction(await openDatabase(), 'readonly', store => store.getAll());
+      return (items as StoredLibraryItem[]).sort((a, b) => a.addedAt - b.addedAt);
+    },
+    async put(item) {
+      await runTransaction(await openDatabase(), 'readwrite', store => store.put(item));
+    },
+    async update(id, changes) {
+      // Read and write in one transaction so concurrent updates don't interleave
+      await runTransaction(await openDatabase(), 'readwrite', store => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          const item = request.result as StoredLibraryItem | undefined;
+          if (item) store.put({ ...item, ...changes, id });
+        };
+        return request;
+      });
+    },
+    async delete(id) {
+      await runTransaction(await openDatabase(), 'readwrite', store => store.delete(id));
+    },
+    async clear() {
+      await runTransaction(await openDatabase(), 'readwrite', store => store.clear());
+    }
+  };
+}
+
+// IndexedDB storage when the environment has it, otherwise nothing persists
+export function getDefaultLibraryStorage(): LibraryStorage | null {
+  return typeof indexedDB === 'undefined' ? null : createIndexedDBLibraryStorage();
+}
+
+/**
+ * Bytes the browser lets this origin store, or null when it won't say.
+ */
+export async function getStorageQuota(): Promise<number | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
+  try {
+    const { quota } = await navigator.storage.estimate();
+    return quota ?? null;
+  } catch (error) {
+    console.error('Error estimating storage quota:', error);
+    return null;
+  }
+}
@@ -0,0 +1,301 @@
+// Bands per octave of the real-time analyzer
+export type OctaveFraction = 3 | 6;
+
+export type FrequencyWeighting = 'A' | 'C' | 'Z';
+
+// Exponential time weighting of the level meter, as on a sound level meter
+export type TimeWeighting = 'fast' | 'slow';
+
+// How successive RTA frames are combined
+export type RtaAveraging = 'exponential' | 'linear' | 'infinite';
+
+export interface OctaveBand {
+  center: number; // Hz
+  low: number; // Hz, lower band edge
+  high: number; // Hz, upper band edge
+  label: string; // nominal center, e.g. '31.5' or '1k'
+}
+
+export interface RtaOptions {
+  averaging: RtaAveraging;
+  averagingTime: number; // seconds: time constant when exponential, window length when linear
+  peakHoldTime: number; // seconds a band peak is held before it falls
+  peakDecay: number; // dB per second a released peak falls
+}
+
+export const DEFAULT_RTA_OPTIONS: RtaOptions = {
+  averaging: 'exponential',
+  averagingTime: 0.5,
+  peakHoldTime: 2,
+  peakDecay: 20
+};
+
+// Band levels in dBFS RMS; peaks fall back after a while, the max-hold trace never does
+export interface RtaReading {
+  levels: Float32Array;
+  peaks: Float32Array;
+  maxHold: Float32Array;
+}
+
+export interface LevelReading {
+  level: number; // time-weighted dBFS RMS
+  max: number; // highest level since the meter was reset
+  peak: number; // sample peak of the latest block, dBFS
+  crestFactor: number; // dB between the latest block's peak and its RMS
+}
+
+export interface RtaAverager {
+  update(powers: Float64Array, elapsed: number): RtaReading;
+  reset(): void;
+}
+
+export interface LevelMeter {
+  update(spectrum: Float32Array, samples: Float32Array, sampleRate: number, elapsed: number): LevelReading;
+  reset(): void;
+}
+
+// What the measurement view analyses and how
+export interface MeasurementSettings {
+  fraction: OctaveFraction;
+  averaging: RtaAveraging;
+  weighting: FrequencyWeighting;
+  timeWeighting: TimeWeighting;
+}
+
+export const DEFAULT_MEASUREMENT_SETTINGS: MeasurementSettings = {
+  fraction: 3,
+  averaging: 'exponential',
+  weighting: 'A',
+  timeWeighting: 'fast'
+};
+
+export const TIME_WEIGHTING_CONSTANTS: Record<TimeWeighting, number> = { fast: 0.125, slow: 1 };
+
+// Base-ten octave ratio of IEC 61260
+const OCTAVE_RATIO = Math.pow(10, 0.3);
+
+// Mean square of the Blackman window the AnalyserNode applies, used to turn
+// its bin magnitudes back into signal power
+const BLACKMAN_POWER_GAIN = 0.42 * 0.42 + (0.5 * 0.5) / 2 + (0.08 * 0.08) / 2;
+
+// Preferred numbers of the 1/3-octave series within a decade
+const THIRD_OCTAVE_NOMINALS = [1, 1.25, 1.6, 2, 2.5, 3.15, 4, 5, 6.3, 8];
+
+function powerToDecibels(power: number): number {
+  return power > 0 ? 10 * Math.log10(power) : -Infinity;
+}
+
+function formatBandLabel(center: number, fraction: OctaveFraction): string {
+  let nominal = Number(center.toPrecision(2));
+  if (fraction === 3) {
+    const decade = Math.pow(10, Math.floor(Math.log10(center)));
+    const mantissa = THIRD_OCTAVE_NOMINALS.reduce((best, value) =>
+      Math.abs(Math.log(value * decade / center)) < Math.abs(Math.log(best * decade / center)) ? value : best
+    );
+    nominal = Math.round(mantissa * decade * 100) / 100;
+  }
+  return nominal >= 1000 ? `${nominal / 1000}k` : `${nominal}`;
+}
+
+// Exact band centers sit slightly off their nominal values, e.g. 19.95 Hz for 20 Hz
+const NOMINAL_TOLERANCE = 1.01;
+
+/**
+ * The fractional-octave bands of IEC 61260 whose nominal centers lie between
+ * `minFrequency` and `maxFrequency`, with their nominal labels.
+ */
+export function getOctaveBands(fraction: OctaveFraction, maxFrequency: number, minFrequency = 20): OctaveBand[] {
+  const bands: OctaveBand[] = [];
+  const halfBand = Math.pow(OCTAVE_RATIO, 1 / (2 * fraction));
+  // Odd fractions center a band on 1 kHz, even ones put a band edge there
+  const centerAt = (index: number) => 1000 * Math.pow(OCTAVE_RATIO, fraction % 2 === 1 ? index / fraction : (2 * index + 1) / (2 * fraction));
+
+  let index = Math.floor((Math.log(minFrequency / 1000) / Math.log(OCTAVE_RATIO)) * fraction) - 1;
+  while (centerAt(index) * NOMINAL_TOLERANCE < minFrequency) index++;
+  for (; centerAt(index) <= maxFrequency * NOMINAL_TOLERANCE; index++) {
+    const center = centerAt(index);
+    bands.push({ center, low: center / halfBand, high: Math.min(center * halfBand, maxFrequency), label: formatBandLabel(center, fraction) });
+  }
+  return bands;
+}
+
+/**
+ * Gain of a frequency weighting in dB, from the analog responses of
+ * IEC 61672, normalized to 0 dB at 1 kHz.
+ */
+export function getWeightingGain(frequency: number, weighting: FrequencyWeighting): number {
+  if (weighting === 'Z') return 0;
+  if (!(frequency > 0)) return -Infinity;
+
+  const f2 = frequency * frequency;
+  const lowPole = 20.598997 * 20.598997;
+  const highPole = 12194.217 * 12194.217;
+  if (weighting === 'C') {
+    const response = (highPole * f2) / ((f2 + lowPole) * (f2 + highPole));
+    return 20 * Math.log10(response) + 0.0619;
+  }
+
+  const response = (highPole * f2 * f2)
+    / ((f2 + lowPole) * Math.sqrt((f2 + 107.65265 * 107.65265) * (f2 + 737.86223 * 737.86223)) * (f2 + highPole));
+  return 20 * Math.log10(response) + 2.0;
+}
+
+// Signal power in each bin of an AnalyserNode decibel spectrum, both sides of the spectrum counted
+function getBinPowers(spectrum: Float32Array): Float64Array {
+  const powers = new Float64Array(spectrum.length);
+  for (let bin = 0; bin < spectrum.length; bin++) {
+    powers[bin] = Number.isFinite(spectrum[bin]) ? (2 * Math.pow(10, spectrum[bin] / 10)) / BLACKMAN_POWER_GAIN : 0;
+  }
+  return powers;
+}
+
+/**
+ * Mean-square power of each band from an AnalyserNode decibel spectrum
+ * (`getFloatFrequencyData`). Bins straddling a band edge are shared by the
+ * share of their width on each side, so narrow low bands still get power.
+ */
+export function getBandPowers(
+  spectrum: Float32Array,
+  sampleRate: number,
+  bands: OctaveBand[],
+  weighting: FrequencyWeighting = 'Z'
+): Float64Array {
+  const binWidth = sampleRate / (spectrum.length * 2);
+  const binPowers = getBinPowers(spectrum);
+  const powers = new Float64Array(bands.length);
+
+  bands.forEach((band, index) => {
+    const first = Math.max(0, Math.floor(band.low / binWidth + 0.5));
+    const last = Math.min(spectrum.length - 1, Math.floor(band.high / binWidth + 0.5));
+    const gain = Math.pow(10, getWeightingGain(band.center, weighting) / 10);
+    let power = 0;
+    for (let bin = first; bin <= last; bin++) {
+      const overlap = Math.min(band.high, (bin + 0.5) * binWidth) - Math.max(band.low, (bin - 0.5) * binWidth);
+      if (overlap > 0) power += binPowers[bin] * (overlap / binWidth);
+    }
+    powers[index] = power * gain;
+  });
+
+  return powers;
+}
+
+// Mean-square power of a decibel spectrum after a frequency weighting
+export function getWeightedPower(spectrum: Float32Array, sampleRate: number, weighting: FrequencyWeighting): number {
+  const binWidth = sampleRate / (spectrum.length * 2);
+  const binPowers = getBinPowers(spectrum);
+  let power = 0;
+  for (let bin = 1; bin < spectrum.length; bin++) {
+    power += binPowers[bin] * Math.pow(10, getWeightingGain(bin * binWidth, weighting) / 10);
+  }
+  return power;
+}
+
+/**
+ * Averages band powers frame by frame. Exponential averaging forgets with
+ * time constant `averagingTime`, linear averaging weighs the frames of the
+ * last `averagingTime` seconds equally and infinite averaging weighs every
+ * frame since the last reset equally.
+ */
+export function createRtaAverager(bandCount: number, options: Partial<RtaOptions> = {}): RtaAverager {
+  const { averaging, averagingTime, peakHoldTime, peakDecay } = { ...DEFAULT_RTA_OPTIONS, ...options };
+  let average = new Float64Array(bandCount);
+  let frames: { powers: Float64Array; elapsed: number }[] = [];
+  let windowSum = new Float64Array(bandCount);
+  let windowTime = 0;
+  let frameCount = 0;
+  let peaks = new Float32Array(bandCount).fill(-Infinity);
+  let peakAges = new Float32Array(bandCount);
+  let maxHold = new Float32Array(bandCount).fill(-Infinity);
+
+  const reset = () => {
+    average = new Float64Array(bandCount);
+    frames = [];
+    windowSum = new Float64Array(bandCount);
+    windowTime = 0;
+    frameCount = 0;
+    peaks = new Float32Array(bandCount).fill(-Infinity);
+    peakAges = new Float32Array(bandCount);
+    maxHold = new Float32Array(bandCount).fill(-Infinity);
+  };
+
+  const update = (powers: Float64Array, elapsed: number): RtaReading => {
+    frameCount++;
+    if (averaging === 'exponential') {
+      const weight = frameCount === 1 ? 1 : 1 - Math.exp(-elapsed / averagingTime);
+      for (let band = 0; band < bandCount; band++) average[band] += weight * (powers[band] - average[band]);
+    } else if (averaging === 'linear') {
+      frames.push({ powers, elapsed });
+      windowTime += elapsed;
+      for (let band = 0; band < bandCount; band++) windowSum[band] += powers[band];
+      // Drop frames that slid out of the window, keeping at least the newest
+      while (frames.length > 1 && windowTime - frames[0].elapsed >= averagingTime) {
+        const dropped = frames.shift() as { powers: Float64Array; elapsed: number };
+        windowTime -= dropped.elapsed;
+        for (let band = 0; band < bandCount; band++) windowSum[band] -= dropped.powers[band];
+      }
+      for (let band = 0; band < bandCount; band++) average[band] = Math.max(0, windowSum[band] / frames.length);
+    } else {
+      for (let band = 0; band < bandCount; band++) average[band] += (powers[band] - average[band]) / frameCount;
+    }
+
+    const levels = new Float32Array(bandCount);
+    for (let band = 0; band < bandCount; band++) {
+      levels[band] = powerToDecibels(average[band]);
+
+      // Held peaks fall once their hold time is over
+      peakAges[band] += elapsed;
+      if (peakAges[band] > peakHoldTime) peaks[band] -= peakDecay * elapsed;
+      if (!(levels[band] < peaks[band])) {
+        peaks[band] = levels[band];
+        peakAges[band] = 0;
+      }
+      if (levels[band] > maxHold[band]) maxHold[band] = levels[band];
+    }
+
+    return { levels, peaks: peaks.slice(), maxHold: maxHold.slice() };
+  };
+
+  return { update, reset };
+}
+
+/**
+ * A weighted level meter fed with AnalyserNode frames: the decibel spectrum
+ * gives the weighted power, time-weighted like a sound level meter, and the
+ * raw samples give the peak and crest factor.
+ */
+export function createLevelMeter(weighting: FrequencyWeighting, timeWeighting: TimeWeighting): LevelMeter {
+  const timeConstant = TIME_WEIGHTING_CONSTANTS[timeWeighting];
+  let power = -1; // no frame yet
+  let max = -Infinity;
+
+  const update = (spectrum: Float32Array, samples: Float32Array, sampleRate: number, elapsed: number): LevelReading => {
+    const framePower = getWeightedPower(spectrum, sampleRate, weighting);
+    power = power < 0 ? framePower : power + (1 - Math.exp(-elapsed / timeConstant)) * (framePower - power);
+    const level = powerToDecibels(power);
+    if (level > max) max = level;
+
+    let peak = 0;
+    let sumOfSquares = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.abs(samples[i]);
+      if (sample > peak) peak = sample;
+      sumOfSquares += sample * sample;
+    }
+    const rms = samples.length > 0 ? Math.sqrt(sumOfSquares / samples.length) : 0;
+
+    return {
+      level,
+      max,
+      peak: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+      crestFactor: rms > 0 ? 20 * Math.log10(peak / rms) : 0
+    };
+  };
+
+  return {
+    update,
+    reset: () => {
+      power = -1;
+      max = -Infinity;
+    }
+  };
+}
@@ -0,0 +1,400 @@
+// Loudness measurement following ITU-R BS.1770-4 and EBU R128: K-weighted,
+// gated integrated loudness, momentary and short-term loudness, loudness
+// range (EBU Tech 3342) and oversampled true peak. Pure TypeScript, so the
+// same meter runs offline in the analysis worker and live on the editor master.
+
+import { type AudioSignal, type LoudnessMeasurement } from '../types/audio';
+
+// The live meter's reading: the file measurement plus the current levels
+export interface LoudnessReading extends LoudnessMeasurement {
+  momentary: number; // LUFS over the last 400 ms
+  shortTerm: number; // LUFS over the last 3 s
+}
+
+// A loudness standard to compare a mix against
+export interface LoudnessTarget {
+  id: string;
+  label: string;
+  integrated: number; // LUFS
+  truePeak: number; // highest true peak allowed, in dBTP
+}
+
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [
+  { id: 'streaming', label: 'Streaming (-14 LUFS)', integrated: -14, truePeak: -1 },
+  { id: 'broadcast', label: 'Broadcast, EBU R128 (-23 LUFS)', integrated: -23, truePeak: -1 }
+];
+
+// The gain applied to bring a file to a target, and the loudness it ended up at
+export interface NormalizationResult {
+  gain: number; // dB
+  integrated: number; // LUFS after the gain
+  truePeak: number; // dBTP after the gain
+  isPeakLimited: boolean; // the ceiling kept it from reaching the target loudness
+}
+
+export const SILENT_LOUDNESS: LoudnessReading = {
+  integrated: -Infinity,
+  range: 0,
+  truePeak: -Infinity,
+  maxMomentary: -Infinity,
+  maxShortTerm: -Infinity,
+  momentary: -Infinity,
+  shortTerm: -Infinity
+};
+
+export interface LoudnessMeter {
+  // Feed the next samples of every channel; all channels must be the same length
+  push: (channels: ArrayLike<number>[]) => void;
+  read: () => LoudnessReading;
+  reset: () => void;
+}
+
+// Blocks are built from 100 ms steps: 4 for momentary, 30 for short-term
+const STEPS_PER_MOMENTARY = 4;
+const STEPS_PER_SHORT_TERM = 30;
+// Short-term blocks for the loudness range are taken every second
+const RANGE_STRIDE_STEPS = 10;
+
+const ABSOLUTE_GATE_LUFS = -70;
+const INTEGRATED_RELATIVE_GATE_LU = -10;
+const RANGE_RELATIVE_GATE_LU = -20;
+const RANGE_LOW_PERCENTILE = 0.1;
+const RANGE_HIGH_PERCENTILE = 0.95;
+
+// Taps of each polyphase branch of the true-peak interpolator
+const TRUE_PEAK_TAPS = 12;
+
+// Coefficients of a biquad, normalized so a0 is 1
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * The two K-weighting stages for a sample rate: a high shelf modelling the
+ * head, then the RLB high-pass. Derived from the analog prototypes so any
+ * rate gets the BS.1770 response, matching its 48 kHz coefficients.
+ */
+export function getKWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    {
+      b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+      b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+      a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0
+    },
+    {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (passK * passK - 1)) / passA0,
+      a2: (1 - passK / passQ + passK * passK) / passA0
+    }
+  ];
+}
+
+// Weight of each channel in the sum: the LFE of a 5.1 layout is left out
+// and the surrounds count 1.41 times
+function getChannelWeights(channelCount: number): number[] {
+  return Array.from({ length: channelCount }, (_, channel) => {
+    if (channelCount < 5) return 1;
+    if (channel === 3 && channelCount === 6) return 0;
+    return channel >= 3 ? 1.41 : 1;
+  });
+}
+
+// Oversampling for true peak: 4x below 96 kHz, as BS.1770 asks at 48 kHz
+function getOversampling(sampleRate: number): number {
+  if (sampleRate < 96000) return 4;
+  return sampleRate < 192000 ? 2 : 1;
+}
+
+/**
+ * Hann-windowed sinc interpolator split into its polyphase branches.
+ * Branch 0 passes samples through unchanged, so only the in-between
+ * branches are returned; each is normalized to unity gain at DC.
+ */
+function getInterpolationPhases(factor: number): Float64Array[] {
+  const center = (TRUE_PEAK_TAPS / 2) * factor;
+  const phases: Float64Array[] = [];
+
+  for (let phase = 1; phase < factor; phase++) {
+    const taps = new Float64Array(TRUE_PEAK_TAPS);
+    let sum = 0;
+    for (let tap = 0; tap < TRUE_PEAK_TAPS; tap++) {
+      const offset = phase + tap * factor - center;
+      const t = offset / factor;
+      const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 * (1 + Math.cos((Math.PI * offset) / center));
+      taps[tap] = sinc * window;
+      sum += taps[tap];
+    }
+    phases.push(taps.map(tap => tap / sum));
+  }
+
+  return phases;
+}
+
+export function powerToLoudness(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+function loudnessToPower(loudness: number): number {
+  return Math.pow(10, (loudness + 0.691) / 10);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Loudness of the blocks above the absolute gate and `relativeGate` LU below their mean
+function gateBlocks(powers: number[], relativeGate: number): number[] {
+  const absoluteGate = loudnessToPower(ABSOLUTE_GATE_LUFS);
+  const audible = powers.filter(power => power > absoluteGate);
+  if (audible.length === 0) return [];
+
+  const gate = loudnessToPower(powerToLoudness(mean(audible)) + relativeGate);
+  return audible.filter(power => power > gate);
+}
+
+function getIntegratedLoudness(momentaryPowers: number[]): number {
+  const gated = gateBlocks(momentaryPowers, INTEGRATED_RELATIVE_GATE_LU);
+  return gated.length > 0 ? powerToLoudness(mean(gated)) : -Infinity;
+}
+
+// Spread between the 10th and 95th percentile of the gated short-term loudness, in LU
+function getLoudnessRange(shortTermPowers: number[]): number {
+  const gated = gateBlocks(shortTermPowers, RANGE_RELATIVE_GATE_LU)
+    .map(powerToLoudness)
+    .sort((a, b) => a - b);
+  if (gated.length === 0) return 0;
+
+  const percentile = (share: number) => gated[Math.round((gated.length - 1) * share)];
+  return percentile(RANGE_HIGH_PERCENTILE) - percentile(RANGE_LOW_PERCENTILE);
+}
+
+/**
+ * A streaming loudness meter. Samples can be pushed in chunks of any size;
+ * the reading covers everything pushed since it was created or reset.
+ */
+export function createLoudnessMeter(sampleRate: number, channelCount: number): LoudnessMeter {
+  const [shelf, highPass] = getKWeightingFilters(sampleRate);
+  const weights = getChannelWeights(channelCount);
+  const stepLength = Math.max(1, Math.round(sampleRate / 10));
+  const phases = getInterpolationPhases(getOversampling(sampleRate));
+
+  // Per channel: the two biquads' last inputs and outputs, and the
+  // interpolator's history, written twice so the latest taps are contiguous
+  let filterStates: Float64Array[] = [];
+  let histories: Float64Array[] = [];
+  let historyPosition = 0;
+
+  let stepSums = new Float64Array(channelCount);
+  let stepPosition = 0;
+  let stepPowers: number[] = []; // the last 30 steps
+  let stepCount = 0;
+
+  let momentaryPowers: number[] = [];
+  let shortTermPowers: number[] = [];
+  let momentary = -Infinity;
+  let shortTerm = -Infinity;
+  let maxMomentary = -Infinity;
+  let maxShortTerm = -Infinity;
+  let peak = 0;
+
+  const reset = () => {
+    filterStates = Array.from({ length: channelCount }, () => new Float64Array(8));
+    histories = Array.from({ length: channelCount }, () => new Float64Array(TRUE_PEAK_TAPS * 2));
+    historyPosition = 0;
+    stepSums = new Float64Array(channelCount);
+    stepPosition = 0;
+    stepPowers = [];
+    stepCount = 0;
+    momentaryPowers = [];
+    shortTermPowers = [];
+    momentary = -Infinity;
+    shortTerm = -Infinity;
+    maxMomentary = -Infinity;
+    maxShortTerm = -Infinity;
+    peak = 0;
+  };
+
+  const completeStep = () => {
+    let power = 0;
+    for (let channel = 0; channel < channelCount; channel++) {
+      power += (weights[channel] * stepSums[channel]) / stepLength;
+    }
+    stepSums.fill(0);
+    stepPowers.push(power);
+    if (stepPowers.length > STEPS_PER_SHORT_TERM) stepPowers.shift();
+    stepCount++;
+
+    if (stepCount >= STEPS_PER_MOMENTARY) {
+      const blockPower = mean(stepPowers.slice(-STEPS_PER_MOMENTARY));
+      momentaryPowers.push(blockPower);
+      momentary = powerToLoudness(blockPower);
+      maxMomentary = Math.max(maxMomentary, momentary);
+    }
+    if (stepCount >= STEPS_PER_SHORT_TERM) {
+      const blockPower = mean(stepPowers);
+      shortTerm = powerToLoudness(blockPower);
+      maxShortTerm = Math.max(maxShortTerm, shortTerm);
+      if ((stepCount - STEPS_PER_SHORT_TERM) % RANGE_STRIDE_STEPS === 0) shortTermPowers.push(blockPower);
+    }
+  };
+
+  reset();
+
+  return {
+    push: channels => {
+      const length = channels[0]?.length ?? 0;
+
+      for (let i = 0; i < length; i++) {
+        for (let channel = 0; channel < channelCount; channel++) {
+          const input = channels[channel]?.[i] ?? 0;
+
+          // K-weighting, as two direct form I biquads
+          const state = filterStates[channel];
+          const shelved = shelf.b0 * input + shelf.b1 * state[0] + shelf.b2 * state[1] -
+            shelf.a1 * state[2] - shelf.a2 * state[3];
+          state[1] = state[0];
+          state[0] = input;
+          state[3] = state[2];
+          state[2] = shelved;
+          const weighted = highPass.b0 * shelved + highPass.b1 * state[4] + highPass.b2 * state[5] -
+            highPass.a1 * state[6] - highPass.a2 * state[7];
+          state[5] = state[4];
+          state[4] = shelved;
+          state[7] = state[6];
+          state[6] = weighted;
+          stepSums[channel] += weighted * weighted;
+
+          // True peak: the sample itself and the points between it and the last one
+          const history = histories[channel];
+          history[historyPosition] = input;
+          history[historyPosition + TRUE_PEAK_TAPS] = input;
+          const newest = historyPosition + TRUE_PEAK_TAPS;
+          peak = Math.max(peak, Math.abs(input));
+          for (const taps of phases) {
+            let interpolated = 0;
+            for (let tap = 0; tap < TRUE_PEAK_TAPS; tap++) {
+              interpolated += taps[tap] * history[newest - tap];
+            }
+            peak = Math.max(peak, Math.abs(interpolated));
+          }
+        }
+
+        historyPosition = (historyPosition + 1) % TRUE_PEAK_TAPS;
+        if (++stepPosition === stepLength) {
+          stepPosition = 0;
+          completeStep();
+        }
+      }
+    },
+    read: () => ({
+      integrated: getIntegratedLoudness(momentaryPowers),
+      range: getLoudnessRange(shortTermPowers),
+      truePeak: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+      maxMomentary,
+      maxShortTerm,
+      momentary,
+      shortTerm
+    }),
+    reset
+  };
+}
+
+// Loudness of a whole signal, over all of its channels
+export function measureLoudness(signal: AudioSignal): LoudnessMeasurement {
+  const channels = Array.from({ length: signal.numberOfChannels }, (_, channel) => signal.getChannelData(channel));
+  const meter = createLoudnessMeter(signal.sampleRate, signal.numberOfChannels);
+  meter.push(channels);
+
+  const { integrated, range, truePeak, maxMomentary, maxShortTerm } = meter.read();
+  return { integrated, range, truePeak, maxMomentary, maxShortTerm };
+}
+
+/**
+ * How a measurement compares with a target: the gain in dB that would bring
+ * it to the target loudness, and whether its true peak is over the target's
+ * ceiling as it stands.
+ */
+export function compareToTarget(
+  loudness: LoudnessMeasurement,
+  target: LoudnessTarget
+): { gain: number; isOverCeiling: boolean } {
+  return {
+    gain: Number.isFinite(loudness.integrated) ? target.integrated - loudness.integrated : 0,
+    isOverCeiling: loudness.truePeak > target.truePeak
+  };
+}
+
+/**
+ * Gains in dB that bring two tracks to the same integrated loudness by
+ * lowering the louder one, so neither can clip. Tracks that were not
+ * measured or are silent are left alone.
+ */
+export function getMatchGains(
+  loudness1: LoudnessMeasurement | undefined,
+  loudness2: LoudnessMeasurement | undefined
+): [number, number] {
+  const integrated1 = loudness1?.integrated ?? -Infinity;
+  const integrated2 = loudness2?.integrated ?? -Infinity;
+  if (!Number.isFinite(integrated1) || !Number.isFinite(integrated2)) return [0, 0];
+
+  const quieter = Math.min(integrated1, integrated2);
+  return [quieter - integrated1, quieter - integrated2];
+}
+
+/**
+ * The gain that brings a measurement to the target loudness without its
+ * true peak going over the target's ceiling. Gain only; nothing is limited.
+ */
+export function getNormalizationGain(
+  loudness: LoudnessMeasurement,
+  target: Pick<LoudnessTarget, 'integrated' | 'truePeak'>
+): NormalizationResult {
+  if (!Number.isFinite(loudness.integrated)) {
+    return { gain: 0, integrated: loudness.integrated, truePeak: loudness.truePeak, isPeakLimited: false };
+  }
+
+  const loudnessGain = target.integrated - loudness.integrated;
+  const peakGain = target.truePeak - loudness.truePeak;
+  const gain = Math.min(loudnessGain, peakGain);
+  return {
+    gain,
+    integrated: loudness.integrated + gain,
+    truePeak: loudness.truePeak + gain,
+    isPeakLimited: peakGain < loudnessGain
+  };
+}
+
+// A copy of a signal with `decibels` of gain applied to every channel
+export function applyGain(signal: AudioSignal, decibels: number): AudioSignal {
+  const gain = Math.pow(10, decibels / 20);
+  const channels = Array.from({ length: signal.numberOfChannels }, (_, channel) =>
+    signal.getChannelData(channel).map(sample => sample * gain)
+  );
+
+  return {
+    sampleRate: signal.sampleRate,
+    length: signal.length,
+    duration: signal.duration,
+    numberOfChannels: signal.numberOfChannels,
+    getChannelData: channel => channels[channel]
+  };
+}
@@ -0,0 +1,304 @@
+import * as Tone from 'tone';
+import {
+  type InsertEffect,
+  type MasterBus,
+  type MixerChannel,
+  type SendBuses,
+  type SourceEffects
+} from '../types/spatial-audio';
+import { faderToDecibels, measureLevels, type MeterLevels } from './mixer';
+import { isSameChain } from './source-effects';
+import { createLoudnessMeter, type LoudnessReading } from './loudness';
+
+// Samples each meter reads at a time, about 20 ms at 48 kHz
+const METER_SIZE = 1024;
+
+// Samples the loudness tap holds, and how often it is read, in ms. The tap
+// must hold more than arrives between reads for the meter to miss nothing.
+const LOUDNESS_TAP_SIZE = 16384;
+const LOUDNESS_TAP_INTERVAL = 50;
+
+/**
+ * A source's path through the mixer as Tone.js nodes: stereo pan, 3-band
+ * EQ, the insert chain, then the mute and solo gate at `output`. The
+ * source's scene panner, or the player itself while the channel isn't
+ * linked to the scene, feeds `input`. `output` goes to the mix and, through
+ * the post-fader sends, to the shared buses.
+ */
+export interface ChannelStrip {
+  input: Tone.Panner;
+  eq: Tone.EQ3;
+  output: Tone.Gain;
+  reverbSend: Tone.Gain;
+  delaySend: Tone.Gain;
+  inserts: { insert: InsertEffect; node: Tone.ToneAudioNode }[]; // enabled inserts in chain order
+  ready: Promise<void>; // resolves once reverb impulse responses are generated
+  getLevels: () => MeterLevels; // level at the output
+  update: (effects: SourceEffects, channel: MixerChannel, audible: boolean) => void;
+  dispose: () => void;
+}
+
+// The master fader and limiter, as Tone.js nodes
+export interface MasterBusNodes {
+  input: Tone.Volume;
+  limiter: Tone.Limiter;
+  output: Tone.Gain;
+  getLevels: () => MeterLevels; // level after the limiter
+  update: (settings: MasterBus) => void;
+  dispose: () => void;
+}
+
+// Loudness of everything that reaches a node, measured as it plays
+export interface LoudnessTap {
+  read: () => LoudnessReading;
+  reset: () => void;
+  dispose: () => void;
+}
+
+// The shared reverb and delay, each fully wet and mixed back in through its return gain
+export interface SendBusNodes {
+  reverb: Tone.Reverb;
+  delay: Tone.FeedbackDelay;
+  reverbReturn: Tone.Gain;
+  delayReturn: Tone.Gain;
+  ready: Promise<void>;
+  update: (settings: SendBuses) => void;
+  dispose: () => void;
+}
+
+function createInsertNode(insert: InsertEffect): Tone.ToneAudioNode {
+  switch (insert.type) {
+    case 'reverb':
+      return new Tone.Reverb({ decay: insert.decay, wet: insert.wet });
+    case 'delay':
+      return new Tone.FeedbackDelay({ delayTime: insert.delayTime, feedback: insert.feedback, wet: insert.wet });
+    case 'distortion':
+      return new Tone.Distortion({ distortion: insert.drive, wet: insert.wet });
+    case 'filter':
+      return new Tone.Filter({ type: insert.filterType, frequency: insert.frequency, Q: insert.Q });
+  }
+}
+
+// Bring a node in line with its insert's settings. Reverb decay is only set
+// when it changed, since setting it regenerates the impulse response.
+function updateInsertNode(node: Tone.ToneAudioNode, insert: InsertEffect): void {
+  if (node instanceof Tone.Reverb && insert.type === 'reverb') {
+    if (node.decay !== insert.decay) node.decay = insert.decay;
+    node.wet.value = insert.wet;
+  } else if (node instanceof Tone.FeedbackDelay && insert.type === 'delay') {
+    node.delayTime.value = insert.delayTime;
+    node.feedback.value = insert.feedback;
+    node.wet.value = insert.wet;
+  } else if (node instanceof Tone.Distortion && insert.type === 'distortion') {
+    node.distortion = insert.drive;
+    node.wet.value = insert.wet;
+  } else if (node instanceof Tone.Filter && insert.type === 'filter') {
+    node.type = insert.filterType;
+    node.frequency.value = insert.frequency;
+    node.Q.value = insert.Q;
+  }
+}
+
+function whenReady(nodes: Tone.ToneAudioNode[]): Promise<void> {
+  return Promise.all(nodes.map(node => (node instanceof Tone.Reverb ? node.ready : undefined))).then(() => {});
+}
+
+/**
+ * Build the channel strip of one source, in the current Tone.js context,
+ * with `output` feeding `destination` and the sends feeding the shared
+ * buses. `audible` opens the gate; it is false while the channel is muted or
+ * another channel is soloed.
+ *
+ * `update` follows later changes to the source's effects and channel.
+ * Settings change in place; only adding, removing, reordering or switching
+ * inserts rebuilds the insert nodes, and only inserts whose settings changed
+ * are touched, so params driven by automation aren't reset on every update.
+ */
+export function createChannelStrip(
+  effects: SourceEffects,
+  channel: MixerChannel,
+  audible: boolean,
+  buses: Pick<SendBusNodes, 'reverb' | 'delay'>,
+  destination: Tone.InputNode
+): ChannelStrip {
+  const input = new Tone.Panner(channel.spatialLink ? 0 : channel.pan);
+  const eq = new Tone.EQ3(channel.eq);
+  const output = new Tone.Gain(audible ? 1 : 0);
+  const reverbSend = new Tone.Gain(effects.reverbSend);
+  const delaySend = new Tone.Gain(effects.delaySend);
+  const meter = new Tone.Waveform(METER_SIZE);
+
+  input.connect(eq);
+  output.connect(destination);
+  output.connect(meter);
+  output.chain(reverbSend, buses.reverb);
+  output.chain(delaySend, buses.delay);
+
+  let current = { effects, channel, audible };
+  const strip: ChannelStrip = {
+    input,
+    eq,
+    output,
+    reverbSend,
+    delaySend,
+    inserts: [],
+    ready: Promise.resolve(),
+    getLevels: () => measureLevels(meter.getValue()),
+    update: (nextEffects, nextChannel, nextAudible) => {
+      if (!isSameChain(current.effects.inserts, nextEffects.inserts)) {
+        build(nextEffects.inserts);
+      } else {
+        strip.inserts = strip.inserts.map(({ insert, node }) => {
+          const updated = nextEffects.inserts.find(candidate => candidate.id === insert.id) ?? insert;
+          if (updated !== insert) updateInsertNode(node, updated);
+          return { insert: updated, node };
+        });
+      }
+
+      if (nextEffects.reverbSend !== current.effects.reverbSend) reverbSend.gain.value = nextEffects.reverbSend;
+      if (nextEffects.delaySend !== current.effects.delaySend) delaySend.gain.value = nextEffects.delaySend;
+      if (nextChannel !== current.channel) {
+        input.pan.value = nextChannel.spatialLink ? 0 : nextChannel.pan;
+        eq.low.value = nextChannel.eq.low;
+        eq.mid.value = nextChannel.eq.mid;
+        eq.high.value = nextChannel.eq.high;
+      }
+      if (nextAudible !== current.audible) {
+        // A short ramp so muting doesn't click
+        output.gain.rampTo(nextAudible ? 1 : 0, 0.01);
+      }
+      current = { effects: nextEffects, channel: nextChannel, audible: nextAudible };
+    },
+    dispose: () => {
+      strip.inserts.forEach(({ node }) => node.dispose());
+      [input, eq, output, reverbSend, delaySend, meter].forEach(node => node.dispose());
+    }
+  };
+
+  // Replace the insert nodes and wire them from the EQ to the output
+  const build = (inserts: InsertEffect[]) => {
+    eq.disconnect();
+    strip.inserts.forEach(({ node }) => node.dispose());
+    strip.inserts = inserts
+      .filter(insert => insert.enabled)
+      .map(insert => ({ insert, node: createInsertNode(insert) }));
+    eq.chain(...strip.inserts.map(({ node }) => node), output);
+  };
+
+  build(effects.inserts);
+  strip.ready = whenReady(strip.inserts.map(({ node }) => node));
+  return strip;
+}
+
+/**
+ * Build the shared send buses in the current Tone.js context, returning into
+ * `destination`. `update` follows later changes to their settings.
+ */
+export function createSendBuses(settings: SendBuses, destination: Tone.InputNode): SendBusNodes {
+  const reverb = new Tone.Reverb({ decay: settings.reverb.decay, wet: 1 });
+  const delay = new Tone.FeedbackDelay({
+    delayTime: settings.delay.delayTime,
+    feedback: settings.delay.feedback,
+    wet: 1
+  });
+  const reverbReturn = new Tone.Gain(settings.reverb.returnLevel);
+  const delayReturn = new Tone.Gain(settings.delay.returnLevel);
+
+  reverb.chain(reverbReturn, destination);
+  delay.chain(delayReturn, destination);
+
+  let current = settings;
+  return {
+    reverb,
+    delay,
+    reverbReturn,
+    delayReturn,
+    ready: reverb.ready,
+    update: next => {
+      if (next.reverb.decay !== current.reverb.decay) reverb.decay = next.reverb.decay;
+      if (next.reverb.returnLevel !== current.reverb.returnLevel) reverbReturn.gain.value = next.reverb.returnLevel;
+      if (next.delay.delayTime !== current.delay.delayTime) delay.delayTime.value = next.delay.delayTime;
+      if (next.delay.feedback !== current.delay.feedback) delay.feedback.value = next.delay.feedback;
+      if (next.delay.returnLevel !== current.delay.returnLevel) delayReturn.gain.value = next.delay.returnLevel;
+      current = next;
+    },
+    dispose: () => {
+      [reverb, delay, reverbReturn, delayReturn].forEach(node => node.dispose());
+    }
+  };
+}
+
+/**
+ * Build the master bus in the current Tone.js context: the master fader,
+ * then the limiter while it is on, into `destination`. `update` follows
+ * later changes to its settings.
+ */
+export function createMasterBus(settings: MasterBus, destination: Tone.InputNode): MasterBusNodes {
+  const input = new Tone.Volume(faderToDecibels(settings.fader));
+  const limiter = new Tone.Limiter(settings.ceiling);
+  const output = new Tone.Gain();
+  const meter = new Tone.Waveform(METER_SIZE);
+
+  const route = (limited: boolean) => {
+    input.disconnect();
+    limiter.disconnect();
+    if (limited) {
+      input.chain(limiter, output);
+    } else {
+      input.connect(output);
+    }
+  };
+
+  route(settings.limiter);
+  output.connect(destination);
+  output.connect(meter);
+
+  let current = settings;
+  return {
+    input,
+    limiter,
+    output,
+    getLevels: () => measureLevels(meter.getValue()),
+    update: next => {
+      if (next.fader !== current.fader) input.volume.value = faderToDecibels(next.fader);
+      if (next.ceiling !== current.ceiling) limiter.threshold.value = next.ceiling;
+      if (next.limiter !== current.limiter) route(next.limiter);
+      current = next;
+    },
+    dispose: () => {
+      [input, limiter, output, meter].forEach(node => node.dispose());
+    }
+  };
+}
+
+/**
+ * Measure the loudness of `source` live. An analyser keeps its latest
+ * samples; each read takes only the ones that arrived since the last, found
+ * from how far the context's clock moved, so the meter sees the signal once.
+ * Reads that come too late to cover the gap leave it out.
+ */
+export function createLoudnessTap(source: Tone.ToneAudioNode): LoudnessTap {
+  const context = Tone.getContext();
+  const analyser = new Tone.Analyser<2>({ type: 'waveform', size: LOUDNESS_TAP_SIZE, channels: 2 });
+  const meter = createLoudnessMeter(context.sampleRate, 2);
+  source.connect(analyser);
+
+  let lastTime = context.currentTime;
+  const timer = setInterval(() => {
+    const now = context.currentTime;
+    const arrived = Math.min(Math.round((now - lastTime) * context.sampleRate), LOUDNESS_TAP_SIZE);
+    lastTime = now;
+    if (arrived <= 0) return;
+
+    meter.push(analyser.getValue().map(channel => channel.subarray(LOUDNESS_TAP_SIZE - arrived)));
+  }, LOUDNESS_TAP_INTERVAL);
+
+  return {
+    read: meter.read,
+    reset: meter.reset,
+    dispose: () => {
+      clearInterval(timer);
+      analyser.dispose();
+    }
+  };
+}
@@ -0,0 +1,95 @@
+import { type MasterBus, type MixerChannel, type SpatialAudioData } from '../types/spatial-audio';
+import { type LoudnessReading } from './loudness';
+
+export const DEFAULT_MIXER_CHANNEL: MixerChannel = {
+  mute: false,
+  solo: false,
+  eq: { low: 0, mid: 0, high: 0 },
+  pan: 0,
+  spatialLink: true
+};
+
+export const DEFAULT_MASTER_BUS: MasterBus = { fader: 0, limiter: true, ceiling: -1 };
+
+// Range of channel faders in dB. The bottom of the fader is silence.
+export const FADER_MIN_DB = -60;
+export const FADER_MAX_DB = 6;
+
+// Range of each EQ band in dB
+export const EQ_RANGE_DB = 12;
+
+// Peak and RMS level of a block of samples, in dBFS
+export interface MeterLevels {
+  peak: number;
+  rms: number;
+}
+
+export const SILENT_LEVELS: MeterLevels = { peak: -Infinity, rms: -Infinity };
+
+// Levels of every channel strip, by source id, and of the master bus
+export interface MeterReadings {
+  sources: Record<string, MeterLevels>;
+  master: MeterLevels;
+  loudness: LoudnessReading; // of the master bus
+}
+
+// A source's mixer settings, defaulting to an unmuted, flat channel panned by the scene
+export function getSourceChannel(source: Pick<SpatialAudioData, 'channel'>): MixerChannel {
+  return source.channel ?? DEFAULT_MIXER_CHANNEL;
+}
+
+/**
+ * Whether a channel is heard: it isn't muted, and when any channel is
+ * soloed, it is one of them.
+ */
+export function isChannelAudible(channel: MixerChannel, anySolo: boolean): boolean {
+  return !channel.mute && (!anySolo || channel.solo);
+}
+
+// Ids of the sources heard in the mix, following mute and solo
+export function getAudibleSourceIds(sources: Pick<SpatialAudioData, 'id' | 'channel'>[]): Set<string> {
+  const anySolo = sources.some(source => getSourceChannel(source).solo);
+  return new Set(
+    sources.filter(source => isChannelAudible(getSourceChannel(source), anySolo)).map(source => source.id)
+  );
+}
+
+export function gainToDecibels(gain: number): number {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+export function decibelsToGain(decibels: number): number {
+  return decibels === -Infinity ? 0 : Math.pow(10, decibels / 20);
+}
+
+// A source volume for a fader position in dB; the bottom of the fader is silence
+export function faderToVolume(decibels: number): number {
+  return decibels <= FADER_MIN_DB ? 0 : decibelsToGain(Math.min(decibels, FADER_MAX_DB));
+}
+
+// The gain in dB of a master fader position; the bottom of the fader is silence
+export function faderToDecibels(fader: number): number {
+  return fader <= FADER_MIN_DB ? -Infinity : Math.min(fader, FADER_MAX_DB);
+}
+
+// Where the fader sits for a source volume
+export function volumeToFader(volume: number): number {
+  return Math.min(Math.max(gainToDecibels(volume), FADER_MIN_DB), FADER_MAX_DB);
+}
+
+// Peak and RMS level of a block of samples
+export function measureLevels(samples: ArrayLike<number>): MeterLevels {
+  if (samples.length === 0) return SILENT_LEVELS;
+
+  let peak = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.abs(samples[i]);
+    if (sample > peak) peak = sample;
+    sumOfSquares += sample * sample;
+  }
+  return {
+    peak: gainToDecibels(peak),
+    rms: gainToDecibels(Math.sqrt(sumOfSquares / samples.length))
+  };
+}
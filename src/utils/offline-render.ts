@@ -0,0 +1,196 @@
+import * as Tone from 'tone';
+import { type MasterAutomation, type MasterBus, type SendBuses, type SpatialAudioData } from '../types/spatial-audio';
+import {
+  getSendBusAutomationTargets,
+  getSourceAutomationTargets,
+  renderAutomation,
+  type AutomationTarget
+} from './automation-playback';
+import { configureClipPlayer, startClip } from './clip-playback';
+import { getAudibleSourceIds, getSourceChannel } from './mixer';
+import { createChannelStrip, createMasterBus, createSendBuses } from './mixer-graph';
+import { getSourceEffects, hasEffectTail } from './source-effects';
+import { getSourceClip, getTimelineDuration } from './timeline';
+
+export interface MixSettings {
+  buses: SendBuses;
+  master: MasterBus;
+  playbackSpeed: number;
+  automation?: MasterAutomation; // send bus return levels over time
+}
+
+export interface RenderOptions {
+  sampleRate?: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Panner settings shared by live playback and offline rendering
+export const PANNER_OPTIONS = {
+  refDistance: 1,
+  rolloffFactor: 1.5,
+  distanceModel: 'exponential' as const,
+  maxDistance: 10000,
+  panningModel: 'HRTF' as const
+};
+
+// Extra time rendered after the last source ends so reverb and delay tails ring out
+const EFFECT_TAIL_SECONDS = 3;
+
+// Number of progress updates reported while rendering
+const PROGRESS_STEPS = 20;
+
+// The part of a Tone.js OfflineContext a render drives
+export interface RenderableContext {
+  readonly currentTime: number;
+  on(event: 'tick', callback: () => void): unknown;
+  off(event: 'tick', callback: () => void): unknown;
+  render(): Promise<{ get(): AudioBuffer | undefined }>;
+}
+
+/**
+ * Render a prepared offline context to an AudioBuffer. Progress follows
+ * Tone's offline clock, which ticks through the whole duration before the
+ * audio itself is rendered. An aborted `signal` rejects right away; the
+ * abandoned render finishes in the background.
+ */
+export async function runOfflineRender(
+  offline: RenderableContext,
+  duration: number,
+  { onProgress, signal }: Pick<RenderOptions, 'onProgress' | 'signal'> = {}
+): Promise<AudioBuffer> {
+  if (signal?.aborted) {
+    throw new DOMException('Render was cancelled', 'AbortError');
+  }
+
+  let removeAbortListener = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    const onAbort = () => reject(new DOMException('Render was cancelled', 'AbortError'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    removeAbortListener = () => signal?.removeEventListener('abort', onAbort);
+  });
+
+  // Report each step the clock passes, leaving the last for the finished render
+  let reportedStep = 0;
+  const reportProgress = () => {
+    if (signal?.aborted) return;
+    const step = Math.min(PROGRESS_STEPS - 1, Math.floor((offline.currentTime / duration) * PROGRESS_STEPS));
+    if (step > reportedStep) {
+      reportedStep = step;
+      onProgress?.(step / PROGRESS_STEPS);
+    }
+  };
+  offline.on('tick', reportProgress);
+
+  try {
+    const rendered = await Promise.race([offline.render(), aborted]);
+    const buffer = rendered.get();
+    if (!buffer) throw new Error('The render produced no audio');
+    onProgress?.(1);
+    return buffer;
+  } finally {
+    offline.off('tick', reportProgress);
+    removeAbortListener();
+  }
+}
+
+/**
+ * Length of the rendered mix in seconds: up to where the last clip ends at
+ * the given playback speed, plus an effect tail when any source uses reverb
+ * or delay.
+ */
+export function getMixDuration(sources: SpatialAudioData[], settings: MixSettings): number {
+  const end = getTimelineDuration(sources, settings.playbackSpeed);
+  const tail = sources.some(source => hasEffectTail(getSourceEffects(source))) ? EFFECT_TAIL_SECONDS : 0;
+  return end + tail;
+}
+
+/**
+ * Render the editor mix offline, through the same mixer as live playback:
+ * every source plays its clip through a panner at its scene position, or its
+ * stereo pan when it isn't linked to the scene, then its channel strip and
+ * sends into the master bus. Muted sources, and sources left out by solo,
+ * are silent. Positions, volumes, effect levels and bus returns follow their
+ * automation. Resolves with a stereo AudioBuffer.
+ */
+export async function renderEditorMix(
+  sources: SpatialAudioData[],
+  settings: MixSettings,
+  options: RenderOptions = {}
+): Promise<AudioBuffer> {
+  const { sampleRate = 44100, onProgress, signal } = options;
+
+  if (sources.length === 0) {
+    throw new Error('There are no audio sources in the scene to export');
+  }
+  if (signal?.aborted) {
+    throw new DOMException('Render was cancelled', 'AbortError');
+  }
+
+  const duration = getMixDuration(sources, settings);
+  const offline = new Tone.OfflineContext(2, duration, sampleRate);
+  const previousContext = Tone.getContext();
+  // Nodes, strips and buses to dispose of once rendered, and reverbs to wait for
+  const nodes: { dispose: () => void }[] = [];
+  const ready: Promise<void>[] = [];
+
+  try {
+    // Nodes are created in the offline context while it is the global one
+    Tone.setContext(offline);
+
+    const master = createMasterBus(settings.master, offline.destination);
+    const buses = createSendBuses(settings.buses, master.input);
+    const audibleIds = getAudibleSourceIds(sources);
+    nodes.push(master, buses);
+    ready.push(buses.ready);
+    const automated: AutomationTarget[] = getSendBusAutomationTargets(
+      buses,
+      settings.buses,
+      settings.automation ?? {}
+    );
+
+    sources.forEach(source => {
+      const player = new Tone.Player(source.buffer);
+      player.playbackRate = settings.playbackSpeed;
+
+      const panner = new Tone.Panner3D({
+        ...PANNER_OPTIONS,
+        positionX: source.position.x,
+        positionY: source.position.y,
+        positionZ: source.position.z
+      });
+
+      const channel = getSourceChannel(source);
+      const strip = createChannelStrip(
+        getSourceEffects(source),
+        channel,
+        audibleIds.has(source.id),
+        buses,
+        master.input
+      );
+      if (channel.spatialLink) {
+        player.chain(panner, strip.input);
+      } else {
+        player.connect(strip.input);
+      }
+      const clip = getSourceClip(source);
+      configureClipPlayer(player, clip);
+      startClip(player, clip, settings.playbackSpeed, clip.start);
+      automated.push(...getSourceAutomationTargets(source, player, panner, strip));
+      nodes.push(player, panner, strip);
+      ready.push(strip.ready);
+    });
+
+    automated.forEach(target => renderAutomation(target, duration));
+  } finally {
+    Tone.setContext(previousContext);
+  }
+
+  try {
+    // Reverb impulse responses are generated asynchronously
+    await Promise.all(ready);
+    return await runOfflineRender(offline, duration, { onProgress, signal });
+  } finally {
+    nodes.forEach(node => node.dispose());
+  }
+}
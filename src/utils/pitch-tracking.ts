@@ -0,0 +1,119 @@
+import { noteFrequencies } from './audio-analysis';
+import { type PitchEstimate, type PitchRange } from './spectral-features';
+
+export interface YinOptions extends PitchRange {
+  threshold?: number; // normalized difference below which a period is accepted
+  minLevel?: number; // RMS below which the input counts as silent
+}
+
+const DEFAULT_YIN_OPTIONS: Required<YinOptions> = {
+  minFrequency: 50,
+  maxFrequency: 1500,
+  threshold: 0.15,
+  minLevel: 0.003
+};
+
+// The note table is tuned to this reference
+const TABLE_REFERENCE_A4 = noteFrequencies.A4;
+
+export const DEFAULT_REFERENCE_A4 = 440;
+
+// Reference pitches offered for A4, covering baroque to modern orchestral tuning
+export const REFERENCE_A4_RANGE = { min: 415, max: 466 };
+
+// Nearest note to a frequency and how far it is off
+export interface NoteReading {
+  note: string; // e.g. 'A4'
+  frequency: number; // Hz of the note at the reference tuning
+  cents: number; // -50 to 50, positive when sharp
+}
+
+// Notes of the table in ascending order, for the nearest-note search
+const NOTE_TABLE = Object.entries(noteFrequencies).sort(([, a], [, b]) => a - b);
+
+/**
+ * Estimate the fundamental of a block of samples with YIN. The cumulative
+ * mean normalized difference picks the first dip under `threshold`, so
+ * octave errors are rare; parabolic interpolation refines the period.
+ * Returns frequency 0 for silence or when no period is clear enough.
+ */
+export function detectPitchYin(samples: Float32Array, sampleRate: number, options: YinOptions = {}): PitchEstimate {
+  const { minFrequency, maxFrequency, threshold, minLevel } = { ...DEFAULT_YIN_OPTIONS, ...options };
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const maxLag = Math.min(Math.floor(samples.length / 2), Math.ceil(sampleRate / minFrequency));
+  const windowLength = samples.length - maxLag;
+  if (maxLag <= minLag || windowLength <= 0) return { frequency: 0, clarity: 0 };
+
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+  if (Math.sqrt(energy / samples.length) < minLevel) return { frequency: 0, clarity: 0 };
+
+  // Cumulative mean normalized difference for every lag up to the longest period
+  const difference = new Float32Array(maxLag + 1);
+  difference[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < windowLength; i++) {
+      const delta = samples[i] - samples[i + lag];
+      sum += delta * delta;
+    }
+    runningSum += sum;
+    difference[lag] = runningSum > 0 ? (sum * lag) / runningSum : 1;
+  }
+
+  // First dip below the threshold, followed down to its minimum
+  let lag = -1;
+  for (let candidate = minLag; candidate <= maxLag; candidate++) {
+    if (difference[candidate] < threshold) {
+      while (candidate + 1 <= maxLag && difference[candidate + 1] < difference[candidate]) candidate++;
+      lag = candidate;
+      break;
+    }
+  }
+  if (lag < 0) return { frequency: 0, clarity: 0 };
+
+  // Parabolic interpolation between the neighbouring lags
+  let period = lag;
+  if (lag > minLag && lag < maxLag) {
+    const before = difference[lag - 1];
+    const at = difference[lag];
+    const after = difference[lag + 1];
+    const curvature = before - 2 * at + after;
+    if (curvature > 0) period += (before - after) / (2 * curvature);
+  }
+
+  return {
+    frequency: sampleRate / period,
+    clarity: Math.max(0, Math.min(1, 1 - difference[lag]))
+  };
+}
+
+/**
+ * Nearest note of the shared note table for a frequency, with the table
+ * retuned to `referenceA4`. Null outside the table's range or for 0 Hz.
+ */
+export function getNoteReading(frequency: number, referenceA4 = DEFAULT_REFERENCE_A4): NoteReading | null {
+  if (!(frequency > 0)) return null;
+
+  // Compare against the table in its own tuning
+  const tableFrequency = frequency * (TABLE_REFERENCE_A4 / referenceA4);
+  let nearest: NoteReading | null = null;
+  for (const [note, noteFrequency] of NOTE_TABLE) {
+    const cents = 1200 * Math.log2(tableFrequency / noteFrequency);
+    if (!nearest || Math.abs(cents) < Math.abs(nearest.cents)) {
+      nearest = { note, frequency: noteFrequency * (referenceA4 / TABLE_REFERENCE_A4), cents };
+    }
+  }
+
+  return nearest && Math.abs(nearest.cents) <= 50 ? nearest : null;
+}
+
+// Median of the voiced estimates among `frequencies`, 0 when none are voiced
+export function getMedianPitch(frequencies: number[]): number {
+  const voiced = frequencies.filter(frequency => frequency > 0).sort((a, b) => a - b);
+  if (voiced.length === 0) return 0;
+
+  const middle = Math.floor(voiced.length / 2);
+  return voiced.length % 2 === 1 ? voiced[middle] : (voiced[middle - 1] + voiced[middle]) / 2;
+}
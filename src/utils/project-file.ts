@@ -0,0 +1,561 @@
+import {
+  type AutomationKeyframe,
+  type FilterType,
+  type InsertEffectType,
+  type MasterAutomation,
+  type MasterBus,
+  type MixerChannel,
+  type SendBuses,
+  type SourceAutomation,
+  type SourceEffects,
+  type TimelineClip,
+  type Vector3D
+} from '../types/spatial-audio';
+
+// Identifies our project files among arbitrary JSON
+export const PROJECT_FORMAT = 'know-audio-project';
+
+// Bump when the schema changes, and add a migration from the previous version
+export const PROJECT_VERSION = 6;
+
+export type VisualizationType = 'mathematical' | 'cinematic' | 'spatial';
+
+// Audio is either stored inside the project or looked up by file name on open
+export type ProjectAudio =
+  | { kind: 'embedded'; fileName: string; mimeType: string; data: string } // base64
+  | { kind: 'reference'; fileName: string; size: number };
+
+export interface ProjectLibraryItem {
+  id: string;
+  name: string;
+  color: string;
+  folder: string | null;
+  tags: string[];
+  audio: ProjectAudio;
+}
+
+export interface ProjectSource {
+  id: string; // library item placed in the scene
+  position: Vector3D;
+  volume: number;
+  clip: TimelineClip | null; // null plays the whole file from the start
+  automation: SourceAutomation;
+  effects: SourceEffects;
+  channel: MixerChannel;
+}
+
+export interface EditorProject {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO 8601
+  library: ProjectLibraryItem[];
+  selectedItemId: string | null;
+  sources: ProjectSource[];
+  automation: MasterAutomation;
+  buses: SendBuses;
+  master: MasterBus;
+  playbackSpeed: number;
+  visualizationType: VisualizationType;
+}
+
+// Editor state a project is saved from, with the audio still as files
+export interface EditorSession {
+  library: { id: string; name: string; color: string; folder?: string; tags?: string[]; file: File }[];
+  selectedItemId: string | null;
+  sources: ProjectSource[];
+  automation: MasterAutomation;
+  buses: SendBuses;
+  master: MasterBus;
+  playbackSpeed: number;
+  visualizationType: VisualizationType;
+}
+
+// Upgrades a project from the version it is keyed by to the next version
+export type ProjectMigration = (project: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * The closest version 5 equivalent of a version 4 project's shared effects:
+ * reverb and delay become full sends from every source to buses with the
+ * same settings, and distortion and filter become inserts on every source.
+ * Filter and distortion automation moves to each source; reverb and delay
+ * wet automation drives the bus returns.
+ */
+function migrateSharedEffects(project: Record<string, unknown>): Record<string, unknown> {
+  const { effects, filterFreq, automation, ...rest } = project;
+  const enabled = isRecord(effects) ? effects : {};
+  const { filterFrequency, distortionWet, reverbWet, delayWet, ...masterAutomation } = isRecord(automation)
+    ? automation
+    : {};
+
+  return {
+    ...rest,
+    automation: {
+      ...masterAutomation,
+      ...(reverbWet ? { reverbReturn: reverbWet } : {}),
+      ...(delayWet ? { delayReturn: delayWet } : {})
+    },
+    buses: {
+      reverb: { decay: 3, returnLevel: 0.5 },
+      delay: { delayTime: 0.25, feedback: 0.5, returnLevel: 0.5 }
+    },
+    sources: Array.isArray(project.sources)
+      ? project.sources.map(source => {
+          const id = isRecord(source) ? String(source.id) : '';
+          // In the same order as the shared chain had them
+          const inserts = [
+            ...(enabled.distortion
+              ? [{ id: `${id}-distortion`, type: 'distortion', enabled: true, drive: 0.4, wet: 0.5 }]
+              : []),
+            ...(enabled.filter
+              ? [{ id: `${id}-filter`, type: 'filter', enabled: true, filterType: 'lowpass', frequency: filterFreq, Q: 1 }]
+              : [])
+          ];
+          return {
+            effects: { inserts, reverbSend: enabled.reverb ? 1 : 0, delaySend: enabled.delay ? 1 : 0 },
+            ...source,
+            automation: {
+              ...(isRecord(source) && isRecord(source.automation) ? source.automation : {}),
+              ...(enabled.filter && filterFrequency ? { filterFrequency } : {}),
+              ...(enabled.distortion && distortionWet ? { distortionWet } : {})
+            }
+          };
+        })
+      : project.sources
+  };
+}
+
+export const PROJECT_MIGRATIONS: Record<number, ProjectMigration> = {
+  // Version 2 added library folders and tags
+  1: project => ({
+    ...project,
+    library: Array.isArray(project.library)
+      ? project.library.map(item => ({ folder: null, tags: [], ...item }))
+      : project.library
+  }),
+  // Version 3 added timeline clips
+  2: project => ({
+    ...project,
+    sources: Array.isArray(project.sources)
+      ? project.sources.map(source => ({ clip: null, ...source }))
+      : project.sources
+  }),
+  // Version 4 added automation of sources and master effects
+  3: project => ({
+    automation: {},
+    ...project,
+    sources: Array.isArray(project.sources)
+      ? project.sources.map(source => ({ automation: {}, ...source }))
+      : project.sources
+  }),
+  // Version 5 gave every source its own effect chain and sends to shared
+  // buses, replacing the one chain all sources played through
+  4: migrateSharedEffects,
+  // Version 6 added the mixer: a channel strip per source and the master bus
+  5: project => ({
+    master: { fader: 0, limiter: true, ceiling: -1 },
+    ...project,
+    sources: Array.isArray(project.sources)
+      ? project.sources.map(source => ({
+          channel: { mute: false, solo: false, eq: { low: 0, mid: 0, high: 0 }, pan: 0, spatialLink: true },
+          ...source
+        }))
+      : project.sources
+  })
+};
+
+const SOURCE_AUTOMATION: (keyof SourceAutomation)[] = [
+  'positionX',
+  'positionY',
+  'positionZ',
+  'volume',
+  'filterFrequency',
+  'distortionWet',
+  'reverbSend',
+  'delaySend'
+];
+const MASTER_AUTOMATION: (keyof MasterAutomation)[] = ['reverbReturn', 'delayReturn'];
+// Numeric settings of each kind of insert. A Map, so a type read from the
+// file can't pick up inherited properties like "constructor".
+const INSERT_SETTINGS = new Map<InsertEffectType, string[]>([
+  ['reverb', ['decay', 'wet']],
+  ['delay', ['delayTime', 'feedback', 'wet']],
+  ['distortion', ['drive', 'wet']],
+  ['filter', ['frequency', 'Q']]
+]);
+const CHANNEL_SWITCHES: (keyof MixerChannel)[] = ['mute', 'solo', 'spatialLink'];
+const FILTER_TYPES: FilterType[] = ['lowpass', 'highpass', 'bandpass', 'notch'];
+const CLIP_TIMES: Exclude<keyof TimelineClip, 'loop'>[] = [
+  'start',
+  'trimStart',
+  'trimEnd',
+  'loopLength',
+  'fadeIn',
+  'fadeOut'
+];
+const VISUALIZATION_TYPES: VisualizationType[] = ['mathematical', 'cinematic', 'spatial'];
+
+// Base64 encode in chunks so large files don't overflow the argument list
+function bytesToBase64(bytes: Uint8Array): string {
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function copyAutomation<T extends Partial<Record<string, AutomationKeyframe[]>>>(automation: T): T {
+  return Object.fromEntries(
+    Object.entries(automation).map(([parameter, keyframes]) => [
+      parameter,
+      keyframes?.map(keyframe => ({ ...keyframe }))
+    ])
+  ) as T;
+}
+
+/**
+ * Build a project from the editor session. With `embedAudio` the audio files
+ * are stored inside the project; otherwise only their names and sizes are,
+ * and the files have to be picked again when the project is opened.
+ */
+export async function createProject(
+  session: EditorSession,
+  { embedAudio }: { embedAudio: boolean }
+): Promise<EditorProject> {
+  const library = await Promise.all(session.library.map(async (item): Promise<ProjectLibraryItem> => {
+    const audio: ProjectAudio = embedAudio
+      ? {
+          kind: 'embedded',
+          fileName: item.file.name,
+          mimeType: item.file.type,
+          data: bytesToBase64(new Uint8Array(await item.file.arrayBuffer()))
+        }
+      : { kind: 'reference', fileName: item.file.name, size: item.file.size };
+
+    return {
+      id: item.id,
+      name: item.name,
+      color: item.color,
+      folder: item.folder ?? null,
+      tags: item.tags ?? [],
+      audio
+    };
+  }));
+
+  // Only sources whose audio is saved can be restored
+  const savedIds = new Set(library.map(item => item.id));
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    library,
+    selectedItemId: session.selectedItemId && savedIds.has(session.selectedItemId) ? session.selectedItemId : null,
+    sources: session.sources
+      .filter(source => savedIds.has(source.id))
+      .map(source => ({
+        id: source.id,
+        position: { ...source.position },
+        volume: source.volume,
+        clip: source.clip ? { ...source.clip } : null,
+        automation: copyAutomation(source.automation),
+        effects: { ...source.effects, inserts: source.effects.inserts.map(insert => ({ ...insert })) },
+        channel: { ...source.channel, eq: { ...source.channel.eq } }
+      })),
+    automation: copyAutomation(session.automation),
+    buses: {
+      reverb: { ...session.buses.reverb },
+      delay: { ...session.buses.delay }
+    },
+    master: { ...session.master },
+    playbackSpeed: session.playbackSpeed,
+    visualizationType: session.visualizationType
+  };
+}
+
+export function serializeProject(project: EditorProject): string {
+  return JSON.stringify(project, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Bring a parsed project up to `targetVersion` by running each migration in
+ * turn. Throws when a step has no migration or the project is newer than
+ * this version of the editor understands.
+ */
+export function migrateProject(
+  project: Record<string, unknown>,
+  migrations: Record<number, ProjectMigration> = PROJECT_MIGRATIONS,
+  targetVersion: number = PROJECT_VERSION
+): Record<string, unknown> {
+  const version = project.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Invalid project file: version must be a positive whole number');
+  }
+  if (version > targetVersion) {
+    throw new Error(
+      `This project was saved by a newer version of the editor (project version ${version}, supported up to ${targetVersion})`
+    );
+  }
+
+  let migrated = project;
+  for (let from = version; from < targetVersion; from++) {
+    const migrate = migrations[from];
+    if (!migrate) {
+      throw new Error(`Cannot open project version ${from}: no migration to version ${from + 1}`);
+    }
+    migrated = { ...migrate(migrated), version: from + 1 };
+  }
+  return migrated;
+}
+
+// Collects readable problems with a project, each prefixed with its path
+function validateProject(project: Record<string, unknown>): string[] {
+  const issues: string[] = [];
+
+  const expectString = (value: unknown, path: string) => {
+    if (typeof value !== 'string') issues.push(`${path} must be a string`);
+  };
+  const expectNumber = (value: unknown, path: string, min = -Infinity) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${path} must be a number`);
+    } else if (value < min) {
+      issues.push(`${path} must be at least ${min}`);
+    }
+  };
+  const expectArray = (value: unknown, path: string): unknown[] => {
+    if (Array.isArray(value)) return value;
+    issues.push(`${path} must be a list`);
+    return [];
+  };
+  const expectRecord = (value: unknown, path: string): Record<string, unknown> | null => {
+    if (isRecord(value)) return value;
+    issues.push(`${path} must be an object`);
+    return null;
+  };
+  const expectAutomation = (value: unknown, path: string, parameters: string[]) => {
+    const automation = expectRecord(value, path);
+    if (!automation) return;
+
+    Object.entries(automation).forEach(([parameter, keyframes]) => {
+      if (!parameters.includes(parameter)) {
+        issues.push(`${path}.${parameter} is not an automatable parameter`);
+        return;
+      }
+      const list = expectArray(keyframes, `${path}.${parameter}`);
+      const times = list.flatMap(keyframe =>
+        isRecord(keyframe) && typeof keyframe.time === 'number' ? [keyframe.time] : []
+      );
+      if (times.some((time, k) => k > 0 && time < times[k - 1])) {
+        issues.push(`${path}.${parameter} keyframes must be in time order`);
+      }
+      list.forEach((keyframeValue, k) => {
+        const keyframePath = `${path}.${parameter}[${k}]`;
+        const keyframe = expectRecord(keyframeValue, keyframePath);
+        if (!keyframe) return;
+
+        expectNumber(keyframe.time, `${keyframePath}.time`, 0);
+        expectNumber(keyframe.value, `${keyframePath}.value`);
+        if (keyframe.interpolation !== 'linear' && keyframe.interpolation !== 'bezier') {
+          issues.push(`${keyframePath}.interpolation must be "linear" or "bezier"`);
+        }
+        if (keyframe.handles !== undefined && (
+          !Array.isArray(keyframe.handles) ||
+          keyframe.handles.length !== 4 ||
+          keyframe.handles.some(handle => typeof handle !== 'number')
+        )) {
+          issues.push(`${keyframePath}.handles must be a list of 4 numbers`);
+        }
+      });
+    });
+  };
+
+  expectString(project.savedAt, 'savedAt');
+
+  const libraryIds = new Set<string>();
+  expectArray(project.library, 'library').forEach((value, i) => {
+    const path = `library[${i}]`;
+    const item = expectRecord(value, path);
+    if (!item) return;
+
+    expectString(item.id, `${path}.id`);
+    expectString(item.name, `${path}.name`);
+    expectString(item.color, `${path}.color`);
+    if (item.folder !== null) {
+      expectString(item.folder, `${path}.folder`);
+    }
+    if (!Array.isArray(item.tags) || item.tags.some(tag => typeof tag !== 'string')) {
+      issues.push(`${path}.tags must be a list of strings`);
+    }
+    if (typeof item.id === 'string') {
+      if (libraryIds.has(item.id)) issues.push(`${path}.id "${item.id}" is used by more than one item`);
+      libraryIds.add(item.id);
+    }
+
+    const audio = expectRecord(item.audio, `${path}.audio`);
+    if (!audio) return;
+    expectString(audio.fileName, `${path}.audio.fileName`);
+    if (audio.kind === 'embedded') {
+      expectString(audio.mimeType, `${path}.audio.mimeType`);
+      expectString(audio.data, `${path}.audio.data`);
+    } else if (audio.kind === 'reference') {
+      expectNumber(audio.size, `${path}.audio.size`, 0);
+    } else {
+      issues.push(`${path}.audio.kind must be "embedded" or "reference"`);
+    }
+  });
+
+  if (project.selectedItemId !== null) {
+    expectString(project.selectedItemId, 'selectedItemId');
+  }
+
+  expectArray(project.sources, 'sources').forEach((value, i) => {
+    const path = `sources[${i}]`;
+    const source = expectRecord(value, path);
+    if (!source) return;
+
+    expectString(source.id, `${path}.id`);
+    if (typeof source.id === 'string' && !libraryIds.has(source.id)) {
+      issues.push(`${path}.id "${source.id}" does not match any library item`);
+    }
+    const position = expectRecord(source.position, `${path}.position`);
+    if (position) {
+      (['x', 'y', 'z'] as const).forEach(axis => expectNumber(position[axis], `${path}.position.${axis}`));
+    }
+    expectNumber(source.volume, `${path}.volume`, 0);
+    if (source.clip !== null) {
+      const clip = expectRecord(source.clip, `${path}.clip`);
+      if (clip) {
+        CLIP_TIMES.forEach(key => expectNumber(clip[key], `${path}.clip.${key}`, 0));
+        if (typeof clip.loop !== 'boolean') issues.push(`${path}.clip.loop must be true or false`);
+      }
+    }
+    expectAutomation(source.automation, `${path}.automation`, SOURCE_AUTOMATION);
+
+    const effects = expectRecord(source.effects, `${path}.effects`);
+    if (effects) {
+      expectNumber(effects.reverbSend, `${path}.effects.reverbSend`, 0);
+      expectNumber(effects.delaySend, `${path}.effects.delaySend`, 0);
+      expectArray(effects.inserts, `${path}.effects.inserts`).forEach((insertValue, k) => {
+        const insertPath = `${path}.effects.inserts[${k}]`;
+        const insert = expectRecord(insertValue, insertPath);
+        if (!insert) return;
+
+        expectString(insert.id, `${insertPath}.id`);
+        if (typeof insert.enabled !== 'boolean') issues.push(`${insertPath}.enabled must be true or false`);
+        const settings = INSERT_SETTINGS.get(insert.type as InsertEffectType);
+        if (!settings) {
+          issues.push(`${insertPath}.type must be one of ${[...INSERT_SETTINGS.keys()].map(type => `"${type}"`).join(', ')}`);
+          return;
+        }
+        settings.forEach(key => expectNumber(insert[key], `${insertPath}.${key}`, 0));
+        if (insert.type === 'filter' && !FILTER_TYPES.includes(insert.filterType as FilterType)) {
+          issues.push(`${insertPath}.filterType must be one of ${FILTER_TYPES.map(type => `"${type}"`).join(', ')}`);
+        }
+      });
+    }
+
+    const channel = expectRecord(source.channel, `${path}.channel`);
+    if (channel) {
+      CHANNEL_SWITCHES.forEach(key => {
+        if (typeof channel[key] !== 'boolean') issues.push(`${path}.channel.${key} must be true or false`);
+      });
+      const eq = expectRecord(channel.eq, `${path}.channel.eq`);
+      if (eq) {
+        (['low', 'mid', 'high'] as const).forEach(band => expectNumber(eq[band], `${path}.channel.eq.${band}`));
+      }
+      expectNumber(channel.pan, `${path}.channel.pan`, -1);
+      if (typeof channel.pan === 'number' && channel.pan > 1) issues.push(`${path}.channel.pan must be at most 1`);
+    }
+  });
+
+  expectAutomation(project.automation, 'automation', MASTER_AUTOMATION);
+
+  const buses = expectRecord(project.buses, 'buses');
+  if (buses) {
+    const reverb = expectRecord(buses.reverb, 'buses.reverb');
+    if (reverb) {
+      expectNumber(reverb.decay, 'buses.reverb.decay', 0);
+      expectNumber(reverb.returnLevel, 'buses.reverb.returnLevel', 0);
+    }
+    const delay = expectRecord(buses.delay, 'buses.delay');
+    if (delay) {
+      expectNumber(delay.delayTime, 'buses.delay.delayTime', 0);
+      expectNumber(delay.feedback, 'buses.delay.feedback', 0);
+      expectNumber(delay.returnLevel, 'buses.delay.returnLevel', 0);
+    }
+  }
+
+  const master = expectRecord(project.master, 'master');
+  if (master) {
+    expectNumber(master.fader, 'master.fader');
+    expectNumber(master.ceiling, 'master.ceiling');
+    if (typeof master.limiter !== 'boolean') issues.push('master.limiter must be true or false');
+  }
+
+  expectNumber(project.playbackSpeed, 'playbackSpeed', 0);
+  if (!VISUALIZATION_TYPES.includes(project.visualizationType as VisualizationType)) {
+    issues.push(`visualizationType must be one of ${VISUALIZATION_TYPES.map(type => `"${type}"`).join(', ')}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Read a project from the text of a project file: check it is one of ours,
+ * migrate it to the current version and validate it. Errors name every
+ * problem found so a broken file can be fixed by hand.
+ */
+export function parseProject(text: string): EditorProject {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid project file: the file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== PROJECT_FORMAT) {
+    throw new Error('Invalid project file: this is not a know-audio project');
+  }
+
+  const project = migrateProject(data);
+  const issues = validateProject(project);
+  if (issues.length > 0) {
+    throw new Error(`Invalid project file:\n${issues.map(issue => `- ${issue}`).join('\n')}`);
+  }
+
+  return project as unknown as EditorProject;
+}
+
+/**
+ * Get the audio file for a library item of an opened project. Embedded audio
+ * is decoded; referenced audio is matched by name against `files` the user
+ * picked, preferring a file of the saved size. Returns null when a
+ * referenced file wasn't picked.
+ */
+export function resolveProjectAudio(audio: ProjectAudio, files: File[]): File | null {
+  if (audio.kind === 'embedded') {
+    let bytes: Uint8Array;
+    try {
+      bytes = base64ToBytes(audio.data);
+    } catch {
+      throw new Error(`Invalid project file: the embedded audio of "${audio.fileName}" is damaged`);
+    }
+    return new File([bytes], audio.fileName, { type: audio.mimeType });
+  }
+
+  const candidates = files.filter(file => file.name === audio.fileName);
+  return candidates.find(file => file.size === audio.size) ?? candidates[0] ?? null;
+}
@@ -0,0 +1,138 @@
+import { type AudioSignal } from '../types/audio';
+import { createWavBlob } from './wav-encoder';
+
+// Name the capture processor is registered under in the audio worklet
+export const RECORDER_PROCESSOR_NAME = 'take-recorder';
+
+// Posted by the capture processor: a batch of samples per channel, or the end of the take
+export type RecorderMessage =
+  | { type: 'chunk'; channels: Float32Array[] }
+  | { type: 'done' };
+
+// Trimming never leaves less than this much of a take, in seconds
+export const MIN_TRIM_SECONDS = 0.05;
+
+// A recorded take held in memory. The trim is applied when it is exported.
+export interface RecordingTake {
+  id: string;
+  name: string;
+  sampleRate: number;
+  channels: Float32Array[];
+  recordedAt: number; // epoch ms
+  trimStart: number; // seconds
+  trimEnd: number; // seconds
+}
+
+// Smallest and largest sample within each slice of a waveform preview
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+// Join captured batches into one array per channel
+export function mergeChunks(chunks: Float32Array[][]): Float32Array[] {
+  const channelCount = chunks[0]?.length ?? 0;
+  const length = chunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+
+  return Array.from({ length: channelCount }, (_, channel) => {
+    const samples = new Float32Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      samples.set(chunk[channel], offset);
+      offset += chunk[channel].length;
+    });
+    return samples;
+  });
+}
+
+// A take of the captured batches, untrimmed
+export function createTake(
+  details: Pick<RecordingTake, 'id' | 'name' | 'recordedAt'>,
+  chunks: Float32Array[][],
+  sampleRate: number
+): RecordingTake {
+  const channels = mergeChunks(chunks);
+  return {
+    ...details,
+    sampleRate,
+    channels,
+    trimStart: 0,
+    trimEnd: (channels[0]?.length ?? 0) / sampleRate
+  };
+}
+
+// Length of the whole recording, ignoring the trim
+export function getTakeDuration(take: Pick<RecordingTake, 'channels' | 'sampleRate'>): number {
+  return (take.channels[0]?.length ?? 0) / take.sampleRate;
+}
+
+/**
+ * Move a take's trim points, keeping them inside the recording and at
+ * least `MIN_TRIM_SECONDS` apart. Whichever point would cross the other is
+ * held back.
+ */
+export function setTakeTrim(take: RecordingTake, trimStart: number, trimEnd: number): RecordingTake {
+  const duration = getTakeDuration(take);
+  const minLength = Math.min(MIN_TRIM_SECONDS, duration);
+
+  let start = Math.max(0, Math.min(trimStart, duration - minLength));
+  let end = Math.max(minLength, Math.min(trimEnd, duration));
+  if (end - start < minLength) {
+    if (start !== take.trimStart) {
+      start = end - minLength;
+    } else {
+      end = start + minLength;
+    }
+  }
+
+  return { ...take, trimStart: start, trimEnd: end };
+}
+
+// The kept part of a take, as a signal the analysis and encoders accept
+export function getTrimmedSignal(take: RecordingTake): AudioSignal {
+  const start = Math.round(take.trimStart * take.sampleRate);
+  const end = Math.round(take.trimEnd * take.sampleRate);
+  const channels = take.channels.map(samples => samples.subarray(start, end));
+  const length = channels[0]?.length ?? 0;
+
+  return {
+    sampleRate: take.sampleRate,
+    length,
+    duration: length / take.sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: channel => channels[channel]
+  };
+}
+
+// Peaks of `bucketCount` equal slices across all channels, for drawing a waveform
+export function computeWaveformPeaks(channels: Float32Array[], bucketCount: number): WaveformPeaks {
+  const min = new Float32Array(bucketCount);
+  const max = new Float32Array(bucketCount);
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) return { min, max };
+
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = Math.floor((bucket * length) / bucketCount);
+    const end = Math.max(start + 1, Math.floor(((bucket + 1) * length) / bucketCount));
+    let low = Infinity;
+    let high = -Infinity;
+
+    channels.forEach(samples => {
+      for (let i = start; i < end && i < length; i++) {
+        if (samples[i] < low) low = samples[i];
+        if (samples[i] > high) high = samples[i];
+      }
+    });
+
+    min[bucket] = low;
+    max[bucket] = high;
+  }
+
+  return { min, max };
+}
+
+// The trimmed take as a 24-bit WAV file, ready to add to the library
+export function createTakeFile(take: RecordingTake): File {
+  const blob = createWavBlob(getTrimmedSignal(take), { bitDepth: 24 });
+  return new File([blob], `${take.name}.wav`, { type: 'audio/wav', lastModified: take.recordedAt });
+}
@@ -0,0 +1,396 @@
+import { type SpectralDescriptors, type SpectrogramData, type TimeSegment } from '../types/audio';
+import { DEFAULT_STFT_OPTIONS } from './stft';
+import { computeSpectralFlatness, toPowerSpectrum, type PitchEstimate } from './spectral-features';
+
+export type SoundClass = 'speech' | 'music' | 'environmental';
+
+export const SOUND_CLASSES: SoundClass[] = ['speech', 'music', 'environmental'];
+
+// Descriptors of one analysis frame
+export interface ClassificationFrame {
+  time: number; // seconds, start of the frame
+  level: number; // dB of the total power
+  zeroCrossingRate: number;
+  centroid: number; // Hz
+  noisiness: number; // flatness within narrow sub-bands, weighted by their power
+  peaks: number[]; // bins of prominent spectral peaks
+  mfcc: Float32Array;
+  pitch: PitchEstimate;
+}
+
+// Statistics of the frames around one frame that the classes are scored on
+export interface TextureFeatures {
+  activity: number; // share of frames above the silence floor
+  voicing: number; // share of active frames with a clear pitch
+  pitchStability: number; // share of voiced frames holding their pitch for 100 ms
+  modulation: number; // depth of the level envelope's 3-6 Hz (syllable rate) modulation
+  lowEnergy: number; // share of frames well below the average level
+  noisiness: number; // mean sub-band flatness of the active frames
+  peakPersistence: number; // share of spectral peaks still there 100 ms later
+  heldPeaks: number; // mean number of those per active frame
+  zeroCrossingSpread: number; // standard deviation of the zero-crossing rate
+  centroidSpread: number; // standard deviation of the spectral centroid, in octaves
+  timbreFlux: number; // mean MFCC change from one frame to the next
+}
+
+export interface SoundClassification {
+  frameDuration: number; // seconds between consecutive scores
+  scores: Record<SoundClass, Float32Array>; // smoothed likelihood of each class per frame, 0-1
+  segments: Record<SoundClass, TimeSegment[]>;
+}
+
+// Frames around the current one that texture features are measured over, in seconds
+const TEXTURE_WINDOW = 1;
+
+// Frames quieter than this, or this far below the loud part of the file, are silent
+const SILENCE_DB = -60;
+const RELATIVE_SILENCE_DB = -45;
+
+// Frames whose pitch clarity reaches this are voiced
+const VOICED_CLARITY = 0.6;
+
+// Pitch changes within this many semitones (or octaves of it) count as held
+const STABLE_PITCH_SEMITONES = 0.5;
+const PITCH_HOLD_DURATION = 0.1;
+
+// Modulation frequencies of the syllable rate, in Hz
+const SYLLABLE_RATE_RANGE: [number, number] = [3, 6];
+
+// Scores are averaged over this many seconds before segmenting
+const SMOOTHING_WINDOW = 0.5;
+
+// A class starts a segment above the first score and ends it below the second
+const SEGMENT_ENTER_SCORE = 0.6;
+const SEGMENT_EXIT_SCORE = 0.4;
+
+// Segments shorter than this are dropped, gaps shorter than this are bridged
+const MIN_SEGMENT_DURATION = 0.5;
+const MAX_SEGMENT_GAP = 0.3;
+
+// Bins in each sub-band that noisiness is measured over
+const SUB_BAND_BINS = 32;
+
+// A peak stands this many dB above the bins either side of it, within
+// this many dB of the frame's loudest bin
+const PEAK_PROMINENCE_DB = 6;
+const PEAK_NEIGHBOUR_BINS = 3;
+const PEAK_RANGE_DB = 40;
+
+// Power-weighted flatness of narrow sub-bands, which ignores the overall
+// spectral tilt that makes filtered noise look tonal
+function getNoisiness(power: Float32Array): number {
+  let weighted = 0;
+  let total = 0;
+  for (let start = 1; start < power.length; start += SUB_BAND_BINS) {
+    const end = Math.min(power.length, start + SUB_BAND_BINS);
+    let bandPower = 0;
+    for (let bin = start; bin < end; bin++) bandPower += power[bin];
+    weighted += computeSpectralFlatness(power, start, end) * bandPower;
+    total += bandPower;
+  }
+  return total > 0 ? weighted / total : 0;
+}
+
+// Bins that rise clearly above their neighbours and aren't far below the loudest bin
+function findPeaks(power: Float32Array): number[] {
+  const decibels = power.map(value => 10 * Math.log10(value + 1e-12));
+  const loudest = decibels.reduce((max, value) => Math.max(max, value), -Infinity);
+  const peaks: number[] = [];
+  for (let bin = PEAK_NEIGHBOUR_BINS; bin < decibels.length - PEAK_NEIGHBOUR_BINS; bin++) {
+    const value = decibels[bin];
+    if (value < loudest - PEAK_RANGE_DB || value < decibels[bin - 1] || value < decibels[bin + 1]) continue;
+    if (
+      value - decibels[bin - PEAK_NEIGHBOUR_BINS] >= PEAK_PROMINENCE_DB &&
+      value - decibels[bin + PEAK_NEIGHBOUR_BINS] >= PEAK_PROMINENCE_DB
+    ) {
+      peaks.push(bin);
+    }
+  }
+  return peaks;
+}
+
+/**
+ * Combine the shared descriptors of each frame with the spectral peaks and
+ * sub-band noisiness of the spectrogram frame it was taken from.
+ */
+export function computeClassificationFrames(
+  descriptors: SpectralDescriptors,
+  spectrogram: SpectrogramData
+): ClassificationFrame[] {
+  const spectrumHop = spectrogram.hopSize ?? DEFAULT_STFT_OPTIONS.hopSize;
+  const stride = Math.max(1, Math.round(descriptors.hopSize / spectrumHop));
+  const scale = spectrogram.scale ?? 'decibels';
+
+  return Array.from(descriptors.level, (level, index) => {
+    const spectrum = spectrogram.data[Math.min(spectrogram.data.length - 1, index * stride)];
+    const power = toPowerSpectrum(spectrum, scale);
+    return {
+      time: index * descriptors.frameDuration,
+      level,
+      zeroCrossingRate: descriptors.zeroCrossingRate[index],
+      centroid: descriptors.centroid[index],
+      noisiness: getNoisiness(power),
+      peaks: findPeaks(power),
+      mfcc: descriptors.mfcc[index],
+      pitch: { frequency: descriptors.pitch[index], clarity: descriptors.pitchClarity[index] }
+    };
+  });
+}
+
+// Silence floor for a file: absolute, or relative to its loud frames
+function getSilenceFloor(frames: ClassificationFrame[]): number {
+  const levels = frames.map(frame => frame.level).filter(Number.isFinite).sort((a, b) => a - b);
+  if (levels.length === 0) return Infinity;
+  const loud = levels[Math.floor(levels.length * 0.95)];
+  return Math.max(SILENCE_DB, loud + RELATIVE_SILENCE_DB);
+}
+
+// Semitone distance between two pitches, folded so octave jumps count as held
+function pitchDistance(a: number, b: number): number {
+  const semitones = Math.abs(12 * Math.log2(a / b)) % 12;
+  return Math.min(semitones, 12 - semitones);
+}
+
+// Depth of the envelope's modulation within a frequency range, from its DFT
+function getModulationDepth(envelope: Float32Array, frameDuration: number, range: [number, number]): number {
+  const mean = envelope.reduce((sum, value) => sum + value, 0) / envelope.length;
+  if (!(mean > 0)) return 0;
+
+  const duration = envelope.length * frameDuration;
+  const first = Math.max(1, Math.ceil(range[0] * duration));
+  const last = Math.floor(range[1] * duration);
+  let power = 0;
+  for (let k = first; k <= last; k++) {
+    let real = 0;
+    let imag = 0;
+    envelope.forEach((value, n) => {
+      const phase = (2 * Math.PI * k * n) / envelope.length;
+      real += (value - mean) * Math.cos(phase);
+      imag -= (value - mean) * Math.sin(phase);
+    });
+    power += real * real + imag * imag;
+  }
+  return Math.sqrt(power) / (envelope.length * mean);
+}
+
+const sumRange = (values: Float32Array, start: number, end: number) => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += values[i];
+  return sum;
+};
+
+/**
+ * Texture features of every frame, over the frames within half a texture
+ * window either side of it. Comparisons between frames (pitch held, peaks
+ * persisting, MFCC change) are made once per frame and summed per window.
+ */
+export function computeTextureFeatures(frames: ClassificationFrame[], frameDuration: number): TextureFeatures[] {
+  const count = frames.length;
+  const floor = getSilenceFloor(frames);
+  const holdFrames = Math.max(1, Math.round(PITCH_HOLD_DURATION / frameDuration));
+  const halfWindow = Math.max(1, Math.round(TEXTURE_WINDOW / frameDuration / 2));
+
+  const isActive = (frame: ClassificationFrame) => frame.level >= floor;
+  const isVoiced = (frame: ClassificationFrame) =>
+    isActive(frame) && frame.pitch.clarity >= VOICED_CLARITY && frame.pitch.frequency > 0;
+
+  // Per-frame quantities, summed over each window below
+  const active = new Float32Array(count);
+  const voiced = new Float32Array(count);
+  const pitchPairs = new Float32Array(count);
+  const pitchHeld = new Float32Array(count);
+  const peakCounts = new Float32Array(count);
+  const peaksKept = new Float32Array(count);
+  const fluxPairs = new Float32Array(count);
+  const flux = new Float32Array(count);
+  const noisiness = new Float32Array(count);
+  const zeroCrossings = new Float32Array(count);
+  const zeroCrossingSquares = new Float32Array(count);
+  const centroids = new Float32Array(count);
+  const centroidSquares = new Float32Array(count);
+  const amplitudes = new Float32Array(count);
+
+  frames.forEach((frame, i) => {
+    amplitudes[i] = Number.isFinite(frame.level) ? Math.pow(10, frame.level / 20) : 0;
+    if (!isActive(frame)) return;
+    active[i] = 1;
+    voiced[i] = isVoiced(frame) ? 1 : 0;
+    noisiness[i] = frame.noisiness;
+    zeroCrossings[i] = frame.zeroCrossingRate;
+    zeroCrossingSquares[i] = frame.zeroCrossingRate ** 2;
+    centroids[i] = Math.log2(Math.max(1, frame.centroid));
+    centroidSquares[i] = centroids[i] ** 2;
+
+    const later = frames[i + holdFrames];
+    if (later && voiced[i] && isVoiced(later)) {
+      pitchPairs[i] = 1;
+      pitchHeld[i] = pitchDistance(frame.pitch.frequency, later.pitch.frequency) < STABLE_PITCH_SEMITONES ? 1 : 0;
+    }
+    if (later && isActive(later)) {
+      peakCounts[i] = frame.peaks.length;
+      peaksKept[i] = frame.peaks.filter(bin => later.peaks.some(other => Math.abs(other - bin) <= 1)).length;
+    }
+
+    const next = frames[i + 1];
+    if (next && isActive(next)) {
+      let distance = 0;
+      for (let k = 1; k < frame.mfcc.length; k++) distance += (next.mfcc[k] - frame.mfcc[k]) ** 2;
+      fluxPairs[i] = 1;
+      flux[i] = Math.sqrt(distance);
+    }
+  });
+
+  return frames.map((_, index) => {
+    const start = Math.max(0, index - halfWindow);
+    const end = Math.min(count, index + halfWindow + 1);
+    const length = end - start;
+    const activeCount = sumRange(active, start, end);
+    const pairCount = sumRange(pitchPairs, start, end);
+    const peakCount = sumRange(peakCounts, start, end);
+    const fluxCount = sumRange(fluxPairs, start, end);
+    const envelope = amplitudes.subarray(start, end);
+    const meanAmplitude = sumRange(amplitudes, start, end) / length;
+    const spread = (values: Float32Array, squares: Float32Array) => {
+      if (activeCount === 0) return 0;
+      const mean = sumRange(values, start, end) / activeCount;
+      return Math.sqrt(Math.max(0, sumRange(squares, start, end) / activeCount - mean ** 2));
+    };
+
+    return {
+      activity: activeCount / length,
+      voicing: activeCount > 0 ? sumRange(voiced, start, end) / activeCount : 0,
+      pitchStability: pairCount > 0 ? sumRange(pitchHeld, start, end) / pairCount : 0,
+      modulation: getModulationDepth(envelope, frameDuration, SYLLABLE_RATE_RANGE),
+      lowEnergy: envelope.filter(value => value < meanAmplitude * 0.5).length / length,
+      noisiness: activeCount > 0 ? sumRange(noisiness, start, end) / activeCount : 0,
+      peakPersistence: peakCount > 0 ? sumRange(peaksKept, start, end) / peakCount : 0,
+      heldPeaks: activeCount > 0 ? sumRange(peaksKept, start, end) / activeCount : 0,
+      zeroCrossingSpread: spread(zeroCrossings, zeroCrossingSquares),
+      centroidSpread: spread(centroids, centroidSquares),
+      timbreFlux: fluxCount > 0 ? sumRange(flux, start, end) / fluxCount : 0
+    };
+  });
+}
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+/**
+ * Likelihood of each class given the texture around a frame. Speech is
+ * voiced with a moving pitch, modulated at the syllable rate, with pauses
+ * and quick changes between voiced and fricative sounds; music holds its spectral
+ * peaks; environmental sound is noise-like without either. Speech and
+ * music are scored on features the other barely affects, so a voice over
+ * a music bed scores high for both.
+ */
+export function scoreTexture(texture: TextureFeatures): Record<SoundClass, number> {
+  if (texture.activity === 0) return { speech: 0, music: 0, environmental: 0 };
+
+  const {
+    voicing,
+    pitchStability,
+    modulation,
+    lowEnergy,
+    noisiness,
+    peakPersistence,
+    heldPeaks,
+    zeroCrossingSpread,
+    centroidSpread,
+    timbreFlux
+  } = texture;
+  return {
+    speech: sigmoid(
+      -6 + 6 * modulation + 5 * lowEnergy + 10 * zeroCrossingSpread + 1.5 * centroidSpread +
+        0.3 * timbreFlux + 3 * voicing * (1 - pitchStability) - 4 * noisiness
+    ),
+    music: sigmoid(-4 + 0.8 * heldPeaks + 4 * peakPersistence + voicing * pitchStability - 6 * noisiness),
+    environmental: sigmoid(-2 + 8 * noisiness - 4 * peakPersistence - 3 * voicing - 10 * zeroCrossingSpread)
+  };
+}
+
+// Moving average over a centered window of `size` frames
+function smooth(values: Float32Array, size: number): Float32Array {
+  const half = Math.floor(size / 2);
+  const smoothed = new Float32Array(values.length);
+  let sum = 0;
+  let start = 0;
+  let end = 0;
+  for (let i = 0; i < values.length; i++) {
+    while (end < Math.min(values.length, i + half + 1)) sum += values[end++];
+    while (start < i - half) sum -= values[start++];
+    smoothed[i] = sum / (end - start);
+  }
+  return smoothed;
+}
+
+/**
+ * Segments where a score rises above the enter threshold, until it falls
+ * below the exit threshold. Short gaps are bridged and short segments
+ * dropped; confidence is the mean score over the segment.
+ */
+export function segmentScores(
+  scores: Float32Array,
+  frameDuration: number,
+  type: string,
+  duration = scores.length * frameDuration
+): TimeSegment[] {
+  const ranges: [number, number][] = [];
+  let start = -1;
+  scores.forEach((score, index) => {
+    if (start < 0 && score >= SEGMENT_ENTER_SCORE) start = index;
+    if (start >= 0 && score < SEGMENT_EXIT_SCORE) {
+      ranges.push([start, index]);
+      start = -1;
+    }
+  });
+  if (start >= 0) ranges.push([start, scores.length]);
+
+  const merged: [number, number][] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && (range[0] - last[1]) * frameDuration <= MAX_SEGMENT_GAP) {
+      last[1] = range[1];
+    } else {
+      merged.push([...range]);
+    }
+  });
+
+  return merged
+    .filter(([first, last]) => (last - first) * frameDuration >= MIN_SEGMENT_DURATION)
+    .map(([first, last]) => ({
+      start: first * frameDuration,
+      end: last === scores.length ? duration : Math.min(duration, last * frameDuration),
+      type,
+      confidence: sumRange(scores, first, last) / (last - first)
+    }));
+}
+
+/**
+ * Classify a signal into speech, music and environmental sound over time.
+ * Each class is scored on its own, so segments of different classes may
+ * overlap, e.g. speech over a music bed.
+ */
+export function classifySound(
+  descriptors: SpectralDescriptors,
+  spectrogram: SpectrogramData,
+  duration: number
+): SoundClassification {
+  const { frameDuration } = descriptors;
+  const frames = computeClassificationFrames(descriptors, spectrogram);
+  const textures = computeTextureFeatures(frames, frameDuration);
+  const floor = getSilenceFloor(frames);
+
+  // Silent frames belong to no class
+  const frameScores = textures.map((texture, index) =>
+    frames[index].level >= floor ? scoreTexture(texture) : { speech: 0, music: 0, environmental: 0 }
+  );
+
+  const smoothingFrames = Math.max(1, Math.round(SMOOTHING_WINDOW / frameDuration));
+  const scores = {} as Record<SoundClass, Float32Array>;
+  const segments = {} as Record<SoundClass, TimeSegment[]>;
+  SOUND_CLASSES.forEach(type => {
+    scores[type] = smooth(Float32Array.from(frameScores, score => score[type]), smoothingFrames);
+    segments[type] = segmentScores(scores[type], frameDuration, type, duration);
+  });
+
+  return { frameDuration, scores, segments };
+}
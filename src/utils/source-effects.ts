@@ -0,0 +1,101 @@
+import {
+  type InsertEffect,
+  type InsertEffectType,
+  type SendBuses,
+  type SourceEffects,
+  type SpatialAudioData
+} from '../types/spatial-audio';
+
+// Settings a new insert of each type starts with
+export const INSERT_DEFAULTS = {
+  reverb: { decay: 3, wet: 0.5 },
+  delay: { delayTime: 0.25, feedback: 0.5, wet: 0.5 },
+  distortion: { drive: 0.4, wet: 0.5 },
+  filter: { filterType: 'lowpass' as const, frequency: 1000, Q: 1 }
+};
+
+export const INSERT_LABELS: Record<InsertEffectType, string> = {
+  reverb: 'Reverb',
+  delay: 'Delay',
+  distortion: 'Distortion',
+  filter: 'Filter'
+};
+
+export const DEFAULT_SEND_BUSES: SendBuses = {
+  reverb: { decay: 3, returnLevel: 0.5 },
+  delay: { delayTime: 0.25, feedback: 0.5, returnLevel: 0.5 }
+};
+
+// No inserts and no sends
+export const NO_EFFECTS: SourceEffects = { inserts: [], reverbSend: 0, delaySend: 0 };
+
+// Which kinds of effect are audible anywhere in the mix
+export type ActiveEffects = Record<InsertEffectType, boolean>;
+
+// An enabled insert of `type` with its default settings
+export function createInsert(type: InsertEffectType, id: string): InsertEffect {
+  switch (type) {
+    case 'reverb':
+      return { id, type, enabled: true, ...INSERT_DEFAULTS.reverb };
+    case 'delay':
+      return { id, type, enabled: true, ...INSERT_DEFAULTS.delay };
+    case 'distortion':
+      return { id, type, enabled: true, ...INSERT_DEFAULTS.distortion };
+    case 'filter':
+      return { id, type, enabled: true, ...INSERT_DEFAULTS.filter };
+  }
+}
+
+// A source's effects, defaulting to no inserts and no sends
+export function getSourceEffects(source: Pick<SpatialAudioData, 'effects'>): SourceEffects {
+  return source.effects ?? NO_EFFECTS;
+}
+
+// The inserts with the one at `index` moved `offset` places, kept within the chain
+export function moveInsert(inserts: InsertEffect[], index: number, offset: number): InsertEffect[] {
+  const target = Math.min(Math.max(index + offset, 0), inserts.length - 1);
+  if (index < 0 || index >= inserts.length || target === index) return inserts;
+
+  const moved = [...inserts];
+  const [insert] = moved.splice(index, 1);
+  moved.splice(target, 0, insert);
+  return moved;
+}
+
+/**
+ * Whether a source's effects keep sounding after it stops: an enabled reverb
+ * or delay insert, or a send to either bus.
+ */
+export function hasEffectTail(effects: SourceEffects): boolean {
+  return effects.reverbSend > 0 || effects.delaySend > 0 || effects.inserts.some(insert =>
+    insert.enabled && (insert.type === 'reverb' || insert.type === 'delay')
+  );
+}
+
+/**
+ * The kinds of effect in use across the sources. Sends count towards reverb
+ * and delay.
+ */
+export function getActiveEffects(sources: Pick<SpatialAudioData, 'effects'>[]): ActiveEffects {
+  const active: ActiveEffects = { reverb: false, delay: false, distortion: false, filter: false };
+  sources.forEach(source => {
+    const effects = getSourceEffects(source);
+    effects.inserts.forEach(insert => {
+      if (insert.enabled) active[insert.type] = true;
+    });
+    if (effects.reverbSend > 0) active.reverb = true;
+    if (effects.delaySend > 0) active.delay = true;
+  });
+  return active;
+}
+
+/**
+ * Whether two chains have the same inserts in the same order, each switched
+ * on or off alike. A chain that keeps its structure only needs its settings
+ * updated rather than rebuilding.
+ */
+export function isSameChain(a: InsertEffect[], b: InsertEffect[]): boolean {
+  return a.length === b.length && a.every((insert, i) =>
+    insert.id === b[i].id && insert.type === b[i].type && insert.enabled === b[i].enabled
+  );
+}
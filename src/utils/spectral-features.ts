@@ -0,0 +1,308 @@
+// Frame-level descriptors of a power spectrum or a block of samples:
+// MFCCs, spectral shape, zero-crossing rate and an autocorrelation pitch.
+// Spectra are single-sided power spectra of fftSize / 2 + 1 bins, as
+// computed by `computeSpectrum` with the 'power' scale.
+
+import { binToFrequency, createWindow, fft, type SpectrumScale, type WindowFunction } from './stft';
+
+export interface MFCCOptions {
+  filterCount?: number; // triangular mel filters
+  coefficientCount?: number; // cepstral coefficients kept, including c0
+  minFrequency?: number;
+  maxFrequency?: number; // defaults to the Nyquist frequency
+}
+
+const DEFAULT_MFCC_OPTIONS = {
+  filterCount: 26,
+  coefficientCount: 13,
+  minFrequency: 20
+};
+
+export interface PitchEstimate {
+  frequency: number; // Hz, 0 when no period stood out
+  clarity: number; // normalized autocorrelation at the period, 0-1
+}
+
+export interface PitchRange {
+  minFrequency?: number;
+  maxFrequency?: number;
+}
+
+const DEFAULT_PITCH_RANGE: Required<PitchRange> = {
+  minFrequency: 70,
+  maxFrequency: 500
+};
+
+// Peaks within this share of the highest one are taken as the period, so
+// the fundamental wins over its subharmonics
+const PITCH_PEAK_TOLERANCE = 0.9;
+
+// Floor added to powers before taking logarithms
+const POWER_FLOOR = 1e-12;
+
+// Edges of the octave sub-bands spectral contrast is measured in, in Hz;
+// the last band runs up to Nyquist
+export const CONTRAST_BAND_EDGES = [0, 200, 400, 800, 1600, 3200, 6400];
+
+// Share of a sub-band's bins averaged for its peak and its valley
+const CONTRAST_QUANTILE = 0.02;
+
+// Convert a spectrum in any of the STFT scales to power
+export function toPowerSpectrum(frame: Float32Array, scale: SpectrumScale = 'decibels'): Float32Array {
+  if (scale === 'power') return frame;
+  if (scale === 'magnitude') return frame.map(value => value * value);
+  return frame.map(value => Math.pow(10, value / 10));
+}
+
+export function hzToMel(frequency: number): number {
+  return 2595 * Math.log10(1 + frequency / 700);
+}
+
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+const filterbankCache = new Map<string, Float32Array[]>();
+
+/**
+ * Triangular filters spaced evenly on the mel scale, one weight per bin.
+ * Filters are area-normalized so wide high filters don't dominate.
+ */
+export function createMelFilterbank(
+  fftSize: number,
+  sampleRate: number,
+  filterCount: number,
+  minFrequency: number,
+  maxFrequency: number
+): Float32Array[] {
+  const key = `${fftSize}:${sampleRate}:${filterCount}:${minFrequency}:${maxFrequency}`;
+  const cached = filterbankCache.get(key);
+  if (cached) return cached;
+
+  const binCount = fftSize / 2 + 1;
+  const minMel = hzToMel(minFrequency);
+  const maxMel = hzToMel(maxFrequency);
+  const edges = Array.from({ length: filterCount + 2 }, (_, i) =>
+    melToHz(minMel + ((maxMel - minMel) * i) / (filterCount + 1))
+  );
+
+  const filters = Array.from({ length: filterCount }, (_, index) => {
+    const [lower, center, upper] = edges.slice(index, index + 3);
+    const weights = new Float32Array(binCount);
+    for (let bin = 0; bin < binCount; bin++) {
+      const frequency = binToFrequency(bin, fftSize, sampleRate);
+      if (frequency > lower && frequency < upper) {
+        const rising = (frequency - lower) / (center - lower);
+        const falling = (upper - frequency) / (upper - center);
+        weights[bin] = (Math.min(rising, falling) * 2) / (upper - lower);
+      }
+    }
+    return weights;
+  });
+
+  filterbankCache.set(key, filters);
+  return filters;
+}
+
+/**
+ * Mel-frequency cepstral coefficients of one power spectrum: the log
+ * energies of a mel filterbank, decorrelated with an orthonormal DCT-II.
+ */
+export function computeMFCC(
+  power: Float32Array,
+  sampleRate: number,
+  options: MFCCOptions = {}
+): Float32Array {
+  const fftSize = (power.length - 1) * 2;
+  const { filterCount, coefficientCount, minFrequency, maxFrequency } = {
+    ...DEFAULT_MFCC_OPTIONS,
+    maxFrequency: sampleRate / 2,
+    ...options
+  };
+  const filters = createMelFilterbank(fftSize, sampleRate, filterCount, minFrequency, maxFrequency);
+
+  const logEnergies = filters.map(weights => {
+    let energy = 0;
+    for (let bin = 0; bin < weights.length; bin++) energy += weights[bin] * power[bin];
+    return Math.log(energy + POWER_FLOOR);
+  });
+
+  const coefficients = new Float32Array(coefficientCount);
+  for (let k = 0; k < coefficientCount; k++) {
+    let sum = 0;
+    logEnergies.forEach((energy, n) => {
+      sum += energy * Math.cos((Math.PI * k * (n + 0.5)) / filterCount);
+    });
+    coefficients[k] = sum * Math.sqrt((k === 0 ? 1 : 2) / filterCount);
+  }
+
+  return coefficients;
+}
+
+// Power-weighted mean frequency, in Hz
+export function computeSpectralCentroid(power: Float32Array, sampleRate: number): number {
+  const fftSize = (power.length - 1) * 2;
+  let weighted = 0;
+  let total = 0;
+  for (let bin = 0; bin < power.length; bin++) {
+    weighted += binToFrequency(bin, fftSize, sampleRate) * power[bin];
+    total += power[bin];
+  }
+  return total > 0 ? weighted / total : 0;
+}
+
+// Power-weighted spread of frequencies around the centroid, in Hz
+export function computeSpectralBandwidth(
+  power: Float32Array,
+  sampleRate: number,
+  centroid = computeSpectralCentroid(power, sampleRate)
+): number {
+  const fftSize = (power.length - 1) * 2;
+  let weighted = 0;
+  let total = 0;
+  for (let bin = 0; bin < power.length; bin++) {
+    weighted += (binToFrequency(bin, fftSize, sampleRate) - centroid) ** 2 * power[bin];
+    total += power[bin];
+  }
+  return total > 0 ? Math.sqrt(weighted / total) : 0;
+}
+
+/**
+ * Spectral contrast: the level difference in dB between the loudest and
+ * quietest bins of each octave sub-band. Peaks and valleys are averaged
+ * over the top and bottom few percent of the bins. High for tonal bands,
+ * low for noisy ones.
+ */
+export function computeSpectralContrast(power: Float32Array, sampleRate: number): Float32Array {
+  const fftSize = (power.length - 1) * 2;
+  const edges = [...CONTRAST_BAND_EDGES, sampleRate / 2];
+  const contrast = new Float32Array(CONTRAST_BAND_EDGES.length);
+
+  CONTRAST_BAND_EDGES.forEach((low, band) => {
+    const start = Math.max(1, Math.ceil((low * fftSize) / sampleRate));
+    const end = Math.min(power.length, Math.ceil((edges[band + 1] * fftSize) / sampleRate));
+    if (end <= start) return;
+
+    const sorted = Array.from(power.subarray(start, end)).sort((a, b) => a - b);
+    const count = Math.max(1, Math.round(sorted.length * CONTRAST_QUANTILE));
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const valley = mean(sorted.slice(0, count));
+    const peak = mean(sorted.slice(-count));
+    contrast[band] = 10 * Math.log10((peak + POWER_FLOOR) / (valley + POWER_FLOOR));
+  });
+
+  return contrast;
+}
+
+// Frequency below which `fraction` of the power lies, in Hz
+export function computeSpectralRolloff(power: Float32Array, sampleRate: number, fraction = 0.85): number {
+  const fftSize = (power.length - 1) * 2;
+  let total = 0;
+  for (let bin = 0; bin < power.length; bin++) total += power[bin];
+
+  let cumulative = 0;
+  for (let bin = 0; bin < power.length; bin++) {
+    cumulative += power[bin];
+    if (cumulative >= total * fraction) return binToFrequency(bin, fftSize, sampleRate);
+  }
+  return 0;
+}
+
+/**
+ * Geometric over arithmetic mean of the power from bin `start` up to
+ * `end` (everything above DC by default): near 0 for tones, around 0.5
+ * for white noise
+ */
+export function computeSpectralFlatness(power: Float32Array, start = 1, end = power.length): number {
+  let logSum = 0;
+  let sum = 0;
+  for (let bin = start; bin < end; bin++) {
+    logSum += Math.log(power[bin] + POWER_FLOOR);
+    sum += power[bin];
+  }
+  const count = end - start;
+  return sum > 0 && count > 0 ? Math.exp(logSum / count) / (sum / count) : 0;
+}
+
+// Share of consecutive samples that change sign
+export function computeZeroCrossingRate(samples: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+  }
+  return samples.length > 1 ? crossings / (samples.length - 1) : 0;
+}
+
+const autocorrelationCache = new Map<string, Float32Array>();
+
+// Circular autocorrelation of a power spectrum, from its inverse transform
+function autocorrelate(power: ArrayLike<number>, fftSize: number): Float32Array {
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  for (let bin = 0; bin <= fftSize / 2; bin++) {
+    real[bin] = power[bin];
+    if (bin > 0 && bin < fftSize / 2) real[fftSize - bin] = power[bin];
+  }
+  fft(real, imag);
+  return real;
+}
+
+// Autocorrelation of the analysis window, to undo its taper at longer lags
+function getWindowAutocorrelation(windowFunction: WindowFunction, fftSize: number): Float32Array {
+  const key = `${windowFunction}:${fftSize}`;
+  const cached = autocorrelationCache.get(key);
+  if (cached) return cached;
+
+  const window = createWindow(windowFunction, fftSize);
+  const real = window.slice();
+  const imag = new Float32Array(fftSize);
+  fft(real, imag);
+  const power = real.map((value, bin) => value * value + imag[bin] * imag[bin]);
+  const result = autocorrelate(power, fftSize);
+  autocorrelationCache.set(key, result);
+  return result;
+}
+
+/**
+ * Estimate the fundamental of one windowed frame from its power spectrum.
+ * The autocorrelation is the inverse transform of the power spectrum; it
+ * is divided by the window's own autocorrelation and normalized to lag 0.
+ * The first peak nearly as high as the highest within the range is taken
+ * as the period.
+ */
+export function estimatePitch(
+  power: Float32Array,
+  sampleRate: number,
+  range: PitchRange = {},
+  windowFunction: WindowFunction = 'hann'
+): PitchEstimate {
+  const { minFrequency, maxFrequency } = { ...DEFAULT_PITCH_RANGE, ...range };
+  const fftSize = (power.length - 1) * 2;
+  const correlation = autocorrelate(power, fftSize);
+  const windowCorrelation = getWindowAutocorrelation(windowFunction, fftSize);
+  if (!(correlation[0] > 0)) return { frequency: 0, clarity: 0 };
+
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const maxLag = Math.min(fftSize / 2 - 1, Math.ceil(sampleRate / minFrequency));
+  const normalized = (lag: number) =>
+    correlation[lag] / correlation[0] / Math.max(1e-3, windowCorrelation[lag] / windowCorrelation[0]);
+
+  const values = new Float32Array(maxLag + 2);
+  let highest = 0;
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    values[lag] = normalized(lag);
+    if (lag >= minLag && lag <= maxLag) highest = Math.max(highest, values[lag]);
+  }
+  if (highest <= 0) return { frequency: 0, clarity: 0 };
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const value = values[lag];
+    if (value >= highest * PITCH_PEAK_TOLERANCE && value >= values[lag - 1] && value >= values[lag + 1]) {
+      // Parabolic interpolation between the neighbouring lags
+      const curvature = values[lag - 1] - 2 * value + values[lag + 1];
+      const shift = curvature < 0 ? (0.5 * (values[lag - 1] - values[lag + 1])) / curvature : 0;
+      return { frequency: sampleRate / (lag + shift), clarity: Math.min(1, value) };
+    }
+  }
+  return { frequency: 0, clarity: Math.min(1, highest) };
+}
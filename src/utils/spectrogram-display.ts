@@ -0,0 +1,254 @@
+import { hzToMel, melToHz } from './spectral-features';
+
+export type FrequencyScale = 'linear' | 'log' | 'mel';
+
+export type ColormapName = 'viridis' | 'magma' | 'inferno' | 'grayscale';
+
+// How the live spectrogram analyses and paints its input
+export interface LiveSpectrogramSettings {
+  fftSize: number;
+  minDecibels: number;
+  maxDecibels: number;
+  smoothing: number; // AnalyserNode smoothingTimeConstant, 0-1
+  frequencyScale: FrequencyScale;
+  colormap: ColormapName;
+}
+
+export const DEFAULT_LIVE_SPECTROGRAM_SETTINGS: LiveSpectrogramSettings = {
+  fftSize: 2048,
+  minDecibels: -90,
+  maxDecibels: -10,
+  smoothing: 0.85,
+  frequencyScale: 'log',
+  colormap: 'viridis'
+};
+
+// FFT sizes an AnalyserNode accepts that are useful for a live view
+export const LIVE_FFT_SIZES = [512, 1024, 2048, 4096, 8192, 16384];
+
+// The dB window never closes further than this
+export const MIN_DECIBEL_WINDOW = 10;
+
+// Lowest frequency shown on the log and mel scales, which can't start at 0 Hz
+export const MIN_DISPLAY_FREQUENCY = 20;
+
+// Colors at evenly spaced points of each map, sampled from matplotlib's perceptual colormaps
+const COLORMAP_STOPS: Record<ColormapName, [number, number, number][]> = {
+  viridis: [
+    [68, 1, 84], [71, 45, 123], [59, 82, 139], [44, 114, 142], [33, 145, 140],
+    [40, 174, 128], [94, 201, 98], [173, 220, 48], [253, 231, 37]
+  ],
+  magma: [
+    [0, 0, 4], [28, 16, 68], [79, 18, 123], [129, 37, 129], [181, 54, 122],
+    [229, 89, 100], [251, 135, 97], [254, 194, 135], [252, 253, 191]
+  ],
+  inferno: [
+    [0, 0, 4], [31, 12, 72], [85, 15, 109], [136, 34, 106], [186, 54, 85],
+    [227, 89, 51], [249, 142, 9], [249, 203, 53], [252, 255, 164]
+  ],
+  grayscale: [[0, 0, 0], [255, 255, 255]]
+};
+
+// Column values per history entry, kept for this long to scroll back through
+export interface SpectrogramHistory {
+  height: number;
+  capacity: number;
+  values: Uint8Array; // capacity columns of height values, bottom row first
+  pitches: Float32Array; // tracked pitch of each column in Hz, 0 when unpitched
+  count: number; // columns held, up to capacity
+  next: number; // slot the next column is written to
+}
+
+/**
+ * RGBA colors for every byte value of a colormap, so painting a pixel is a
+ * table lookup instead of an interpolation.
+ */
+export function createColorLookup(colormap: ColormapName): Uint8ClampedArray {
+  const stops = COLORMAP_STOPS[colormap];
+  const lookup = new Uint8ClampedArray(256 * 4);
+
+  for (let value = 0; value < 256; value++) {
+    const position = (value / 255) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    const ratio = position - index;
+    for (let component = 0; component < 3; component++) {
+      const from = stops[index][component];
+      lookup[value * 4 + component] = Math.round(from + ratio * (stops[index + 1][component] - from));
+    }
+    lookup[value * 4 + 3] = 255;
+  }
+
+  return lookup;
+}
+
+function toScale(frequency: number, scale: FrequencyScale): number {
+  if (scale === 'log') return Math.log(frequency);
+  if (scale === 'mel') return hzToMel(frequency);
+  return frequency;
+}
+
+function fromScale(value: number, scale: FrequencyScale): number {
+  if (scale === 'log') return Math.exp(value);
+  if (scale === 'mel') return melToHz(value);
+  return value;
+}
+
+// Frequency range a scale shows up to `maxFrequency`
+export function getDisplayRange(scale: FrequencyScale, maxFrequency: number): [number, number] {
+  return [scale === 'linear' ? 0 : MIN_DISPLAY_FREQUENCY, maxFrequency];
+}
+
+// Height of `frequency` on the scale, 0 at the bottom of the range and 1 at the top
+export function frequencyToPosition(frequency: number, scale: FrequencyScale, maxFrequency: number): number {
+  const [low, high] = getDisplayRange(scale, maxFrequency);
+  const clamped = Math.max(low, Math.min(high, frequency));
+  return (toScale(clamped, scale) - toScale(low, scale)) / (toScale(high, scale) - toScale(low, scale));
+}
+
+export function positionToFrequency(position: number, scale: FrequencyScale, maxFrequency: number): number {
+  const [low, high] = getDisplayRange(scale, maxFrequency);
+  return fromScale(toScale(low, scale) + position * (toScale(high, scale) - toScale(low, scale)), scale);
+}
+
+/**
+ * The bins each pixel row covers, bottom row first, as `start` and `end`
+ * (exclusive) indices. Every row covers at least one bin; rows finer than a
+ * bin repeat it.
+ */
+export function createRowBinMap(
+  height: number,
+  scale: FrequencyScale,
+  sampleRate: number,
+  fftSize: number
+): { start: Uint16Array; end: Uint16Array } {
+  const binCount = fftSize / 2;
+  const binWidth = sampleRate / fftSize;
+  const nyquist = sampleRate / 2;
+  const start = new Uint16Array(height);
+  const end = new Uint16Array(height);
+
+  for (let row = 0; row < height; row++) {
+    const low = positionToFrequency(row / height, scale, nyquist);
+    const high = positionToFrequency((row + 1) / height, scale, nyquist);
+    start[row] = Math.min(binCount - 1, Math.round(low / binWidth));
+    end[row] = Math.max(start[row] + 1, Math.min(binCount, Math.round(high / binWidth)));
+  }
+
+  return { start, end };
+}
+
+// Collapse a byte spectrum into one value per row, keeping each row's loudest bin
+export function mapSpectrumToRows(
+  spectrum: Uint8Array,
+  rows: { start: Uint16Array; end: Uint16Array },
+  column: Uint8Array
+): void {
+  for (let row = 0; row < column.length; row++) {
+    let value = 0;
+    for (let bin = rows.start[row]; bin < rows.end[row]; bin++) {
+      if (spectrum[bin] > value) value = spectrum[bin];
+    }
+    column[row] = value;
+  }
+}
+
+// Frequencies worth labelling on a scale, in Hz
+export function getFrequencyTicks(scale: FrequencyScale, maxFrequency: number): number[] {
+  if (scale === 'linear') {
+    const step = maxFrequency / 10;
+    return Array.from({ length: 11 }, (_, index) => Math.round(index * step));
+  }
+  return [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000].filter(frequency => frequency < maxFrequency);
+}
+
+export function createSpectrogramHistory(capacity: number, height: number): SpectrogramHistory {
+  return {
+    height,
+    capacity,
+    values: new Uint8Array(capacity * height),
+    pitches: new Float32Array(capacity),
+    count: 0,
+    next: 0
+  };
+}
+
+// Append a column, dropping the oldest once the history is full
+export function pushSpectrogramColumn(history: SpectrogramHistory, column: Uint8Array, pitch = 0): void {
+  history.values.set(column.subarray(0, history.height), history.next * history.height);
+  history.pitches[history.next] = pitch;
+  history.next = (history.next + 1) % history.capacity;
+  history.count = Math.min(history.count + 1, history.capacity);
+}
+
+// Slot of the column `age` columns before the newest, or -1 when it is not held
+export function getHistorySlot(history: SpectrogramHistory, age: number): number {
+  if (age < 0 || age >= history.count) return -1;
+  return (history.next - 1 - age + history.capacity) % history.capacity;
+}
+
+// Paint image columns `firstX` onwards, the rightmost being `offset` columns before the newest
+function paintHistoryColumns(
+  history: SpectrogramHistory,
+  image: { data: Uint8ClampedArray; width: number; height: number },
+  colors: Uint8ClampedArray,
+  offset: number,
+  firstX: number
+): void {
+  const { width, height, data } = image;
+  const rows = Math.min(height, history.height);
+
+  for (let x = firstX; x < width; x++) {
+    const slot = getHistorySlot(history, offset + width - 1 - x);
+    for (let y = 0; y < rows; y++) {
+      const pixel = (y * width + x) * 4;
+      if (slot < 0) {
+        data[pixel] = 0;
+        data[pixel + 1] = 0;
+        data[pixel + 2] = 0;
+        data[pixel + 3] = 255;
+        continue;
+      }
+      // Image rows run top down, history rows bottom up
+      const color = history.values[slot * history.height + (history.height - 1 - y)] * 4;
+      data[pixel] = colors[color];
+      data[pixel + 1] = colors[color + 1];
+      data[pixel + 2] = colors[color + 2];
+      data[pixel + 3] = 255;
+    }
+  }
+}
+
+/**
+ * Paint the history into an image whose rightmost column is `offset`
+ * columns before the newest. Columns older than the history are black.
+ */
+export function renderSpectrogramHistory(
+  history: SpectrogramHistory,
+  image: { data: Uint8ClampedArray; width: number; height: number },
+  colors: Uint8ClampedArray,
+  offset = 0
+): void {
+  paintHistoryColumns(history, image, colors, offset, 0);
+}
+
+/**
+ * Bring an image that showed the newest columns up to date after `columns`
+ * more were pushed: what it holds moves left and only the new columns are
+ * painted, instead of the whole image.
+ */
+export function scrollSpectrogramImage(
+  history: SpectrogramHistory,
+  image: { data: Uint8ClampedArray; width: number; height: number },
+  colors: Uint8ClampedArray,
+  columns: number
+): void {
+  const { width, height, data } = image;
+  const shift = Math.min(width, columns);
+  if (shift < width) {
+    for (let y = 0; y < height; y++) {
+      const row = y * width * 4;
+      data.copyWithin(row, row + shift * 4, row + width * 4);
+    }
+  }
+  paintHistoryColumns(history, image, colors, 0, width - shift);
+}
@@ -0,0 +1,195 @@
+import {
+  type AudioSignal,
+  type MonoCompatibilityWarning,
+  type StereoAnalysis,
+  type StereoBand
+} from '../types/audio';
+import { computeBandEnergies, FREQUENCY_BANDS } from './audio-mixing';
+
+// Length of each correlation reading, in seconds
+const CORRELATION_WINDOW = 0.1;
+
+// Length of the frames band energies are measured over, in seconds
+const BAND_FRAME_DURATION = 2048 / 44100;
+
+// Sample pairs kept for the vectorscope
+const VECTORSCOPE_POINTS = 4096;
+
+// Windows quieter than this (dBFS RMS over both channels) have no meaningful phase
+const SILENCE_DB = -50;
+
+// Stretches correlated below this, for at least the minimum duration, go out of phase
+const OUT_OF_PHASE_CORRELATION = -0.2;
+const MIN_OUT_OF_PHASE_DURATION = 0.3;
+
+// Bands that lose more than this many dB in mono are reported, unless they
+// are more than BAND_FLOOR_DB below the loudest band
+const BAND_CANCELLATION_DB = -6;
+const BAND_FLOOR_DB = -40;
+
+function toDecibels(power: number): number {
+  return power > 0 ? 10 * Math.log10(power) : -Infinity;
+}
+
+// The part of a mid/side energy split heard in mono, in dB
+function getMonoLoss(midPower: number, sidePower: number): number {
+  const total = midPower + sidePower;
+  return total > 0 ? toDecibels(midPower / total) : 0;
+}
+
+// Wrap channel data as a signal for band analysis, which averages the channels
+function toSignal(channels: Float32Array[], sampleRate: number): AudioSignal {
+  return {
+    sampleRate,
+    length: channels[0].length,
+    duration: channels[0].length / sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: channel => channels[channel]
+  };
+}
+
+/**
+ * Mid/side energy of every frequency band over the whole signal. The mid
+ * signal is the average of the channels; the side signal is passed in.
+ */
+function analyzeBands(left: Float32Array, right: Float32Array, side: Float32Array, sampleRate: number): StereoBand[] {
+  const frameCount = Math.ceil(left.length / sampleRate / BAND_FRAME_DURATION);
+  const sum = (frames: Float32Array) => frames.reduce((total, power) => total + power, 0);
+  const midEnergies = computeBandEnergies(toSignal([left, right], sampleRate), FREQUENCY_BANDS, BAND_FRAME_DURATION, frameCount);
+  const sideEnergies = computeBandEnergies(toSignal([side], sampleRate), FREQUENCY_BANDS, BAND_FRAME_DURATION, frameCount);
+
+  return FREQUENCY_BANDS.map((band, index) => {
+    const midPower = sum(midEnergies[index]) / frameCount;
+    const sidePower = sum(sideEnergies[index]) / frameCount;
+    const total = midPower + sidePower;
+    return {
+      name: band.name,
+      min: band.min,
+      max: band.max,
+      level: toDecibels(total),
+      width: total > 0 ? sidePower / total : 0,
+      correlation: total > 0 ? (midPower - sidePower) / total : 1,
+      monoLoss: getMonoLoss(midPower, sidePower)
+    };
+  });
+}
+
+// Stretches of at least the minimum duration where the correlation stays out of phase
+function findOutOfPhase(correlations: number[], duration: number): MonoCompatibilityWarning[] {
+  const warnings: MonoCompatibilityWarning[] = [];
+  let start = -1;
+  let total = 0;
+
+  correlations.forEach((correlation, index) => {
+    const isOutOfPhase = correlation < OUT_OF_PHASE_CORRELATION;
+    if (isOutOfPhase) {
+      if (start < 0) start = index;
+      total += correlation;
+    }
+    if (start >= 0 && (!isOutOfPhase || index === correlations.length - 1)) {
+      const end = isOutOfPhase ? index + 1 : index;
+      if ((end - start) * CORRELATION_WINDOW >= MIN_OUT_OF_PHASE_DURATION) {
+        warnings.push({
+          kind: 'out-of-phase',
+          start: start * CORRELATION_WINDOW,
+          end: Math.min(duration, end * CORRELATION_WINDOW),
+          band: null,
+          value: total / (end - start)
+        });
+      }
+      start = -1;
+      total = 0;
+    }
+  });
+
+  return warnings;
+}
+
+/**
+ * Analyze the stereo field of a signal from its first two channels:
+ * left/right correlation overall and over time, mid/side balance, width
+ * per frequency band, sample pairs for a vectorscope, and warnings for
+ * anything that cancels when the channels are summed to mono.
+ */
+export function analyzeStereo(signal: AudioSignal): StereoAnalysis {
+  const { sampleRate, length, duration } = signal;
+  const left = signal.getChannelData(0);
+  const right = signal.numberOfChannels > 1 ? signal.getChannelData(1) : left;
+  const isStereo = signal.numberOfChannels > 1;
+
+  const vectorscope = new Float32Array(Math.min(VECTORSCOPE_POINTS, length) * 2);
+  const stride = length / (vectorscope.length / 2);
+  for (let point = 0; point < vectorscope.length / 2; point++) {
+    const i = Math.floor(point * stride);
+    vectorscope[point * 2] = left[i];
+    vectorscope[point * 2 + 1] = right[i];
+  }
+
+  const windowLength = Math.max(1, Math.round(CORRELATION_WINDOW * sampleRate));
+  const silence = Math.pow(10, SILENCE_DB / 10) * 2;
+  const correlationOverTime: number[] = [];
+  const side = new Float32Array(isStereo ? length : 0);
+  let leftPower = 0;
+  let rightPower = 0;
+  let crossPower = 0;
+
+  for (let start = 0; start < length; start += windowLength) {
+    const end = Math.min(length, start + windowLength);
+    let windowLeft = 0;
+    let windowRight = 0;
+    let windowCross = 0;
+    for (let i = start; i < end; i++) {
+      windowLeft += left[i] * left[i];
+      windowRight += right[i] * right[i];
+      windowCross += left[i] * right[i];
+    }
+    if (isStereo) {
+      for (let i = start; i < end; i++) side[i] = (left[i] - right[i]) / 2;
+    }
+
+    const isSilent = (windowLeft + windowRight) / (end - start) < silence;
+    correlationOverTime.push(isSilent ? 0 : windowCross / Math.sqrt(windowLeft * windowRight || 1));
+    leftPower += windowLeft;
+    rightPower += windowRight;
+    crossPower += windowCross;
+  }
+
+  // Mid and side energy follow from the channel energies: L = M + S, R = M - S
+  const midPower = (leftPower + rightPower + 2 * crossPower) / 4 / Math.max(1, length);
+  const sidePower = (leftPower + rightPower - 2 * crossPower) / 4 / Math.max(1, length);
+  const correlation = leftPower > 0 && rightPower > 0 ? crossPower / Math.sqrt(leftPower * rightPower) : 0;
+
+  const bands = isStereo
+    ? analyzeBands(left, right, side, sampleRate)
+    : FREQUENCY_BANDS.map(band => ({
+        name: band.name,
+        min: band.min,
+        max: band.max,
+        level: -Infinity,
+        width: 0,
+        correlation: 1,
+        monoLoss: 0
+      }));
+
+  const warnings = isStereo ? findOutOfPhase(correlationOverTime, duration) : [];
+  const loudestBand = Math.max(...bands.map(band => band.level));
+  bands.forEach(band => {
+    if (band.monoLoss < BAND_CANCELLATION_DB && band.level > loudestBand + BAND_FLOOR_DB) {
+      warnings.push({ kind: 'band-cancels', start: 0, end: duration, band: band.name, value: band.monoLoss });
+    }
+  });
+
+  return {
+    isStereo,
+    correlation: isStereo ? correlation : 1,
+    correlationWindow: CORRELATION_WINDOW,
+    correlationOverTime,
+    midLevel: toDecibels(midPower),
+    sideLevel: toDecibels(Math.max(0, sidePower)),
+    width: midPower + sidePower > 0 ? Math.max(0, sidePower) / (midPower + sidePower) : 0,
+    monoLoss: getMonoLoss(midPower, Math.max(0, sidePower)),
+    bands,
+    vectorscope,
+    warnings
+  };
+}
@@ -0,0 +1,243 @@
+// Pure TypeScript short-time Fourier transform.
+// Runs without any Web Audio implementation, so it can be used offline,
+// in workers and in unit tests.
+
+export type WindowFunction = 'hann' | 'hamming' | 'blackman' | 'rectangular';
+
+export type SpectrumScale = 'magnitude' | 'power' | 'decibels';
+
+export interface STFTOptions {
+  fftSize?: number; // must be a power of two
+  hopSize?: number; // samples between consecutive frames
+  windowFunction?: WindowFunction;
+  scale?: SpectrumScale;
+  minDecibels?: number; // floor for the decibel scale
+}
+
+export const DEFAULT_STFT_OPTIONS: Required<STFTOptions> = {
+  fftSize: 2048,
+  hopSize: 512,
+  windowFunction: 'hann',
+  scale: 'decibels',
+  minDecibels: -100
+};
+
+interface FFTTables {
+  reverse: Uint32Array;
+  cos: Float32Array;
+  sin: Float32Array;
+}
+
+const fftTableCache = new Map<number, FFTTables>();
+const windowCache = new Map<string, Float32Array>();
+
+export function isPowerOfTwo(value: number): boolean {
+  return Number.isInteger(value) && value > 0 && (value & (value - 1)) === 0;
+}
+
+// Precompute bit-reversal permutation and twiddle factors for a given size
+function getFFTTables(size: number): FFTTables {
+  const cached = fftTableCache.get(size);
+  if (cached) return cached;
+
+  const bits = Math.log2(size);
+  const reverse = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let reversed = 0;
+    for (let b = 0; b < bits; b++) {
+      reversed = (reversed << 1) | ((i >> b) & 1);
+    }
+    reverse[i] = reversed;
+  }
+
+  const cos = new Float32Array(size / 2);
+  const sin = new Float32Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = -Math.sin((2 * Math.PI * i) / size);
+  }
+
+  const tables = { reverse, cos, sin };
+  fftTableCache.set(size, tables);
+  return tables;
+}
+
+/**
+ * In-place iterative radix-2 FFT.
+ * `real` and `imag` must have the same power-of-two length.
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const size = real.length;
+  if (!isPowerOfTwo(size) || imag.length !== size) {
+    throw new Error(`FFT size must be a power of two, got ${size}`);
+  }
+
+  const { reverse, cos, sin } = getFFTTables(size);
+
+  // Bit-reversal reordering
+  for (let i = 0; i < size; i++) {
+    const j = reverse[i];
+    if (j > i) {
+      const tr = real[i];
+      real[i] = real[j];
+      real[j] = tr;
+      const ti = imag[i];
+      imag[i] = imag[j];
+      imag[j] = ti;
+    }
+  }
+
+  // Butterfly passes
+  for (let blockSize = 2; blockSize <= size; blockSize <<= 1) {
+    const halfSize = blockSize >> 1;
+    const tableStep = size / blockSize;
+
+    for (let start = 0; start < size; start += blockSize) {
+      for (let k = 0; k < halfSize; k++) {
+        const wr = cos[k * tableStep];
+        const wi = sin[k * tableStep];
+        const even = start + k;
+        const odd = even + halfSize;
+
+        const oddReal = real[odd] * wr - imag[odd] * wi;
+        const oddImag = real[odd] * wi + imag[odd] * wr;
+
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+      }
+    }
+  }
+}
+
+/**
+ * Create (or reuse) a window of the given type and size
+ */
+export function createWindow(type: WindowFunction, size: number): Float32Array {
+  const key = `${type}:${size}`;
+  const cached = windowCache.get(key);
+  if (cached) return cached;
+
+  const window = new Float32Array(size);
+  const denominator = size - 1 || 1;
+
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / denominator;
+    switch (type) {
+      case 'hann':
+        window[i] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case 'hamming':
+        window[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case 'blackman':
+        window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+      default:
+        window[i] = 1;
+    }
+  }
+
+  windowCache.set(key, window);
+  return window;
+}
+
+// Convert a bin index to its center frequency in Hz
+export function binToFrequency(bin: number, fftSize: number, sampleRate: number): number {
+  return (bin * sampleRate) / fftSize;
+}
+
+// Convert a frequency in Hz to the nearest bin index
+export function frequencyToBin(frequency: number, fftSize: number, sampleRate: number): number {
+  return Math.round((frequency * fftSize) / sampleRate);
+}
+
+/**
+ * Compute the single-sided spectrum of one frame of samples.
+ * Magnitudes are normalized by the window's coherent gain, so a full-scale
+ * sine that falls on a bin center reads ~1.0 (0 dB).
+ */
+export function computeSpectrum(
+  frame: Float32Array,
+  options: STFTOptions = {}
+): Float32Array {
+  const { fftSize, windowFunction, scale, minDecibels } = { ...DEFAULT_STFT_OPTIONS, ...options };
+  if (!isPowerOfTwo(fftSize)) {
+    throw new Error(`FFT size must be a power of two, got ${fftSize}`);
+  }
+
+  const window = createWindow(windowFunction, fftSize);
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+
+  let windowSum = 0;
+  const length = Math.min(frame.length, fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    windowSum += window[i];
+    if (i < length) {
+      real[i] = frame[i] * window[i];
+    }
+  }
+
+  fft(real, imag);
+
+  const binCount = fftSize / 2 + 1;
+  const spectrum = new Float32Array(binCount);
+  const normalization = 2 / windowSum;
+
+  for (let i = 0; i < binCount; i++) {
+    // DC and Nyquist bins have no mirrored counterpart
+    const factor = i === 0 || i === fftSize / 2 ? normalization / 2 : normalization;
+    const magnitude = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) * factor;
+
+    if (scale === 'magnitude') {
+      spectrum[i] = magnitude;
+    } else if (scale === 'power') {
+      spectrum[i] = magnitude * magnitude;
+    } else {
+      spectrum[i] = magnitude > 0 ? Math.max(minDecibels, 20 * Math.log10(magnitude)) : minDecibels;
+    }
+  }
+
+  return spectrum;
+}
+
+/**
+ * Short-time Fourier transform of a mono signal.
+ * Returns one spectrum (fftSize / 2 + 1 bins) per hop. The final partial
+ * frame is zero-padded so the tail of the signal is not dropped.
+ * `onProgress` receives the fraction of frames computed so far.
+ */
+export function computeSTFT(
+  samples: Float32Array,
+  options: STFTOptions = {},
+  onProgress?: (fraction: number) => void
+): Float32Array[] {
+  const resolved = { ...DEFAULT_STFT_OPTIONS, ...options };
+  const { fftSize, hopSize } = resolved;
+
+  if (!isPowerOfTwo(fftSize)) {
+    throw new Error(`FFT size must be a power of two, got ${fftSize}`);
+  }
+  if (!Number.isInteger(hopSize) || hopSize <= 0) {
+    throw new Error(`Hop size must be a positive integer, got ${hopSize}`);
+  }
+
+  const frames: Float32Array[] = [];
+  if (samples.length === 0) return frames;
+
+  const frameCount = Math.max(1, Math.ceil((samples.length - fftSize) / hopSize) + 1);
+  const progressInterval = Math.max(1, Math.floor(frameCount / 20));
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * hopSize;
+    const segment = samples.subarray(offset, Math.min(offset + fftSize, samples.length));
+    frames.push(computeSpectrum(segment, resolved));
+
+    if (onProgress && (frame + 1) % progressInterval === 0) {
+      onProgress((frame + 1) / frameCount);
+    }
+  }
+
+  return frames;
+}
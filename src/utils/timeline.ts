@@ -0,0 +1,106 @@
+import { type SpatialAudioData, type TimelineClip } from '../types/spatial-audio';
+
+// Shortest region a clip can be trimmed to, and the shortest looping clip
+export const MIN_CLIP_SECONDS = 0.05;
+
+/**
+ * A clip that plays a whole file of `duration` seconds once, starting at
+ * `start` on the timeline.
+ */
+export function createClip(duration: number, start = 0): TimelineClip {
+  return {
+    start,
+    trimStart: 0,
+    trimEnd: duration,
+    loop: false,
+    loopLength: duration,
+    fadeIn: 0,
+    fadeOut: 0
+  };
+}
+
+// The clip a source plays, defaulting to its whole file from the start
+export function getSourceClip(source: Pick<SpatialAudioData, 'clip' | 'buffer'>): TimelineClip {
+  return source.clip ?? createClip(source.buffer.duration);
+}
+
+// Seconds of the file between the trim points
+export function getClipRegion(clip: TimelineClip): number {
+  return clip.trimEnd - clip.trimStart;
+}
+
+/**
+ * Seconds a clip lasts on the timeline. The trimmed region plays faster at
+ * higher playback speeds; a looping clip lasts its loop length regardless.
+ */
+export function getClipLength(clip: TimelineClip, playbackSpeed: number): number {
+  return clip.loop ? clip.loopLength : getClipRegion(clip) / playbackSpeed;
+}
+
+export function getClipEnd(clip: TimelineClip, playbackSpeed: number): number {
+  return clip.start + getClipLength(clip, playbackSpeed);
+}
+
+// Where the last clip ends, in timeline seconds
+export function getTimelineDuration(
+  sources: Pick<SpatialAudioData, 'clip' | 'buffer'>[],
+  playbackSpeed: number
+): number {
+  return Math.max(0, ...sources.map(source => getClipEnd(getSourceClip(source), playbackSpeed)));
+}
+
+// Room to drag clips past the current end of the timeline
+const VIEW_PADDING = 1.25;
+const MIN_VIEW_SECONDS = 10;
+
+// Seconds shown across the timeline lanes for a timeline of `duration` seconds
+export function getTimelineViewDuration(duration: number): number {
+  return Math.max(duration * VIEW_PADDING, MIN_VIEW_SECONDS);
+}
+
+/**
+ * What to play of a clip from timeline position `position` on: the offset
+ * into the file and how many seconds of the file remain, looping regions
+ * wrapped back to the trim start. Null when the clip isn't playing then.
+ */
+export function getClipPlayback(
+  clip: TimelineClip,
+  playbackSpeed: number,
+  position: number
+): { offset: number; duration: number } | null {
+  const elapsed = position - clip.start;
+  const length = getClipLength(clip, playbackSpeed);
+  if (elapsed < 0 || elapsed >= length) return null;
+
+  const played = elapsed * playbackSpeed;
+  return {
+    offset: clip.trimStart + (clip.loop ? played % getClipRegion(clip) : played),
+    duration: (length - elapsed) * playbackSpeed
+  };
+}
+
+/**
+ * Keep a clip playable for a file of `duration` seconds: on the timeline,
+ * trimmed to a region of the file at least MIN_CLIP_SECONDS long, and with
+ * fades that fit inside the clip.
+ */
+export function normalizeClip(clip: TimelineClip, duration: number): TimelineClip {
+  const minRegion = Math.min(MIN_CLIP_SECONDS, duration);
+  const trimStart = Math.min(Math.max(clip.trimStart, 0), duration - minRegion);
+  const trimEnd = Math.min(Math.max(clip.trimEnd, trimStart + minRegion), duration);
+  const loopLength = Math.max(clip.loopLength, MIN_CLIP_SECONDS);
+
+  const length = clip.loop ? loopLength : trimEnd - trimStart;
+  const fadeIn = Math.min(Math.max(clip.fadeIn, 0), length);
+  const fadeOut = Math.min(Math.max(clip.fadeOut, 0), length - fadeIn);
+
+  return {
+    start: Math.max(clip.start, 0),
+    trimStart,
+    trimEnd,
+    loop: clip.loop,
+    loopLength,
+    fadeIn,
+    fadeOut
+  };
+}
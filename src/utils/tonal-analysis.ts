@@ -0,0 +1,287 @@
+import {
+  type Beat,
+  type ChordSegment,
+  type KeyEstimate,
+  type SpectrogramData
+} from '../types/audio';
+import { DEFAULT_STFT_OPTIONS } from './stft';
+
+export const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export interface ChromaOptions {
+  minFrequency?: number;
+  maxFrequency?: number;
+  referenceA4?: number;
+}
+
+const DEFAULT_CHROMA_OPTIONS: Required<ChromaOptions> = {
+  minFrequency: 80,
+  maxFrequency: 5000,
+  referenceA4: 440
+};
+
+// Krumhansl-Kessler key profiles, starting on the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Pitch classes of triads relative to their root
+const CHORD_INTERVALS = {
+  major: [0, 4, 7],
+  minor: [0, 3, 7]
+};
+
+// Segments quieter than this share of the loudest segment are labeled 'N'
+const NO_CHORD_ENERGY_RATIO = 0.01;
+
+// Window used to segment chords when no beats are available, in seconds
+const DEFAULT_CHORD_WINDOW = 0.5;
+
+// Map every FFT bin to a pitch class (or -1 when outside the analysed range)
+const pitchClassCache = new Map<string, Int8Array>();
+
+function getPitchClassMap(
+  binCount: number,
+  fftSize: number,
+  sampleRate: number,
+  { minFrequency, maxFrequency, referenceA4 }: Required<ChromaOptions>
+): Int8Array {
+  const key = `${binCount}:${fftSize}:${sampleRate}:${minFrequency}:${maxFrequency}:${referenceA4}`;
+  const cached = pitchClassCache.get(key);
+  if (cached) return cached;
+
+  const map = new Int8Array(binCount).fill(-1);
+  for (let bin = 1; bin < binCount; bin++) {
+    const frequency = (bin * sampleRate) / fftSize;
+    if (frequency < minFrequency || frequency > maxFrequency) continue;
+
+    const midi = 69 + 12 * Math.log2(frequency / referenceA4);
+    map[bin] = ((Math.round(midi) % 12) + 12) % 12;
+  }
+
+  pitchClassCache.set(key, map);
+  return map;
+}
+
+/**
+ * Fold one decibel spectrum into a 12-bin pitch class profile (C..B).
+ * The profile holds summed linear magnitude, so louder frames weigh more.
+ */
+export function computeChroma(
+  frame: Float32Array,
+  fftSize: number,
+  sampleRate: number,
+  options: ChromaOptions = {}
+): Float32Array {
+  const resolved = { ...DEFAULT_CHROMA_OPTIONS, ...options };
+  const pitchClasses = getPitchClassMap(frame.length, fftSize, sampleRate, resolved);
+  const chroma = new Float32Array(12);
+
+  for (let bin = 0; bin < frame.length; bin++) {
+    const pitchClass = pitchClasses[bin];
+    if (pitchClass >= 0) {
+      chroma[pitchClass] += Math.pow(10, frame[bin] / 20);
+    }
+  }
+
+  return chroma;
+}
+
+/**
+ * Chromagram: one pitch class profile per spectrogram frame
+ */
+export function computeChromagram(
+  spectrogram: SpectrogramData,
+  sampleRate: number,
+  options: ChromaOptions = {}
+): Float32Array[] {
+  const fftSize = spectrogram.fftSize ?? DEFAULT_STFT_OPTIONS.fftSize;
+  return spectrogram.data.map(frame => computeChroma(frame, fftSize, sampleRate, options));
+}
+
+// Pearson correlation between two equally long vectors
+function correlate(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const length = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < length; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= length;
+  meanB /= length;
+
+  let numerator = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < length; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    numerator += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  const denominator = Math.sqrt(varianceA * varianceB);
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Estimate the key of a pitch class profile by correlating it with the
+ * Krumhansl-Kessler profiles rotated to all 24 major and minor keys.
+ */
+export function estimateKey(profile: ArrayLike<number>): KeyEstimate {
+  let best: KeyEstimate = { tonic: 'C', mode: 'major', name: 'C major', confidence: 0 };
+  let bestCorrelation = -Infinity;
+
+  for (let tonic = 0; tonic < 12; tonic++) {
+    for (const mode of ['major', 'minor'] as const) {
+      const template = mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE;
+      const rotated = PITCH_CLASSES.map((_, pitchClass) => template[(pitchClass - tonic + 12) % 12]);
+      const correlation = correlate(profile, rotated);
+
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        best = {
+          tonic: PITCH_CLASSES[tonic],
+          mode,
+          name: `${PITCH_CLASSES[tonic]} ${mode}`,
+          confidence: Math.max(0, correlation)
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+// Score a chroma vector against every major and minor triad
+function matchChord(chroma: Float32Array): { root: number; quality: 'major' | 'minor'; score: number } {
+  let norm = 0;
+  for (let i = 0; i < 12; i++) norm += chroma[i] * chroma[i];
+  norm = Math.sqrt(norm) || 1;
+
+  let best = { root: 0, quality: 'major' as 'major' | 'minor', score: -Infinity };
+  for (let root = 0; root < 12; root++) {
+    for (const quality of ['major', 'minor'] as const) {
+      // Cosine similarity with a binary triad template
+      let dot = 0;
+      CHORD_INTERVALS[quality].forEach(interval => {
+        dot += chroma[(root + interval) % 12];
+      });
+      const score = dot / (norm * Math.sqrt(3));
+
+      if (score > best.score) {
+        best = { root, quality, score };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Label chords over time. Segments follow the beat grid when beats are
+ * given, otherwise fixed windows; neighbouring segments with the same chord
+ * are merged.
+ */
+export function detectChords(
+  chromagram: Float32Array[],
+  frameToTime: (frame: number) => number,
+  boundaries: number[] = []
+): ChordSegment[] {
+  if (chromagram.length === 0) return [];
+
+  const endTime = frameToTime(chromagram.length - 1);
+  let edges = boundaries.filter(time => time > 0 && time < endTime);
+  if (edges.length === 0) {
+    edges = [];
+    for (let time = DEFAULT_CHORD_WINDOW; time < endTime; time += DEFAULT_CHORD_WINDOW) {
+      edges.push(time);
+    }
+  }
+  edges = [0, ...edges, endTime];
+
+  // Average chroma over each segment
+  const segments: { start: number; end: number; chroma: Float32Array; energy: number }[] = [];
+  let frame = 0;
+  for (let i = 0; i < edges.length - 1; i++) {
+    const chroma = new Float32Array(12);
+    let count = 0;
+    while (frame < chromagram.length && frameToTime(frame) < edges[i + 1]) {
+      for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+        chroma[pitchClass] += chromagram[frame][pitchClass];
+      }
+      frame++;
+      count++;
+    }
+    if (count === 0) continue;
+
+    let energy = 0;
+    for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+      chroma[pitchClass] /= count;
+      energy += chroma[pitchClass];
+    }
+    segments.push({ start: edges[i], end: edges[i + 1], chroma, energy });
+  }
+
+  const maxEnergy = Math.max(0, ...segments.map(segment => segment.energy));
+  const chords: ChordSegment[] = [];
+
+  for (const segment of segments) {
+    let chord: ChordSegment;
+    if (maxEnergy <= 0 || segment.energy < maxEnergy * NO_CHORD_ENERGY_RATIO) {
+      chord = { start: segment.start, end: segment.end, label: 'N', root: null, quality: null, confidence: 0 };
+    } else {
+      const match = matchChord(segment.chroma);
+      chord = {
+        start: segment.start,
+        end: segment.end,
+        label: `${PITCH_CLASSES[match.root]}${match.quality === 'minor' ? 'm' : ''}`,
+        root: PITCH_CLASSES[match.root],
+        quality: match.quality,
+        confidence: Math.max(0, Math.min(1, match.score))
+      };
+    }
+
+    const previous = chords[chords.length - 1];
+    if (previous && previous.label === chord.label) {
+      const previousDuration = previous.end - previous.start;
+      const duration = chord.end - chord.start;
+      previous.confidence =
+        (previous.confidence * previousDuration + chord.confidence * duration) / (previousDuration + duration);
+      previous.end = chord.end;
+    } else {
+      chords.push(chord);
+    }
+  }
+
+  return chords;
+}
+
+/**
+ * Key and chord timeline for a decibel spectrogram
+ */
+export function analyzeHarmony(
+  spectrogram: SpectrogramData,
+  sampleRate: number,
+  beats: Beat[] = [],
+  options: ChromaOptions = {}
+): { key: KeyEstimate; chords: ChordSegment[] } {
+  const fftSize = spectrogram.fftSize ?? DEFAULT_STFT_OPTIONS.fftSize;
+  const hopSize = spectrogram.hopSize ?? DEFAULT_STFT_OPTIONS.hopSize;
+  const frameToTime = (frame: number) => (frame * hopSize + fftSize / 2) / sampleRate;
+
+  const chromagram = computeChromagram(spectrogram, sampleRate, options);
+
+  const profile = new Float32Array(12);
+  chromagram.forEach(chroma => {
+    for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+      profile[pitchClass] += chroma[pitchClass];
+    }
+  });
+
+  return {
+    key: estimateKey(profile),
+    chords: detectChords(chromagram, frameToTime, beats.map(beat => beat.time))
+  };
+}
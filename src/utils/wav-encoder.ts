@@ -0,0 +1,111 @@
+import { type AudioSignal } from '../types/audio';
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavEncodeOptions {
+  bitDepth?: WavBitDepth; // 16 and 24 are integer PCM, 32 is IEEE float
+}
+
+// WAVE format tags
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+/**
+ * Size in bytes of the header written in front of the sample data.
+ * PCM uses the canonical 44-byte header; float files carry the extended
+ * 18-byte fmt chunk and the fact chunk required for non-PCM formats.
+ */
+export function getWavHeaderSize(bitDepth: WavBitDepth): number {
+  return bitDepth === 32 ? 58 : 44;
+}
+
+/**
+ * Encode audio as a RIFF/WAVE file with interleaved channels.
+ * Integer samples are clipped to [-1, 1] and rounded; float samples are
+ * written unchanged.
+ */
+export function encodeWav(audio: AudioSignal, options: WavEncodeOptions = {}): ArrayBuffer {
+  const bitDepth = options.bitDepth ?? 16;
+  if (bitDepth !== 16 && bitDepth !== 24 && bitDepth !== 32) {
+    throw new Error(`Unsupported WAV bit depth: ${bitDepth}`);
+  }
+
+  const isFloat = bitDepth === 32;
+  const { numberOfChannels, sampleRate, length } = audio;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const headerSize = getWavHeaderSize(bitDepth);
+
+  const buffer = new ArrayBuffer(headerSize + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF chunk descriptor
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, headerSize - 8 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt sub-chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, isFloat ? 18 : 16, true);
+  view.setUint16(20, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  let offset = 36;
+  if (isFloat) {
+    view.setUint16(offset, 0, true); // no extension bytes
+    writeString(view, offset + 2, 'fact');
+    view.setUint32(offset + 6, 4, true);
+    view.setUint32(offset + 10, length, true); // samples per channel
+    offset += 14;
+  }
+
+  // data sub-chunk
+  writeString(view, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    channels.push(audio.getChannelData(channel));
+  }
+
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const sample = channels[channel][i];
+
+      if (isFloat) {
+        view.setFloat32(offset, sample, true);
+      } else {
+        const clipped = Math.max(-1, Math.min(1, sample));
+        if (bitDepth === 16) {
+          view.setInt16(offset, Math.round(clipped < 0 ? clipped * 0x8000 : clipped * 0x7fff), true);
+        } else {
+          const value = Math.round(clipped < 0 ? clipped * 0x800000 : clipped * 0x7fffff);
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setUint8(offset + 2, (value >> 16) & 0xff);
+        }
+      }
+
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
+
+// Encode audio as a WAV Blob ready for download
+export function createWavBlob(audio: AudioSignal, options: WavEncodeOptions = {}): Blob {
+  return new Blob([encodeWav(audio, options)], { type: 'audio/wav' });
+}
@@ -0,0 +1,45 @@
+import type { AnalysisProgress, AudioSignal } from '../types/audio';
+import { analyzeAudio, extractFeatures } from '../utils/audio-processing';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from '../utils/audio-pipeline';
+import { getDescriptorBuffers } from '../utils/feature-extraction';
+
+// Wrap transferred channel data in the shape the analysis functions expect
+function createSignal(request: AnalysisWorkerRequest): AudioSignal {
+  const { channels, sampleRate } = request;
+  const length = channels[0]?.length ?? 0;
+
+  return {
+    sampleRate,
+    length,
+    duration: length / sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: (channel: number) => channels[channel]
+  };
+}
+
+function post(message: AnalysisWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  try {
+    const signal = createSignal(event.data);
+    const onProgress = (progress: AnalysisProgress) => {
+      post({ type: 'progress', progress });
+    };
+
+    const features = extractFeatures(signal, onProgress);
+    const analysis = analyzeAudio(signal, features, onProgress);
+
+    // Hand the spectrogram frames, descriptors and vectorscope points back without copying them
+    const transfer: Transferable[] = features.spectrogram.data.map(frame => frame.buffer);
+    if (features.descriptors) transfer.push(...getDescriptorBuffers(features.descriptors));
+    if (features.stereo) transfer.push(features.stereo.vectorscope.buffer);
+    post({ type: 'result', features, analysis }, transfer);
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Audio analysis failed'
+    });
+  }
+};
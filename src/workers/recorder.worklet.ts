@@ -0,0 +1,66 @@
+import { RECORDER_PROCESSOR_NAME, type RecorderMessage } from '../utils/recording';
+
+// Captures its input as raw PCM and hands it to the main thread in batches.
+// Runs in the AudioWorkletGlobalScope, which the DOM typings do not describe.
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  abstract process(inputs: Float32Array[][]): boolean;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+// Render quanta collected before a batch is posted, about 45 ms at 44.1 kHz
+const QUANTA_PER_BATCH = 16;
+
+class TakeRecorderProcessor extends AudioWorkletProcessor {
+  private batch: Float32Array[][] = [];
+  private channelCount = 0;
+  private stopped = false;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<'stop'>) => {
+      if (event.data === 'stop') this.stopped = true;
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    if (this.stopped) {
+      this.flush();
+      this.port.postMessage({ type: 'done' } satisfies RecorderMessage);
+      return false;
+    }
+
+    // Nothing arrives until the source is connected
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    // A take keeps the channel count it started with
+    if (this.channelCount === 0) this.channelCount = input.length;
+    this.batch.push(
+      Array.from({ length: this.channelCount }, (_, channel) => (input[channel] ?? input[0]).slice())
+    );
+
+    if (this.batch.length >= QUANTA_PER_BATCH) this.flush();
+    return true;
+  }
+
+  private flush() {
+    if (this.batch.length === 0) return;
+
+    const length = this.batch.reduce((sum, quantum) => sum + quantum[0].length, 0);
+    const channels = Array.from({ length: this.channelCount }, (_, channel) => {
+      const samples = new Float32Array(length);
+      let offset = 0;
+      this.batch.forEach(quantum => {
+        samples.set(quantum[channel], offset);
+        offset += quantum[channel].length;
+      });
+      return samples;
+    });
+
+    this.batch = [];
+    this.port.postMessage({ type: 'chunk', channels } satisfies RecorderMessage, channels.map(samples => samples.buffer));
+  }
+}
+
+registerProcessor(RECORDER_PROCESSOR_NAME, TakeRecorderProcessor);